@@ -158,7 +158,7 @@ abstract contract Sphinx {
         address deployer;
         if (_executionMode == ExecutionMode.LiveNetworkCLI) {
             sphinxUtils.validateLiveNetworkCLI(IGnosisSafe(safeAddress()), address(this));
-            deployer = vm.addr(vm.envUint("PRIVATE_KEY"));
+            deployer = sphinxUtils.getLiveNetworkDeployer();
         } else if (_executionMode == ExecutionMode.LocalNetworkCLI) {
             // Set the `ManagedService` contract as the deployer. Although this isn't strictly
             // necessary, it allows us to reuse the DevOps Platform logic for local network
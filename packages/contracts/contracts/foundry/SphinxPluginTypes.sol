@@ -139,6 +139,7 @@ struct UserSphinxConfig {
     string projectName;
     string[] mainnets;
     string[] testnets;
+    bool arbitraryChain;
 }
 
 struct InternalSphinxConfig {
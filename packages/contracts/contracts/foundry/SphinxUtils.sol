@@ -301,6 +301,27 @@ contract SphinxUtils is SphinxConstants {
         );
     }
 
+    /**
+     * @notice Returns the address of the deployer on a live network. The CLI sets the
+     *         `SPHINX_INTERNAL__DEPLOYER_ADDRESS` environment variable to the address of the
+     *         user's signer, which may be a remote signer or a keystore. If it isn't set, we use
+     *         the address of the `PRIVATE_KEY` environment variable.
+     */
+    function getLiveNetworkDeployer() public view returns (address) {
+        // We use a try/catch instead of `vm.envOr` because `vm.envOr` is a potentially
+        // state-changing operation, which means this entire function would need to be marked as
+        // state-changing. However, we shouldn't do that because this call would be broadcasted.
+        try vm.envAddress("SPHINX_INTERNAL__DEPLOYER_ADDRESS") returns (address _deployer) {
+            return _deployer;
+        } catch {}
+
+        try vm.envUint("PRIVATE_KEY") returns (uint256 _privateKey) {
+            return vm.addr(_privateKey);
+        } catch {
+            revert("Sphinx: Did not detect 'PRIVATE_KEY' environment variable.");
+        }
+    }
+
     /**
      * @notice Performs validation for a broadcast on a live network (i.e. not an Anvil or Hardhat
      *         node).
@@ -312,23 +333,13 @@ contract SphinxUtils is SphinxConstants {
             "Sphinx: You cannot use the Deploy CLI with projects that have multiple owners."
         );
 
-        // We use a try/catch instead of `vm.envOr` because `vm.envOr` is a potentially
-        // state-changing operation, which means this entire function would need to be marked as
-        // state-changing. However, we shouldn't do that because this call would be broadcasted.
-        uint256 privateKey;
-        try vm.envUint("PRIVATE_KEY") returns (uint256 _privateKey) {
-            privateKey = _privateKey;
-        } catch {
-            revert("Sphinx: Did not detect 'PRIVATE_KEY' environment variable.");
-        }
-
-        address deployer = vm.addr(privateKey);
+        address deployer = getLiveNetworkDeployer();
         require(
             deployer == _project.defaultSafe.owners[0],
             string(
                 abi.encodePacked(
-                    "Sphinx: The address corresponding to your 'PRIVATE_KEY' environment variable must match the address in the 'owners' array.\n",
-                    "Address of your env variable: ",
+                    "Sphinx: The address of your deployer must match the address in the 'owners' array.\n",
+                    "Address of your deployer: ",
                     vm.toString(deployer),
                     "\n",
                     "Address in the 'owners' array: ",
@@ -1042,7 +1053,7 @@ contract SphinxUtils is SphinxConstants {
         deploymentInfo.initialState = getInitialChainState(safe, ISphinxModule(module));
         deploymentInfo.nonce = getMerkleRootNonce(ISphinxModule(module));
         deploymentInfo.sphinxLibraryVersion = getSphinxLibraryVersion();
-        deploymentInfo.arbitraryChain = false;
+        deploymentInfo.arbitraryChain = _config.arbitraryChain;
         deploymentInfo.requireSuccess = true;
 
         // We fill the block number in later in Typescript. We have to do this using a call to the rpc provider
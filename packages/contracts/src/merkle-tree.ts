@@ -1,5 +1,8 @@
 import { StandardMerkleTree } from '@openzeppelin/merkle-tree'
-import { AbiCoder } from 'ethers'
+import { AbiCoder, concat, keccak256 } from 'ethers'
+
+import { decodeApproveLeafData } from './utils'
+import { DecodedApproveLeafData } from './types'
 
 /**
  * @notice TypeScript representation of SphinxLeafType.
@@ -377,3 +380,203 @@ export const makeSphinxMerkleTree = (
   const leaves = makeSphinxLeaves(deploymentData)
   return makeSphinxMerkleTreeFromLeaves(leaves)
 }
+
+/**
+ * @notice Calculates the hash of a `SphinxLeaf` in the same manner as `SphinxModule._getLeafHash`,
+ * i.e. the ABI encoded leaf double-hashed using `keccak256`.
+ *
+ * @param leaf The leaf to hash.
+ * @returns    The leaf's hash.
+ */
+export const getSphinxLeafHash = (leaf: SphinxLeaf): string => {
+  const encoded = AbiCoder.defaultAbiCoder().encode(
+    ['tuple(uint256, uint256, uint8, bytes)'],
+    [[leaf.chainId, leaf.index, leaf.leafType, leaf.data]]
+  )
+  return keccak256(keccak256(encoded))
+}
+
+/**
+ * @notice Checks a Merkle proof in the same manner as OpenZeppelin's `MerkleProof.verify`, which is
+ * called by the `SphinxModule`. Each pair of hashes is sorted before it's hashed.
+ *
+ * @param root     The root of the Merkle tree.
+ * @param leafHash The hash of the leaf, which is calculated by `getSphinxLeafHash`.
+ * @param proof    The leaf's Merkle proof.
+ * @returns        True if the proof is valid.
+ */
+export const verifySphinxMerkleProof = (
+  root: string,
+  leafHash: string,
+  proof: Array<string>
+): boolean => {
+  const computed = proof.reduce((hash, sibling) => {
+    const [a, b] =
+      BigInt(hash) < BigInt(sibling) ? [hash, sibling] : [sibling, hash]
+    return keccak256(concat([a, b]))
+  }, leafHash)
+  return computed.toLowerCase() === root.toLowerCase()
+}
+
+/**
+ * @notice Verifies a `SphinxMerkleTree` that was generated elsewhere, e.g. a tree downloaded from the
+ * Sphinx DevOps Platform, without trusting the logic that generated it. Checks that:
+ * - The proof of every leaf is valid for the root, using leaf hashes calculated in the same manner
+ * as the `SphinxModule`.
+ * - The root is the root of the tree built from the leaves with `makeSphinxMerkleTreeFromLeaves`,
+ * which means the tree doesn't contain any other leaves and that the leaves are ordered by their
+ * hash (invariant 9).
+ * - The tree satisfies invariants 2-8 in the Sphinx Merkle tree specification.
+ * - The `numLeaves` in each `APPROVE` leaf is equal to the number of leaves on its chain.
+ *
+ * @param tree The `SphinxMerkleTree` to verify.
+ * @throws     An error that lists every problem if the tree isn't valid.
+ */
+export const verifySphinxMerkleTree = (tree: SphinxMerkleTree): void => {
+  const problems: Array<string> = []
+
+  // The leaves may have been parsed from JSON, in which case the numeric fields are strings.
+  const leaves: Array<SphinxLeaf> = tree.leavesWithProofs.map(({ leaf }) => ({
+    chainId: BigInt(leaf.chainId),
+    index: BigInt(leaf.index),
+    leafType: Number(leaf.leafType),
+    data: leaf.data,
+  }))
+  const describeLeaf = (leaf: SphinxLeaf) =>
+    `${SphinxLeafType[leaf.leafType] ?? 'Unknown'} leaf on chain ${
+      leaf.chainId
+    } at index ${leaf.index}`
+
+  if (leaves.length === 0) {
+    throw new Error(`Invalid Sphinx Merkle tree: The tree has no leaves.`)
+  }
+
+  leaves.forEach((leaf, i) => {
+    if (SphinxLeafType[leaf.leafType] === undefined) {
+      problems.push(`${describeLeaf(leaf)} has an unknown leaf type.`)
+    } else if (
+      !verifySphinxMerkleProof(
+        tree.root,
+        getSphinxLeafHash(leaf),
+        tree.leavesWithProofs[i].proof
+      )
+    ) {
+      problems.push(`${describeLeaf(leaf)} has an invalid Merkle proof.`)
+    }
+  })
+
+  // We only rebuild the tree if every leaf type is valid because the leaves can't be encoded
+  // otherwise.
+  if (
+    problems.length === 0 &&
+    makeSphinxMerkleTreeFromLeaves(leaves).root.toLowerCase() !==
+      tree.root.toLowerCase()
+  ) {
+    problems.push(
+      `The root isn't equal to the root of a tree built from the leaves. The tree may contain other leaves, or its leaves may not be ordered by their hash.`
+    )
+  }
+
+  // Group the leaves by chain ID.
+  const chains: Record<string, Array<SphinxLeaf>> = {}
+  for (const leaf of leaves) {
+    const chainId = leaf.chainId.toString()
+    chains[chainId] = [...(chains[chainId] ?? []), leaf]
+  }
+
+  let hasArbitraryApproval = false
+  let numApproveAndCancelLeaves = 0
+  for (const [chainId, chainLeaves] of Object.entries(chains)) {
+    const approveLeaves = chainLeaves.filter(
+      (leaf) => leaf.leafType === SphinxLeafType.APPROVE
+    )
+    const cancelLeaves = chainLeaves.filter(
+      (leaf) => leaf.leafType === SphinxLeafType.CANCEL
+    )
+    const executeLeaves = chainLeaves
+      .filter((leaf) => leaf.leafType === SphinxLeafType.EXECUTE)
+      .sort((a, b) => (a.index < b.index ? -1 : a.index > b.index ? 1 : 0))
+    numApproveAndCancelLeaves += approveLeaves.length + cancelLeaves.length
+
+    // Invariant 2
+    if (approveLeaves.length + cancelLeaves.length !== 1) {
+      problems.push(
+        `Chain ${chainId} has ${approveLeaves.length} APPROVE and ${cancelLeaves.length} CANCEL leaves, but it must have exactly one APPROVE or CANCEL leaf.`
+      )
+    }
+
+    // Invariant 7
+    for (const leaf of [...approveLeaves, ...cancelLeaves]) {
+      if (leaf.index !== BigInt(0)) {
+        problems.push(`${describeLeaf(leaf)} must have an index of 0.`)
+      }
+    }
+
+    if (executeLeaves.length > 0) {
+      // Invariants 4 and 5
+      if (approveLeaves.length === 0) {
+        problems.push(
+          `Chain ${chainId} has EXECUTE leaves, but it doesn't have an APPROVE leaf.`
+        )
+      }
+      if (cancelLeaves.length > 0) {
+        problems.push(
+          `Chain ${chainId} has EXECUTE leaves and a CANCEL leaf, which isn't allowed.`
+        )
+      }
+
+      // Invariants 6 and 8
+      const isContiguous = executeLeaves.every(
+        (leaf, i) => leaf.index === BigInt(i + 1)
+      )
+      if (!isContiguous) {
+        problems.push(
+          `The EXECUTE leaves on chain ${chainId} must have the indexes 1 to ${
+            executeLeaves.length
+          }, but they have the indexes: ${executeLeaves
+            .map((leaf) => leaf.index.toString())
+            .join(', ')}.`
+        )
+      }
+    }
+
+    for (const leaf of approveLeaves) {
+      let decoded: DecodedApproveLeafData
+      try {
+        decoded = decodeApproveLeafData(leaf)
+      } catch (e) {
+        problems.push(`${describeLeaf(leaf)} has data that can't be decoded.`)
+        continue
+      }
+      const { numLeaves, arbitraryChain } = decoded
+
+      if (arbitraryChain) {
+        hasArbitraryApproval = true
+      }
+
+      const expectedNumLeaves = BigInt(executeLeaves.length + 1)
+      if (numLeaves !== expectedNumLeaves) {
+        problems.push(
+          `${describeLeaf(
+            leaf
+          )} has a 'numLeaves' of ${numLeaves}, but there are ${expectedNumLeaves} leaves on the chain.`
+        )
+      }
+    }
+  }
+
+  // Invariant 3
+  if (hasArbitraryApproval && numApproveAndCancelLeaves !== 1) {
+    problems.push(
+      `The tree contains an APPROVE leaf where 'arbitraryChain' is true, so it must not contain any other APPROVE or CANCEL leaves.`
+    )
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid Sphinx Merkle tree:\n${problems
+        .map((problem) => `- ${problem}`)
+        .join('\n')}`
+    )
+  }
+}
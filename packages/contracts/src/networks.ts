@@ -14,6 +14,48 @@ export type BlockExplorers = {
   }
 }
 
+/**
+ * @notice The strategy that's used to set the fees of transactions on a network. All fees are in
+ * wei.
+ *
+ * @field eip1559  Sets `maxFeePerGas` and `maxPriorityFeePerGas` using the fee data from the RPC
+ * provider. `priorityFeeMultiplier` scales the priority fee, and `useMaxFeeAsPriorityFee` sets the
+ * priority fee equal to the max fee, which is necessary on networks that reject transactions with
+ * low priority fees.
+ * @field legacy   Sets `gasPrice` using the fee data from the RPC provider, scaled by
+ * `gasPriceMultiplier`.
+ * @field fixed    Uses the given `gasPrice`, or the given `maxFeePerGas` and `maxPriorityFeePerGas`.
+ * @field provider Doesn't set any fees, which lets ethers determine them.
+ *
+ * `maxFeeCap` is an upper bound on `maxFeePerGas` or `gasPrice`.
+ */
+export type GasPriceStrategyConfig =
+  | {
+      type: 'eip1559'
+      priorityFeeMultiplier?: number
+      useMaxFeeAsPriorityFee?: boolean
+      maxFeeCap?: string
+    }
+  | {
+      type: 'legacy'
+      gasPriceMultiplier?: number
+      maxFeeCap?: string
+    }
+  | {
+      type: 'fixed'
+      gasPrice?: string
+      maxFeePerGas?: string
+      maxPriorityFeePerGas?: string
+    }
+  | {
+      type: 'provider'
+    }
+
+/**
+ * @field gasPriceStrategy The strategy that's used to set transaction fees. Defaults to `eip1559`.
+ * @field useLatestNonce   Whether to set each transaction's nonce using the latest block instead of
+ * the pending block, which replaces transactions that are stuck in the mempool.
+ */
 export type SupportedNetwork = {
   name: string
   displayName: string
@@ -36,6 +78,8 @@ export type SupportedNetwork = {
     type: RollupType
   }
   hardcodedMerkleLeafGas?: string
+  gasPriceStrategy?: GasPriceStrategyConfig
+  useLatestNonce?: boolean
 }
 
 export type SupportedLocalNetwork = {
@@ -274,6 +318,7 @@ export const SPHINX_NETWORKS: Array<SupportedNetwork> = [
     actionGasLimitBuffer: false,
     eip2028: true,
     actionTransactionBatching: true,
+    gasPriceStrategy: { type: 'eip1559', useMaxFeeAsPriorityFee: true },
   },
   {
     name: 'polygon_amoy',
@@ -316,6 +361,8 @@ export const SPHINX_NETWORKS: Array<SupportedNetwork> = [
     actionGasLimitBuffer: false,
     eip2028: true,
     actionTransactionBatching: true,
+    gasPriceStrategy: { type: 'provider' },
+    useLatestNonce: true,
   },
   {
     name: 'bnb_testnet',
@@ -419,6 +466,7 @@ export const SPHINX_NETWORKS: Array<SupportedNetwork> = [
     actionGasLimitBuffer: false,
     eip2028: true,
     actionTransactionBatching: false,
+    gasPriceStrategy: { type: 'legacy' },
   },
   {
     name: 'linea_sepolia',
@@ -478,6 +526,7 @@ export const SPHINX_NETWORKS: Array<SupportedNetwork> = [
       provider: 'None',
       type: 'Polygon CDK',
     },
+    gasPriceStrategy: { type: 'provider' },
   },
   {
     name: 'polygon_zkevm_cardona',
@@ -578,6 +627,7 @@ export const SPHINX_NETWORKS: Array<SupportedNetwork> = [
     actionGasLimitBuffer: false,
     eip2028: true,
     actionTransactionBatching: true,
+    gasPriceStrategy: { type: 'legacy' },
   },
   {
     name: 'fantom_testnet',
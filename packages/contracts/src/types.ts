@@ -52,6 +52,15 @@ export type DecodedApproveLeafData = {
   arbitraryChain: boolean
 }
 
+export type DecodedCancelLeafData = {
+  safeProxy: string
+  moduleProxy: string
+  merkleRootNonce: bigint
+  merkleRootToCancel: string
+  executor: string
+  uri: string
+}
+
 export type DecodedExecuteLeafData = {
   to: string
   value: bigint
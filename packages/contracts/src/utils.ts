@@ -2,6 +2,7 @@ import { AbiCoder, ethers } from 'ethers'
 
 import {
   DecodedApproveLeafData,
+  DecodedCancelLeafData,
   DecodedExecuteLeafData,
   ContractArtifact,
   LinkReferences,
@@ -35,6 +36,31 @@ export const decodeApproveLeafData = (
   }
 }
 
+export const decodeCancelLeafData = (
+  leaf: SphinxLeaf
+): DecodedCancelLeafData => {
+  const [
+    safeProxy,
+    moduleProxy,
+    merkleRootNonce,
+    merkleRootToCancel,
+    executor,
+    uri,
+  ] = AbiCoder.defaultAbiCoder().decode(
+    ['address', 'address', 'uint', 'bytes32', 'address', 'string'],
+    leaf.data
+  )
+
+  return {
+    safeProxy,
+    moduleProxy,
+    merkleRootNonce,
+    merkleRootToCancel,
+    executor,
+    uri,
+  }
+}
+
 export const decodeExecuteLeafData = (
   leaf: SphinxLeaf
 ): DecodedExecuteLeafData => {
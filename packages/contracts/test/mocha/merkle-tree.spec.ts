@@ -8,7 +8,9 @@ import {
   SphinxMerkleTree,
   SphinxTransaction,
   makeSphinxMerkleTree,
+  makeSphinxMerkleTreeFromLeaves,
   decodeApproveLeafData,
+  verifySphinxMerkleTree,
 } from '../../dist'
 
 /**
@@ -675,3 +677,119 @@ describe('Merkle tree satisfies invariants', () => {
     )
   })
 })
+
+describe('verifySphinxMerkleTree', () => {
+  const executor = '0x' + '00'.repeat(19) + '11'
+  const safeProxy = '0x' + '00'.repeat(19) + '22'
+  const moduleProxy = '0x' + '00'.repeat(19) + '33'
+  const uri = 'http://localhost'
+  const tx: SphinxTransaction = {
+    to: '0x' + '11'.repeat(20),
+    value: '0',
+    txData: '0x',
+    gas: BigInt(50_000).toString(),
+    operation: Operation.Call,
+    requireSuccess: true,
+  }
+
+  const makeTree = () =>
+    makeSphinxMerkleTree({
+      '5': {
+        type: 'deployment',
+        nonce: '0',
+        executor,
+        safeProxy,
+        moduleProxy,
+        uri,
+        arbitraryChain: false,
+        txs: [tx, tx],
+      },
+      '420': {
+        type: 'cancellation',
+        nonce: '0',
+        executor,
+        safeProxy,
+        moduleProxy,
+        uri,
+        merkleRootToCancel: ethers.keccak256(ethers.toUtf8Bytes('1')),
+      },
+    })
+
+  it('Succeeds for a tree generated by makeSphinxMerkleTree', () => {
+    expect(() => verifySphinxMerkleTree(makeTree())).to.not.throw()
+  })
+
+  it('Succeeds for a tree that was parsed from JSON', () => {
+    const json = JSON.parse(
+      JSON.stringify(makeTree(), (_, value) =>
+        typeof value === 'bigint' ? value.toString() : value
+      )
+    )
+    expect(() => verifySphinxMerkleTree(json)).to.not.throw()
+  })
+
+  it('Errors if a leaf was modified', () => {
+    const tree = makeTree()
+    tree.leavesWithProofs[1].leaf.data = '0x' + 'ff'.repeat(32)
+
+    expect(() => verifySphinxMerkleTree(tree)).to.throw(
+      'has an invalid Merkle proof.'
+    )
+  })
+
+  it('Errors if a leaf is missing', () => {
+    const tree = makeTree()
+    const execute = tree.leavesWithProofs.findIndex(
+      ({ leaf }) => leaf.leafType === SphinxLeafType.EXECUTE
+    )
+    tree.leavesWithProofs.splice(execute, 1)
+
+    expect(() => verifySphinxMerkleTree(tree)).to.throw(
+      "The root isn't equal to the root of a tree built from the leaves."
+    )
+  })
+
+  it('Errors if the EXECUTE leaf indexes are not contiguous', () => {
+    const leaves = makeTree().leavesWithProofs.map(({ leaf }) => leaf)
+    const last = leaves.find(
+      (leaf) =>
+        leaf.leafType === SphinxLeafType.EXECUTE && leaf.index === BigInt(2)
+    )!
+    last.index = BigInt(3)
+
+    expect(() =>
+      verifySphinxMerkleTree(makeSphinxMerkleTreeFromLeaves(leaves))
+    ).to.throw(
+      'The EXECUTE leaves on chain 5 must have the indexes 1 to 2, but they have the indexes: 1, 3.'
+    )
+  })
+
+  it('Errors if numLeaves does not match the number of leaves on the chain', () => {
+    const leaves = makeTree().leavesWithProofs.map(({ leaf }) => leaf)
+    // Remove the last EXECUTE leaf on chain 5, which has an APPROVE leaf where `numLeaves` is 3.
+    const filtered = leaves.filter(
+      (leaf) =>
+        leaf.leafType !== SphinxLeafType.EXECUTE || leaf.index !== BigInt(2)
+    )
+
+    expect(() =>
+      verifySphinxMerkleTree(makeSphinxMerkleTreeFromLeaves(filtered))
+    ).to.throw(
+      "APPROVE leaf on chain 5 at index 0 has a 'numLeaves' of 3, but there are 2 leaves on the chain."
+    )
+  })
+
+  it('Errors if a chain has more than one APPROVE or CANCEL leaf', () => {
+    const leaves = makeTree().leavesWithProofs.map(({ leaf }) => leaf)
+    const cancel = leaves.find(
+      (leaf) => leaf.leafType === SphinxLeafType.CANCEL
+    )!
+    cancel.chainId = BigInt(5)
+
+    expect(() =>
+      verifySphinxMerkleTree(makeSphinxMerkleTreeFromLeaves(leaves))
+    ).to.throw(
+      'Chain 5 has 1 APPROVE and 1 CANCEL leaves, but it must have exactly one APPROVE or CANCEL leaf.'
+    )
+  })
+})
@@ -0,0 +1,150 @@
+import { performance } from 'perf_hooks'
+
+import {
+  Operation,
+  SphinxLeafType,
+  SphinxLeafWithProof,
+  makeSphinxMerkleTree,
+} from '@sphinx-labs/contracts'
+
+import {
+  estimateGasViaSigner,
+  findMaxBatchSize,
+  isExecutable,
+} from '../src/actions/execute'
+import { EstimateGas } from '../src/actions/types'
+import { getMaxGasLimit } from '../src/utils'
+
+/**
+ * Benchmarks `findMaxBatchSize` against the linear search that it replaced. Each case executes
+ * every leaf in a Merkle tree by repeatedly finding the next batch, which is what
+ * `executeBatchActions` does. The trees are similar to the ones created by `Large.s.sol`, which
+ * deploys many contracts in a single deployment.
+ *
+ * Run with `yarn bench`.
+ */
+
+const chainId = BigInt(1)
+const moduleAddress = '0x' + '22'.repeat(20)
+const maxGasLimit = getMaxGasLimit(BigInt(30_000_000))
+
+const cases: Array<{ numLeaves: number; txDataBytes: number; gas: number }> = [
+  { numLeaves: 100, txDataBytes: 200, gas: 50_000 },
+  { numLeaves: 300, txDataBytes: 200, gas: 50_000 },
+  { numLeaves: 1000, txDataBytes: 200, gas: 50_000 },
+  { numLeaves: 300, txDataBytes: 4_000, gas: 500_000 },
+]
+
+/**
+ * The previous implementation of `findMaxBatchSize`, which tries every batch size in order.
+ */
+const findMaxBatchSizeLinear = (
+  leaves: Array<SphinxLeafWithProof>,
+  estimateGas: EstimateGas
+): number => {
+  for (let i = 1; i <= leaves.length; i++) {
+    if (
+      !isExecutable(
+        leaves.slice(0, i),
+        maxGasLimit,
+        moduleAddress,
+        estimateGas,
+        chainId
+      )
+    ) {
+      if (i === 1) {
+        throw new Error(`Could not find a valid batch size.`)
+      }
+      return i - 1
+    }
+  }
+  return leaves.length
+}
+
+const makeLeaves = (
+  numLeaves: number,
+  txDataBytes: number,
+  gas: number
+): Array<SphinxLeafWithProof> => {
+  const { leavesWithProofs } = makeSphinxMerkleTree({
+    [chainId.toString()]: {
+      type: 'deployment',
+      nonce: '0',
+      executor: '0x' + '33'.repeat(20),
+      safeProxy: '0x' + '44'.repeat(20),
+      moduleProxy: moduleAddress,
+      uri: '',
+      arbitraryChain: false,
+      txs: Array.from({ length: numLeaves }, (_, i) => ({
+        to: '0x' + '55'.repeat(20),
+        value: '0',
+        txData:
+          '0x' +
+          i
+            .toString(16)
+            .padStart(8, '0')
+            .repeat(txDataBytes / 4),
+        gas: gas.toString(),
+        operation: Operation.Call,
+        requireSuccess: true,
+      })),
+    },
+  })
+  return leavesWithProofs.filter(
+    ({ leaf }) => leaf.leafType === SphinxLeafType.EXECUTE
+  )
+}
+
+const run = (
+  leaves: Array<SphinxLeafWithProof>,
+  findBatchSize: (
+    remaining: Array<SphinxLeafWithProof>,
+    estimateGas: EstimateGas
+  ) => number
+): { batches: number; estimates: number; ms: number } => {
+  let estimates = 0
+  const estimateGas: EstimateGas = (...args) => {
+    estimates += 1
+    return estimateGasViaSigner(...args)
+  }
+
+  const start = performance.now()
+  let batches = 0
+  for (let executed = 0; executed < leaves.length; batches++) {
+    executed += findBatchSize(leaves.slice(executed), estimateGas)
+  }
+  return { batches, estimates, ms: Math.round(performance.now() - start) }
+}
+
+const main = () => {
+  const results = cases.map(({ numLeaves, txDataBytes, gas }) => {
+    const leaves = makeLeaves(numLeaves, txDataBytes, gas)
+    const linear = run(leaves, findMaxBatchSizeLinear)
+    const search = run(leaves, (remaining, estimateGas) =>
+      findMaxBatchSize(
+        remaining,
+        maxGasLimit,
+        moduleAddress,
+        estimateGas,
+        chainId
+      )
+    )
+    if (linear.batches !== search.batches) {
+      throw new Error(`The implementations returned different batches.`)
+    }
+
+    return {
+      leaves: numLeaves,
+      'calldata per leaf': txDataBytes,
+      batches: search.batches,
+      'linear estimates': linear.estimates,
+      'linear ms': linear.ms,
+      'search estimates': search.estimates,
+      'search ms': search.ms,
+    }
+  })
+
+  console.table(results)
+}
+
+main()
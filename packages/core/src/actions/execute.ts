@@ -12,6 +12,7 @@ import {
   SphinxModuleABI,
   decodeExecuteLeafData,
   PermissionlessRelayArtifact,
+  GasPriceStrategyConfig,
 } from '@sphinx-labs/contracts'
 import ora from 'ora'
 import { TransactionReceipt, ethers } from 'ethers'
@@ -30,14 +31,18 @@ import { ExecutionMode } from '../constants'
 import { SphinxJsonRpcProvider } from '../provider'
 import {
   addSphinxWalletsToGnosisSafeOwners,
+  fetchMerkleRootState,
   findLeafWithProof,
   getGasPriceOverrides,
   getMaxGasLimit,
+  getMerkleLeafChainId,
   getReadableActions,
   getSphinxWalletsSortedByAddress,
   removeSphinxWalletsFromGnosisSafeOwners,
+  sleep,
   toSphinxLeafWithProofArray,
 } from '../utils'
+import { bumpGasPriceOverrides, getMaxFeeCap } from '../gas-price'
 import {
   implementsEIP2028,
   isActionTransactionBatchingEnabled,
@@ -48,6 +53,12 @@ import {
   ensureSphinxAndGnosisSafeDeployed,
 } from '../languages'
 import { convertEthersTransactionReceipt } from '../artifacts'
+import { decodeRevertData, fetchActionRevertData } from '../revert'
+import {
+  DeploymentEventEmitter,
+  emitDeploymentEvent,
+  getTransactionStuckMessage,
+} from './progress'
 
 export type TreeSigner = {
   signer: string
@@ -178,14 +189,10 @@ export type DeploymentContext = {
   /**
    * Handles if the deployment has already been executed.
    *
-   * We use the `DeploymentContext` for this because the website implements retry logic, as a result
-   * there are some cases where the deployment may be partially or fully executed already when we call
-   * the `attemptDeployment` function. For the propose/deploy commands, this should never happen
-   * so we just error.
-   *
-   * It's worth noting that if we wanted to implement retry logic in the deploy cli command to make it more
-   * reliable, we would want to do that by implementing this function and then repeatedly calling the
-   * `attemptDeployment` function. This is how the website currently works.
+   * We use the `DeploymentContext` for this because the website and the deploy command implement retry
+   * logic, as a result there are some cases where the deployment may be partially or fully executed
+   * already when we call the `attemptDeployment` function. For the propose command and for deploy
+   * commands that aren't retried or resumed, this should never happen so we just error.
    */
   handleAlreadyExecutedDeployment: HandleAlreadyExecutedDeployment
 
@@ -257,14 +264,17 @@ export type DeploymentContext = {
   provider: SphinxJsonRpcProvider | HardhatEthersProvider
 
   /**
-   * An optional wallet.
+   * An optional signer, e.g. a wallet or a remote signer.
    *
    * This wallet will be available in the `executeTransaction` function and can be used to send transactions in cases
    * where an ethers signer is desirable. It will not be available when the `attemptDeployment` function is
    * invoked in the website backend. It's up to the `executeTransaction` function to ensure the field exists if it's
    * required.
+   *
+   * The CLI wraps its signer in a `SphinxNonceManager` so that nonces are handed out locally instead of relying on the
+   * provider's `pending` nonce, which can lag behind the transactions that were just sent.
    */
-  wallet?: ethers.Wallet
+  wallet?: ethers.Signer
 
   /**
    * An optional logger.
@@ -276,9 +286,31 @@ export type DeploymentContext = {
   /**
    * An optional spinner.
    *
-   * This is used to provide feedback to the user.
+   * This is used to provide feedback to the user. The progress events of the deployment are rendered on it.
    */
   spinner?: ora.Ora
+
+  /**
+   * An optional emitter for the progress events of the deployment.
+   *
+   * This is used to build a UI or a log on top of the execution, e.g. a JSON-lines progress stream.
+   */
+  events?: DeploymentEventEmitter
+
+  /**
+   * An optional gas price strategy that overrides the network's default strategy.
+   *
+   * This is used by `executeTransactionViaSigner` when the user specifies their own fee settings, e.g. a max fee cap.
+   */
+  gasPriceStrategy?: GasPriceStrategyConfig
+
+  /**
+   * An optional number of milliseconds to wait for a transaction to be confirmed.
+   *
+   * This is used by `executeTransactionViaSigner` to replace transactions that are stuck in the mempool. If this
+   * isn't set, we wait for transactions to be confirmed without a timeout.
+   */
+  confirmationTimeout?: number
 }
 
 /**
@@ -286,10 +318,18 @@ export type DeploymentContext = {
  * given input list of actions. This is done by finding the largest batch size that does not exceed
  * the maximum gas limit.
  *
+ * The estimated gas of a batch increases with the number of actions in it, so we search for the
+ * largest executable batch size with an exponential search followed by a binary search. This calls
+ * `isExecutable` O(log n) times instead of once per batch size, which matters because each call
+ * ABI encodes the Merkle leaves in the batch. We don't start with a binary search over every
+ * possible batch size because the largest batch sizes may contain hundreds of leaves, which can be
+ * very slow to encode. The exponential search ensures that we never encode a batch that's more than
+ * twice as large as the batch that we end up executing.
+ *
  * @param actions List of actions to execute.
  * @returns Maximum number of actions that can be executed.
  */
-const findMaxBatchSize = (
+export const findMaxBatchSize = (
   leaves: SphinxLeafWithProof[],
   maxGasLimit: bigint,
   moduleAddress: string,
@@ -304,33 +344,111 @@ const findMaxBatchSize = (
     ? leaves.length
     : 1
 
-  // Start with the smallest batch size (1) and incrementally try larger batches. We don't start
-  // with the largest possible batch size and incrementally try smaller batches because the gas
-  // estimation logic ABI encodes the Merkle leaves, which can be very slow for large amounts of
-  // data.
-  for (let i = 1; i <= maxBatchSize; i++) {
-    if (
-      !isExecutable(
-        leaves.slice(0, i),
-        maxGasLimit,
-        moduleAddress,
-        estimateGas,
-        chainId
-      )
-    ) {
-      // If the first batch itself is not executable, throw an error.
-      if (i === 1) {
-        throw new Error(`Could not find a valid batch size.`)
-      } else {
-        // For larger batches, return the size of the previous batch as the maximum executable batch
-        // size.
-        return i - 1
-      }
+  const isBatchExecutable = (batchSize: number): boolean =>
+    isExecutable(
+      leaves.slice(0, batchSize),
+      maxGasLimit,
+      moduleAddress,
+      estimateGas,
+      chainId
+    )
+
+  // If the first batch itself is not executable, throw an error.
+  if (!isBatchExecutable(1)) {
+    throw new Error(`Could not find a valid batch size.`)
+  }
+
+  // The largest batch size that we know is executable.
+  let executable = 1
+  // The smallest batch size that we know isn't executable, or one more than the max batch size.
+  let notExecutable = maxBatchSize + 1
+
+  // Double the batch size until we find a batch that isn't executable.
+  for (let batchSize = 2; batchSize <= maxBatchSize; batchSize *= 2) {
+    if (isBatchExecutable(batchSize)) {
+      executable = batchSize
+    } else {
+      notExecutable = batchSize
+      break
+    }
+  }
+
+  // Binary search between the largest executable batch size and the smallest batch size that isn't
+  // executable.
+  while (notExecutable - executable > 1) {
+    const batchSize = Math.floor((executable + notExecutable) / 2)
+    if (isBatchExecutable(batchSize)) {
+      executable = batchSize
+    } else {
+      notExecutable = batchSize
     }
   }
 
-  // If all batches are executable, return the full length.
-  return isActionTransactionBatchingEnabled(chainId) ? leaves.length : 1
+  return executable
+}
+
+/**
+ * Returns the human-readable action that caused a deployment to fail, along with the reason that it
+ * reverted. We can't get the revert data from the Sphinx Module's `SphinxActionFailed` event, so we
+ * replay the action at the block that the event was emitted in. The revert reason is undefined if
+ * it couldn't be determined, e.g. if the replayed action doesn't revert.
+ *
+ * @param leavesExecuted The number of leaves executed in the failed Merkle root, which includes the
+ * leaf that failed.
+ */
+export const fetchFailureAction = async (
+  leavesOnNetwork: Array<SphinxLeafWithProof>,
+  humanReadableActions: HumanReadableActions,
+  leavesExecuted: bigint,
+  deploymentContext: DeploymentContext
+): Promise<HumanReadableAction | undefined> => {
+  const { deployment, provider, logger } = deploymentContext
+  const { chainId, moduleAddress, safeAddress, deploymentConfig } = deployment
+
+  // The first leaf is the `APPROVE` leaf, which doesn't have a human-readable action.
+  const failureAction =
+    humanReadableActions[chainId.toString()][Number(leavesExecuted) - 2]
+  const failedLeaf = leavesOnNetwork.find(
+    ({ leaf }) => leaf.index === leavesExecuted - BigInt(1)
+  )
+  if (!failureAction || !failedLeaf) {
+    return failureAction
+  }
+
+  try {
+    const module = new ethers.Contract(moduleAddress, SphinxModuleABI, provider)
+    const latestBlock = await provider.getBlockNumber()
+    const startingBlock = latestBlock - 1999 > 0 ? latestBlock - 1999 : 0
+    const events = await module.queryFilter(
+      module.filters.SphinxActionFailed(deploymentConfig.merkleTree.root),
+      startingBlock,
+      latestBlock
+    )
+    const failedEvent = events.find(
+      (event) =>
+        'args' in event && event.args.leafIndex === failedLeaf.leaf.index
+    )
+
+    const revertData = await fetchActionRevertData(
+      provider,
+      safeAddress,
+      failedLeaf.leaf,
+      failedEvent ? failedEvent.blockNumber : latestBlock
+    )
+    if (revertData === undefined) {
+      return failureAction
+    }
+
+    return {
+      ...failureAction,
+      revertReason:
+        decodeRevertData(revertData, deploymentConfig.configArtifacts) ??
+        'Reverted without a reason',
+    }
+  } catch (e) {
+    logger?.warn(`[Sphinx]: failed to fetch the revert reason: ${e.message}`)
+    return failureAction
+  }
 }
 
 /**
@@ -380,10 +498,12 @@ export const executeBatchActions = async (
       status: state.status,
       executionReceipts,
       batches,
-      failureAction:
-        humanReadableActions[chainId.toString()][
-          Number(state.leavesExecuted) - 2
-        ],
+      failureAction: await fetchFailureAction(
+        leavesOnNetwork,
+        humanReadableActions,
+        state.leavesExecuted,
+        deploymentContext
+      ),
     }
   }
 
@@ -398,6 +518,11 @@ export const executeBatchActions = async (
     return { status: state.status, executionReceipts, batches }
   }
 
+  emitDeploymentEvent(deploymentContext, {
+    type: 'Executing',
+    leavesRemaining: filtered.length,
+  })
+
   const moduleAddress = await sphinxModuleReadOnly.getAddress()
   let executed = 0
   while (executed < filtered.length) {
@@ -436,6 +561,13 @@ export const executeBatchActions = async (
     executionReceipts.push(receipt)
     batches.push(batch)
 
+    emitDeploymentEvent(deploymentContext, {
+      type: 'BatchExecuted',
+      firstLeafIndex: Number(batch[0].leaf.index),
+      lastLeafIndex: Number(batch[batch.length - 1].leaf.index),
+      receipt: convertEthersTransactionReceipt(receipt),
+    })
+
     // Return early if the deployment failed.
     state = await sphinxModuleReadOnly.merkleRootStates(activeRoot)
 
@@ -444,10 +576,12 @@ export const executeBatchActions = async (
         status: state.status,
         batches,
         executionReceipts,
-        failureAction:
-          humanReadableActions[chainId.toString()][
-            Number(state.leavesExecuted) - 2
-          ],
+        failureAction: await fetchFailureAction(
+          leavesOnNetwork,
+          humanReadableActions,
+          state.leavesExecuted,
+          deploymentContext
+        ),
       }
     }
 
@@ -508,6 +642,148 @@ export const approveDeploymentViaSigner: ApproveDeployment = async (
   )
 }
 
+/**
+ * The maximum number of milliseconds to wait between checks for a transaction receipt.
+ */
+const RECEIPT_POLLING_INTERVAL = 1000
+
+/**
+ * Waits until one of the transactions is confirmed and returns it. Returns undefined if none of the
+ * transactions are confirmed before the timeout.
+ */
+const waitForAnyTransaction = async (
+  provider: SphinxJsonRpcProvider | HardhatEthersProvider,
+  responses: Array<ethers.TransactionResponse>,
+  timeout: number
+): Promise<ethers.TransactionResponse | undefined> => {
+  const deadline = Date.now() + timeout
+  while (true) {
+    for (const response of responses) {
+      if (await provider.getTransactionReceipt(response.hash)) {
+        return response
+      }
+    }
+
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      return undefined
+    }
+    await sleep(Math.min(RECEIPT_POLLING_INTERVAL, remaining))
+  }
+}
+
+/**
+ * Sends a transaction and waits for it to be confirmed. If the deployment context has a
+ * `confirmationTimeout` and the transaction isn't confirmed in time, we replace it with a
+ * transaction that has the same nonce and higher fees, up to the `maxFeeCap` of the user's gas
+ * price strategy. If the transaction can't be replaced because the fees would exceed the cap, we
+ * emit a warning and keep waiting for the pending transactions, since they may still be confirmed.
+ *
+ * A replaced transaction can still be confirmed before its replacement, so we return the receipt of
+ * whichever transaction was actually confirmed. The other transactions are never included in the
+ * deployment artifacts.
+ */
+export const sendTransactionWithReplacement = async (
+  deploymentContext: DeploymentContext,
+  wallet: ethers.Signer,
+  transaction: ethers.TransactionRequest
+): Promise<ethers.TransactionReceipt | null> => {
+  const { provider, confirmationTimeout, gasPriceStrategy, logger } =
+    deploymentContext
+
+  const response = await wallet.sendTransaction(transaction)
+  emitDeploymentEvent(deploymentContext, {
+    type: 'TransactionSent',
+    hash: response.hash,
+    nonce: response.nonce,
+  })
+  if (confirmationTimeout === undefined) {
+    return response.wait()
+  }
+
+  const maxFeeCap = getMaxFeeCap(gasPriceStrategy)
+  // We remove the fees from the original transaction so that they don't conflict with the fees of
+  // the replacement, e.g. if the original transaction is a legacy transaction.
+  const transactionWithoutFees = { ...transaction }
+  delete transactionWithoutFees.gasPrice
+  delete transactionWithoutFees.maxFeePerGas
+  delete transactionWithoutFees.maxPriorityFeePerGas
+  const responses = [response]
+  let isStuck = false
+  while (true) {
+    const confirmed = await waitForAnyTransaction(
+      provider,
+      responses,
+      confirmationTimeout
+    )
+    if (confirmed) {
+      return confirmed.wait()
+    }
+
+    const pending = responses[responses.length - 1]
+    const timeoutSeconds = confirmationTimeout / 1000
+    const fees =
+      maxFeeCap === undefined
+        ? undefined
+        : bumpGasPriceOverrides(pending, maxFeeCap)
+    if (!fees) {
+      // We don't abandon the pending transactions because they can still be confirmed. We only warn
+      // the user once.
+      if (!isStuck) {
+        const stuck = {
+          type: 'TransactionStuck' as const,
+          hash: pending.hash,
+          nonce: pending.nonce,
+          confirmationTimeout,
+          maxFeeCap: maxFeeCap?.toString(),
+        }
+        logger?.warn(`[Sphinx]: ${getTransactionStuckMessage(stuck)}`)
+        emitDeploymentEvent(deploymentContext, stuck)
+        isStuck = true
+      }
+      continue
+    }
+
+    const message =
+      `Transaction ${pending.hash} was not confirmed within ${timeoutSeconds} seconds. ` +
+      `Replacing it with a transaction that has higher fees (nonce: ${pending.nonce}).`
+    logger?.info(`[Sphinx]: ${message}`)
+    emitDeploymentEvent(deploymentContext, {
+      type: 'TransactionReplaced',
+      hash: pending.hash,
+      nonce: pending.nonce,
+      confirmationTimeout,
+    })
+
+    try {
+      const replacement = await wallet.sendTransaction({
+        ...transactionWithoutFees,
+        nonce: pending.nonce,
+        gasLimit: pending.gasLimit,
+        ...fees,
+      })
+      responses.push(replacement)
+      emitDeploymentEvent(deploymentContext, {
+        type: 'TransactionSent',
+        hash: replacement.hash,
+        nonce: replacement.nonce,
+      })
+    } catch (e) {
+      // The replacement is rejected if one of the transactions was confirmed after we stopped
+      // waiting for it, since its nonce has already been used.
+      const confirmedDuringReplacement = await waitForAnyTransaction(
+        provider,
+        responses,
+        0
+      )
+      if (confirmedDuringReplacement) {
+        return confirmedDuringReplacement.wait()
+      }
+      throw e
+    }
+  }
+}
+
 export const executeTransactionViaSigner: ExecuteTransaction = async (
   deploymentContext: DeploymentContext,
   transaction: MinimumTransaction,
@@ -521,16 +797,17 @@ export const executeTransactionViaSigner: ExecuteTransaction = async (
     )
   }
 
-  const txReceipt = await (
-    await wallet.sendTransaction(
-      await getGasPriceOverrides(
-        deploymentContext.provider,
-        wallet,
-        executionMode,
-        transaction
-      )
+  const txReceipt = await sendTransactionWithReplacement(
+    deploymentContext,
+    wallet,
+    await getGasPriceOverrides(
+      deploymentContext.provider,
+      wallet,
+      executionMode,
+      transaction,
+      deploymentContext.gasPriceStrategy
     )
-  ).wait()
+  )
 
   if (txReceipt === null) {
     throw new Error(
@@ -759,6 +1036,15 @@ const getGasPerCalldata = (byte: number, chainId: bigint) => {
   }
 }
 
+/**
+ * Returns the gas cost of a transaction's calldata on the given network.
+ */
+export const estimateCalldataGas = (data: string, chainId: bigint): number =>
+  ethers
+    .getBytes(data)
+    .map((e) => getGasPerCalldata(e, chainId))
+    .reduce((a, b) => a + b, 0)
+
 /**
  * Estimate the amount of gas that will be used by executing a batch of `EXECUTE` Merkle leaves
  * through the `ManagedService` contract. We use heuristics instead of the `eth_estimateGas` RPC
@@ -803,10 +1089,7 @@ export const estimateGasViaManagedService: EstimateGas = (
     moduleAddress,
     moduleCallData,
   ])
-  const callDataGas = ethers
-    .getBytes(callDataHex)
-    .map((e) => getGasPerCalldata(e, chainId))
-    .reduce((a, b) => a + b, 0)
+  const callDataGas = estimateCalldataGas(callDataHex, chainId)
 
   const managedServiceGas =
     0.00000191 * moduleCallData.length * moduleCallData.length +
@@ -845,16 +1128,46 @@ export const estimateGasViaSigner: EstimateGas = (
   const sphinxModuleIface = new ethers.Interface(SphinxModuleABI)
 
   const callDataHex = sphinxModuleIface.encodeFunctionData('execute', [batch])
-  const callDataGas = ethers
-    .getBytes(callDataHex)
-    .map((e) => getGasPerCalldata(e, chainId))
-    .reduce((a, b) => a + b, 0)
+  const callDataGas = estimateCalldataGas(callDataHex, chainId)
 
   const estimate = 21_000 + callDataGas + estimateModuleExecutionGas(batch)
 
   return Math.round(estimate * 1.08 + 40_000) // Include a buffer
 }
 
+/**
+ * Estimate the amount of gas that will be used by approving a Merkle root directly on the
+ * `SphinxModuleProxy`. Like `estimateGasViaSigner`, this is a heuristic. It's the sum of:
+ *
+ * 1. 21k, which is the cost of initiating a transaction on Ethereum.
+ * 2. The transaction calldata. The owner signatures aren't collected yet when we make this
+ * estimate, so we use a 65 byte placeholder of non-zero bytes for each signature.
+ * 3. The estimated cost of executing the logic in the `SphinxModule`. Most of this is the cost of
+ * storing the new Merkle root state, which we budget as 150k, and the cost of verifying the
+ * signatures in the Gnosis Safe, which we budget as 10k per signature.
+ *
+ * After summing these values, we include the same buffer as `estimateGasViaSigner`.
+ */
+export const estimateApprovalGasViaSigner = (
+  merkleRoot: string,
+  approvalLeafWithProof: SphinxLeafWithProof,
+  threshold: number,
+  chainId: bigint
+): number => {
+  const sphinxModuleIface = new ethers.Interface(SphinxModuleABI)
+
+  const callDataHex = sphinxModuleIface.encodeFunctionData('approve', [
+    merkleRoot,
+    approvalLeafWithProof,
+    '0x' + 'ff'.repeat(65 * threshold),
+  ])
+  const callDataGas = estimateCalldataGas(callDataHex, chainId)
+
+  const estimate = 21_000 + callDataGas + 150_000 + 10_000 * threshold
+
+  return Math.round(estimate * 1.08 + 40_000) // Include a buffer
+}
+
 /**
  * Estimates the amount of gas required to execute the logic in the `SphinxModule`. There are two
  * main components:
@@ -885,16 +1198,16 @@ export const handleStatus = (
   batches: SphinxLeafWithProof[][],
   receipts: ethers.TransactionReceipt[],
   failureAction: HumanReadableAction | undefined,
-  spinner?: ora.Ora
+  deploymentContext: DeploymentContext
 ) => {
   if (status === MerkleRootStatus.FAILED) {
-    spinner?.fail(`Deployment failed.`)
+    emitDeploymentEvent(deploymentContext, { type: 'Failed', failureAction })
     return { receipts, batches, finalStatus: status, failureAction }
   } else if (status === MerkleRootStatus.CANCELED) {
-    spinner?.fail(`Deployment cancelled by user.`)
+    emitDeploymentEvent(deploymentContext, { type: 'Canceled' })
     return { receipts, batches, finalStatus: status }
   } else if (status === MerkleRootStatus.COMPLETED) {
-    spinner?.succeed(`Deployment succeeded.`)
+    emitDeploymentEvent(deploymentContext, { type: 'Completed' })
     return { receipts, batches, finalStatus: status }
   } else {
     throw new Error(`Unknown status: ${status}`)
@@ -917,7 +1230,7 @@ const executeDeployment = async (
   failureAction?: HumanReadableAction
 }> => {
   const { chainId, executionMode, actionInputs } = networkConfig
-  const { spinner, provider } = deploymentContext
+  const { provider } = deploymentContext
 
   const humanReadableActions = {
     [chainId]: getReadableActions(actionInputs, chainId),
@@ -956,23 +1269,33 @@ const executeDeployment = async (
    * https://linear.app/chugsplash/issue/CHU-527/support-deploying-system-contracts-on-new-networks-from-the-website
    */
   if (!networkConfig.isSystemDeployed) {
+    emitDeploymentEvent(deploymentContext, { type: 'SystemDeploying' })
     await ensureSphinxAndGnosisSafeDeployed(
       provider,
       deploymentContext.wallet!,
       executionMode,
       false,
-      [],
-      // We only include the spinner here if executing on a live network since the output is verbose and unnecessary
-      // when deploying on local nodes.
-      executionMode === ExecutionMode.LiveNetworkCLI ? spinner : undefined
+      []
     )
+    emitDeploymentEvent(deploymentContext, { type: 'SystemDeployed' })
   }
 
+  // Check whether the Merkle root was approved in a previous attempt to execute this deployment.
+  // This can happen if the deployment is being retried or resumed after it was interrupted.
+  const initialMerkleRootState = await fetchMerkleRootState(
+    networkConfig.moduleAddress,
+    merkleTree.root,
+    provider
+  )
+  const isAlreadyApproved =
+    initialMerkleRootState !== undefined &&
+    initialMerkleRootState.merkleRootState.status !== MerkleRootStatus.EMPTY
+
   // Handle transferring funds to the safe.
   // `networkConfig.safeFundingRequest` may be undefined for configs generated
   // with previous Sphinx plugin versions that did not support transferring funds
   // to the safe.
-  if (networkConfig.safeFundingRequest) {
+  if (networkConfig.safeFundingRequest && !isAlreadyApproved) {
     const safeBalance = await provider.getBalance(networkConfig.safeAddress)
     const { startingBalance, fundsRequested } = networkConfig.safeFundingRequest
     const requiredBalance = BigInt(startingBalance) + BigInt(fundsRequested)
@@ -980,13 +1303,19 @@ const executeDeployment = async (
     /**
      * If the Safe does not have the required funds, then trigger a transfer to it.
      *
+     * We only transfer funds before the Merkle root is approved. The transfer always occurs before
+     * the approval, so if the Merkle root has already been approved, the funds were transferred
+     * in a previous attempt. Checking the Safe's balance isn't enough by itself because the
+     * actions that were already executed may have spent some of the funds, which would cause
+     * them to be transferred again when the deployment is retried or resumed.
+     *
      * Note that there is an edge case that is not covered here which may cause funds to be
      * transferred to the Safe multiple times:
      * 1. Propose a script for a safe that already has funds in it.
      * 2. After the proposal completes but before the deployment is executed, transfer funds
      * away from the Safe.
-     * 3. Execute the deployment. If the execution times out at any point and the deployment
-     * is retried, then funds may be transferred to the additional times.
+     * 3. Execute the deployment. If the execution times out after the transfer but before the
+     * approval and the deployment is retried, then funds may be transferred additional times.
      *
      * We don't address this edge case here because it is non-trivial to do in a reliable way
      * just by looking at the on-chain state. Instead, we rely on the websites implementation
@@ -994,11 +1323,6 @@ const executeDeployment = async (
      * So that even if the deployment times out and `deploymentContext.executeTransaction` is
      * called multiple times, it wont result in additional transfers because the website backend
      * still only sends a single transaction.
-     *
-     * This issue could still potentially occur in the deploy CLI command if/when we implement
-     * retries for that command. I've documented this in the ticket to improve the deploy CLI
-     * command:
-     * https://linear.app/chugsplash/issue/CHU-447/implement-timeout-and-retry-logic-in-deploy-cli-command
      */
     if (safeBalance < requiredBalance) {
       await deploymentContext.executeTransaction(
@@ -1027,7 +1351,7 @@ const executeDeployment = async (
   // address.
   if (!networkConfig.initialState.isSafeDeployed) {
     if ((await provider.getCode(networkConfig.safeAddress)) === '0x') {
-      spinner?.start(`Deploying Gnosis Safe and Sphinx Module...`)
+      emitDeploymentEvent(deploymentContext, { type: 'SafeDeploying' })
 
       const gnosisSafeProxyFactory = new ethers.Contract(
         getGnosisSafeProxyFactoryAddress(),
@@ -1056,26 +1380,34 @@ const executeDeployment = async (
         )
       ethersReceipts.push(gnosisSafeDeploymentReceipt)
 
-      spinner?.succeed(`Deployed Gnosis Safe and Sphinx Module.`)
+      emitDeploymentEvent(deploymentContext, {
+        type: 'SafeDeployed',
+        receipt: convertEthersTransactionReceipt(gnosisSafeDeploymentReceipt),
+      })
     }
   }
 
-  await deploymentContext.injectRoles(deploymentContext, executionMode)
-
+  const leafChainId = getMerkleLeafChainId(networkConfig)
   const approvalLeafWithProof = findLeafWithProof(
     merkleTree,
     SphinxLeafType.APPROVE,
-    BigInt(networkConfig.chainId)
+    leafChainId
   )
 
-  spinner?.start(`Checking deployment status...`)
+  const networkLeaves = merkleTree.leavesWithProofs.filter(
+    (leaf) => leaf.leaf.chainId === leafChainId
+  )
 
   const merkleRootState: MerkleRootState =
     await sphinxModuleReadOnly.merkleRootStates(merkleTree.root)
 
   if (merkleRootState.status === MerkleRootStatus.EMPTY) {
-    spinner?.succeed(`Deployment is new.`)
-    spinner?.start(`Approving deployment...`)
+    emitDeploymentEvent(deploymentContext, { type: 'Approving' })
+
+    // We only inject roles when the deployment hasn't been approved yet because they're only
+    // necessary for the approval. This prevents us from injecting roles a second time when a
+    // deployment is retried or resumed after the approval.
+    await deploymentContext.injectRoles(deploymentContext, executionMode)
 
     const approvalReceipt = await approveDeployment(
       merkleTree.root,
@@ -1092,26 +1424,29 @@ const executeDeployment = async (
       executionMode
     )
 
-    spinner?.succeed(`Approved deployment.`)
+    emitDeploymentEvent(deploymentContext, {
+      type: 'Approved',
+      receipt: convertEthersTransactionReceipt(approvalReceipt),
+    })
   } else if (merkleRootState.status !== MerkleRootStatus.APPROVED) {
     return handleStatus(
       merkleRootState.status,
       [],
       ethersReceipts,
-      humanReadableActions[chainId.toString()][
-        Number(merkleRootState.leavesExecuted) - 2
-      ],
-      spinner
+      merkleRootState.status === MerkleRootStatus.FAILED
+        ? await fetchFailureAction(
+            networkLeaves,
+            humanReadableActions,
+            merkleRootState.leavesExecuted,
+            deploymentContext
+          )
+        : undefined,
+      deploymentContext
     )
   } else {
-    spinner?.succeed(`Deployment is already approved.`)
+    emitDeploymentEvent(deploymentContext, { type: 'Approved' })
   }
 
-  spinner?.start(`Executing deployment...`)
-
-  const networkLeaves = merkleTree.leavesWithProofs.filter(
-    (leaf) => leaf.leaf.chainId === BigInt(networkConfig.chainId)
-  )
   const { status, failureAction, executionReceipts, batches } =
     await executeBatchActions(
       networkLeaves,
@@ -1124,12 +1459,15 @@ const executeDeployment = async (
       deploymentContext
     )
 
-  spinner?.succeed(`Executed deployment.`)
-  spinner?.start(`Checking final deployment status...`)
-
   ethersReceipts.push(...executionReceipts)
 
-  return handleStatus(status, batches, ethersReceipts, failureAction, spinner)
+  return handleStatus(
+    status,
+    batches,
+    ethersReceipts,
+    failureAction,
+    deploymentContext
+  )
 }
 
 /**
@@ -1249,7 +1587,7 @@ export const attemptDeployment = async (
 
   logger?.info(`[Executor ${networkName}]: retrieving the deployment...`)
 
-  deploymentContext.spinner?.start('Preparing for execution...')
+  emitDeploymentEvent(deploymentContext, { type: 'Preparing' })
 
   const targetNetworkNetworkConfig = deploymentConfig.networkConfigs.find(
     (config) => config.chainId === deployment.chainId.toString()
@@ -1290,8 +1628,6 @@ export const attemptDeployment = async (
     }
   }
 
-  deploymentContext.spinner?.start('Execution ready')
-
   if (deployment.status === 'approved') {
     let receipts: ethers.TransactionReceipt[] = []
     let batches: SphinxLeafWithProof[][] = []
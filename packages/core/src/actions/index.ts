@@ -1,2 +1,5 @@
 export * from './types'
 export * from './execute'
+export * from './multichain'
+export * from './progress'
+export * from './journal'
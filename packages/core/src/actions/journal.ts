@@ -0,0 +1,191 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'fs'
+
+import { ethers } from 'ethers'
+import { HardhatEthersProvider } from '@nomicfoundation/hardhat-ethers/internal/hardhat-ethers-provider'
+
+import { DeploymentEvent } from './progress'
+import { SphinxJsonRpcProvider } from '../provider'
+
+/**
+ * @notice An entry in an execution journal. The first entry is always `MerkleRoot`. The other
+ * entries are recorded while the deployment is executed:
+ * - `TransactionSent`: A transaction was sent, including replacement transactions.
+ * - `TransactionConfirmed`: The transaction that deployed the Gnosis Safe or approved the
+ * deployment was confirmed.
+ * - `BatchConfirmed`: A batch of `EXECUTE` leaves was confirmed. Both indexes are inclusive.
+ */
+export type ExecutionJournalEntry =
+  | { type: 'MerkleRoot'; merkleRoot: string }
+  | { type: 'TransactionSent'; chainId: string; hash: string; nonce: number }
+  | { type: 'TransactionConfirmed'; chainId: string; hash: string }
+  | {
+      type: 'BatchConfirmed'
+      chainId: string
+      hash: string
+      firstLeafIndex: number
+      lastLeafIndex: number
+    }
+
+/**
+ * @notice The contents of an execution journal file.
+ */
+export type ExecutionJournal = {
+  merkleRoot: string
+  entries: Array<ExecutionJournalEntry>
+}
+
+const appendJournalEntry = (
+  journalPath: string,
+  entry: ExecutionJournalEntry
+): void => appendFileSync(journalPath, `${JSON.stringify(entry)}\n`)
+
+/**
+ * @notice Reads an execution journal. Each line of the file is a JSON entry. The last line is
+ * ignored if it's incomplete, which can happen if the process was killed while it was written.
+ */
+export const readExecutionJournal = (journalPath: string): ExecutionJournal => {
+  const lines = readFileSync(journalPath, 'utf-8').split('\n')
+
+  const entries: Array<ExecutionJournalEntry> = []
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue
+    }
+    try {
+      entries.push(JSON.parse(lines[i]))
+    } catch (e) {
+      if (i === lines.length - 1) {
+        break
+      }
+      throw new Error(`Invalid entry on line ${i + 1} of: ${journalPath}`)
+    }
+  }
+
+  const first = entries[0]
+  if (first?.type !== 'MerkleRoot') {
+    throw new Error(
+      `Execution journal does not have a Merkle root: ${journalPath}`
+    )
+  }
+
+  return { merkleRoot: first.merkleRoot, entries }
+}
+
+/**
+ * @notice Starts an append-only execution journal for a Merkle root. If a journal for the same
+ * Merkle root already exists, e.g. because the deployment is being resumed, its entries are kept
+ * and new entries are appended to it. Otherwise, the file is overwritten.
+ *
+ * @returns True if an existing journal was continued.
+ */
+export const startExecutionJournal = (
+  journalPath: string,
+  merkleRoot: string
+): boolean => {
+  if (existsSync(journalPath)) {
+    try {
+      if (readExecutionJournal(journalPath).merkleRoot === merkleRoot) {
+        return true
+      }
+    } catch (e) {
+      // The journal is corrupted, so we overwrite it.
+    }
+  }
+
+  writeFileSync(journalPath, '')
+  appendJournalEntry(journalPath, { type: 'MerkleRoot', merkleRoot })
+  return false
+}
+
+/**
+ * @notice Returns a listener that records the transactions of a deployment in an execution journal.
+ * This can be passed to `DeploymentEventEmitter.onAny`. Each entry is written synchronously so that
+ * it's on disk before the deployment continues.
+ */
+export const makeExecutionJournalListener =
+  (journalPath: string) =>
+  (event: DeploymentEvent): void => {
+    const { chainId } = event
+    switch (event.type) {
+      case 'TransactionSent':
+        appendJournalEntry(journalPath, {
+          type: 'TransactionSent',
+          chainId,
+          hash: event.hash,
+          nonce: event.nonce,
+        })
+        break
+      case 'SafeDeployed':
+        appendJournalEntry(journalPath, {
+          type: 'TransactionConfirmed',
+          chainId,
+          hash: event.receipt.hash,
+        })
+        break
+      case 'Approved':
+        // The receipt is undefined if the deployment was approved in a previous attempt.
+        if (event.receipt) {
+          appendJournalEntry(journalPath, {
+            type: 'TransactionConfirmed',
+            chainId,
+            hash: event.receipt.hash,
+          })
+        }
+        break
+      case 'BatchExecuted':
+        appendJournalEntry(journalPath, {
+          type: 'BatchConfirmed',
+          chainId,
+          hash: event.receipt.hash,
+          firstLeafIndex: event.firstLeafIndex,
+          lastLeafIndex: event.lastLeafIndex,
+        })
+        break
+    }
+  }
+
+/**
+ * @notice Fetches the receipts of a deployment's transactions on a network using an execution
+ * journal. This includes the transactions that were confirmed in the journal, and the transactions
+ * that were sent to the Sphinx Module but whose confirmation wasn't recorded, e.g. because the
+ * process was killed while waiting for them. Replaced transactions that were never confirmed are
+ * skipped.
+ */
+export const fetchReceiptsFromExecutionJournal = async (
+  journal: ExecutionJournal,
+  chainId: string,
+  moduleAddress: string,
+  provider: SphinxJsonRpcProvider | HardhatEthersProvider
+): Promise<Array<ethers.TransactionReceipt>> => {
+  const confirmed = new Set<string>()
+  const sent = new Set<string>()
+  for (const entry of journal.entries) {
+    if (entry.type === 'MerkleRoot' || entry.chainId !== chainId) {
+      continue
+    } else if (entry.type === 'TransactionSent') {
+      sent.add(entry.hash)
+    } else {
+      confirmed.add(entry.hash)
+    }
+  }
+
+  const receipts: Array<ethers.TransactionReceipt> = []
+  for (const hash of new Set([...confirmed, ...sent])) {
+    const receipt = await provider.getTransactionReceipt(hash)
+    if (!receipt) {
+      continue
+    }
+
+    // A transaction that was sent but not confirmed in the journal is only part of the deployment
+    // if it called the Sphinx Module. This excludes other transactions, like the transfer that
+    // funds the Gnosis Safe.
+    const isModuleTransaction = receipt.logs.some(
+      (log) => log.address.toLowerCase() === moduleAddress.toLowerCase()
+    )
+    if (confirmed.has(hash) || isModuleTransaction) {
+      receipts.push(receipt)
+    }
+  }
+
+  return receipts
+}
@@ -0,0 +1,164 @@
+import ora from 'ora'
+
+import { DeploymentContext } from './execute'
+import { fetchMerkleRootState, stringifyMerkleRootStatus } from '../utils'
+import { MerkleRootStatus } from './types'
+import { DeploymentEventType, emitDeploymentEvent } from './progress'
+
+const TERMINAL_EVENT_TYPES: Array<DeploymentEventType> = [
+  'Completed',
+  'Failed',
+  'Canceled',
+]
+
+/**
+ * @notice The result of a deployment on a single network.
+ *
+ * @field deploymentContext The deployment context of the network.
+ * @field status            The status of the Merkle root on the network after the deployment was
+ * attempted. This is `EMPTY` if the Sphinx Module hasn't been deployed, and undefined if the status
+ * couldn't be fetched.
+ * @field result            The value returned by the deployment, or undefined if it threw an error.
+ * @field error             The error thrown by the deployment, or undefined if it succeeded.
+ */
+export type NetworkDeploymentResult<T> = {
+  deploymentContext: DeploymentContext
+  status?: bigint
+  result?: T
+  error?: any
+}
+
+/**
+ * @notice Attempts a deployment on several networks at the same time. Each network has its own
+ * `DeploymentContext`, and at most `concurrency` networks are executed at once. An error on one
+ * network doesn't stop the deployment on the other networks. Instead, the error is returned in the
+ * network's result along with the status of its Merkle root, which can be displayed using
+ * `getMultichainDeploymentSummary`. If the deployment on a network throws an error before it emits a
+ * `Completed`, `Failed`, or `Canceled` event, we emit a `Failed` event that contains the error so
+ * that every network's progress ends with one of these events.
+ *
+ * @param attempt Attempts the deployment on a single network. This is usually `attemptDeployment`,
+ * or a function that calls it with retry logic.
+ * @returns The results in the same order as the deployment contexts.
+ */
+export const attemptDeploymentsInParallel = async <T>(
+  deploymentContexts: Array<DeploymentContext>,
+  concurrency: number,
+  attempt: (deploymentContext: DeploymentContext, index: number) => Promise<T>
+): Promise<Array<NetworkDeploymentResult<T>>> => {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer.`)
+  }
+
+  const attemptOnNetwork = async (
+    index: number
+  ): Promise<NetworkDeploymentResult<T>> => {
+    const deploymentContext = deploymentContexts[index]
+    const { deployment, provider, events } = deploymentContext
+
+    let isTerminated = false
+    events?.onAny(({ type, chainId }) => {
+      if (
+        chainId === deployment.chainId.toString() &&
+        TERMINAL_EVENT_TYPES.includes(type)
+      ) {
+        isTerminated = true
+      }
+    })
+
+    let result: T | undefined
+    let error: any
+    try {
+      result = await attempt(deploymentContext, index)
+    } catch (e) {
+      error = e
+      if (events && !isTerminated) {
+        // We don't render the event on the spinner because the caller displays the error.
+        emitDeploymentEvent(
+          { ...deploymentContext, spinner: undefined },
+          {
+            type: 'Failed',
+            error: e instanceof Error ? e.message : String(e),
+          }
+        )
+      }
+    }
+
+    let status: bigint | undefined
+    try {
+      const state = await fetchMerkleRootState(
+        deployment.moduleAddress,
+        deployment.deploymentConfig.merkleTree.root,
+        provider
+      )
+      status = state ? state.merkleRootState.status : MerkleRootStatus.EMPTY
+    } catch (e) {
+      // The RPC provider may be unavailable, e.g. if it's the reason the deployment failed.
+      status = undefined
+    }
+
+    return { deploymentContext, status, result, error }
+  }
+
+  const results: Array<NetworkDeploymentResult<T>> = []
+  let next = 0
+  const worker = async (): Promise<void> => {
+    while (next < deploymentContexts.length) {
+      const index = next
+      next += 1
+      results[index] = await attemptOnNetwork(index)
+    }
+  }
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(concurrency, deploymentContexts.length) },
+      worker
+    )
+  )
+
+  return results
+}
+
+/**
+ * @notice Returns a string that displays the Merkle root status on each network and the error that
+ * occurred on each network that failed.
+ */
+export const getMultichainDeploymentSummary = (
+  results: Array<NetworkDeploymentResult<unknown>>
+): string => {
+  const lines = results.map(({ deploymentContext, status, error }) => {
+    const statusString =
+      status === undefined ? 'UNKNOWN' : stringifyMerkleRootStatus(status)
+    const line = `- ${deploymentContext.deployment.networkName}: ${statusString}`
+    return error
+      ? `${line}\n  Error: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      : line
+  })
+
+  return `Deployment summary:\n${lines.join('\n')}`
+}
+
+/**
+ * @notice Returns a spinner for a deployment on a single network. If networks are executed at the
+ * same time, their spinners would overwrite each other's line, so we disable the animation and print
+ * each update on its own line, prefixed by the network name.
+ */
+export const makeNetworkSpinner = (
+  spinner: ora.Ora,
+  networkName: string,
+  isConcurrent: boolean,
+  silent: boolean
+): ora.Ora => {
+  if (!isConcurrent) {
+    return spinner
+  }
+
+  return ora({
+    isSilent: silent,
+    isEnabled: false,
+    prefixText: `[${networkName}]`,
+  })
+}
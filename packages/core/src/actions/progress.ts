@@ -0,0 +1,272 @@
+import { Console } from 'console'
+import { EventEmitter } from 'events'
+
+import ora from 'ora'
+
+import { DeploymentContext } from './execute'
+import { HumanReadableAction } from './types'
+import { SphinxTransactionReceipt } from '../languages/solidity/types'
+
+/**
+ * @notice The progress of a deployment on a single network. Each event has a `type` field that
+ * identifies it. The events are emitted in the following order:
+ * 1. `Preparing`
+ * 2. `SystemDeploying` and `SystemDeployed`, if the Sphinx contracts aren't deployed on the network.
+ * 3. `SafeDeploying` and `SafeDeployed`, if the Gnosis Safe isn't deployed on the network.
+ * 4. `Approving`, if the deployment hasn't been approved yet.
+ * 5. `Approved`
+ * 6. `Executing` and `BatchExecuted` for each batch of actions, if there are actions left to execute.
+ * 7. `Completed`, `Failed`, or `Canceled`. `Failed` is also emitted if the deployment is interrupted
+ * by an error, e.g. a dropped RPC connection, when it's executed by `attemptDeploymentsInParallel`.
+ *
+ * `TransactionSent`, `TransactionReplaced`, and `TransactionStuck` can be emitted at any point after
+ * `Preparing`.
+ */
+export type DeploymentEventData =
+  | { type: 'Preparing' }
+  | { type: 'SystemDeploying' }
+  | { type: 'SystemDeployed' }
+  | { type: 'SafeDeploying' }
+  | { type: 'SafeDeployed'; receipt: SphinxTransactionReceipt }
+  | { type: 'Approving' }
+  | {
+      type: 'Approved'
+      // Undefined if the deployment was approved in a previous attempt.
+      receipt?: SphinxTransactionReceipt
+    }
+  | {
+      type: 'Executing'
+      // The number of leaves that haven't been executed yet.
+      leavesRemaining: number
+    }
+  | {
+      type: 'BatchExecuted'
+      // The range of the leaves in the batch. Both indexes are inclusive.
+      firstLeafIndex: number
+      lastLeafIndex: number
+      receipt: SphinxTransactionReceipt
+    }
+  | {
+      type: 'TransactionSent'
+      hash: string
+      nonce: number
+    }
+  | {
+      type: 'TransactionReplaced'
+      hash: string
+      nonce: number
+      // The number of milliseconds that we waited for the transaction to be confirmed.
+      confirmationTimeout: number
+    }
+  | {
+      // A transaction wasn't confirmed in time and can't be replaced because its fees would exceed
+      // the max fee cap. We keep waiting for it to be confirmed.
+      type: 'TransactionStuck'
+      hash: string
+      nonce: number
+      confirmationTimeout: number
+      // Undefined if the gas price strategy doesn't have a max fee cap.
+      maxFeeCap?: string
+    }
+  | { type: 'Completed' }
+  | {
+      type: 'Failed'
+      // Undefined if the action that failed couldn't be determined.
+      failureAction?: HumanReadableAction
+      // The message of the error that interrupted the deployment. Undefined if an action reverted
+      // on-chain instead.
+      error?: string
+    }
+  | { type: 'Canceled' }
+
+/**
+ * @notice A progress event along with the network that it was emitted on.
+ *
+ * @field timestamp The time that the event was emitted, in milliseconds since the Unix epoch.
+ */
+export type DeploymentEvent = DeploymentEventData & {
+  networkName: string
+  chainId: string
+  timestamp: number
+}
+
+export type DeploymentEventType = DeploymentEvent['type']
+
+/**
+ * @notice The formats that the progress of a deployment can be displayed in. The 'json' format
+ * writes each event as a line of JSON in addition to displaying the spinner.
+ */
+export type ProgressFormat = 'text' | 'json'
+
+export const PROGRESS_FORMATS: Array<ProgressFormat> = ['text', 'json']
+
+// We use a symbol so that it can't conflict with the type of an event.
+const ANY_EVENT = Symbol('any')
+
+/**
+ * @notice Emits the progress events of a deployment. Listeners can subscribe to a single type of
+ * event using `on`, or to every event using `onAny`.
+ */
+export class DeploymentEventEmitter {
+  private readonly emitter = new EventEmitter()
+
+  on<T extends DeploymentEventType>(
+    type: T,
+    listener: (event: Extract<DeploymentEvent, { type: T }>) => void
+  ): this {
+    this.emitter.on(type, listener)
+    return this
+  }
+
+  onAny(listener: (event: DeploymentEvent) => void): this {
+    this.emitter.on(ANY_EVENT, listener)
+    return this
+  }
+
+  emit(event: DeploymentEvent): void {
+    this.emitter.emit(event.type, event)
+    this.emitter.emit(ANY_EVENT, event)
+  }
+}
+
+/**
+ * @notice Emits a progress event on the network of the deployment context. The event is emitted to
+ * the context's `events` emitter and rendered on its spinner, if either exists.
+ */
+export const emitDeploymentEvent = (
+  deploymentContext: DeploymentContext,
+  data: DeploymentEventData
+): void => {
+  const { deployment, events, spinner } = deploymentContext
+  const event: DeploymentEvent = {
+    ...data,
+    networkName: deployment.networkName,
+    chainId: deployment.chainId.toString(),
+    timestamp: Date.now(),
+  }
+
+  events?.emit(event)
+  if (spinner) {
+    renderDeploymentEvent(spinner, event)
+  }
+}
+
+/**
+ * @notice Renders a progress event on an `ora` spinner. This is the default way to display the
+ * progress of a deployment in the CLI.
+ */
+export const renderDeploymentEvent = (
+  spinner: ora.Ora,
+  event: DeploymentEvent
+): void => {
+  switch (event.type) {
+    case 'Preparing':
+      spinner.start(`Preparing for execution...`)
+      break
+    case 'SystemDeploying':
+      spinner.start(`Deploying Sphinx contracts...`)
+      break
+    case 'SystemDeployed':
+      spinner.succeed(`Deployed Sphinx contracts.`)
+      break
+    case 'SafeDeploying':
+      spinner.start(`Deploying Gnosis Safe and Sphinx Module...`)
+      break
+    case 'SafeDeployed':
+      spinner.succeed(`Deployed Gnosis Safe and Sphinx Module.`)
+      break
+    case 'Approving':
+      spinner.start(`Approving deployment...`)
+      break
+    case 'Approved':
+      spinner.succeed(
+        event.receipt
+          ? `Approved deployment.`
+          : `Deployment is already approved.`
+      )
+      break
+    case 'Executing':
+      spinner.start(`Executing deployment...`)
+      break
+    case 'BatchExecuted':
+      spinner.text = `Executing deployment... (executed leaves ${event.firstLeafIndex} to ${event.lastLeafIndex})`
+      break
+    case 'TransactionReplaced': {
+      const text = spinner.text
+      spinner.warn(
+        `Transaction ${event.hash} was not confirmed within ${
+          event.confirmationTimeout / 1000
+        } seconds. Replacing it with a transaction that has higher fees (nonce: ${
+          event.nonce
+        }).`
+      )
+      spinner.start(text)
+      break
+    }
+    case 'TransactionStuck': {
+      const text = spinner.text
+      spinner.warn(getTransactionStuckMessage(event))
+      spinner.start(text)
+      break
+    }
+    case 'Completed':
+      spinner.succeed(`Deployment succeeded.`)
+      break
+    case 'Failed':
+      spinner.fail(`Deployment failed.`)
+      break
+    case 'Canceled':
+      spinner.fail(`Deployment cancelled by user.`)
+      break
+  }
+}
+
+/**
+ * @notice Returns the warning that's displayed when a transaction isn't confirmed in time and can't
+ * be replaced.
+ */
+export const getTransactionStuckMessage = ({
+  hash,
+  confirmationTimeout,
+  maxFeeCap,
+}: Extract<DeploymentEventData, { type: 'TransactionStuck' }>): string =>
+  `Transaction ${hash} was not confirmed within ${
+    confirmationTimeout / 1000
+  } seconds. ` +
+  (maxFeeCap === undefined
+    ? `It can't be replaced because there's no 'maxFeeCap' in your gas price config. `
+    : `It can't be replaced because its fees would exceed the max fee cap of ${maxFeeCap} wei. `) +
+  `Waiting for it to be confirmed. You can stop the deployment and resume it later.`
+
+/**
+ * @notice Returns a listener that writes each progress event as a single line of JSON. This can be
+ * passed to `DeploymentEventEmitter.onAny` to create a JSON-lines progress stream.
+ */
+export const makeJsonLinesListener =
+  (write: (line: string) => void) =>
+  (event: DeploymentEvent): void =>
+    write(`${JSON.stringify(event)}\n`)
+
+/**
+ * @notice Returns an emitter for the progress events of a deployment in the CLI. If the format is
+ * 'json', each event is written to stdout as a line of JSON. The spinner is written to stderr, so it
+ * doesn't interfere with the JSON lines. Any other output should be written with the console
+ * returned by `getProgressConsole`.
+ */
+export const makeProgressEventEmitter = (
+  progressFormat: ProgressFormat
+): DeploymentEventEmitter => {
+  const events = new DeploymentEventEmitter()
+  if (progressFormat === 'json') {
+    events.onAny(makeJsonLinesListener((line) => process.stdout.write(line)))
+  }
+  return events
+}
+
+/**
+ * @notice Returns the console that the CLI uses to display human-readable output, e.g. the preview
+ * and the deployment summary. If the progress format is 'json', stdout is reserved for the JSON
+ * lines, so the output is written to stderr instead.
+ */
+export const getProgressConsole = (progressFormat: ProgressFormat): Console =>
+  progressFormat === 'json' ? new Console(process.stderr) : console
@@ -78,6 +78,9 @@ export type SphinxAction =
 export type HumanReadableAction = {
   reason: string
   actionIndex: string
+  // The decoded reason that the action reverted on-chain. Only defined for an action that caused a
+  // deployment to fail, and only if the revert reason could be determined.
+  revertReason?: string
 }
 
 export type HumanReadableActions = {
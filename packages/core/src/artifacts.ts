@@ -32,6 +32,7 @@ import {
   toSphinxTransaction,
 } from './utils'
 import { ExecutionMode } from './constants'
+import { HumanReadableAction } from './actions/types'
 
 export type NetworkArtifacts = {
   executionArtifacts: {
@@ -541,6 +542,8 @@ export const makeDeploymentArtifacts = async (
       deploymentConfig: DeploymentConfig
       receipts: Array<SphinxTransactionReceipt>
       provider: SphinxJsonRpcProvider
+      // The action that caused the deployment to fail, if it failed.
+      failureAction?: HumanReadableAction
     }
   },
   merkleRoot: string,
@@ -554,7 +557,8 @@ export const makeDeploymentArtifacts = async (
   } = artifacts
 
   for (const chainId of Object.keys(deployments)) {
-    const { provider, deploymentConfig, receipts } = deployments[chainId]
+    const { provider, deploymentConfig, receipts, failureAction } =
+      deployments[chainId]
 
     // Define the network artifacts if it doesn't exist. Otherwise, we'll attempt to operate on an
     // object that doesn't exist, leading to an error.
@@ -587,7 +591,8 @@ export const makeDeploymentArtifacts = async (
       deploymentConfig,
       networkConfig,
       merkleRoot,
-      provider
+      provider,
+      failureAction
     )
     allNetworkArtifacts[chainId].executionArtifacts[
       `${remove0x(merkleRoot)}.json`
@@ -605,7 +610,8 @@ const makeExecutionArtifact = async (
   deploymentConfig: DeploymentConfig,
   networkConfig: NetworkConfig,
   merkleRoot: string,
-  provider: SphinxJsonRpcProvider
+  provider: SphinxJsonRpcProvider,
+  failureAction?: HumanReadableAction
 ): Promise<ExecutionArtifact> => {
   const ethersResponses: (ethers.TransactionResponse | null)[] = []
   for (const rcpt of receipts) {
@@ -694,6 +700,13 @@ const makeExecutionArtifact = async (
     gitCommit,
     safeInitData,
   }
+  if (failureAction) {
+    executionArtifact.failure = {
+      actionIndex: failureAction.actionIndex,
+      action: failureAction.reason,
+      revertReason: failureAction.revertReason ?? null,
+    }
+  }
 
   if (!isExecutionArtifact(executionArtifact)) {
     throw new Error(`Execution artifact is invalid.`)
@@ -778,7 +791,13 @@ export const isExecutionArtifact = (obj: any): obj is ExecutionArtifact => {
     typeof obj.arbitraryChain === 'boolean' &&
     isLibraryArray(obj.libraries) &&
     (typeof obj.gitCommit === 'string' || obj.gitCommit === null) &&
-    (typeof obj.safeInitData === 'string' || obj.safeInitData === null)
+    (typeof obj.safeInitData === 'string' || obj.safeInitData === null) &&
+    (obj.failure === undefined ||
+      (isNonNullObject(obj.failure) &&
+        typeof obj.failure.actionIndex === 'string' &&
+        typeof obj.failure.action === 'string' &&
+        (typeof obj.failure.revertReason === 'string' ||
+          obj.failure.revertReason === null)))
   )
 }
 
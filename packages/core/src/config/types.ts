@@ -196,11 +196,14 @@ export interface FunctionCallActionInput extends AbstractActionInput {
  * they each correspond to a fully qualified name). We need to know which contracts are deployed in
  * each action so that we can determine which transaction receipt corresponds to each contract
  * deployment when writing the contract deployment artifacts.
+ * @property scriptPath - The Forge script that the action was collected from. This is only defined
+ * for deployments that combine multiple scripts into one Merkle tree.
  */
 interface AbstractActionInput extends SphinxTransaction {
   contracts: Array<ParsedContractDeployment>
   decodedAction: DecodedAction
   index: string
+  scriptPath?: string
 }
 
 export interface BuildInfos {
@@ -0,0 +1,278 @@
+import { ethers } from 'ethers'
+import {
+  GasPriceStrategyConfig,
+  GnosisSafeProxyFactoryArtifact,
+  SphinxLeafType,
+  SphinxMerkleTree,
+  getGnosisSafeProxyFactoryAddress,
+  getGnosisSafeSingletonAddress,
+  getSystemContractInfo,
+} from '@sphinx-labs/contracts'
+import { HardhatEthersProvider } from '@nomicfoundation/hardhat-ethers/internal/hardhat-ethers-provider'
+
+import { NetworkConfig } from './config/types'
+import { NetworkGasEstimate } from './actions/types'
+import { getGasPriceStrategyForNetwork } from './gas-price'
+import { fetchCurrencyForNetwork, fetchNameForNetwork } from './networks'
+import { SphinxJsonRpcProvider } from './provider'
+import {
+  estimateApprovalGasViaSigner,
+  estimateCalldataGas,
+  estimateGasViaSigner,
+  findMaxBatchSize,
+} from './actions/execute'
+import {
+  findLeafWithProof,
+  getMaxGasLimit,
+  getMerkleLeafChainId,
+} from './utils'
+
+/**
+ * @notice The estimated cost of a deployment on a network. All values in wei are decimal strings.
+ *
+ * @field networkName   The name of the network.
+ * @field currency      The symbol of the network's native currency, e.g. 'ETH'.
+ * @field feePerGas     The highest fee per gas that the deployment's transactions can pay. This is
+ * the `maxFeePerGas` or the `gasPrice` returned by the network's gas price strategy.
+ * @field estimatedCost The estimated gas multiplied by `feePerGas`, plus the funds that are
+ * transferred to the Gnosis Safe, if any.
+ * @field balance       The balance of the account that executes the deployment.
+ */
+export type NetworkCostEstimate = NetworkGasEstimate & {
+  networkName: string
+  currency: string
+  feePerGas: string
+  estimatedCost: string
+  balance: string
+}
+
+/**
+ * @notice The gas used to deploy a Gnosis Safe and enable its Sphinx Module when the Gnosis Safe
+ * factory isn't deployed yet, in which case we can't estimate it with the `eth_estimateGas` RPC
+ * method. This is a conservative value that exceeds the gas used by a Safe with a typical number of
+ * owners.
+ */
+const SAFE_DEPLOYMENT_GAS = BigInt(700_000)
+
+/**
+ * @notice Estimates the gas used by the `EXECUTE` transactions on a network. We split the `EXECUTE`
+ * leaves into the same batches as `executeBatchActions` and sum the estimated gas of each batch, so
+ * the estimate includes the overhead of each transaction in addition to the gas of the actions.
+ */
+const estimateExecutionGas = (
+  networkConfig: NetworkConfig,
+  merkleTree: SphinxMerkleTree
+): bigint => {
+  const chainId = BigInt(networkConfig.chainId)
+  const leafChainId = getMerkleLeafChainId(networkConfig)
+  const maxGasLimit = getMaxGasLimit(BigInt(networkConfig.blockGasLimit))
+  const leaves = merkleTree.leavesWithProofs.filter(
+    ({ leaf }) =>
+      leaf.chainId === leafChainId && leaf.leafType === SphinxLeafType.EXECUTE
+  )
+
+  let estimatedGas = BigInt(0)
+  let executed = 0
+  while (executed < leaves.length) {
+    const batchSize = findMaxBatchSize(
+      leaves.slice(executed),
+      maxGasLimit,
+      networkConfig.moduleAddress,
+      estimateGasViaSigner,
+      chainId
+    )
+    estimatedGas += BigInt(
+      estimateGasViaSigner(
+        networkConfig.moduleAddress,
+        leaves.slice(executed, executed + batchSize),
+        chainId
+      )
+    )
+    executed += batchSize
+  }
+  return estimatedGas
+}
+
+/**
+ * @notice Estimates the gas used to deploy the Sphinx system contracts that don't exist on the
+ * network yet. Each contract is deployed in its own transaction through the deterministic
+ * deployment proxy, which costs 21k, plus the calldata, plus 32k for the `CREATE2` opcode, plus 200
+ * gas per byte of deployed code. We use the length of the init code as an upper bound for the
+ * length of the deployed code.
+ */
+const estimateSystemDeploymentGas = async (
+  provider: SphinxJsonRpcProvider | HardhatEthersProvider,
+  chainId: bigint
+): Promise<bigint> => {
+  let estimatedGas = BigInt(0)
+  for (const { initCodeWithArgs, expectedAddress } of getSystemContractInfo()) {
+    if ((await provider.getCode(expectedAddress)) !== '0x') {
+      continue
+    }
+    const callData = ethers.concat([ethers.ZeroHash, initCodeWithArgs])
+    estimatedGas += BigInt(
+      21_000 +
+        estimateCalldataGas(callData, chainId) +
+        32_000 +
+        200 * ethers.dataLength(initCodeWithArgs)
+    )
+  }
+  return estimatedGas
+}
+
+/**
+ * @notice Estimates the gas used to deploy the Gnosis Safe, or zero if it's already deployed.
+ */
+const estimateSafeDeploymentGas = async (
+  networkConfig: NetworkConfig,
+  provider: SphinxJsonRpcProvider | HardhatEthersProvider,
+  executorAddress: string
+): Promise<bigint> => {
+  if ((await provider.getCode(networkConfig.safeAddress)) !== '0x') {
+    return BigInt(0)
+  }
+  if (!networkConfig.isSystemDeployed) {
+    return SAFE_DEPLOYMENT_GAS
+  }
+
+  const gnosisSafeProxyFactory = new ethers.Interface(
+    GnosisSafeProxyFactoryArtifact.abi
+  )
+  return provider.estimateGas({
+    from: executorAddress,
+    to: getGnosisSafeProxyFactoryAddress(),
+    data: gnosisSafeProxyFactory.encodeFunctionData('createProxyWithNonce', [
+      getGnosisSafeSingletonAddress(),
+      networkConfig.safeInitData,
+      networkConfig.newConfig.saltNonce,
+    ]),
+  })
+}
+
+/**
+ * @notice Estimates the cost of executing a deployment on a network using the current fee data. The
+ * estimated gas includes every transaction that the executor may send, i.e. deploying the Sphinx
+ * system contracts and the Gnosis Safe if they don't exist yet, transferring funds to the Safe,
+ * approving the Merkle root, and executing the `EXECUTE` leaves in batches. The estimate is
+ * conservative: the gas of each transaction includes a buffer, the fee per gas is the highest fee
+ * that a transaction can pay, and we assume that none of the deployment has been executed yet,
+ * which overestimates the cost of a deployment that's resumed.
+ */
+export const estimateNetworkCost = async (
+  networkConfig: NetworkConfig,
+  merkleTree: SphinxMerkleTree,
+  provider: SphinxJsonRpcProvider | HardhatEthersProvider,
+  executorAddress: string,
+  gasPriceStrategy?: GasPriceStrategyConfig
+): Promise<NetworkCostEstimate> => {
+  const chainId = BigInt(networkConfig.chainId)
+  const [
+    feeData,
+    balance,
+    safeBalance,
+    systemDeploymentGas,
+    safeDeploymentGas,
+  ] = await Promise.all([
+    provider.getFeeData(),
+    provider.getBalance(executorAddress),
+    provider.getBalance(networkConfig.safeAddress),
+    networkConfig.isSystemDeployed
+      ? BigInt(0)
+      : estimateSystemDeploymentGas(provider, chainId),
+    estimateSafeDeploymentGas(networkConfig, provider, executorAddress),
+  ])
+
+  const overrides = getGasPriceStrategyForNetwork(
+    chainId,
+    gasPriceStrategy
+  ).getOverrides(feeData)
+  const feePerGas = BigInt(
+    overrides.maxFeePerGas ??
+      overrides.gasPrice ??
+      feeData.maxFeePerGas ??
+      feeData.gasPrice ??
+      0
+  )
+
+  // The executor only transfers funds to the Safe if it doesn't already have them. See
+  // `attemptDeployment` for more details.
+  let fundsRequested = BigInt(0)
+  if (networkConfig.safeFundingRequest) {
+    const { startingBalance, fundsRequested: requested } =
+      networkConfig.safeFundingRequest
+    if (safeBalance < BigInt(startingBalance) + BigInt(requested)) {
+      fundsRequested = BigInt(requested)
+    }
+  }
+
+  const approvalGas = estimateApprovalGasViaSigner(
+    merkleTree.root,
+    findLeafWithProof(
+      merkleTree,
+      SphinxLeafType.APPROVE,
+      getMerkleLeafChainId(networkConfig)
+    ),
+    Number(networkConfig.newConfig.threshold),
+    chainId
+  )
+  const estimatedGas =
+    systemDeploymentGas +
+    // The transfer of funds to the Safe. This is a plain ETH transfer, so it costs 21k plus the small
+    // cost of the Safe's `receive` function, which fits in the buffers of the other estimates.
+    (fundsRequested > BigInt(0) ? BigInt(21_000) : BigInt(0)) +
+    safeDeploymentGas +
+    BigInt(approvalGas) +
+    estimateExecutionGas(networkConfig, merkleTree)
+
+  return {
+    chainId: Number(chainId),
+    networkName: fetchNameForNetwork(chainId),
+    currency: fetchCurrencyForNetwork(chainId),
+    estimatedGas: estimatedGas.toString(),
+    fundsRequested: fundsRequested.toString(),
+    feePerGas: feePerGas.toString(),
+    estimatedCost: (estimatedGas * feePerGas + fundsRequested).toString(),
+    balance: balance.toString(),
+  }
+}
+
+/**
+ * @notice Throws an error if the estimated cost on any network exceeds the executor's balance or
+ * the max cost. The max cost is in wei and applies to each network separately, since each network
+ * has its own native currency.
+ */
+export const assertDeploymentCostWithinBudget = (
+  costEstimates: Array<NetworkCostEstimate>,
+  maxCost?: bigint
+): void => {
+  const errors: Array<string> = []
+  for (const {
+    networkName,
+    currency,
+    estimatedCost,
+    balance,
+  } of costEstimates) {
+    const cost = `${ethers.formatEther(estimatedCost)} ${currency}`
+    if (maxCost !== undefined && BigInt(estimatedCost) > maxCost) {
+      errors.push(
+        `- ${networkName}: The estimated cost (${cost}) exceeds the max cost (${ethers.formatEther(
+          maxCost
+        )} ${currency}).`
+      )
+    }
+    if (BigInt(estimatedCost) > BigInt(balance)) {
+      errors.push(
+        `- ${networkName}: The estimated cost (${cost}) exceeds the balance of the deployer (${ethers.formatEther(
+          balance
+        )} ${currency}).`
+      )
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `The deployment can't be executed because it may run out of funds midway:\n` +
+        errors.join('\n')
+    )
+  }
+}
@@ -95,11 +95,14 @@ export const verifySphinxConfig = async (
 
 /**
  * Verify a deployment on Etherscan with five retries per contract. Meant to be called by the Sphinx Foundry plugin.
+ *
+ * @param output The console that the verification results are displayed on.
  */
 export const verifyDeploymentWithRetries = async (
   deploymentConfig: DeploymentConfig,
   provider: ethers.Provider,
-  apiKey: string
+  apiKey: string,
+  output: Console = console
 ): Promise<void> => {
   const maxAttempts = 10
   const networkConfig = fetchNetworkConfigFromDeploymentConfig(
@@ -144,14 +147,16 @@ export const verifyDeploymentWithRetries = async (
           minimumCompilerInput,
           provider,
           networkConfig.chainId,
-          apiKey
+          apiKey,
+          undefined,
+          output
         )
 
         if (result.success) {
           success = true
           break
         } else {
-          console.log(
+          output.log(
             `Verification failed for ${contractName} at ${address} (attempt ${attempt}/${maxAttempts}).\n` +
               `Retrying in 5 seconds.\n` +
               `Error message:\n` +
@@ -163,7 +168,7 @@ export const verifyDeploymentWithRetries = async (
       }
 
       if (!success) {
-        console.log(
+        output.log(
           `Failed to verify contract ${contractName} at ${address} after ${maxAttempts} attempts.`
         )
       }
@@ -174,13 +179,14 @@ export const verifyDeploymentWithRetries = async (
 export const handleAlreadyVerifiedResponse = (
   err: any,
   address: string,
-  contractURL: string
+  contractURL: string,
+  output: Console = console
 ) => {
   if ((err.message as string)?.toLowerCase().includes('already verified')) {
-    console.log(
+    output.log(
       `The contract ${address} has already been verified on Etherscan:\n${contractURL}`
     )
-    return { success: true }
+    return { success: true, alreadyVerified: true }
   } else {
     return { success: false, message: err.message }
   }
@@ -195,8 +201,13 @@ export const attemptVerification = async (
   provider: ethers.Provider,
   chainId: string,
   etherscanApiKey: string,
-  explorer?: ExplorerName
-): Promise<{ success: boolean; message?: string }> => {
+  explorer?: ExplorerName,
+  output: Console = console
+): Promise<{
+  success: boolean
+  message?: string
+  alreadyVerified?: boolean
+}> => {
   const urls = fetchEtherscanConfigForNetwork(BigInt(chainId), explorer)
 
   if (!urls) {
@@ -209,7 +220,7 @@ export const attemptVerification = async (
 
   const deployedBytecode = remove0x(await provider.getCode(address))
   if (deployedBytecode.length === 0) {
-    console.log(
+    output.log(
       `Skipped verifying ${contractName} at ${address} because it is not deployed.`
     )
     // The bytecode probably doesn't exist because the deployment failed midway. We consider this a
@@ -253,11 +264,11 @@ export const attemptVerification = async (
     )
     guid = response.message
   } catch (err) {
-    return handleAlreadyVerifiedResponse(err, address, contractURL)
+    return handleAlreadyVerifiedResponse(err, address, contractURL, output)
   }
 
   const networkName = fetchNameForNetwork(BigInt(chainId))
-  console.log(
+  output.log(
     `Successfully submitted source code for contract ${contractName}\n` +
       `at ${address} on ${networkName} for verification on Etherscan.\n` +
       `Waiting for verification result...`
@@ -272,7 +283,7 @@ export const attemptVerification = async (
   try {
     verificationStatus = await etherscan.getVerificationStatus(guid)
   } catch (err) {
-    return handleAlreadyVerifiedResponse(err, address, contractURL)
+    return handleAlreadyVerifiedResponse(err, address, contractURL, output)
   }
 
   if (!(verificationStatus.isFailure() || verificationStatus.isSuccess())) {
@@ -285,7 +296,7 @@ export const attemptVerification = async (
   }
 
   if (verificationStatus.isSuccess()) {
-    console.log(
+    output.log(
       `Successfully verified contract ${contractName} on Etherscan:\n${contractURL}`
     )
     return { success: true }
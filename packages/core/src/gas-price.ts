@@ -0,0 +1,280 @@
+import { readFileSync } from 'fs'
+
+import { ethers } from 'ethers'
+import { GasPriceStrategyConfig } from '@sphinx-labs/contracts'
+
+import { fetchGasPriceStrategyConfigForNetwork } from './networks'
+
+/**
+ * @notice The fee fields of a transaction that are set by a `GasPriceStrategy`.
+ */
+export type GasPriceOverrides = Pick<
+  ethers.TransactionRequest,
+  'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'
+>
+
+/**
+ * @notice Determines the fees of a transaction from the fee data returned by the RPC provider.
+ */
+export interface GasPriceStrategy {
+  type: GasPriceStrategyConfig['type']
+  getOverrides: (feeData: ethers.FeeData) => GasPriceOverrides
+}
+
+/**
+ * @notice Multiplies a fee by a number that may have a fractional component, e.g. `1.5`. We use
+ * three decimals of precision since bigints can't be multiplied by fractional numbers.
+ */
+const multiplyFee = (fee: bigint, multiplier: number): bigint => {
+  return (fee * BigInt(Math.round(multiplier * 1000))) / BigInt(1000)
+}
+
+const minFee = (a: bigint, b: bigint): bigint => (a < b ? a : b)
+
+export const makeEIP1559Strategy = (
+  config: Extract<GasPriceStrategyConfig, { type: 'eip1559' }>
+): GasPriceStrategy => {
+  return {
+    type: 'eip1559',
+    getOverrides: ({ maxFeePerGas, maxPriorityFeePerGas }) => {
+      if (maxFeePerGas === null || maxPriorityFeePerGas === null) {
+        return {}
+      }
+
+      let maxFee = maxFeePerGas
+      let priorityFee = config.useMaxFeeAsPriorityFee
+        ? maxFeePerGas
+        : maxPriorityFeePerGas
+
+      if (config.priorityFeeMultiplier !== undefined) {
+        const multiplied = multiplyFee(
+          priorityFee,
+          config.priorityFeeMultiplier
+        )
+        // Increase the max fee by the same amount as the priority fee so that the max fee still
+        // covers the base fee.
+        if (multiplied > priorityFee) {
+          maxFee += multiplied - priorityFee
+        }
+        priorityFee = multiplied
+      }
+
+      if (config.maxFeeCap !== undefined) {
+        maxFee = minFee(maxFee, BigInt(config.maxFeeCap))
+      }
+      // The priority fee can't be greater than the max fee.
+      priorityFee = minFee(priorityFee, maxFee)
+
+      return { maxFeePerGas: maxFee, maxPriorityFeePerGas: priorityFee }
+    },
+  }
+}
+
+export const makeLegacyStrategy = (
+  config: Extract<GasPriceStrategyConfig, { type: 'legacy' }>
+): GasPriceStrategy => {
+  return {
+    type: 'legacy',
+    getOverrides: ({ gasPrice }) => {
+      if (gasPrice === null) {
+        return {}
+      }
+
+      let price =
+        config.gasPriceMultiplier !== undefined
+          ? multiplyFee(gasPrice, config.gasPriceMultiplier)
+          : gasPrice
+      if (config.maxFeeCap !== undefined) {
+        price = minFee(price, BigInt(config.maxFeeCap))
+      }
+
+      return { gasPrice: price }
+    },
+  }
+}
+
+export const makeFixedStrategy = (
+  config: Extract<GasPriceStrategyConfig, { type: 'fixed' }>
+): GasPriceStrategy => {
+  const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } = config
+
+  let overrides: GasPriceOverrides
+  if (
+    gasPrice !== undefined &&
+    maxFeePerGas === undefined &&
+    maxPriorityFeePerGas === undefined
+  ) {
+    overrides = { gasPrice: BigInt(gasPrice) }
+  } else if (
+    gasPrice === undefined &&
+    maxFeePerGas !== undefined &&
+    maxPriorityFeePerGas !== undefined
+  ) {
+    overrides = {
+      maxFeePerGas: BigInt(maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(maxPriorityFeePerGas),
+    }
+  } else {
+    throw new Error(
+      `The 'fixed' gas price strategy requires either 'gasPrice' or both 'maxFeePerGas' and\n` +
+        `'maxPriorityFeePerGas'.`
+    )
+  }
+
+  return {
+    type: 'fixed',
+    getOverrides: () => ({ ...overrides }),
+  }
+}
+
+export const makeProviderStrategy = (): GasPriceStrategy => {
+  return {
+    type: 'provider',
+    getOverrides: () => ({}),
+  }
+}
+
+export const makeGasPriceStrategy = (
+  config: GasPriceStrategyConfig
+): GasPriceStrategy => {
+  switch (config.type) {
+    case 'eip1559':
+      return makeEIP1559Strategy(config)
+    case 'legacy':
+      return makeLegacyStrategy(config)
+    case 'fixed':
+      return makeFixedStrategy(config)
+    case 'provider':
+      return makeProviderStrategy()
+    default:
+      throw new Error(
+        `Unknown gas price strategy: ${(config as { type: string }).type}`
+      )
+  }
+}
+
+/**
+ * @notice Returns the gas price strategy for a network. If the user specifies a strategy with the
+ * same type as the network's default strategy, the user's options are merged into the default
+ * options. For example, a `maxFeeCap` on Polygon keeps the default `useMaxFeeAsPriorityFee` option.
+ * Otherwise, the user's strategy replaces the default strategy.
+ */
+export const getGasPriceStrategyForNetwork = (
+  chainId: bigint,
+  userConfig?: GasPriceStrategyConfig
+): GasPriceStrategy => {
+  const defaultConfig = fetchGasPriceStrategyConfigForNetwork(chainId)
+
+  if (userConfig === undefined) {
+    return makeGasPriceStrategy(defaultConfig)
+  } else if (userConfig.type === defaultConfig.type) {
+    return makeGasPriceStrategy({
+      ...defaultConfig,
+      ...userConfig,
+    } as GasPriceStrategyConfig)
+  } else {
+    return makeGasPriceStrategy(userConfig)
+  }
+}
+
+/**
+ * @notice The minimum percentage that the fees of a replacement transaction must be increased by.
+ * Nodes reject a transaction that has the same nonce as a pending transaction unless its fees are
+ * at least 10% higher, which is geth's default `txpool.pricebump`.
+ */
+export const REPLACEMENT_FEE_BUMP_PERCENTAGE = BigInt(10)
+
+const bumpFee = (fee: bigint): bigint => {
+  // Round up so that the bumped fee is never below the minimum increase.
+  const numerator = fee * (BigInt(100) + REPLACEMENT_FEE_BUMP_PERCENTAGE)
+  return (numerator + BigInt(99)) / BigInt(100)
+}
+
+/**
+ * @notice Returns the max fee cap of a gas price strategy, which is the highest fee that a
+ * replacement transaction can have. Returns undefined if the strategy doesn't have a cap, in which
+ * case transactions aren't replaced.
+ */
+export const getMaxFeeCap = (
+  config?: GasPriceStrategyConfig
+): bigint | undefined => {
+  if (
+    (config?.type === 'eip1559' || config?.type === 'legacy') &&
+    config.maxFeeCap !== undefined
+  ) {
+    return BigInt(config.maxFeeCap)
+  }
+  return undefined
+}
+
+/**
+ * @notice Returns the fees of a transaction that replaces a pending transaction with the given
+ * fees. Each fee is increased by `REPLACEMENT_FEE_BUMP_PERCENTAGE`. Returns undefined if the
+ * increased fees would exceed the max fee cap, in which case the pending transaction can't be
+ * replaced.
+ */
+export const bumpGasPriceOverrides = (
+  fees: GasPriceOverrides,
+  maxFeeCap: bigint
+): GasPriceOverrides | undefined => {
+  let overrides: GasPriceOverrides
+  let maxFee: bigint
+  if (
+    fees.maxFeePerGas !== undefined &&
+    fees.maxFeePerGas !== null &&
+    fees.maxPriorityFeePerGas !== undefined &&
+    fees.maxPriorityFeePerGas !== null
+  ) {
+    maxFee = bumpFee(BigInt(fees.maxFeePerGas))
+    overrides = {
+      maxFeePerGas: maxFee,
+      maxPriorityFeePerGas: bumpFee(BigInt(fees.maxPriorityFeePerGas)),
+    }
+  } else if (fees.gasPrice !== undefined && fees.gasPrice !== null) {
+    maxFee = bumpFee(BigInt(fees.gasPrice))
+    overrides = { gasPrice: maxFee }
+  } else {
+    return undefined
+  }
+
+  return maxFee <= maxFeeCap ? overrides : undefined
+}
+
+/**
+ * @notice The user's gas price strategies, keyed by network name.
+ */
+export type UserGasPriceConfig = {
+  [networkName: string]: GasPriceStrategyConfig
+}
+
+/**
+ * @notice Reads the user's gas price strategies from a JSON file and checks that they're valid.
+ */
+export const readGasPriceConfig = (filePath: string): UserGasPriceConfig => {
+  const config: UserGasPriceConfig = JSON.parse(readFileSync(filePath, 'utf8'))
+
+  for (const [networkName, strategy] of Object.entries(config)) {
+    try {
+      makeGasPriceStrategy(strategy)
+
+      const multiplier =
+        strategy.type === 'eip1559'
+          ? strategy.priorityFeeMultiplier
+          : strategy.type === 'legacy'
+          ? strategy.gasPriceMultiplier
+          : undefined
+      if (
+        multiplier !== undefined &&
+        (typeof multiplier !== 'number' || multiplier <= 0)
+      ) {
+        throw new Error(`Multipliers must be positive numbers.`)
+      }
+    } catch (e) {
+      throw new Error(
+        `Invalid gas price strategy for ${networkName} in ${filePath}:\n${e.message}`
+      )
+    }
+  }
+
+  return config
+}
@@ -17,6 +17,12 @@ export * from './analytics'
 export * from './etherscan'
 export * from './networks'
 export * from './preview'
+export * from './safe-tx-builder'
+export * from './gas-price'
+export * from './cost'
+export * from './signer'
+export * from './revert'
+export * from './nonce'
 export * from './provider'
 export * from './artifacts'
 export * from './types'
@@ -18,7 +18,7 @@ import { ExecutionMode } from '../../constants'
 
 export const ensureSphinxAndGnosisSafeDeployed = async (
   provider: SphinxJsonRpcProvider | HardhatEthersProvider,
-  wallet: ethers.Wallet,
+  wallet: ethers.Signer,
   executionMode: ExecutionMode,
   includeManagedServiceRoles: boolean,
   relayers: string[] = [],
@@ -29,7 +29,7 @@ export const ensureSphinxAndGnosisSafeDeployed = async (
     executionMode === ExecutionMode.Platform
   ) {
     // Fund the wallet to ensure that it has enough funds to deploy the contracts.
-    await fundAccountMaxBalance(wallet.address, provider)
+    await fundAccountMaxBalance(await wallet.getAddress(), provider)
   }
 
   await deploySphinxSystem(
@@ -38,7 +38,8 @@ import { ExecutionMode } from '../../constants'
  * deployment artifact for them. If a contract does not have a source file, it will be in this
  * array. Common examples are minimal `CREATE3` or `EIP-1167` proxies.
  * @property {boolean} arbitraryChain - Indicates whether the deployment can be executed on an
- * arbitrary chain. Currently always false.
+ * arbitrary chain. This is true if `sphinxConfig.arbitraryChain` was enabled in the deployment
+ * script.
  * @property {Array<string>} libraries - An array of libraries that were used in the deployment.
  * These are in the format that the Solidity compiler expects. For example,
  * `path/to/file.sol:MyLibrary=0x1234567890123456789012345678901234567890`.
@@ -50,6 +51,9 @@ import { ExecutionMode } from '../../constants'
  * was initiated.
  * @property {string} safeInitData - The raw data that deployed and initialized the Gnosis Safe.
  * This is null for deployments that use a previously deployed Gnosis Safe.
+ * @property {Object} failure - The action that caused the deployment to fail, along with the
+ * decoded reason that it reverted. The `revertReason` is null if it couldn't be determined. This is
+ * undefined if the deployment didn't fail.
  */
 export type ExecutionArtifact = {
   _format: 'sphinx-sol-execution-artifact-1'
@@ -88,6 +92,11 @@ export type ExecutionArtifact = {
   libraries: Array<string>
   gitCommit: string | null
   safeInitData: string | null
+  failure?: {
+    actionIndex: string
+    action: string
+    revertReason: string | null
+  }
 }
 
 export type SphinxTransactionResponse = {
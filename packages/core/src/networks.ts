@@ -4,6 +4,7 @@
 import {
   DEPRECATED_SPHINX_NETWORKS,
   ExplorerName,
+  GasPriceStrategyConfig,
   SPHINX_LOCAL_NETWORKS,
   SPHINX_NETWORKS,
   SupportedNetwork,
@@ -350,3 +351,19 @@ export const implementsEIP2028 = (chainId: bigint) => {
     throw new Error(`Unsupported network id ${chainId}`)
   }
 }
+
+/**
+ * Returns the default gas price strategy for a network. We use the EIP-1559 strategy on networks
+ * that Sphinx doesn't support, e.g. local networks, since it works on most networks.
+ */
+export const fetchGasPriceStrategyConfigForNetwork = (
+  chainId: bigint
+): GasPriceStrategyConfig => {
+  const network = SPHINX_NETWORKS.find((n) => n.chainId === chainId)
+  return network?.gasPriceStrategy ?? { type: 'eip1559' }
+}
+
+export const isLatestNonceRequiredForNetwork = (chainId: bigint): boolean => {
+  const network = SPHINX_NETWORKS.find((n) => n.chainId === chainId)
+  return network?.useLatestNonce ?? false
+}
@@ -0,0 +1,128 @@
+import { ethers } from 'ethers'
+
+import { isLatestNonceRequiredForNetwork } from './networks'
+
+/**
+ * @notice A signer that hands out the nonces of another signer's transactions locally instead of
+ * fetching the nonce from the provider for each transaction. Some RPC providers return a `pending`
+ * transaction count that lags behind the transactions that were just sent, which causes "nonce
+ * too low" errors when transactions are sent in quick succession.
+ *
+ * The nonce is fetched from the provider before the first transaction and whenever the nonce
+ * manager resyncs, which happens after a transaction fails to send or after a transaction is
+ * replaced. We use the larger of the `pending` and `latest` transaction counts, except on networks
+ * that require the `latest` nonce, where we use the `latest` transaction count to replace any
+ * transactions that are stuck in the mempool. A resync never returns a nonce that's lower than a
+ * nonce that this signer already sent.
+ *
+ * Transactions are sent one at a time, so it's safe to send transactions concurrently from the same
+ * nonce manager. A nonce manager tracks the nonce on a single network, so a separate nonce manager
+ * should be created for each network that's executed in parallel.
+ */
+export class SphinxNonceManager extends ethers.AbstractSigner {
+  readonly signer: ethers.Signer
+
+  private nextNonce: number | undefined
+  // One more than the highest nonce that's known to be used.
+  private minNonce = 0
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(signer: ethers.Signer) {
+    super(signer.provider)
+    this.signer = signer
+  }
+
+  async getAddress(): Promise<string> {
+    return this.signer.getAddress()
+  }
+
+  connect(provider: ethers.Provider | null): SphinxNonceManager {
+    return new SphinxNonceManager(this.signer.connect(provider))
+  }
+
+  async signTransaction(
+    transaction: ethers.TransactionRequest
+  ): Promise<string> {
+    return this.signer.signTransaction(transaction)
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return this.signer.signMessage(message)
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.signer.signTypedData(domain, types, value)
+  }
+
+  /**
+   * @notice Sends a transaction using the next local nonce. If the transaction already has a nonce,
+   * e.g. because it replaces a transaction that's stuck in the mempool, we send it with that nonce
+   * and resync before the next transaction.
+   */
+  async sendTransaction(
+    transaction: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    return this.runExclusive(async () => {
+      const isReplacement =
+        transaction.nonce !== undefined && transaction.nonce !== null
+      const nonce = isReplacement
+        ? Number(transaction.nonce)
+        : await this.getNextNonce()
+
+      try {
+        const response = await this.signer.sendTransaction({
+          ...transaction,
+          nonce,
+        })
+        this.minNonce = Math.max(this.minNonce, nonce + 1)
+        this.nextNonce = isReplacement ? undefined : nonce + 1
+        return response
+      } catch (e) {
+        if (ethers.isError(e, 'NONCE_EXPIRED')) {
+          this.minNonce = Math.max(this.minNonce, nonce + 1)
+        }
+        this.nextNonce = undefined
+        throw e
+      }
+    })
+  }
+
+  private async getNextNonce(): Promise<number> {
+    if (this.nextNonce === undefined) {
+      this.nextNonce = Math.max(await this.fetchNonce(), this.minNonce)
+    }
+    return this.nextNonce
+  }
+
+  private async fetchNonce(): Promise<number> {
+    const provider = this.signer.provider
+    if (!provider) {
+      throw new Error(
+        `The nonce manager's signer isn't connected to a provider.`
+      )
+    }
+
+    const address = await this.signer.getAddress()
+    const { chainId } = await provider.getNetwork()
+    if (isLatestNonceRequiredForNetwork(chainId)) {
+      return provider.getTransactionCount(address, 'latest')
+    }
+
+    const [pending, latest] = await Promise.all([
+      provider.getTransactionCount(address, 'pending'),
+      provider.getTransactionCount(address, 'latest'),
+    ])
+    return Math.max(pending, latest)
+  }
+
+  private runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn)
+    // The next transaction is sent after this one regardless of whether this one succeeds.
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+}
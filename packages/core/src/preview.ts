@@ -1,4 +1,5 @@
-import { yellow, green, bold } from 'chalk'
+import { yellow, green, bold, red } from 'chalk'
+import { ethers } from 'ethers'
 import { CREATE3_PROXY_INITCODE, Operation } from '@sphinx-labs/contracts'
 
 import {
@@ -6,6 +7,7 @@ import {
   ActionInputType,
   DecodedAction,
   NetworkConfig,
+  ParsedVariable,
 } from './config/types'
 import {
   arraysEqual,
@@ -15,6 +17,7 @@ import {
 } from './utils'
 import { fetchNameForNetwork } from './networks'
 import { InvariantError } from './errors'
+import { NetworkCostEstimate } from './cost'
 
 type SystemDeploymentElement = {
   type: 'SystemDeployment'
@@ -25,8 +28,14 @@ type FundingSafeElement = {
   value: string
 }
 
+/**
+ * @property scriptPath The Forge script that the action was collected from. Only defined for
+ * deployments that combine multiple scripts.
+ */
+type PreviewAction = DecodedAction & { scriptPath?: string }
+
 type PreviewElement =
-  | DecodedAction
+  | PreviewAction
   | { to: string; data: string; value: string }
   | SystemDeploymentElement
   | FundingSafeElement
@@ -39,9 +48,14 @@ type PreviewElement =
  * them, since users never interact directly with these proxies. Also, if a user isn't aware that
  * `CREATE3` involves a proxy deployment, they may reasonably be confused about a warning for a
  * contract they didn't know existed.
+ * @property costEstimates The estimated cost of the deployment on each network. This is only
+ * defined for deployments that are executed on live networks from the user's machine.
+ * @property arbitraryChain True if the Merkle root can be executed on any chain, including chains
+ * that aren't in the preview.
  */
 export type SphinxPreview = {
   merkleRoot: string
+  arbitraryChain: boolean
   networks: Array<{
     networkTags: Array<string>
     executing: Array<PreviewElement>
@@ -50,11 +64,81 @@ export type SphinxPreview = {
     safeAddress: string
   }>
   unlabeledAddresses: Set<string>
+  costEstimates?: Array<NetworkCostEstimate>
+}
+
+/**
+ * @notice The formats that a `SphinxPreview` can be displayed in.
+ */
+export type PreviewFormat = 'text' | 'json' | 'markdown'
+
+export const PREVIEW_FORMATS: Array<PreviewFormat> = [
+  'text',
+  'json',
+  'markdown',
+]
+
+/**
+ * @notice The version of the JSON preview schema. This must be incremented whenever a breaking
+ * change is made to the `SphinxPreviewJson` type.
+ */
+export const PREVIEW_JSON_FORMAT = 'sphinx-preview-1'
+
+/**
+ * @notice An element of a JSON preview. The `type` field determines which of the other fields exist.
+ *
+ * @field SystemDeployment Deploys the Sphinx and Gnosis Safe system contracts.
+ * @field FundingSafe      Transfers `value` (in wei) to the Gnosis Safe.
+ * @field FunctionCall     Calls a function or deploys a contract. The `address` field is an empty
+ * string if it's unknown. The `scriptPath` field is the Forge script that the action was collected
+ * from, which is only defined for deployments that combine multiple scripts.
+ * @field RawCall          Calls an address with raw calldata that couldn't be decoded.
+ */
+export type PreviewElementJson =
+  | { type: 'SystemDeployment' }
+  | { type: 'FundingSafe'; value: string }
+  | {
+      type: 'FunctionCall'
+      referenceName: string
+      functionName: string
+      variables: ParsedVariable
+      address: string
+      value: string
+      scriptPath?: string
+    }
+  | { type: 'RawCall'; to: string; data: string; value: string }
+
+/**
+ * @notice The JSON representation of a `SphinxPreview`. This schema is stable, i.e. fields are
+ * only added, never removed or changed, unless the `format` field is incremented.
+ *
+ * @field format             Always equal to `PREVIEW_JSON_FORMAT`.
+ * @field networks           Networks that have identical `executing` and `skipping` arrays are
+ * grouped into a single element. All values in wei are decimal strings.
+ * @field unlabeledAddresses The addresses that Sphinx couldn't find a contract artifact for, sorted
+ * in the order they were first found.
+ * @field costEstimates      The estimated cost of the deployment on each network. Only defined for
+ * deployments that are executed on live networks from the user's machine.
+ * @field arbitraryChain     True if the Merkle root can be executed on any chain.
+ */
+export type SphinxPreviewJson = {
+  format: typeof PREVIEW_JSON_FORMAT
+  merkleRoot: string
+  arbitraryChain: boolean
+  networks: Array<{
+    networkTags: Array<string>
+    chainId: string
+    safeAddress: string
+    executing: Array<PreviewElementJson>
+    skipping: Array<PreviewElementJson>
+  }>
+  unlabeledAddresses: Array<string>
+  costEstimates?: Array<NetworkCostEstimate>
 }
 
 export const isDecodedAction = (
   element: PreviewElement
-): element is DecodedAction =>
+): element is PreviewAction =>
   (element as DecodedAction).referenceName !== undefined &&
   (element as DecodedAction).functionName !== undefined &&
   (element as DecodedAction).variables !== undefined
@@ -68,6 +152,13 @@ export const getPreviewString = (
 ): string => {
   let previewString = ''
 
+  if (preview.arbitraryChain) {
+    previewString += `${red.bold(
+      `Warning: This deployment can be executed on any chain.`
+    )}\n`
+    previewString += `${red(getArbitraryChainWarning(preview))}\n\n`
+  }
+
   const skippingReason = `${yellow.bold(`Reason:`)} ${yellow(
     `Already executed.`
   )}`
@@ -96,12 +187,25 @@ export const getPreviewString = (
       executingArray.push(green.underline.bold(`Nothing to execute.`))
     } else {
       executingArray.push(green.underline.bold(`Executing:`))
+      // The actions of a deployment that combines multiple scripts are grouped by the script that
+      // they were collected from. The numbering is continuous across the scripts.
+      let currentScriptPath: string | undefined
       for (let i = 0; i < executing.length; i++) {
         const element = executing[i]
 
         if (isDecodedAction(element)) {
-          const { referenceName, functionName, variables, address, value } =
-            element
+          const {
+            referenceName,
+            functionName,
+            variables,
+            address,
+            value,
+            scriptPath,
+          } = element
+          if (scriptPath !== undefined && scriptPath !== currentScriptPath) {
+            executingArray.push(green.bold(`Script: ${scriptPath}`))
+            currentScriptPath = scriptPath
+          }
           const actionStr = prettyFunctionCall(
             referenceName,
             address,
@@ -193,6 +297,18 @@ export const getPreviewString = (
     )
   }
 
+  if (preview.costEstimates) {
+    const rows = getCostTableRows(preview.costEstimates)
+    const widths = rows[0].map((_, i) =>
+      Math.max(...rows.map((row) => row[i].length))
+    )
+    const [header, ...body] = rows.map((row) =>
+      row.map((cell, i) => cell.padEnd(widths[i])).join('  ')
+    )
+    previewString += `${bold.underline(`Estimated Costs:`)}\n`
+    previewString += `${bold(header)}\n${body.join('\n')}\n\n`
+  }
+
   previewString += `Merkle Root: ${preview.merkleRoot}\n\n`
 
   if (includeConfirmQuestion) {
@@ -201,6 +317,157 @@ export const getPreviewString = (
   return previewString
 }
 
+/**
+ * @notice Converts a `SphinxPreview` into an object that can be serialized to JSON.
+ */
+export const getPreviewJson = (preview: SphinxPreview): SphinxPreviewJson => {
+  return {
+    format: PREVIEW_JSON_FORMAT,
+    merkleRoot: preview.merkleRoot,
+    arbitraryChain: preview.arbitraryChain,
+    networks: preview.networks.map(
+      ({ networkTags, chainId, safeAddress, executing, skipping }) => ({
+        networkTags,
+        chainId,
+        safeAddress,
+        executing: executing.map(toPreviewElementJson),
+        skipping: skipping.map(toPreviewElementJson),
+      })
+    ),
+    unlabeledAddresses: Array.from(preview.unlabeledAddresses),
+    costEstimates: preview.costEstimates,
+  }
+}
+
+/**
+ * @notice Returns a Markdown string that describes the changes that will be made to a set of
+ * contracts. Each network is rendered as a collapsible section so that the preview can be posted
+ * in a pull request comment or an approval ticket.
+ */
+export const getPreviewMarkdownString = (preview: SphinxPreview): string => {
+  const lines: Array<string> = ['## Sphinx Preview', '']
+
+  if (preview.arbitraryChain) {
+    lines.push(
+      `> **Warning:** This deployment can be executed on any chain. ` +
+        getArbitraryChainWarning(preview).replace(/\n/g, ' '),
+      ''
+    )
+  }
+
+  for (const {
+    networkTags,
+    executing,
+    skipping,
+    chainId,
+    safeAddress,
+  } of preview.networks) {
+    const summary =
+      networkTags.length === 1
+        ? `<b>Network:</b> ${networkTags[0]}`
+        : `<b>Networks:</b> ${networkTags.join(', ')}`
+    lines.push('<details>', `<summary>${summary}</summary>`, '')
+
+    if (executing.length === 0) {
+      lines.push('Nothing to execute.', '')
+    } else {
+      lines.push('#### Executing', '')
+      lines.push(...getMarkdownTable(executing, chainId, safeAddress), '')
+    }
+
+    if (skipping.length > 0) {
+      lines.push('#### Skipping', '', '**Reason:** Already executed.', '')
+      lines.push(...getMarkdownTable(skipping, chainId, safeAddress), '')
+    }
+
+    lines.push('</details>', '')
+  }
+
+  if (preview.unlabeledAddresses.size > 0) {
+    lines.push(
+      `> **Warning:** Sphinx couldn't find a contract artifact for the following addresses. ` +
+        `Sphinx will not create a deployment artifact or attempt Etherscan verification for them.`,
+      ''
+    )
+    for (const address of preview.unlabeledAddresses) {
+      lines.push(`- \`${address}\``)
+    }
+    lines.push('')
+  }
+
+  if (preview.costEstimates) {
+    const [header, ...body] = getCostTableRows(preview.costEstimates)
+    lines.push('#### Estimated Costs', '')
+    lines.push(`| ${header.join(' | ')} |`)
+    lines.push(
+      `| ${header.map((cell) => '-'.repeat(cell.length)).join(' | ')} |`
+    )
+    lines.push(...body.map((row) => `| ${row.join(' | ')} |`), '')
+  }
+
+  lines.push(`**Merkle Root:** \`${preview.merkleRoot}\``, '')
+
+  return lines.join('\n')
+}
+
+/**
+ * @notice Returns a string that describes the changes that will be made to a set of contracts in
+ * the given format. The confirmation question is appended on a separate line for every format.
+ */
+export const getFormattedPreviewString = (
+  preview: SphinxPreview,
+  format: PreviewFormat,
+  includeConfirmQuestion: boolean
+): string => {
+  if (format === 'text') {
+    return getPreviewString(preview, includeConfirmQuestion)
+  }
+
+  const previewString =
+    format === 'json'
+      ? JSON.stringify(getPreviewJson(preview), null, 2)
+      : getPreviewMarkdownString(preview)
+
+  return includeConfirmQuestion
+    ? `${previewString}\n\nConfirm? [y/n]`
+    : previewString
+}
+
+/**
+ * @notice Returns a string that describes a Merkle tree that cancels an active Merkle root in a
+ * Gnosis Safe's `SphinxModuleProxy` on a set of networks.
+ */
+export const getCancellationPreviewString = (
+  merkleRootToCancel: string,
+  networkTags: Array<string>,
+  safeAddress: string,
+  merkleRoot: string,
+  includeConfirmQuestion: boolean
+): string => {
+  let previewString = ''
+
+  const networkTagsArray: Array<string> = []
+  if (networkTags.length === 1) {
+    networkTagsArray.push(`${bold(`Network:`)} ${networkTags[0]}`)
+  } else {
+    networkTagsArray.push(bold.underline(`Networks:`))
+    const networks = networkTags.map((tag, i) => `${i + 1}. ${tag}`)
+    networkTagsArray.push(...networks)
+  }
+  previewString += `${networkTagsArray.join('\n')}\n`
+
+  previewString += `${yellow.underline.bold(`Canceling:`)}\n`
+  previewString += `${yellow(`Merkle Root: ${merkleRootToCancel}`)}\n`
+  previewString += `${yellow(`Gnosis Safe: ${safeAddress}`)}\n\n`
+
+  previewString += `Merkle Root: ${merkleRoot}\n\n`
+
+  if (includeConfirmQuestion) {
+    previewString += `Confirm? [y/n]`
+  }
+  return previewString
+}
+
 const assertIsFundingCheckAction = (
   fundingCheck: ActionInput | undefined,
   fundingRequest: {
@@ -334,8 +601,12 @@ export const getPreview = (
             value: networkConfig.safeFundingRequest.fundsRequested,
           })
         } else {
-          const { decodedAction } = actionInputs[i]
-          executing.push(decodedAction)
+          const { decodedAction, scriptPath } = actionInputs[i]
+          executing.push(
+            scriptPath !== undefined
+              ? { ...decodedAction, scriptPath }
+              : decodedAction
+          )
         }
       }
     }
@@ -354,6 +625,9 @@ export const getPreview = (
     networks: [],
     unlabeledAddresses: new Set([]),
     merkleRoot,
+    arbitraryChain: networkConfigs.some(
+      (networkConfig) => networkConfig.arbitraryChain
+    ),
   }
   for (const [
     networkTag,
@@ -384,6 +658,24 @@ export const getPreview = (
   return preview
 }
 
+/**
+ * @notice Explains the consequences of a Merkle root that can be executed on an arbitrary chain.
+ * The lines are separated by newlines so that the warning fits in a terminal.
+ */
+const getArbitraryChainWarning = (preview: SphinxPreview): string => {
+  const safeAddresses = Array.from(
+    new Set(preview.networks.map(({ safeAddress }) => safeAddress))
+  )
+  return (
+    `After the Merkle root is signed, it can be executed by the Gnosis Safe at\n` +
+    `${safeAddresses.join(
+      ', '
+    )} on any network, including networks that aren't listed in this\n` +
+    `preview and networks that are added in the future. The Gnosis Safe owners won't be asked to\n` +
+    `sign again. Only approve this deployment if you intend for it to be replayed on other networks.`
+  )
+}
+
 const isSystemDeploymentElement = (
   element: PreviewElement
 ): element is SystemDeploymentElement => {
@@ -395,3 +687,126 @@ const isFundingSafeElement = (
 ): element is FundingSafeElement => {
   return (element as FundingSafeElement).type === 'FundingSafe'
 }
+
+const toPreviewElementJson = (element: PreviewElement): PreviewElementJson => {
+  if (isSystemDeploymentElement(element)) {
+    return { type: 'SystemDeployment' }
+  } else if (isFundingSafeElement(element)) {
+    return { type: 'FundingSafe', value: element.value }
+  } else if (isDecodedAction(element)) {
+    const {
+      referenceName,
+      functionName,
+      variables,
+      address,
+      value,
+      scriptPath,
+    } = element
+    return {
+      type: 'FunctionCall',
+      referenceName,
+      functionName,
+      variables,
+      address,
+      value: value ?? '0',
+      ...(scriptPath !== undefined ? { scriptPath } : {}),
+    }
+  } else {
+    const { to, data, value } = element
+    return { type: 'RawCall', to, data, value }
+  }
+}
+
+/**
+ * @notice Returns the rows of a Markdown table that lists a set of preview elements. Function calls
+ * are rendered on a single line because Markdown table cells can't contain newlines.
+ */
+const getMarkdownTable = (
+  elements: Array<PreviewElement>,
+  chainId: string,
+  safeAddress: string
+): Array<string> => {
+  // Deployments that combine multiple scripts have a column for the script of each action.
+  const includeScripts = elements.some(
+    (element) => isDecodedAction(element) && element.scriptPath !== undefined
+  )
+  const rows = includeScripts
+    ? ['| # | Script | Action |', '| - | ------ | ------ |']
+    : ['| # | Action |', '| - | ------ |']
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i]
+
+    let actionStr: string
+    if (isSystemDeploymentElement(element)) {
+      actionStr = 'Sphinx & Gnosis Safe Contracts'
+    } else if (isFundingSafeElement(element)) {
+      actionStr = prettyFunctionCall(
+        'GnosisSafe',
+        safeAddress,
+        'call',
+        {},
+        chainId,
+        element.value,
+        0
+      )
+    } else if (isDecodedAction(element)) {
+      actionStr = prettyFunctionCall(
+        element.referenceName,
+        element.address,
+        element.functionName,
+        element.variables,
+        chainId,
+        element.value,
+        0
+      )
+    } else {
+      actionStr = prettyRawFunctionCall(element.to, element.data)
+    }
+
+    const actionCell = `\`${actionStr.replace(/\|/g, '\\|')}\``
+    if (includeScripts) {
+      const scriptPath =
+        isDecodedAction(element) && element.scriptPath !== undefined
+          ? `\`${element.scriptPath}\``
+          : ''
+      rows.push(`| ${i + 1} | ${scriptPath} | ${actionCell} |`)
+    } else {
+      rows.push(`| ${i + 1} | ${actionCell} |`)
+    }
+  }
+  return rows
+}
+
+/**
+ * @notice Returns the rows of the table that displays the estimated cost on each network. The
+ * first row is the header.
+ */
+const getCostTableRows = (
+  costEstimates: Array<NetworkCostEstimate>
+): Array<Array<string>> => {
+  return [
+    [
+      'Network',
+      'Estimated Gas',
+      'Max Fee Per Gas',
+      'Estimated Cost',
+      'Balance',
+    ],
+    ...costEstimates.map(
+      ({
+        networkName,
+        currency,
+        estimatedGas,
+        feePerGas,
+        estimatedCost,
+        balance,
+      }) => [
+        networkName,
+        estimatedGas,
+        `${ethers.formatUnits(feePerGas, 'gwei')} gwei`,
+        `${ethers.formatEther(estimatedCost)} ${currency}`,
+        `${ethers.formatEther(balance)} ${currency}`,
+      ]
+    ),
+  ]
+}
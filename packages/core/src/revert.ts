@@ -0,0 +1,158 @@
+import { HardhatEthersProvider } from '@nomicfoundation/hardhat-ethers/internal/hardhat-ethers-provider'
+import { SphinxLeaf, decodeExecuteLeafData } from '@sphinx-labs/contracts'
+import { ethers } from 'ethers'
+
+import { ConfigArtifacts } from './config/types'
+import { SphinxJsonRpcProvider } from './provider'
+
+const ERROR_SELECTOR = ethers.id('Error(string)').slice(0, 10)
+const PANIC_SELECTOR = ethers.id('Panic(uint256)').slice(0, 10)
+
+/**
+ * @notice The reasons for the panic codes that the Solidity compiler inserts. See:
+ * https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+ */
+const PANIC_REASONS: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic underflow or overflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid encoded storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+}
+
+const formatRevertArg = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatRevertArg).join(', ')}]`
+  } else if (typeof value === 'string' && !ethers.isHexString(value)) {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+/**
+ * @notice Decodes the data returned by a call that reverted. Custom errors are decoded using the
+ * ABIs of every contract in the `configArtifacts`.
+ *
+ * @returns A human-readable revert reason, e.g. `Error("Ownable: caller is not the owner")`,
+ * `Panic(0x11): arithmetic underflow or overflow`, or `InsufficientBalance(1, 2)`. Returns
+ * undefined if the revert data is empty, which happens if the call reverted without a reason or ran
+ * out of gas.
+ */
+export const decodeRevertData = (
+  data: string,
+  configArtifacts: ConfigArtifacts
+): string | undefined => {
+  if (ethers.dataLength(data) === 0) {
+    return undefined
+  }
+
+  const unknown = `Unknown error (revert data: ${data})`
+  if (ethers.dataLength(data) < 4) {
+    return unknown
+  }
+
+  const coder = ethers.AbiCoder.defaultAbiCoder()
+  const selector = ethers.dataSlice(data, 0, 4)
+  const encodedArgs = ethers.dataSlice(data, 4)
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [message] = coder.decode(['string'], encodedArgs)
+      return `Error(${JSON.stringify(message)})`
+    } else if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(['uint256'], encodedArgs)
+      const reason = PANIC_REASONS[Number(code)] ?? 'unknown panic code'
+      return `Panic(0x${code.toString(16).padStart(2, '0')}): ${reason}`
+    }
+  } catch (e) {
+    // The revert data is malformed, so we can't decode it.
+    return unknown
+  }
+
+  for (const { artifact } of Object.values(configArtifacts)) {
+    const iface = new ethers.Interface(artifact.abi)
+    let decoded: string | undefined
+    iface.forEachError((fragment) => {
+      if (decoded !== undefined || fragment.selector !== selector) {
+        return
+      }
+      try {
+        const args = iface.decodeErrorResult(fragment, data)
+        decoded = `${fragment.name}(${args.map(formatRevertArg).join(', ')})`
+      } catch (e) {
+        // The selector matches, but the arguments don't. This can happen if two errors have the
+        // same selector, so we keep searching.
+      }
+    })
+    if (decoded !== undefined) {
+      return decoded
+    }
+  }
+
+  return unknown
+}
+
+/**
+ * @notice Returns the revert data of an error thrown by an `eth_call`. Different RPC providers put
+ * the revert data in different fields, so we check each of them.
+ */
+export const getRevertDataFromError = (e: any): string | undefined => {
+  const candidates = [e?.data, e?.error?.data, e?.info?.error?.data]
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate)) {
+      return candidate
+    } else if (
+      typeof candidate?.data === 'string' &&
+      ethers.isHexString(candidate.data)
+    ) {
+      return candidate.data
+    }
+  }
+  return undefined
+}
+
+/**
+ * @notice Replays the transaction in an `EXECUTE` leaf from the Gnosis Safe using `eth_call` and
+ * returns its revert data. A Merkle leaf that's executed via `DELEGATECALL` is replayed as a
+ * regular call, so the revert data may differ from the on-chain revert in this case. We replay the
+ * transaction with the leaf's `gas`, which is the gas that the Sphinx Module forwards to the action,
+ * so that an action that ran out of gas on-chain doesn't succeed with the RPC provider's default gas
+ * limit when it's replayed.
+ *
+ * @param blockTag The block to replay the transaction at. This should be the block that the leaf
+ * failed in so that the state changes from the previous leaves in the same batch are included.
+ * @returns The revert data, or undefined if the transaction didn't revert when it was replayed. The
+ * revert data is `0x` if the transaction reverted without a reason.
+ */
+export const fetchActionRevertData = async (
+  provider: SphinxJsonRpcProvider | HardhatEthersProvider,
+  safeAddress: string,
+  leaf: SphinxLeaf,
+  blockTag: ethers.BlockTag
+): Promise<string | undefined> => {
+  const { to, value, gas, txData } = decodeExecuteLeafData(leaf)
+  try {
+    await provider.call({
+      from: safeAddress,
+      to,
+      value,
+      gasLimit: gas,
+      data: txData,
+      blockTag,
+    })
+  } catch (e) {
+    const revertData = getRevertDataFromError(e)
+    if (revertData !== undefined) {
+      return revertData
+    } else if (ethers.isError(e, 'CALL_EXCEPTION')) {
+      // The call reverted without any data.
+      return '0x'
+    }
+    throw e
+  }
+  return undefined
+}
@@ -0,0 +1,241 @@
+import { ethers } from 'ethers'
+import { Operation } from '@sphinx-labs/contracts'
+
+import {
+  ActionInput,
+  ActionInputType,
+  ConfigArtifacts,
+  NetworkConfig,
+} from './config/types'
+import { fetchNameForNetwork } from './networks'
+import { prettyFunctionCall } from './utils'
+
+/**
+ * @notice The version of the Safe{Wallet} Transaction Builder batch file format.
+ */
+export const SAFE_TX_BUILDER_BATCH_VERSION = '1.0'
+
+/**
+ * @notice An input of a contract method in a Transaction Builder batch file. This has the same
+ * shape as an input in a Solidity ABI.
+ */
+export type SafeTxBuilderMethodInput = {
+  name: string
+  type: string
+  components?: Array<SafeTxBuilderMethodInput>
+}
+
+/**
+ * @notice A transaction in a Transaction Builder batch file.
+ *
+ * @field data                The raw calldata. Null if the transaction has a `contractMethod`, in
+ * which case the Transaction Builder encodes the calldata using `contractInputsValues`.
+ * @field contractInputsValues The value of each input, keyed by the input's name. Arrays and tuples
+ * are JSON strings.
+ */
+export type SafeTxBuilderTransaction = {
+  to: string
+  value: string
+  data: string | null
+  contractMethod: {
+    name: string
+    payable: boolean
+    inputs: Array<SafeTxBuilderMethodInput>
+  } | null
+  contractInputsValues: { [inputName: string]: string } | null
+}
+
+/**
+ * @notice A batch file that can be imported into the Safe{Wallet} Transaction Builder app.
+ */
+export type SafeTxBuilderBatch = {
+  version: string
+  chainId: string
+  createdAt: number
+  meta: {
+    name: string
+    description: string
+    txBuilderVersion: string
+    createdFromSafeAddress: string
+    createdFromOwnerAddress: string
+  }
+  transactions: Array<SafeTxBuilderTransaction>
+}
+
+/**
+ * @notice Converts the actions in a `NetworkConfig` into a Safe{Wallet} Transaction Builder batch.
+ * This allows a Safe that can't enable the Sphinx Module to execute the deployment. The decoded
+ * contract method and inputs are included for every call to a contract that has an ABI in the
+ * `configArtifacts`.
+ *
+ * @param createdAt The timestamp of the batch in milliseconds.
+ */
+export const makeSafeTxBuilderBatch = (
+  networkConfig: NetworkConfig,
+  configArtifacts: ConfigArtifacts,
+  merkleRoot: string,
+  createdAt: number
+): SafeTxBuilderBatch => {
+  const { chainId, safeAddress, actionInputs, initialState, newConfig } =
+    networkConfig
+  const networkName = fetchNameForNetwork(BigInt(chainId))
+
+  if (!initialState.isSafeDeployed) {
+    throw new Error(
+      `The Gnosis Safe at ${safeAddress} is not deployed on ${networkName}. The Transaction\n` +
+        `Builder can only be used with a Safe that's already deployed.`
+    )
+  }
+
+  // The first action is a balance check if the deployment requests funds for the Safe. We skip it
+  // because the Transaction Builder is executed by a Safe that must already hold the funds.
+  const isFundingRequested =
+    networkConfig.safeFundingRequest !== undefined &&
+    BigInt(networkConfig.safeFundingRequest.fundsRequested) > BigInt(0)
+  const actions = isFundingRequested ? actionInputs.slice(1) : actionInputs
+
+  const unsupported = actions.filter(
+    (action) => action.operation !== Operation.Call
+  )
+  if (unsupported.length > 0) {
+    throw new Error(
+      `The Transaction Builder doesn't support DelegateCall operations, which Sphinx uses to deploy\n` +
+        `contracts with the 'CREATE' opcode. Please deploy these contracts with 'CREATE2' instead,\n` +
+        `e.g. 'new MyContract{ salt: bytes32(0) }()'. Unsupported actions on ${networkName}:\n` +
+        unsupported
+          .map(({ decodedAction }) =>
+            prettyFunctionCall(
+              decodedAction.referenceName,
+              decodedAction.address,
+              decodedAction.functionName,
+              decodedAction.variables,
+              chainId,
+              decodedAction.value
+            )
+          )
+          .join('\n')
+    )
+  }
+
+  return {
+    version: SAFE_TX_BUILDER_BATCH_VERSION,
+    chainId,
+    createdAt,
+    meta: {
+      name: `${newConfig.projectName} (${networkName})`,
+      description: `Exported from Sphinx. Merkle root: ${merkleRoot}`,
+      txBuilderVersion: '',
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: '',
+    },
+    transactions: actions.map((action) =>
+      makeSafeTxBuilderTransaction(action, configArtifacts)
+    ),
+  }
+}
+
+const makeSafeTxBuilderTransaction = (
+  action: ActionInput,
+  configArtifacts: ConfigArtifacts
+): SafeTxBuilderTransaction => {
+  const { to, value, txData } = action
+
+  const fragment =
+    action.actionType === ActionInputType.CALL
+      ? findFunctionFragment(action, configArtifacts)
+      : undefined
+
+  // The Transaction Builder identifies inputs by name, so we can only decode the call if every
+  // input has a unique, non-empty name.
+  const inputNames = fragment ? fragment.inputs.map(({ name }) => name) : []
+  if (
+    !fragment ||
+    inputNames.some((name) => name === '') ||
+    new Set(inputNames).size !== inputNames.length
+  ) {
+    return {
+      to,
+      value,
+      data: txData,
+      contractMethod: null,
+      contractInputsValues: null,
+    }
+  }
+
+  const decoded = new ethers.Interface([fragment]).decodeFunctionData(
+    fragment,
+    txData
+  )
+  const contractInputsValues: { [inputName: string]: string } = {}
+  fragment.inputs.forEach((input, i) => {
+    contractInputsValues[input.name] = stringifyInputValue(decoded[i])
+  })
+
+  return {
+    to,
+    value,
+    data: null,
+    contractMethod: {
+      name: fragment.name,
+      payable: fragment.payable,
+      // The Transaction Builder expects the same format as a Solidity ABI, e.g. `tuple[]` instead of
+      // `tuple(uint256,address)[]`.
+      inputs: fragment.inputs.map((input) => JSON.parse(input.format('json'))),
+    },
+    contractInputsValues,
+  }
+}
+
+/**
+ * @notice Finds the ABI fragment of the function that's called by an action. Returns `undefined`
+ * if the action's target contract doesn't have a known ABI or if the function doesn't exist on it,
+ * e.g. if the call is sent to a fallback function.
+ */
+const findFunctionFragment = (
+  action: ActionInput,
+  configArtifacts: ConfigArtifacts
+): ethers.FunctionFragment | undefined => {
+  const { decodedAction, txData } = action
+
+  // The decoded action's address is an empty string if Sphinx couldn't find a contract artifact
+  // for the target contract.
+  if (decodedAction.address === '' || ethers.dataLength(txData) < 4) {
+    return undefined
+  }
+
+  const selector = ethers.dataSlice(txData, 0, 4)
+  for (const [fullyQualifiedName, { artifact }] of Object.entries(
+    configArtifacts
+  )) {
+    if (fullyQualifiedName.split(':')[1] !== decodedAction.referenceName) {
+      continue
+    }
+
+    const fragment = new ethers.Interface(artifact.abi).getFunction(selector)
+    if (fragment && fragment.name === decodedAction.functionName) {
+      return fragment
+    }
+  }
+  return undefined
+}
+
+/**
+ * @notice Converts a decoded ABI value to the string format that the Transaction Builder expects.
+ * Arrays and tuples are converted to JSON strings, and all numbers are converted to decimal
+ * strings.
+ */
+const stringifyInputValue = (value: any): string => {
+  if (value instanceof ethers.Result || Array.isArray(value)) {
+    return JSON.stringify(toJsonCompatible(value))
+  }
+  return value.toString()
+}
+
+const toJsonCompatible = (value: any): any => {
+  if (value instanceof ethers.Result || Array.isArray(value)) {
+    return Array.from(value).map(toJsonCompatible)
+  } else if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  return value
+}
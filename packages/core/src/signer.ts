@@ -0,0 +1,218 @@
+import { readFileSync } from 'fs'
+
+import { ethers } from 'ethers'
+
+/**
+ * @notice The JSON-RPC methods that a remote signer supports. Web3Signer uses the standard `eth_`
+ * methods, and Clef uses its own `account_` methods.
+ */
+export type RemoteSignerApi = 'eth' | 'clef'
+
+export const REMOTE_SIGNER_APIS: Array<RemoteSignerApi> = ['eth', 'clef']
+
+/**
+ * @notice The account that signs Merkle roots and sends transactions from the CLI.
+ *
+ * - `privateKey`: A raw private key. This is intended for local use.
+ * - `remote`: An external JSON-RPC signer such as Clef or Web3Signer. The private key never leaves
+ * the signer. If the `address` isn't specified, we use the signer's only account.
+ * - `keystore`: An encrypted JSON keystore file.
+ */
+export type SignerConfig =
+  | { type: 'privateKey'; privateKey: string }
+  | { type: 'remote'; url: string; api: RemoteSignerApi; address?: string }
+  | { type: 'keystore'; path: string; password: string }
+
+const REMOTE_SIGNER_METHODS: Record<
+  RemoteSignerApi,
+  {
+    accounts: string
+    signTransaction: string
+    signTypedData: string
+    signMessage: string
+  }
+> = {
+  eth: {
+    accounts: 'eth_accounts',
+    signTransaction: 'eth_signTransaction',
+    signTypedData: 'eth_signTypedData',
+    signMessage: 'eth_sign',
+  },
+  clef: {
+    accounts: 'account_list',
+    signTransaction: 'account_signTransaction',
+    signTypedData: 'account_signTypedData',
+    signMessage: 'account_signData',
+  },
+}
+
+let remoteSignerRequestId = 0
+
+/**
+ * @notice Sends a JSON-RPC request to a remote signer and returns its result.
+ */
+const sendRemoteSignerRequest = async (
+  url: string,
+  method: string,
+  params: Array<any>
+): Promise<any> => {
+  const request = new ethers.FetchRequest(url)
+  remoteSignerRequestId += 1
+  request.body = {
+    jsonrpc: '2.0',
+    id: remoteSignerRequestId,
+    method,
+    params,
+  }
+
+  const response = await request.send()
+  response.assertOk()
+
+  const { result, error } = response.bodyJson
+  if (error) {
+    throw new Error(
+      `The remote signer at ${url} returned an error for ${method}: ${error.message}`
+    )
+  }
+  return result
+}
+
+/**
+ * @notice A signer that delegates signing to an external JSON-RPC signer, e.g. Clef or
+ * Web3Signer. Transactions are signed by the remote signer and broadcast by the provider.
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly url: string
+  readonly api: RemoteSignerApi
+  readonly address: string
+
+  constructor(
+    url: string,
+    api: RemoteSignerApi,
+    address: string,
+    provider: ethers.Provider | null = null
+  ) {
+    super(provider)
+    this.url = url
+    this.api = api
+    this.address = ethers.getAddress(address)
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.api, this.address, provider)
+  }
+
+  async signTransaction(
+    transaction: ethers.TransactionRequest
+  ): Promise<string> {
+    const populated = await this.populateTransaction(transaction)
+    delete populated.from
+    const tx = ethers.Transaction.from(
+      populated as ethers.TransactionLike<string>
+    )
+
+    const rpcTransaction: Record<string, string> = {
+      from: this.address,
+      data: tx.data,
+      nonce: ethers.toQuantity(tx.nonce),
+      gas: ethers.toQuantity(tx.gasLimit),
+      value: ethers.toQuantity(tx.value),
+      chainId: ethers.toQuantity(tx.chainId),
+    }
+    if (tx.to) {
+      rpcTransaction.to = tx.to
+    }
+    if (tx.type === 2) {
+      rpcTransaction.maxFeePerGas = ethers.toQuantity(tx.maxFeePerGas ?? 0)
+      rpcTransaction.maxPriorityFeePerGas = ethers.toQuantity(
+        tx.maxPriorityFeePerGas ?? 0
+      )
+    } else {
+      rpcTransaction.gasPrice = ethers.toQuantity(tx.gasPrice ?? 0)
+    }
+
+    const result = await this.send('signTransaction', [rpcTransaction])
+    // Clef returns the raw transaction along with the decoded transaction.
+    return typeof result === 'string' ? result : result.raw
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data =
+      typeof message === 'string'
+        ? ethers.hexlify(ethers.toUtf8Bytes(message))
+        : ethers.hexlify(message)
+    return this.api === 'clef'
+      ? this.send('signMessage', ['text/plain', this.address, data])
+      : this.send('signMessage', [this.address, data])
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value)
+    return this.send('signTypedData', [this.address, payload])
+  }
+
+  private send(
+    method: keyof (typeof REMOTE_SIGNER_METHODS)[RemoteSignerApi],
+    params: Array<any>
+  ): Promise<any> {
+    return sendRemoteSignerRequest(
+      this.url,
+      REMOTE_SIGNER_METHODS[this.api][method],
+      params
+    )
+  }
+}
+
+/**
+ * @notice Creates a `RemoteSigner`. If the address isn't specified, we use the only account in the
+ * remote signer, and throw an error if it has more than one account.
+ */
+export const makeRemoteSigner = async (
+  url: string,
+  api: RemoteSignerApi,
+  address?: string
+): Promise<RemoteSigner> => {
+  if (address !== undefined) {
+    return new RemoteSigner(url, api, address)
+  }
+
+  const accounts: Array<string> = await sendRemoteSignerRequest(
+    url,
+    REMOTE_SIGNER_METHODS[api].accounts,
+    []
+  )
+  if (accounts.length !== 1) {
+    throw new Error(
+      `Expected the remote signer at ${url} to have one account, but it has ${accounts.length}.\n` +
+        `Please specify the address of the account to use.`
+    )
+  }
+  return new RemoteSigner(url, api, accounts[0])
+}
+
+/**
+ * @notice Returns the signer for a `SignerConfig`. The signer isn't connected to a provider.
+ */
+export const makeSigner = async (
+  config: SignerConfig
+): Promise<ethers.Signer> => {
+  switch (config.type) {
+    case 'privateKey':
+      return new ethers.Wallet(config.privateKey)
+    case 'remote':
+      return makeRemoteSigner(config.url, config.api, config.address)
+    case 'keystore':
+      return ethers.Wallet.fromEncryptedJson(
+        readFileSync(config.path, 'utf-8'),
+        config.password
+      )
+  }
+}
@@ -1,6 +1,7 @@
 import * as dotenv from 'dotenv'
 import {
   DeploymentData,
+  NetworkDeploymentData,
   SphinxMerkleTree,
   SphinxTransaction,
 } from '@sphinx-labs/contracts'
@@ -78,10 +79,32 @@ export const makeDeploymentConfig = (
   }
 }
 
+/**
+ * @notice Creates the `DeploymentData` for a Merkle tree that executes a deployment on each network.
+ *
+ * If `arbitraryChain` is true, the Merkle tree contains a single `APPROVE` leaf and a single set of
+ * `EXECUTE` leaves, which have a chain ID of 0. The signed Merkle root can then be executed on any
+ * chain, including chains that aren't in the network configs. This requires the deployment to be
+ * identical on every network, except for the `gas` of each action, which is set to the highest
+ * value across the networks.
+ */
 export const makeDeploymentData = (
   networkConfigArray: Array<NetworkConfig>
 ): DeploymentData => {
-  const data: DeploymentData = {}
+  const arbitraryChain = networkConfigArray.some(
+    (networkConfig) => networkConfig.arbitraryChain
+  )
+  if (
+    arbitraryChain &&
+    !networkConfigArray.every((networkConfig) => networkConfig.arbitraryChain)
+  ) {
+    throw new Error(
+      `Detected networks where 'arbitraryChain' is true and networks where it's false. The\n` +
+        `'sphinxConfig.arbitraryChain' field must be the same on every network.`
+    )
+  }
+
+  const data: Record<string, NetworkDeploymentData> = {}
   for (const deploymentConfig of networkConfigArray) {
     // We only add a `DeploymentData` object for networks that have at least one `EXECUTE` leaf. If
     // we don't enforce this, the default behavior would be to add an `APPROVE` leaf without any
@@ -117,5 +140,100 @@ export const makeDeploymentData = (
     }
   }
 
+  return arbitraryChain ? mergeArbitraryChainDeploymentData(data) : data
+}
+
+/**
+ * @notice Merges the `DeploymentData` of each network into a single entry, which is keyed by the
+ * first chain ID. Throws an error if the deployment isn't identical on every network.
+ */
+const mergeArbitraryChainDeploymentData = (
+  data: Record<string, NetworkDeploymentData>
+): DeploymentData => {
+  const entries = Object.entries(data)
+  if (entries.length === 0) {
+    return {}
+  }
+
+  const [[firstChainId, first], ...rest] = entries
+  const txs = first.txs.map((tx) => ({ ...tx }))
+  for (const [chainId, networkData] of rest) {
+    if (
+      getChainIndependentData(networkData) !== getChainIndependentData(first)
+    ) {
+      throw new Error(
+        `The deployment on chain ID ${chainId} is different from the deployment on chain ID ${firstChainId}.\n` +
+          `If 'arbitraryChain' is true, the deployment must be identical on every network because a\n` +
+          `single Merkle root is executed on all of them. This includes the Gnosis Safe's Merkle root\n` +
+          `nonce, which is different if a previous deployment was executed on only some networks.`
+      )
+    }
+
+    networkData.txs.forEach((tx, i) => {
+      if (BigInt(tx.gas) > BigInt(txs[i].gas)) {
+        txs[i].gas = tx.gas
+      }
+    })
+  }
+
+  return { [firstChainId]: { ...first, txs } }
+}
+
+const getChainIndependentData = ({
+  nonce,
+  executor,
+  safeProxy,
+  moduleProxy,
+  uri,
+  txs,
+}: NetworkDeploymentData): string =>
+  JSON.stringify({
+    nonce,
+    executor,
+    safeProxy,
+    moduleProxy,
+    uri,
+    txs: txs.map(({ to, value, txData, operation, requireSuccess }) => ({
+      to,
+      value,
+      txData,
+      operation,
+      requireSuccess,
+    })),
+  })
+
+/**
+ * @notice Creates the `DeploymentData` for a Merkle tree that cancels an active Merkle root. The
+ * tree contains a single `CANCEL` leaf on each network.
+ *
+ * @param networks The networks to cancel the Merkle root on. The `nonce` is the current
+ * `merkleRootNonce` in the `SphinxModuleProxy` on the network, and the `executor` is the account
+ * that will submit the cancellation.
+ * @param merkleRootToCancel The Merkle root that will be canceled.
+ */
+export const makeCancellationData = (
+  networks: Array<{
+    chainId: string
+    nonce: string
+    executor: string
+    safeAddress: string
+    moduleAddress: string
+  }>,
+  merkleRootToCancel: string
+): DeploymentData => {
+  const data: DeploymentData = {}
+  for (const network of networks) {
+    const { chainId, nonce, executor, safeAddress, moduleAddress } = network
+    data[chainId] = {
+      type: 'cancellation',
+      nonce,
+      executor,
+      safeProxy: safeAddress,
+      moduleProxy: moduleAddress,
+      uri: '',
+      merkleRootToCancel,
+    }
+  }
+
   return data
 }
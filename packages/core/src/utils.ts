@@ -2,6 +2,8 @@ import * as fs from 'fs'
 import { promisify } from 'util'
 import { exec, spawn } from 'child_process'
 import { join } from 'path'
+import { createInterface } from 'readline'
+import { Writable } from 'stream'
 import { existsSync } from 'fs'
 
 import yesno from 'yesno'
@@ -34,6 +36,8 @@ import {
   DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
   CreateCallArtifact,
   MAX_CONTRACT_SIZE_LIMIT,
+  SphinxModuleABI,
+  GasPriceStrategyConfig,
 } from '@sphinx-labs/contracts'
 
 import {
@@ -50,6 +54,7 @@ import {
 import {
   ProposalRequest,
   MerkleRootStatus,
+  MerkleRootState,
   HumanReadableAction,
 } from './actions/types'
 import { ExecutionMode } from './constants'
@@ -60,7 +65,10 @@ import {
   LocalNetworkMetadata,
   fetchNameForDeprecatedNetwork,
   fetchNameForNetwork,
+  isLatestNonceRequiredForNetwork,
 } from './networks'
+import { getGasPriceStrategyForNetwork } from './gas-price'
+import { SphinxNonceManager } from './nonce'
 import { RelayProposal, SphinxLock, StoreDeploymentConfig } from './types'
 import {
   NetworkArtifacts,
@@ -152,17 +160,21 @@ export const getEIP1967ProxyAdminAddress = async (
 }
 
 /**
- * Overrides an object's gas price settings to handle a variety of edge cases on different networks.
+ * Overrides an object's gas price settings using the network's gas price strategy. See
+ * `GasPriceStrategyConfig` for the available strategies.
  *
  * @param provider Provider object.
  * @param overridden The object whose gas price settings will be overridden.
+ * @param gasPriceStrategy The user's gas price strategy for the network, which overrides the
+ * network's default strategy.
  * @returns The object whose gas price settings will be overridden.
  */
 export const getGasPriceOverrides = async (
   provider: SphinxJsonRpcProvider | HardhatEthersProvider,
   signer: ethers.Signer,
   executionMode: ExecutionMode,
-  overridden: ethers.TransactionRequest = {}
+  overridden: ethers.TransactionRequest = {},
+  gasPriceStrategy?: GasPriceStrategyConfig
 ): Promise<ethers.TransactionRequest> => {
   const [block, feeData, network] = await Promise.all([
     provider.getBlock('latest'),
@@ -197,58 +209,28 @@ export const getGasPriceOverrides = async (
     return overridden
   }
 
-  const { maxFeePerGas, maxPriorityFeePerGas, gasPrice } = feeData
+  Object.assign(
+    overridden,
+    getGasPriceStrategyForNetwork(
+      network.chainId,
+      gasPriceStrategy
+    ).getOverrides(feeData)
+  )
 
-  switch (Number(network.chainId)) {
-    // Overrides the gasPrice for Fantom Opera
-    case 250:
-      if (gasPrice !== null) {
-        overridden.gasPrice = gasPrice
-        return overridden
-      }
-    // Do not do anything for polygon zkevm and it's testnet
-    case 1442:
-    case 1101:
-      return overridden
-    // On linea testnet, 10x the gas price because of this bug:
-    // https://github.com/ethers-io/ethers.js/issues/4533
-    case 59140:
-      if (gasPrice !== null) {
-        overridden.gasPrice = gasPrice * BigInt(10)
-        return overridden
-      }
-    // On linea, override the gasPrice
-    case 59144:
-      if (gasPrice !== null) {
-        overridden.gasPrice = gasPrice
-      }
-      return overridden
-    // On Polygon PoS, override the maxPriorityFeePerGas using the max fee
-    case 137:
-      if (maxFeePerGas !== null && maxPriorityFeePerGas !== null) {
-        overridden.maxFeePerGas = maxFeePerGas
-        overridden.maxPriorityFeePerGas = maxFeePerGas.toString()
-      }
-      return overridden
-    // On mumbai, specify the nonce manually to override pending txs
-    case 56:
-    case 80001:
-      overridden.nonce = await provider.getTransactionCount(
-        await signer.getAddress(),
-        'latest'
-      )
-      return overridden
-    // On OKC, override nothing b/c it's unnecessary
-    case 66:
-      return overridden
-    // Default to overriding with maxFeePerGas and maxPriorityFeePerGas
-    default:
-      if (maxFeePerGas !== null && maxPriorityFeePerGas !== null) {
-        overridden.maxFeePerGas = maxFeePerGas
-        overridden.maxPriorityFeePerGas = maxPriorityFeePerGas
-      }
-      return overridden
+  // Setting the nonce using the latest block replaces any transactions from the signer that are
+  // stuck in the mempool. A `SphinxNonceManager` already uses the latest nonce on these networks,
+  // so we don't override the nonce that it hands out.
+  if (
+    isLatestNonceRequiredForNetwork(network.chainId) &&
+    !(signer instanceof SphinxNonceManager)
+  ) {
+    overridden.nonce = await provider.getTransactionCount(
+      await signer.getAddress(),
+      'latest'
+    )
   }
+
+  return overridden
 }
 
 export const isUserContractKind = (
@@ -529,6 +511,30 @@ export const userConfirmation = async (question: string) => {
   }
 }
 
+/**
+ * @notice Prompts the user for a password without displaying it as it's typed.
+ *
+ * @dev We do not call this function directly, instead we call it via SphinxContext to facilitate
+ * dependency injection.
+ */
+export const userPassword = async (question: string): Promise<string> => {
+  process.stdout.write(question)
+  const muted = new Writable({
+    write: (_chunk, _encoding, callback) => callback(),
+  })
+  const rl = createInterface({
+    input: process.stdin,
+    output: muted,
+    terminal: true,
+  })
+  const password = await new Promise<string>((resolve) =>
+    rl.question('', resolve)
+  )
+  rl.close()
+  process.stdout.write('\n')
+  return password
+}
+
 /**
  * @notice Returns the name of the directory that stores artifacts for a network. This directory
  * name is the string name of the network. If the network is a local node, the network name will be
@@ -757,7 +763,10 @@ export const elementsEqual = (ary: Array<ParsedVariable>): boolean => {
   return ary.every((e) => equal(e, ary[0]))
 }
 
-export const displayDeploymentTable = (networkConfig: NetworkConfig) => {
+export const displayDeploymentTable = (
+  networkConfig: NetworkConfig,
+  output: Console = console
+) => {
   const deployments = {}
   let idx = 0
   for (const input of networkConfig.actionInputs) {
@@ -771,7 +780,7 @@ export const displayDeploymentTable = (networkConfig: NetworkConfig) => {
     }
   }
   if (Object.keys(deployments).length > 0) {
-    console.table(deployments)
+    output.table(deployments)
   }
 }
 
@@ -1049,6 +1058,13 @@ export const removeGnosisSafeOwnerViaSphinxModule = async (
   }
 }
 
+/**
+ * @notice Returns the chain ID of a network's leaves in the Merkle tree. This is 0 if the deployment
+ * can be executed on an arbitrary chain.
+ */
+export const getMerkleLeafChainId = (networkConfig: NetworkConfig): bigint =>
+  networkConfig.arbitraryChain ? BigInt(0) : BigInt(networkConfig.chainId)
+
 export const getApproveLeaf = (
   merkleTree: SphinxMerkleTree,
   chainId: bigint
@@ -1120,6 +1136,48 @@ export const stringifyMerkleRootStatus = (status: bigint): string => {
   }
 }
 
+/**
+ * @notice Fetches the state of a Merkle root and the active Merkle root in a `SphinxModuleProxy`.
+ * Returns `undefined` if the `SphinxModuleProxy` hasn't been deployed on the network.
+ */
+export const fetchMerkleRootState = async (
+  moduleAddress: string,
+  merkleRoot: string,
+  provider: SphinxJsonRpcProvider | HardhatEthersProvider
+): Promise<
+  | {
+      merkleRootState: MerkleRootState
+      activeMerkleRoot: string
+    }
+  | undefined
+> => {
+  if ((await provider.getCode(moduleAddress)) === '0x') {
+    return undefined
+  }
+
+  const sphinxModuleReadOnly = new ethers.Contract(
+    moduleAddress,
+    SphinxModuleABI,
+    provider
+  )
+
+  const [state, activeMerkleRoot] = await Promise.all([
+    sphinxModuleReadOnly.merkleRootStates(merkleRoot),
+    sphinxModuleReadOnly.activeMerkleRoot(),
+  ])
+
+  return {
+    merkleRootState: {
+      numLeaves: state.numLeaves,
+      leavesExecuted: state.leavesExecuted,
+      uri: state.uri,
+      executor: state.executor,
+      status: state.status,
+    },
+    activeMerkleRoot,
+  }
+}
+
 export const findStorageSlotKey = (
   storageLayout: SolidityStorageLayout | undefined,
   varName: string
@@ -1150,23 +1208,78 @@ export const isSphinxTransaction = (obj: any): obj is SphinxTransaction => {
   )
 }
 
+const MERKLE_ROOT_DOMAIN = {
+  name: 'Sphinx',
+  version: '1.0.0',
+}
+
+const MERKLE_ROOT_TYPES = { MerkleRoot: [{ name: 'root', type: 'bytes32' }] }
+
 export const signMerkleRoot = async (
   merkleRoot: string,
   wallet: ethers.Signer
 ) => {
-  const domain = {
-    name: 'Sphinx',
-    version: '1.0.0',
-  }
-
-  const types = { MerkleRoot: [{ name: 'root', type: 'bytes32' }] }
-
   const value = { root: merkleRoot }
 
-  const signature = await wallet.signTypedData(domain, types, value)
+  const signature = await wallet.signTypedData(
+    MERKLE_ROOT_DOMAIN,
+    MERKLE_ROOT_TYPES,
+    value
+  )
   return signature
 }
 
+/**
+ * @notice The EIP-712 typed data that a Gnosis Safe owner signs to approve a Merkle root. This is in
+ * the format of the `eth_signTypedData_v4` JSON-RPC method, so wallets can display it as structured
+ * data instead of a hash.
+ */
+export type MerkleRootTypedData = {
+  types: Record<string, Array<ethers.TypedDataField>>
+  domain: { name: string; version: string }
+  primaryType: 'MerkleRoot'
+  message: { root: string }
+}
+
+/**
+ * @notice Returns the EIP-712 domain and message that are signed by `signMerkleRoot`. The
+ * `SphinxModule` checks signatures against the same domain and message.
+ */
+export const getMerkleRootTypedData = (
+  merkleRoot: string
+): MerkleRootTypedData => {
+  return ethers.TypedDataEncoder.getPayload(
+    MERKLE_ROOT_DOMAIN,
+    MERKLE_ROOT_TYPES,
+    { root: merkleRoot }
+  )
+}
+
+/**
+ * @notice Returns the EIP-712 hash of a Merkle root, which is the digest that's signed by
+ * `signMerkleRoot`. Some hardware wallets display this hash instead of the typed data.
+ */
+export const getMerkleRootTypedDataHash = (merkleRoot: string): string => {
+  return ethers.TypedDataEncoder.hash(MERKLE_ROOT_DOMAIN, MERKLE_ROOT_TYPES, {
+    root: merkleRoot,
+  })
+}
+
+/**
+ * @notice Returns the address of the account that signed a Merkle root with `signMerkleRoot`.
+ */
+export const recoverMerkleRootSigner = (
+  merkleRoot: string,
+  signature: string
+): string => {
+  return ethers.verifyTypedData(
+    MERKLE_ROOT_DOMAIN,
+    MERKLE_ROOT_TYPES,
+    { root: merkleRoot },
+    signature
+  )
+}
+
 /**
  * This function sets an account's balance to the maximum possible amount on local networks such as
  * Hardhat or Anvil. The main purpose of setting an account's balance to the maximum amount is to
@@ -0,0 +1,242 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import { Operation, makeSphinxMerkleTree } from '@sphinx-labs/contracts'
+
+import { NetworkConfig } from '../src/config/types'
+import { SphinxJsonRpcProvider } from '../src/provider'
+import {
+  NetworkCostEstimate,
+  assertDeploymentCostWithinBudget,
+  estimateNetworkCost,
+} from '../src/cost'
+import {
+  estimateApprovalGasViaSigner,
+  estimateGasViaSigner,
+} from '../src/actions/execute'
+
+const gwei = (amount: number): bigint => ethers.parseUnits(`${amount}`, 'gwei')
+
+const executorAddress = '0x' + '11'.repeat(20)
+const safeAddress = '0x' + 'ff'.repeat(20)
+const moduleAddress = '0x' + '22'.repeat(20)
+
+describe('Deployment Cost', () => {
+  describe('estimateNetworkCost', () => {
+    const chainId = BigInt(10)
+    const merkleTree = makeSphinxMerkleTree({
+      [chainId.toString()]: {
+        type: 'deployment',
+        nonce: '0',
+        executor: executorAddress,
+        safeProxy: safeAddress,
+        moduleProxy: moduleAddress,
+        uri: '',
+        arbitraryChain: false,
+        txs: ['600000', '400000'].map((gas) => ({
+          to: '0x' + '33'.repeat(20),
+          value: '0',
+          txData: '0x',
+          gas,
+          operation: Operation.Call,
+          requireSuccess: true,
+        })),
+      },
+    })
+    const [approveLeaf, ...executeLeaves] = merkleTree.leavesWithProofs
+    const approvalGas = estimateApprovalGasViaSigner(
+      merkleTree.root,
+      approveLeaf,
+      1,
+      chainId
+    )
+
+    const networkConfig = {
+      chainId: chainId.toString(),
+      safeAddress,
+      moduleAddress,
+      blockGasLimit: '30000000',
+      arbitraryChain: false,
+      isSystemDeployed: true,
+      safeInitData: '0x',
+      newConfig: { threshold: '1', saltNonce: '0' },
+      safeFundingRequest: {
+        startingBalance: '0',
+        fundsRequested: ethers.parseEther('0.5').toString(),
+      },
+    } as unknown as NetworkConfig
+
+    const safeDeploymentGas = BigInt(300_000)
+
+    const makeProvider = (safeBalance: bigint, isSafeDeployed = true) =>
+      ({
+        getFeeData: async () => new ethers.FeeData(gwei(1), gwei(3), gwei(0.1)),
+        getBalance: async (address: string) =>
+          address === safeAddress ? safeBalance : ethers.parseEther('2'),
+        getCode: async (address: string) =>
+          address === safeAddress && !isSafeDeployed ? '0x' : '0x01',
+        estimateGas: async () => safeDeploymentGas,
+      } as unknown as SphinxJsonRpcProvider)
+
+    it('includes the gas of the approval and each batch of actions', async () => {
+      const estimatedGas =
+        BigInt(approvalGas) +
+        BigInt(estimateGasViaSigner(moduleAddress, executeLeaves, chainId))
+
+      const estimate = await estimateNetworkCost(
+        networkConfig,
+        merkleTree,
+        makeProvider(ethers.parseEther('0.5')),
+        executorAddress
+      )
+
+      expect(estimatedGas > BigInt(1_000_000)).to.be.true
+      expect(estimate).to.deep.equal({
+        chainId: 10,
+        networkName: 'optimism',
+        currency: 'ETH',
+        estimatedGas: estimatedGas.toString(),
+        fundsRequested: '0',
+        feePerGas: gwei(3).toString(),
+        estimatedCost: (estimatedGas * gwei(3)).toString(),
+        balance: ethers.parseEther('2').toString(),
+      })
+    })
+
+    it('splits the actions into batches that fit in a transaction', async () => {
+      const estimate = await estimateNetworkCost(
+        { ...networkConfig, blockGasLimit: '1000000' },
+        merkleTree,
+        makeProvider(ethers.parseEther('0.5')),
+        executorAddress
+      )
+
+      expect(estimate.estimatedGas).to.equal(
+        (
+          BigInt(approvalGas) +
+          BigInt(
+            estimateGasViaSigner(moduleAddress, [executeLeaves[0]], chainId)
+          ) +
+          BigInt(
+            estimateGasViaSigner(moduleAddress, [executeLeaves[1]], chainId)
+          )
+        ).toString()
+      )
+    })
+
+    it('includes the funds that are transferred to the Safe', async () => {
+      const withoutTransfer = await estimateNetworkCost(
+        networkConfig,
+        merkleTree,
+        makeProvider(ethers.parseEther('0.5')),
+        executorAddress
+      )
+      const estimate = await estimateNetworkCost(
+        networkConfig,
+        merkleTree,
+        makeProvider(BigInt(0)),
+        executorAddress
+      )
+
+      const estimatedGas = BigInt(withoutTransfer.estimatedGas) + BigInt(21_000)
+      expect(estimate.estimatedGas).to.equal(estimatedGas.toString())
+      expect(estimate.fundsRequested).to.equal(
+        ethers.parseEther('0.5').toString()
+      )
+      expect(estimate.estimatedCost).to.equal(
+        (estimatedGas * gwei(3) + ethers.parseEther('0.5')).toString()
+      )
+    })
+
+    it('includes the deployment of the Safe if it does not exist', async () => {
+      const deployed = await estimateNetworkCost(
+        networkConfig,
+        merkleTree,
+        makeProvider(ethers.parseEther('0.5')),
+        executorAddress
+      )
+      const estimate = await estimateNetworkCost(
+        networkConfig,
+        merkleTree,
+        makeProvider(ethers.parseEther('0.5'), false),
+        executorAddress
+      )
+
+      expect(estimate.estimatedGas).to.equal(
+        (BigInt(deployed.estimatedGas) + safeDeploymentGas).toString()
+      )
+    })
+
+    it('includes the deployment of the Sphinx contracts if they do not exist', async () => {
+      const deployed = await estimateNetworkCost(
+        networkConfig,
+        merkleTree,
+        makeProvider(ethers.parseEther('0.5')),
+        executorAddress
+      )
+      const estimate = await estimateNetworkCost(
+        { ...networkConfig, isSystemDeployed: false },
+        merkleTree,
+        {
+          ...makeProvider(ethers.parseEther('0.5')),
+          getCode: async () => '0x',
+        } as unknown as SphinxJsonRpcProvider,
+        executorAddress
+      )
+
+      expect(
+        BigInt(estimate.estimatedGas) >
+          BigInt(deployed.estimatedGas) + BigInt(1_000_000)
+      ).to.be.true
+    })
+
+    it("uses the network's gas price strategy", async () => {
+      const estimate = await estimateNetworkCost(
+        networkConfig,
+        merkleTree,
+        makeProvider(ethers.parseEther('0.5')),
+        executorAddress,
+        { type: 'legacy' }
+      )
+
+      expect(estimate.feePerGas).to.equal(gwei(1).toString())
+    })
+  })
+
+  describe('assertDeploymentCostWithinBudget', () => {
+    const estimate: NetworkCostEstimate = {
+      chainId: 10,
+      networkName: 'optimism',
+      currency: 'ETH',
+      estimatedGas: '1000000',
+      fundsRequested: '0',
+      feePerGas: gwei(3).toString(),
+      estimatedCost: ethers.parseEther('0.003').toString(),
+      balance: ethers.parseEther('1').toString(),
+    }
+
+    it('does not throw if the cost is within the budget and balance', () => {
+      expect(() =>
+        assertDeploymentCostWithinBudget([estimate], ethers.parseEther('0.01'))
+      ).to.not.throw()
+      expect(() => assertDeploymentCostWithinBudget([estimate])).to.not.throw()
+    })
+
+    it('throws an error if the cost exceeds the max cost', () => {
+      expect(() =>
+        assertDeploymentCostWithinBudget([estimate], ethers.parseEther('0.001'))
+      ).to.throw(
+        `- optimism: The estimated cost (0.003 ETH) exceeds the max cost (0.001 ETH).`
+      )
+    })
+
+    it('throws an error if the cost exceeds the balance', () => {
+      expect(() =>
+        assertDeploymentCostWithinBudget([
+          { ...estimate, balance: ethers.parseEther('0.002').toString() },
+        ])
+      ).to.throw(
+        `- optimism: The estimated cost (0.003 ETH) exceeds the balance of the deployer (0.002 ETH).`
+      )
+    })
+  })
+})
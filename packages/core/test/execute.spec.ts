@@ -0,0 +1,234 @@
+import { expect } from 'chai'
+import sinon from 'sinon'
+import { ethers } from 'ethers'
+import { SphinxLeafWithProof } from '@sphinx-labs/contracts'
+
+import {
+  DeploymentContext,
+  findMaxBatchSize,
+  sendTransactionWithReplacement,
+} from '../src/actions/execute'
+import { EstimateGas } from '../src/actions/types'
+
+const gwei = (amount: number): bigint => ethers.parseUnits(`${amount}`, 'gwei')
+
+const makeResponse = (hash: string, request: ethers.TransactionRequest) => {
+  const receipt = { hash } as ethers.TransactionReceipt
+  return {
+    hash,
+    nonce: 7,
+    gasLimit: BigInt(100_000),
+    gasPrice: request.gasPrice ?? gwei(10),
+    maxFeePerGas: request.maxFeePerGas ?? null,
+    maxPriorityFeePerGas: request.maxPriorityFeePerGas ?? null,
+    wait: async () => receipt,
+  } as unknown as ethers.TransactionResponse
+}
+
+describe('sendTransactionWithReplacement', () => {
+  const transaction: ethers.TransactionRequest = {
+    to: '0x' + '11'.repeat(20),
+    data: '0x1234',
+    gasPrice: gwei(10),
+  }
+
+  let sendTransaction: sinon.SinonStub
+  let confirmedHashes: Array<string>
+  let deploymentContext: DeploymentContext
+
+  beforeEach(() => {
+    confirmedHashes = []
+    sendTransaction = sinon
+      .stub()
+      .callsFake(async (request: ethers.TransactionRequest) =>
+        makeResponse(`0x0${sendTransaction.callCount}`, request)
+      )
+
+    deploymentContext = {
+      deployment: { networkName: 'ethereum', chainId: '1' },
+      provider: {
+        getTransactionReceipt: async (hash: string) =>
+          confirmedHashes.includes(hash) ? { hash } : null,
+      },
+      logger: { info: sinon.stub(), warn: sinon.stub() },
+      confirmationTimeout: 10,
+      gasPriceStrategy: { type: 'legacy', maxFeeCap: gwei(20).toString() },
+    } as unknown as DeploymentContext
+  })
+
+  it('waits for the transaction without a timeout if none is specified', async () => {
+    deploymentContext.confirmationTimeout = undefined
+
+    const receipt = await sendTransactionWithReplacement(
+      deploymentContext,
+      { sendTransaction } as unknown as ethers.Signer,
+      transaction
+    )
+
+    expect(receipt?.hash).to.equal('0x01')
+    expect(sendTransaction.callCount).to.equal(1)
+  })
+
+  it('replaces the transaction with higher fees and the same nonce', async () => {
+    sendTransaction.onSecondCall().callsFake(async (request) => {
+      confirmedHashes.push('0x02')
+      return makeResponse('0x02', request)
+    })
+
+    const receipt = await sendTransactionWithReplacement(
+      deploymentContext,
+      { sendTransaction } as unknown as ethers.Signer,
+      transaction
+    )
+
+    expect(receipt?.hash).to.equal('0x02')
+    expect(sendTransaction.secondCall.args[0]).to.deep.include({
+      to: transaction.to,
+      data: transaction.data,
+      nonce: 7,
+      gasLimit: BigInt(100_000),
+      gasPrice: gwei(11),
+    })
+    expect(
+      (deploymentContext.logger?.info as sinon.SinonStub).firstCall.args[0]
+    ).to.include('Transaction 0x01 was not confirmed within 0.01 seconds.')
+  })
+
+  it('returns the receipt of a replaced transaction if it is confirmed first', async () => {
+    sendTransaction.onSecondCall().callsFake(async (request) => {
+      confirmedHashes.push('0x01')
+      return makeResponse('0x02', request)
+    })
+
+    const receipt = await sendTransactionWithReplacement(
+      deploymentContext,
+      { sendTransaction } as unknown as ethers.Signer,
+      transaction
+    )
+
+    expect(receipt?.hash).to.equal('0x01')
+  })
+
+  it('keeps waiting for the transaction if the fees would exceed the max fee cap', async () => {
+    deploymentContext.gasPriceStrategy = {
+      type: 'legacy',
+      maxFeeCap: gwei(12).toString(),
+    }
+    const warn = deploymentContext.logger?.warn as sinon.SinonStub
+    // The replacement is confirmed after we stop replacing it.
+    warn.callsFake(() => confirmedHashes.push('0x02'))
+
+    const receipt = await sendTransactionWithReplacement(
+      deploymentContext,
+      { sendTransaction } as unknown as ethers.Signer,
+      transaction
+    )
+
+    expect(receipt?.hash).to.equal('0x02')
+    // The original transaction and one replacement.
+    expect(sendTransaction.callCount).to.equal(2)
+    expect(warn.calledOnce).to.be.true
+    expect(warn.firstCall.args[0]).to.include(
+      `Transaction 0x02 was not confirmed within 0.01 seconds.`
+    )
+    expect(warn.firstCall.args[0]).to.include(`would exceed the max fee cap`)
+  })
+
+  it('keeps waiting for the transaction if there is no max fee cap', async () => {
+    deploymentContext.gasPriceStrategy = undefined
+    const warn = deploymentContext.logger?.warn as sinon.SinonStub
+    warn.callsFake(() => confirmedHashes.push('0x01'))
+
+    const receipt = await sendTransactionWithReplacement(
+      deploymentContext,
+      { sendTransaction } as unknown as ethers.Signer,
+      transaction
+    )
+
+    expect(receipt?.hash).to.equal('0x01')
+    expect(sendTransaction.callCount).to.equal(1)
+    expect(warn.firstCall.args[0]).to.include(`no 'maxFeeCap'`)
+  })
+})
+
+describe('findMaxBatchSize', () => {
+  const moduleAddress = '0x' + '22'.repeat(20)
+  const leaves = new Array(100).fill({}) as Array<SphinxLeafWithProof>
+
+  // Each leaf uses 1000 gas. A batch is executable if its gas is less than the max gas limit, so
+  // the max batch size is one less than the gas limit divided by 1000.
+  let estimateGas: sinon.SinonSpy<Parameters<EstimateGas>, number>
+  beforeEach(() => {
+    estimateGas = sinon.spy<EstimateGas>(
+      (_moduleAddress, batch) => batch.length * 1000
+    )
+  })
+
+  it('finds the largest executable batch size', () => {
+    for (const maxBatchSize of [1, 2, 3, 7, 8, 9, 50, 64, 99]) {
+      expect(
+        findMaxBatchSize(
+          leaves,
+          BigInt((maxBatchSize + 1) * 1000),
+          moduleAddress,
+          estimateGas,
+          BigInt(1)
+        )
+      ).to.equal(maxBatchSize)
+    }
+  })
+
+  it('returns every leaf if they are all executable', () => {
+    expect(
+      findMaxBatchSize(
+        leaves,
+        BigInt(1_000_000),
+        moduleAddress,
+        estimateGas,
+        BigInt(1)
+      )
+    ).to.equal(leaves.length)
+  })
+
+  it('estimates the gas of a logarithmic number of batches', () => {
+    findMaxBatchSize(
+      leaves,
+      BigInt(51_000),
+      moduleAddress,
+      estimateGas,
+      BigInt(1)
+    )
+
+    // Batch sizes 1, 2, 4, 8, 16, 32, and 64, then five steps of a binary search between 32 and 64.
+    expect(estimateGas.callCount).to.equal(12)
+    // We never estimate a batch that's more than twice as large as the result.
+    for (const call of estimateGas.getCalls()) {
+      expect(call.args[1].length).to.be.at.most(100)
+    }
+  })
+
+  it('returns one if batching is disabled on the network', () => {
+    expect(
+      findMaxBatchSize(
+        leaves,
+        BigInt(1_000_000),
+        moduleAddress,
+        estimateGas,
+        // Arbitrum
+        BigInt(42161)
+      )
+    ).to.equal(1)
+  })
+
+  it('throws an error if a single leaf is not executable', () => {
+    expect(() =>
+      findMaxBatchSize(
+        leaves,
+        BigInt(1000),
+        moduleAddress,
+        estimateGas,
+        BigInt(1)
+      )
+    ).to.throw('Could not find a valid batch size.')
+  })
+})
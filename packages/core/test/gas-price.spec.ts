@@ -0,0 +1,193 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+
+import {
+  bumpGasPriceOverrides,
+  getGasPriceStrategyForNetwork,
+  getMaxFeeCap,
+  makeEIP1559Strategy,
+  makeFixedStrategy,
+  makeGasPriceStrategy,
+  makeLegacyStrategy,
+} from '../src/gas-price'
+
+const gwei = (amount: number): bigint => ethers.parseUnits(`${amount}`, 'gwei')
+
+const feeData = new ethers.FeeData(gwei(10), gwei(100), gwei(2))
+
+describe('Gas Price Strategies', () => {
+  describe('makeEIP1559Strategy', () => {
+    it('returns the fee data from the provider', () => {
+      expect(
+        makeEIP1559Strategy({ type: 'eip1559' }).getOverrides(feeData)
+      ).to.deep.equal({
+        maxFeePerGas: gwei(100),
+        maxPriorityFeePerGas: gwei(2),
+      })
+    })
+
+    it('returns no overrides if the provider has no EIP-1559 fee data', () => {
+      const legacyFeeData = new ethers.FeeData(gwei(10), null, null)
+      expect(
+        makeEIP1559Strategy({ type: 'eip1559' }).getOverrides(legacyFeeData)
+      ).to.deep.equal({})
+    })
+
+    it('uses the max fee as the priority fee', () => {
+      expect(
+        makeEIP1559Strategy({
+          type: 'eip1559',
+          useMaxFeeAsPriorityFee: true,
+        }).getOverrides(feeData)
+      ).to.deep.equal({
+        maxFeePerGas: gwei(100),
+        maxPriorityFeePerGas: gwei(100),
+      })
+    })
+
+    it('multiplies the priority fee and increases the max fee by the same amount', () => {
+      expect(
+        makeEIP1559Strategy({
+          type: 'eip1559',
+          priorityFeeMultiplier: 1.5,
+        }).getOverrides(feeData)
+      ).to.deep.equal({
+        maxFeePerGas: gwei(101),
+        maxPriorityFeePerGas: gwei(3),
+      })
+    })
+
+    it('caps the max fee and the priority fee', () => {
+      expect(
+        makeEIP1559Strategy({
+          type: 'eip1559',
+          useMaxFeeAsPriorityFee: true,
+          maxFeeCap: gwei(50).toString(),
+        }).getOverrides(feeData)
+      ).to.deep.equal({
+        maxFeePerGas: gwei(50),
+        maxPriorityFeePerGas: gwei(50),
+      })
+    })
+  })
+
+  describe('makeLegacyStrategy', () => {
+    it('multiplies and caps the gas price', () => {
+      expect(
+        makeLegacyStrategy({
+          type: 'legacy',
+          gasPriceMultiplier: 2,
+        }).getOverrides(feeData)
+      ).to.deep.equal({ gasPrice: gwei(20) })
+
+      expect(
+        makeLegacyStrategy({
+          type: 'legacy',
+          gasPriceMultiplier: 2,
+          maxFeeCap: gwei(15).toString(),
+        }).getOverrides(feeData)
+      ).to.deep.equal({ gasPrice: gwei(15) })
+    })
+  })
+
+  describe('makeFixedStrategy', () => {
+    it('returns the fixed fees', () => {
+      expect(
+        makeFixedStrategy({
+          type: 'fixed',
+          gasPrice: '1000',
+        }).getOverrides(feeData)
+      ).to.deep.equal({ gasPrice: BigInt(1000) })
+    })
+
+    it('throws an error if both legacy and EIP-1559 fees are specified', () => {
+      expect(() =>
+        makeFixedStrategy({
+          type: 'fixed',
+          gasPrice: '1000',
+          maxFeePerGas: '1000',
+          maxPriorityFeePerGas: '1',
+        })
+      ).to.throw(`requires either 'gasPrice' or both`)
+    })
+  })
+
+  describe('makeGasPriceStrategy', () => {
+    it('throws an error for an unknown strategy', () => {
+      expect(() => makeGasPriceStrategy({ type: 'dynamic' } as any)).to.throw(
+        'Unknown gas price strategy: dynamic'
+      )
+    })
+  })
+
+  describe('bumpGasPriceOverrides', () => {
+    it('increases the EIP-1559 fees by at least 10%', () => {
+      expect(
+        bumpGasPriceOverrides(
+          { maxFeePerGas: gwei(100), maxPriorityFeePerGas: BigInt(15) },
+          gwei(200)
+        )
+      ).to.deep.equal({
+        maxFeePerGas: gwei(110),
+        // Rounded up from 16.5.
+        maxPriorityFeePerGas: BigInt(17),
+      })
+    })
+
+    it('increases the legacy gas price by at least 10%', () => {
+      expect(
+        bumpGasPriceOverrides({ gasPrice: gwei(10) }, gwei(200))
+      ).to.deep.equal({ gasPrice: gwei(11) })
+    })
+
+    it('returns undefined if the fees would exceed the max fee cap', () => {
+      expect(bumpGasPriceOverrides({ gasPrice: gwei(10) }, gwei(10.5))).to.be
+        .undefined
+    })
+  })
+
+  describe('getMaxFeeCap', () => {
+    it('returns the max fee cap of the strategy', () => {
+      expect(
+        getMaxFeeCap({ type: 'legacy', maxFeeCap: gwei(50).toString() })
+      ).to.equal(gwei(50))
+    })
+
+    it('returns undefined if the strategy does not have a max fee cap', () => {
+      expect(getMaxFeeCap(undefined)).to.be.undefined
+      expect(getMaxFeeCap({ type: 'eip1559' })).to.be.undefined
+      expect(getMaxFeeCap({ type: 'provider' })).to.be.undefined
+    })
+  })
+
+  describe('getGasPriceStrategyForNetwork', () => {
+    it('uses the EIP-1559 strategy on networks without a default strategy', () => {
+      expect(getGasPriceStrategyForNetwork(BigInt(31337)).type).to.equal(
+        'eip1559'
+      )
+    })
+
+    it('uses the default strategy of the network', () => {
+      expect(getGasPriceStrategyForNetwork(BigInt(250)).type).to.equal('legacy')
+    })
+
+    it("merges the user's options into the default options", () => {
+      // Polygon's default strategy uses the max fee as the priority fee.
+      const strategy = getGasPriceStrategyForNetwork(BigInt(137), {
+        type: 'eip1559',
+        maxFeeCap: gwei(80).toString(),
+      })
+      expect(strategy.getOverrides(feeData)).to.deep.equal({
+        maxFeePerGas: gwei(80),
+        maxPriorityFeePerGas: gwei(80),
+      })
+    })
+
+    it("replaces the default strategy with the user's strategy", () => {
+      const strategy = getGasPriceStrategyForNetwork(BigInt(250), {
+        type: 'eip1559',
+      })
+      expect(strategy.type).to.equal('eip1559')
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+
+import {
+  fetchReceiptsFromExecutionJournal,
+  makeExecutionJournalListener,
+  readExecutionJournal,
+  startExecutionJournal,
+} from '../src/actions/journal'
+import { DeploymentEvent } from '../src/actions/progress'
+import { SphinxTransactionReceipt } from '../src/languages/solidity/types'
+import { SphinxJsonRpcProvider } from '../src/provider'
+
+const merkleRoot = '0x' + 'ab'.repeat(32)
+const moduleAddress = '0x' + '11'.repeat(20)
+
+const makeEvent = (data: any, chainId = '1'): DeploymentEvent => ({
+  ...data,
+  networkName: 'ethereum',
+  chainId,
+  timestamp: 0,
+})
+
+const makeReceipt = (hash: string) =>
+  ({ hash } as unknown as SphinxTransactionReceipt)
+
+describe('Execution Journal', () => {
+  let dir: string
+  let journalPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sphinx-journal-'))
+    journalPath = join(dir, 'journal.jsonl')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('records the transactions of a deployment', () => {
+    expect(startExecutionJournal(journalPath, merkleRoot)).to.be.false
+
+    const listener = makeExecutionJournalListener(journalPath)
+    listener(makeEvent({ type: 'Preparing' }))
+    listener(makeEvent({ type: 'TransactionSent', hash: '0x01', nonce: 3 }))
+    listener(makeEvent({ type: 'SafeDeployed', receipt: makeReceipt('0x01') }))
+    listener(makeEvent({ type: 'Approved' }))
+    listener(
+      makeEvent({
+        type: 'BatchExecuted',
+        firstLeafIndex: 1,
+        lastLeafIndex: 4,
+        receipt: makeReceipt('0x02'),
+      })
+    )
+
+    expect(readExecutionJournal(journalPath)).to.deep.equal({
+      merkleRoot,
+      entries: [
+        { type: 'MerkleRoot', merkleRoot },
+        { type: 'TransactionSent', chainId: '1', hash: '0x01', nonce: 3 },
+        { type: 'TransactionConfirmed', chainId: '1', hash: '0x01' },
+        {
+          type: 'BatchConfirmed',
+          chainId: '1',
+          hash: '0x02',
+          firstLeafIndex: 1,
+          lastLeafIndex: 4,
+        },
+      ],
+    })
+  })
+
+  it('continues an existing journal for the same Merkle root', () => {
+    startExecutionJournal(journalPath, merkleRoot)
+    makeExecutionJournalListener(journalPath)(
+      makeEvent({ type: 'TransactionSent', hash: '0x01', nonce: 3 })
+    )
+
+    expect(startExecutionJournal(journalPath, merkleRoot)).to.be.true
+    expect(readExecutionJournal(journalPath).entries).to.have.length(2)
+
+    expect(startExecutionJournal(journalPath, '0x' + 'cd'.repeat(32))).to.be
+      .false
+    expect(readExecutionJournal(journalPath).entries).to.have.length(1)
+  })
+
+  it('ignores an incomplete last line', () => {
+    startExecutionJournal(journalPath, merkleRoot)
+    appendFileSync(journalPath, '{"type":"TransactionSent","chainId":"1"')
+
+    expect(readExecutionJournal(journalPath).entries).to.deep.equal([
+      { type: 'MerkleRoot', merkleRoot },
+    ])
+    // The file isn't modified when it's read.
+    expect(readFileSync(journalPath, 'utf-8')).to.include('TransactionSent')
+  })
+
+  it('fetches the receipts of the confirmed and module transactions', async () => {
+    const moduleLog = { address: ethers.getAddress(moduleAddress) }
+    const receipts: Record<string, any> = {
+      // Confirmed in the journal.
+      '0x01': { hash: '0x01', logs: [] },
+      // Sent to the module, but the process was killed before it was confirmed in the journal.
+      '0x02': { hash: '0x02', logs: [moduleLog] },
+      // A transfer to the Gnosis Safe.
+      '0x03': { hash: '0x03', logs: [] },
+      // Confirmed on a different network.
+      '0x05': { hash: '0x05', logs: [moduleLog] },
+    }
+    const provider = {
+      getTransactionReceipt: async (hash: string) => receipts[hash] ?? null,
+    } as unknown as SphinxJsonRpcProvider
+
+    startExecutionJournal(journalPath, merkleRoot)
+    const listener = makeExecutionJournalListener(journalPath)
+    listener(makeEvent({ type: 'TransactionSent', hash: '0x01', nonce: 0 }))
+    listener(makeEvent({ type: 'Approved', receipt: makeReceipt('0x01') }))
+    listener(makeEvent({ type: 'TransactionSent', hash: '0x03', nonce: 1 }))
+    listener(makeEvent({ type: 'TransactionSent', hash: '0x02', nonce: 2 }))
+    // A replaced transaction that was never confirmed.
+    listener(makeEvent({ type: 'TransactionSent', hash: '0x04', nonce: 2 }))
+    listener(
+      makeEvent({ type: 'TransactionSent', hash: '0x05', nonce: 0 }, '10')
+    )
+
+    const fetched = await fetchReceiptsFromExecutionJournal(
+      readExecutionJournal(journalPath),
+      '1',
+      moduleAddress,
+      provider
+    )
+
+    expect(fetched.map(({ hash }) => hash)).to.deep.equal(['0x01', '0x02'])
+  })
+})
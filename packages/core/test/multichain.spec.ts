@@ -0,0 +1,191 @@
+import { expect } from 'chai'
+
+import { DeploymentContext } from '../src/actions/execute'
+import {
+  attemptDeploymentsInParallel,
+  getMultichainDeploymentSummary,
+} from '../src/actions/multichain'
+import { MerkleRootStatus } from '../src/actions/types'
+import {
+  DeploymentEvent,
+  DeploymentEventEmitter,
+  emitDeploymentEvent,
+} from '../src/actions/progress'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// The Sphinx Module isn't deployed on these networks, so their Merkle root status is `EMPTY`.
+const makeDeploymentContext = (networkName: string): DeploymentContext =>
+  ({
+    deployment: {
+      networkName,
+      moduleAddress: '0x' + '11'.repeat(20),
+      deploymentConfig: { merkleTree: { root: '0x' + '22'.repeat(32) } },
+    },
+    provider: {
+      getCode: async () => '0x',
+    },
+  } as unknown as DeploymentContext)
+
+describe('Multichain Deployments', () => {
+  const networkNames = ['ethereum', 'optimism', 'arbitrum', 'polygon']
+  const deploymentContexts = networkNames.map(makeDeploymentContext)
+
+  describe('attemptDeploymentsInParallel', () => {
+    it('executes at most `concurrency` networks at the same time', async () => {
+      let active = 0
+      let maxActive = 0
+
+      await attemptDeploymentsInParallel(deploymentContexts, 2, async () => {
+        active += 1
+        maxActive = Math.max(maxActive, active)
+        await sleep(5)
+        active -= 1
+      })
+
+      expect(maxActive).to.equal(2)
+    })
+
+    it('returns the results in the same order as the deployment contexts', async () => {
+      // The first network finishes last.
+      const results = await attemptDeploymentsInParallel(
+        deploymentContexts,
+        networkNames.length,
+        async (deploymentContext, index) => {
+          await sleep((networkNames.length - index) * 5)
+          return deploymentContext.deployment.networkName
+        }
+      )
+
+      expect(results.map(({ result }) => result)).to.deep.equal(networkNames)
+    })
+
+    it('continues on other networks if one network fails', async () => {
+      const results = await attemptDeploymentsInParallel(
+        deploymentContexts,
+        1,
+        async ({ deployment }) => {
+          if (deployment.networkName === 'optimism') {
+            throw new Error('Execution reverted.')
+          }
+          return deployment.networkName
+        }
+      )
+
+      expect(results.map(({ result }) => result)).to.deep.equal([
+        'ethereum',
+        undefined,
+        'arbitrum',
+        'polygon',
+      ])
+      expect(results[1].error.message).to.equal('Execution reverted.')
+      for (const { status } of results) {
+        expect(status).to.equal(MerkleRootStatus.EMPTY)
+      }
+    })
+
+    it('emits a `Failed` event if a network throws an error', async () => {
+      const events = new DeploymentEventEmitter()
+      const emitted: Array<DeploymentEvent> = []
+      events.onAny((event) => emitted.push(event))
+      const contexts = deploymentContexts.slice(0, 2).map(
+        (deploymentContext, i) =>
+          ({
+            ...deploymentContext,
+            deployment: {
+              ...deploymentContext.deployment,
+              chainId: `${i + 1}`,
+            },
+            events,
+          } as DeploymentContext)
+      )
+
+      await attemptDeploymentsInParallel(contexts, 1, async () => {
+        throw new Error('Could not connect to the RPC provider.')
+      })
+
+      expect(
+        emitted.map(({ type, networkName, error }: any) => ({
+          type,
+          networkName,
+          error,
+        }))
+      ).to.deep.equal([
+        {
+          type: 'Failed',
+          networkName: 'ethereum',
+          error: 'Could not connect to the RPC provider.',
+        },
+        {
+          type: 'Failed',
+          networkName: 'optimism',
+          error: 'Could not connect to the RPC provider.',
+        },
+      ])
+    })
+
+    it('does not emit a `Failed` event if the network already emitted a final event', async () => {
+      const events = new DeploymentEventEmitter()
+      const emitted: Array<DeploymentEvent> = []
+      events.onAny((event) => emitted.push(event))
+      const context = {
+        ...deploymentContexts[0],
+        deployment: { ...deploymentContexts[0].deployment, chainId: '1' },
+        events,
+      } as DeploymentContext
+
+      await attemptDeploymentsInParallel([context], 1, async () => {
+        emitDeploymentEvent(context, { type: 'Canceled' })
+        throw new Error('Deployment was canceled.')
+      })
+
+      expect(emitted.map(({ type }) => type)).to.deep.equal(['Canceled'])
+    })
+
+    it('throws an error if the concurrency is not a positive integer', async () => {
+      for (const concurrency of [0, -1, 1.5]) {
+        try {
+          await attemptDeploymentsInParallel(
+            deploymentContexts,
+            concurrency,
+            async () => undefined
+          )
+          expect.fail('Expected an error to be thrown.')
+        } catch (e) {
+          expect(e.message).to.equal('Concurrency must be a positive integer.')
+        }
+      }
+    })
+  })
+
+  describe('getMultichainDeploymentSummary', () => {
+    it('displays the status of each network and the errors', () => {
+      const summary = getMultichainDeploymentSummary([
+        {
+          deploymentContext: deploymentContexts[0],
+          status: MerkleRootStatus.COMPLETED,
+        },
+        {
+          deploymentContext: deploymentContexts[1],
+          status: MerkleRootStatus.APPROVED,
+          error: new Error('Execution reverted.'),
+        },
+        {
+          deploymentContext: deploymentContexts[2],
+          error: new Error('Could not connect to the RPC provider.'),
+        },
+      ])
+
+      expect(summary).to.equal(
+        [
+          'Deployment summary:',
+          '- ethereum: COMPLETED',
+          '- optimism: APPROVED',
+          '  Error: Execution reverted.',
+          '- arbitrum: UNKNOWN',
+          '  Error: Could not connect to the RPC provider.',
+        ].join('\n')
+      )
+    })
+  })
+})
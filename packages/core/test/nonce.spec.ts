@@ -0,0 +1,132 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+
+import { SphinxNonceManager } from '../src/nonce'
+
+const address = '0x' + '11'.repeat(20)
+
+/**
+ * A signer that records the nonce of each transaction that it sends. Transactions are rejected
+ * with the errors in `errors`, which are consumed in order.
+ */
+const makeSigner = (
+  transactionCount: { pending: number; latest: number },
+  chainId = BigInt(1)
+) => {
+  const sent: Array<number> = []
+  const errors: Array<Error> = []
+  const provider = {
+    getNetwork: async () => ({ chainId }),
+    getTransactionCount: async (_: string, blockTag: 'pending' | 'latest') =>
+      transactionCount[blockTag],
+  }
+  const signer = {
+    provider,
+    getAddress: async () => address,
+    sendTransaction: async (tx: ethers.TransactionRequest) => {
+      // Simulate a slow RPC provider so that concurrent transactions overlap.
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      const error = errors.shift()
+      if (error) {
+        throw error
+      }
+      sent.push(Number(tx.nonce))
+      return { nonce: Number(tx.nonce) }
+    },
+  } as unknown as ethers.Signer
+
+  return { signer, sent, errors }
+}
+
+describe('SphinxNonceManager', () => {
+  it('hands out nonces locally even if the pending nonce lags', async () => {
+    const transactionCount = { pending: 3, latest: 2 }
+    const { signer, sent } = makeSigner(transactionCount)
+    const nonceManager = new SphinxNonceManager(signer)
+
+    await nonceManager.sendTransaction({ to: address })
+    // The provider still returns the stale pending nonce.
+    await nonceManager.sendTransaction({ to: address })
+
+    expect(sent).to.deep.equal([3, 4])
+  })
+
+  it('sends concurrent transactions with consecutive nonces', async () => {
+    const { signer, sent } = makeSigner({ pending: 0, latest: 0 })
+    const nonceManager = new SphinxNonceManager(signer)
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        nonceManager.sendTransaction({ to: address })
+      )
+    )
+
+    expect(sent).to.deep.equal([0, 1, 2, 3, 4])
+  })
+
+  it('resyncs after a transaction fails to send', async () => {
+    const transactionCount = { pending: 0, latest: 0 }
+    const { signer, sent, errors } = makeSigner(transactionCount)
+    const nonceManager = new SphinxNonceManager(signer)
+
+    await nonceManager.sendTransaction({ to: address })
+
+    // Another process sent transactions from the same account.
+    transactionCount.pending = 5
+    errors.push(
+      ethers.makeError('nonce has already been used', 'NONCE_EXPIRED', {
+        transaction: {},
+      })
+    )
+    try {
+      await nonceManager.sendTransaction({ to: address })
+      expect.fail('Expected an error to be thrown.')
+    } catch (e) {
+      expect(ethers.isError(e, 'NONCE_EXPIRED')).to.be.true
+    }
+    await nonceManager.sendTransaction({ to: address })
+
+    expect(sent).to.deep.equal([0, 5])
+  })
+
+  it('never resyncs to a nonce that was already used', async () => {
+    const transactionCount = { pending: 0, latest: 0 }
+    const { signer, sent, errors } = makeSigner(transactionCount)
+    const nonceManager = new SphinxNonceManager(signer)
+
+    await nonceManager.sendTransaction({ to: address })
+    await nonceManager.sendTransaction({ to: address })
+
+    errors.push(new Error('insufficient funds'))
+    try {
+      await nonceManager.sendTransaction({ to: address })
+      expect.fail('Expected an error to be thrown.')
+    } catch (e) {
+      expect(e.message).to.equal('insufficient funds')
+    }
+    await nonceManager.sendTransaction({ to: address })
+
+    expect(sent).to.deep.equal([0, 1, 2])
+  })
+
+  it('sends a replacement transaction with its own nonce', async () => {
+    const { signer, sent } = makeSigner({ pending: 0, latest: 0 })
+    const nonceManager = new SphinxNonceManager(signer)
+
+    await nonceManager.sendTransaction({ to: address })
+    await nonceManager.sendTransaction({ to: address, nonce: 0 })
+    await nonceManager.sendTransaction({ to: address })
+
+    expect(sent).to.deep.equal([0, 0, 1])
+  })
+
+  it('uses the latest nonce on networks that require it', async () => {
+    // BNB Smart Chain
+    const { signer, sent } = makeSigner({ pending: 4, latest: 2 }, BigInt(56))
+    const nonceManager = new SphinxNonceManager(signer)
+
+    await nonceManager.sendTransaction({ to: address })
+
+    expect(sent).to.deep.equal([2])
+  })
+})
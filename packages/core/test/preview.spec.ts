@@ -7,7 +7,14 @@ import {
   CreateActionInput,
   NetworkConfig,
 } from '../src/config/types'
-import { getPreview } from '../src/preview'
+import {
+  PREVIEW_JSON_FORMAT,
+  getFormattedPreviewString,
+  getPreview,
+  getPreviewJson,
+  getPreviewMarkdownString,
+  getPreviewString,
+} from '../src/preview'
 import { ActionInputType, FunctionCallActionInput } from '../dist'
 import { ExecutionMode } from '../src/constants'
 
@@ -510,5 +517,153 @@ describe('Preview', () => {
       expect(skipping.length).to.equal(0)
       expect(unlabeledAddresses).to.deep.equal(expectedUnlabeledAddresses)
     })
+
+    it('warns if the deployment can be executed on any chain', () => {
+      const networkConfig = structuredClone(originalNetworkConfig)
+      networkConfig.arbitraryChain = true
+
+      const preview = getPreview([networkConfig], dummyMerkleRoot)
+
+      expect(preview.arbitraryChain).to.be.true
+      expect(getPreviewString(preview, false)).to.include(
+        'Warning: This deployment can be executed on any chain.'
+      )
+      expect(getPreviewMarkdownString(preview)).to.include(
+        '> **Warning:** This deployment can be executed on any chain.'
+      )
+      expect(getPreviewJson(preview).arbitraryChain).to.be.true
+
+      expect(
+        getPreviewString(
+          getPreview([originalNetworkConfig], dummyMerkleRoot),
+          false
+        )
+      ).to.not.include('Warning: This deployment can be executed on any chain.')
+    })
+
+    it('displays the script of each action if the deployment combines multiple scripts', () => {
+      const networkConfig = structuredClone(originalNetworkConfig)
+      networkConfig.actionInputs.forEach((action, i) => {
+        action.scriptPath =
+          i < 3 ? 'script/Core.s.sol' : 'script/Periphery.s.sol'
+      })
+
+      const preview = getPreview([networkConfig], dummyMerkleRoot)
+
+      const { executing } = preview.networks[0]
+      expect(executing[3]).to.deep.equal({
+        ...expectedCreate2.decodedAction,
+        scriptPath: 'script/Core.s.sol',
+      })
+      expect(executing[5]).to.deep.equal({
+        ...expectedCall.decodedAction,
+        scriptPath: 'script/Periphery.s.sol',
+      })
+
+      // Each script is displayed once, before its first action, and the numbering is continuous.
+      const previewString = getPreviewString(preview, false)
+      expect(previewString.split('Script: script/Core.s.sol')).to.have.length(2)
+      expect(previewString).to.match(
+        /Script: script\/Periphery\.s\.sol\n.*6\. /
+      )
+
+      expect(getPreviewMarkdownString(preview)).to.include(
+        '| # | Script | Action |'
+      )
+      expect(getPreviewJson(preview).networks[0].executing[5]).to.deep.equal({
+        type: 'FunctionCall',
+        ...expectedCall.decodedAction,
+        scriptPath: 'script/Periphery.s.sol',
+      })
+    })
+  })
+
+  describe('getPreviewJson', () => {
+    it('returns a JSON-serializable preview', () => {
+      const networkConfig = structuredClone(originalNetworkConfig)
+      networkConfig.isSystemDeployed = false
+      const preview = getPreview([networkConfig], dummyMerkleRoot)
+
+      const previewJson = JSON.parse(JSON.stringify(getPreviewJson(preview)))
+
+      expect(previewJson.format).to.equal(PREVIEW_JSON_FORMAT)
+      expect(previewJson.merkleRoot).to.equal(dummyMerkleRoot)
+      expect(previewJson.unlabeledAddresses).to.deep.equal([
+        unlabeledAddressOne,
+        unlabeledAddressTwo,
+      ])
+
+      expect(previewJson.networks.length).to.equal(1)
+      const { networkTags, chainId, executing, skipping } =
+        previewJson.networks[0]
+      expect(networkTags).to.deep.equal(['optimism'])
+      expect(chainId).to.equal('10')
+      expect(skipping).to.deep.equal([])
+      expect(executing.length).to.equal(8)
+      expect(executing[0]).to.deep.equal({ type: 'SystemDeployment' })
+      expect(executing[1]).to.deep.equal({
+        type: 'FunctionCall',
+        ...expectedGnosisSafe,
+      })
+      expect(executing[3]).to.deep.equal(expectedFundingRequest)
+      expect(executing[4]).to.deep.equal({
+        type: 'FunctionCall',
+        ...expectedCreate2.decodedAction,
+      })
+    })
+  })
+
+  describe('getPreviewMarkdownString', () => {
+    it('returns a collapsible section for each network', () => {
+      const preview = getPreview([originalNetworkConfig], dummyMerkleRoot)
+
+      const markdown = getPreviewMarkdownString(preview)
+
+      expect(markdown).to.include('<summary><b>Network:</b> optimism</summary>')
+      expect(markdown).to.include('#### Executing')
+      expect(markdown).to.not.include('#### Skipping')
+      expect(markdown).to.include(
+        '| 1 | `GnosisSafe<' + safeAddress + '>.deploy()` |'
+      )
+      expect(markdown).to.include('- `' + unlabeledAddressOne + '`')
+      expect(markdown).to.include('**Merkle Root:** `' + dummyMerkleRoot + '`')
+    })
+
+    it('includes a table of the estimated costs', () => {
+      const preview = getPreview([originalNetworkConfig], dummyMerkleRoot)
+      preview.costEstimates = [
+        {
+          chainId: 10,
+          networkName: 'optimism',
+          currency: 'ETH',
+          estimatedGas: '1000000',
+          fundsRequested: '0',
+          feePerGas: parseUnits('2', 'gwei').toString(),
+          estimatedCost: parseUnits('0.002', 'ether').toString(),
+          balance: parseUnits('1', 'ether').toString(),
+        },
+      ]
+
+      const markdown = getPreviewMarkdownString(preview)
+
+      expect(markdown).to.include('#### Estimated Costs')
+      expect(markdown).to.include(
+        '| optimism | 1000000 | 2.0 gwei | 0.002 ETH | 1.0 ETH |'
+      )
+    })
+  })
+
+  describe('getFormattedPreviewString', () => {
+    it('appends the confirmation question to a JSON preview', () => {
+      const preview = getPreview([originalNetworkConfig], dummyMerkleRoot)
+
+      const previewString = getFormattedPreviewString(preview, 'json', true)
+
+      const [json, question] = previewString.split('\n\n')
+      expect(JSON.parse(json)).to.deep.equal(
+        JSON.parse(JSON.stringify(getPreviewJson(preview)))
+      )
+      expect(question).to.equal('Confirm? [y/n]')
+    })
   })
 })
@@ -0,0 +1,139 @@
+import { expect } from 'chai'
+import sinon from 'sinon'
+import ora from 'ora'
+
+import { DeploymentContext } from '../src/actions/execute'
+import {
+  DeploymentEvent,
+  DeploymentEventEmitter,
+  emitDeploymentEvent,
+  getProgressConsole,
+  makeJsonLinesListener,
+  renderDeploymentEvent,
+} from '../src/actions/progress'
+
+const makeSpinner = () =>
+  ({
+    text: '',
+    start: sinon.stub(),
+    succeed: sinon.stub(),
+    warn: sinon.stub(),
+    fail: sinon.stub(),
+  } as unknown as ora.Ora)
+
+describe('Progress Events', () => {
+  const event: DeploymentEvent = {
+    type: 'Approving',
+    networkName: 'optimism',
+    chainId: '10',
+    timestamp: 1700000000000,
+  }
+
+  describe('DeploymentEventEmitter', () => {
+    it('emits events to the listeners of their type and to every listener', () => {
+      const events = new DeploymentEventEmitter()
+      const approving = sinon.stub()
+      const completed = sinon.stub()
+      const any = sinon.stub()
+      events.on('Approving', approving)
+      events.on('Completed', completed)
+      events.onAny(any)
+
+      events.emit(event)
+
+      expect(approving.calledOnceWith(event)).to.be.true
+      expect(completed.called).to.be.false
+      expect(any.calledOnceWith(event)).to.be.true
+    })
+  })
+
+  describe('emitDeploymentEvent', () => {
+    it('adds the network to the event and renders it on the spinner', () => {
+      const events = new DeploymentEventEmitter()
+      const listener = sinon.stub()
+      events.onAny(listener)
+      const spinner = makeSpinner()
+      const deploymentContext = {
+        deployment: { networkName: 'optimism', chainId: '10' },
+        events,
+        spinner,
+      } as unknown as DeploymentContext
+
+      emitDeploymentEvent(deploymentContext, { type: 'Approving' })
+
+      const emitted: DeploymentEvent = listener.firstCall.args[0]
+      expect(emitted).to.deep.include({
+        type: 'Approving',
+        networkName: 'optimism',
+        chainId: '10',
+      })
+      expect(emitted.timestamp).to.be.a('number')
+      expect(
+        (spinner.start as sinon.SinonStub).calledOnceWith(
+          `Approving deployment...`
+        )
+      ).to.be.true
+    })
+  })
+
+  describe('renderDeploymentEvent', () => {
+    it('restores the spinner text after a transaction is replaced', () => {
+      const spinner = makeSpinner()
+      spinner.text = 'Executing deployment...'
+
+      renderDeploymentEvent(spinner, {
+        ...event,
+        type: 'TransactionReplaced',
+        hash: '0x01',
+        nonce: 7,
+        confirmationTimeout: 30000,
+      })
+
+      expect((spinner.warn as sinon.SinonStub).firstCall.args[0]).to.equal(
+        `Transaction 0x01 was not confirmed within 30 seconds. Replacing it with a transaction that has higher fees (nonce: 7).`
+      )
+      expect(
+        (spinner.start as sinon.SinonStub).calledOnceWith(
+          'Executing deployment...'
+        )
+      ).to.be.true
+    })
+  })
+
+  describe('makeJsonLinesListener', () => {
+    it('writes each event as a single line of JSON', () => {
+      const lines: Array<string> = []
+      const listener = makeJsonLinesListener((line) => lines.push(line))
+
+      listener(event)
+      listener({ ...event, type: 'Completed' })
+
+      expect(lines).to.have.length(2)
+      for (const line of lines) {
+        expect(line.endsWith('\n')).to.be.true
+        expect(line.trimEnd()).to.not.include('\n')
+      }
+      expect(JSON.parse(lines[1])).to.deep.equal({
+        ...event,
+        type: 'Completed',
+      })
+    })
+  })
+
+  describe('getProgressConsole', () => {
+    it('writes to stdout if the format is text', () => {
+      expect(getProgressConsole('text')).to.equal(console)
+    })
+
+    it('writes to stderr if the format is json', () => {
+      const write = sinon.stub(process.stderr, 'write').returns(true)
+      try {
+        getProgressConsole('json').log('Deployment summary')
+      } finally {
+        write.restore()
+      }
+
+      expect(write.calledWith('Deployment summary\n')).to.be.true
+    })
+  })
+})
@@ -0,0 +1,161 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import { SphinxLeaf, SphinxLeafType } from '@sphinx-labs/contracts'
+
+import { ConfigArtifacts } from '../src/config/types'
+import {
+  decodeRevertData,
+  fetchActionRevertData,
+  getRevertDataFromError,
+} from '../src/revert'
+import { SphinxJsonRpcProvider } from '../src/provider'
+
+const abi = [
+  'error InsufficientBalance(uint256 available, uint256 required)',
+  'error Unauthorized(address caller, string role)',
+]
+const iface = new ethers.Interface(abi)
+
+const configArtifacts = {
+  'contracts/Other.sol:Other': {
+    buildInfoId: 'buildInfoId',
+    artifact: { abi: ['error Other()'] },
+  },
+  'contracts/MyContract.sol:MyContract': {
+    buildInfoId: 'buildInfoId',
+    artifact: { abi },
+  },
+} as unknown as ConfigArtifacts
+
+const coder = ethers.AbiCoder.defaultAbiCoder()
+
+describe('decodeRevertData', () => {
+  it('returns undefined if there is no revert data', () => {
+    expect(decodeRevertData('0x', configArtifacts)).to.be.undefined
+  })
+
+  it('decodes Error(string)', () => {
+    const data = ethers.concat([
+      ethers.id('Error(string)').slice(0, 10),
+      coder.encode(['string'], ['Ownable: caller is not the owner']),
+    ])
+
+    expect(decodeRevertData(data, configArtifacts)).to.equal(
+      'Error("Ownable: caller is not the owner")'
+    )
+  })
+
+  it('decodes Panic(uint256)', () => {
+    const data = ethers.concat([
+      ethers.id('Panic(uint256)').slice(0, 10),
+      coder.encode(['uint256'], [0x11]),
+    ])
+
+    expect(decodeRevertData(data, configArtifacts)).to.equal(
+      'Panic(0x11): arithmetic underflow or overflow'
+    )
+  })
+
+  it('decodes a custom error using the ABIs in the config artifacts', () => {
+    expect(
+      decodeRevertData(
+        iface.encodeErrorResult('InsufficientBalance', [1, 2]),
+        configArtifacts
+      )
+    ).to.equal('InsufficientBalance(1, 2)')
+
+    const caller = '0x' + '11'.repeat(20)
+    expect(
+      decodeRevertData(
+        iface.encodeErrorResult('Unauthorized', [caller, 'admin']),
+        configArtifacts
+      )
+    ).to.equal(`Unauthorized(${caller}, "admin")`)
+  })
+
+  it('returns the raw data if the error is unknown', () => {
+    const data = ethers.id('Unknown()').slice(0, 10)
+
+    expect(decodeRevertData(data, configArtifacts)).to.equal(
+      `Unknown error (revert data: ${data})`
+    )
+  })
+})
+
+describe('fetchActionRevertData', () => {
+  const safeAddress = '0x' + '22'.repeat(20)
+  const to = '0x' + '33'.repeat(20)
+  const txData = '0x12345678'
+  const leaf: SphinxLeaf = {
+    chainId: BigInt(1),
+    index: BigInt(2),
+    leafType: SphinxLeafType.EXECUTE,
+    data: coder.encode(
+      ['address', 'uint', 'uint', 'bytes', 'uint', 'bool'],
+      [to, 0, 100_000, txData, 0, true]
+    ),
+  }
+  const revertData = iface.encodeErrorResult('InsufficientBalance', [1, 2])
+
+  const makeProvider = (call: (tx: ethers.TransactionRequest) => any) =>
+    ({ call } as unknown as SphinxJsonRpcProvider)
+
+  it('replays the action from the Gnosis Safe at the given block with its gas', async () => {
+    let request: ethers.TransactionRequest | undefined
+    const provider = makeProvider(async (tx) => {
+      request = tx
+      throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call',
+        data: revertData,
+        reason: null,
+        transaction: { to, data: txData },
+        invocation: null,
+        revert: null,
+      })
+    })
+
+    expect(
+      await fetchActionRevertData(provider, safeAddress, leaf, 10)
+    ).to.equal(revertData)
+    expect(request).to.deep.include({
+      from: safeAddress,
+      to: ethers.getAddress(to),
+      value: BigInt(0),
+      gasLimit: BigInt(100_000),
+      data: txData,
+      blockTag: 10,
+    })
+  })
+
+  it('returns undefined if the action does not revert', async () => {
+    const provider = makeProvider(async () => '0x')
+
+    expect(await fetchActionRevertData(provider, safeAddress, leaf, 10)).to.be
+      .undefined
+  })
+
+  it('throws an error that is not a revert', async () => {
+    const provider = makeProvider(async () => {
+      throw new Error('connection refused')
+    })
+
+    try {
+      await fetchActionRevertData(provider, safeAddress, leaf, 10)
+      expect.fail('Expected an error to be thrown.')
+    } catch (e) {
+      expect(e.message).to.equal('connection refused')
+    }
+  })
+})
+
+describe('getRevertDataFromError', () => {
+  it('finds the revert data in a nested JSON-RPC error', () => {
+    expect(
+      getRevertDataFromError({ info: { error: { data: '0x1234' } } })
+    ).to.equal('0x1234')
+    expect(
+      getRevertDataFromError({ error: { data: { data: '0x5678' } } })
+    ).to.equal('0x5678')
+    expect(getRevertDataFromError(new Error('failed'))).to.be.undefined
+  })
+})
@@ -0,0 +1,267 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import {
+  DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
+  Operation,
+} from '@sphinx-labs/contracts'
+
+import {
+  ActionInputType,
+  ConfigArtifacts,
+  CreateActionInput,
+  Create2ActionInput,
+  FunctionCallActionInput,
+  NetworkConfig,
+} from '../src/config/types'
+import { ExecutionMode } from '../src/constants'
+import {
+  SAFE_TX_BUILDER_BATCH_VERSION,
+  makeSafeTxBuilderBatch,
+} from '../src/safe-tx-builder'
+
+const safeAddress = '0x' + 'ff'.repeat(20)
+const myContractAddress = '0x' + 'aa'.repeat(20)
+const dummyMerkleRoot = '0x' + 'fe'.repeat(32)
+const createdAt = 1700000000000
+
+const abi = [
+  'function setValues(uint256 myNumber, (address owner, bool active)[] myStructs, string myString)',
+  'function unnamed(uint256)',
+]
+const iface = new ethers.Interface(abi)
+
+const configArtifacts: ConfigArtifacts = {
+  'contracts/MyContract.sol:MyContract': {
+    buildInfoId: 'dummyBuildInfoId',
+    artifact: {
+      abi: JSON.parse(iface.formatJson()),
+      sourceName: 'contracts/MyContract.sol',
+      contractName: 'MyContract',
+      bytecode: '0x',
+      deployedBytecode: '0x',
+      linkReferences: {},
+      deployedLinkReferences: {},
+      metadata: {
+        sources: {},
+        output: {
+          abi: [],
+          devdoc: { kind: 'dev', methods: {}, version: 1 },
+          userdoc: { kind: 'user', methods: {}, version: 1 },
+        },
+      },
+    },
+  },
+}
+
+const makeCallAction = (
+  functionName: string,
+  txData: string,
+  variables: Array<any>
+): FunctionCallActionInput => {
+  return {
+    actionType: ActionInputType.CALL,
+    decodedAction: {
+      referenceName: 'MyContract',
+      functionName,
+      variables,
+      address: myContractAddress,
+      value: '0',
+    },
+    to: myContractAddress,
+    txData,
+    value: '0',
+    operation: Operation.Call,
+    requireSuccess: true,
+    // These fields are unused:
+    index: '0',
+    contracts: [],
+    gas: '0',
+  }
+}
+
+const create2Action: Create2ActionInput = {
+  actionType: ActionInputType.CREATE2,
+  decodedAction: {
+    referenceName: 'MyContract',
+    functionName: 'constructor',
+    variables: {},
+    address: myContractAddress,
+    value: '0',
+  },
+  to: DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
+  txData: '0x' + '00'.repeat(32) + '1234',
+  value: '0',
+  operation: Operation.Call,
+  requireSuccess: true,
+  create2Address: myContractAddress,
+  initCodeWithArgs: '0x1234',
+  // These fields are unused:
+  index: '0',
+  contracts: [],
+  gas: '0',
+}
+
+const setValuesData = iface.encodeFunctionData('setValues', [
+  BigInt(1234),
+  [[safeAddress, true]],
+  'hello',
+])
+const setValuesAction = makeCallAction('setValues', setValuesData, [])
+
+const makeNetworkConfig = (
+  actionInputs: NetworkConfig['actionInputs']
+): NetworkConfig => {
+  return {
+    chainId: '11155111',
+    executionMode: ExecutionMode.Platform,
+    actionInputs,
+    safeAddress,
+    initialState: {
+      isSafeDeployed: true,
+      isModuleDeployed: false,
+      isExecuting: false,
+    },
+    newConfig: {
+      mainnets: [],
+      projectName: 'My Project',
+      orgId: '',
+      owners: [],
+      testnets: [],
+      threshold: '0',
+      saltNonce: '0',
+    },
+    // The rest of the variables are unused:
+    moduleAddress: ethers.ZeroAddress,
+    unlabeledContracts: [],
+    isSystemDeployed: true,
+    executorAddress: ethers.ZeroAddress,
+    safeInitData: ethers.ZeroHash,
+    nonce: '0',
+    arbitraryChain: false,
+    blockGasLimit: '0',
+    blockNumber: '0',
+    libraries: [],
+    gitCommit: null,
+  }
+}
+
+describe('Safe Transaction Builder', () => {
+  describe('makeSafeTxBuilderBatch', () => {
+    it('returns batch with decoded contract method', () => {
+      const batch = makeSafeTxBuilderBatch(
+        makeNetworkConfig([create2Action, setValuesAction]),
+        configArtifacts,
+        dummyMerkleRoot,
+        createdAt
+      )
+
+      expect(batch.version).to.equal(SAFE_TX_BUILDER_BATCH_VERSION)
+      expect(batch.chainId).to.equal('11155111')
+      expect(batch.createdAt).to.equal(createdAt)
+      expect(batch.meta.createdFromSafeAddress).to.equal(safeAddress)
+      expect(batch.meta.description).to.include(dummyMerkleRoot)
+      expect(batch.transactions.length).to.equal(2)
+
+      // The contract deployment can't be decoded because it's sent to the deterministic deployment
+      // proxy.
+      expect(batch.transactions[0]).to.deep.equal({
+        to: DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
+        value: '0',
+        data: create2Action.txData,
+        contractMethod: null,
+        contractInputsValues: null,
+      })
+
+      const { to, data, contractMethod, contractInputsValues } =
+        batch.transactions[1]
+      expect(to).to.equal(myContractAddress)
+      expect(data).to.be.null
+      expect(contractMethod).to.deep.equal({
+        name: 'setValues',
+        payable: false,
+        inputs: [
+          { name: 'myNumber', type: 'uint256' },
+          {
+            name: 'myStructs',
+            type: 'tuple[]',
+            components: [
+              { name: 'owner', type: 'address' },
+              { name: 'active', type: 'bool' },
+            ],
+          },
+          { name: 'myString', type: 'string' },
+        ],
+      })
+      expect(contractInputsValues).to.deep.equal({
+        myNumber: '1234',
+        myStructs: JSON.stringify([[ethers.getAddress(safeAddress), true]]),
+        myString: 'hello',
+      })
+    })
+
+    it('returns raw calldata if the function has unnamed inputs', () => {
+      const unnamedData = iface.encodeFunctionData('unnamed', [BigInt(1)])
+
+      const batch = makeSafeTxBuilderBatch(
+        makeNetworkConfig([makeCallAction('unnamed', unnamedData, ['1'])]),
+        configArtifacts,
+        dummyMerkleRoot,
+        createdAt
+      )
+
+      expect(batch.transactions[0].data).to.equal(unnamedData)
+      expect(batch.transactions[0].contractMethod).to.be.null
+    })
+
+    it('skips the Safe balance check', () => {
+      const balanceCheck = makeCallAction('call', '0x', ['0x'])
+      const networkConfig = makeNetworkConfig([balanceCheck, setValuesAction])
+      networkConfig.safeFundingRequest = {
+        startingBalance: '0',
+        fundsRequested: '1',
+      }
+
+      const batch = makeSafeTxBuilderBatch(
+        networkConfig,
+        configArtifacts,
+        dummyMerkleRoot,
+        createdAt
+      )
+
+      expect(batch.transactions.length).to.equal(1)
+      expect(batch.transactions[0].contractMethod?.name).to.equal('setValues')
+    })
+
+    it('throws an error if the Safe is not deployed', () => {
+      const networkConfig = makeNetworkConfig([setValuesAction])
+      networkConfig.initialState.isSafeDeployed = false
+
+      expect(() =>
+        makeSafeTxBuilderBatch(
+          networkConfig,
+          configArtifacts,
+          dummyMerkleRoot,
+          createdAt
+        )
+      ).to.throw(`is not deployed on sepolia`)
+    })
+
+    it('throws an error if an action uses DelegateCall', () => {
+      const createAction: CreateActionInput = {
+        ...create2Action,
+        actionType: ActionInputType.CREATE,
+        contractAddress: myContractAddress,
+        operation: Operation.DelegateCall,
+      }
+
+      expect(() =>
+        makeSafeTxBuilderBatch(
+          makeNetworkConfig([createAction]),
+          configArtifacts,
+          dummyMerkleRoot,
+          createdAt
+        )
+      ).to.throw(`doesn't support DelegateCall operations`)
+    })
+  })
+})
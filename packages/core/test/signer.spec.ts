@@ -0,0 +1,199 @@
+import { AddressInfo } from 'net'
+import { Server, createServer } from 'http'
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+
+import {
+  RemoteSigner,
+  RemoteSignerApi,
+  makeRemoteSigner,
+  makeSigner,
+} from '../src/signer'
+import { recoverMerkleRootSigner, signMerkleRoot } from '../src/utils'
+
+const merkleRoot = '0x' + '11'.repeat(32)
+
+/**
+ * @notice Starts a JSON-RPC server that signs with a local wallet. It supports the methods of
+ * Web3Signer and Clef.
+ */
+const startSignerStub = async (
+  accounts: Array<ethers.Wallet>
+): Promise<{ server: Server; url: string }> => {
+  const sign = async (method: string, params: Array<any>) => {
+    switch (method) {
+      case 'eth_accounts':
+        return accounts.map((account) => account.address)
+      case 'account_list':
+        return accounts.map((account) => account.address)
+      case 'eth_signTypedData':
+      case 'account_signTypedData': {
+        const [address, { domain, types, message }] = params
+        const wallet = accounts.find((account) => account.address === address)
+        const typesWithoutDomain = { ...types }
+        delete typesWithoutDomain.EIP712Domain
+        return wallet!.signTypedData(domain, typesWithoutDomain, message)
+      }
+      case 'eth_signTransaction':
+      case 'account_signTransaction': {
+        const [{ from, gas, ...transaction }] = params
+        const wallet = accounts.find((account) => account.address === from)
+        const raw = await wallet!.signTransaction({
+          ...transaction,
+          gasLimit: gas,
+        })
+        return method === 'eth_signTransaction' ? raw : { raw, tx: {} }
+      }
+      default:
+        throw new Error(`Method not found: ${method}`)
+    }
+  }
+
+  const server = createServer((request, response) => {
+    let body = ''
+    request.on('data', (chunk) => (body += chunk))
+    request.on('end', async () => {
+      const { id, method, params } = JSON.parse(body)
+      let payload: object
+      try {
+        payload = { jsonrpc: '2.0', id, result: await sign(method, params) }
+      } catch (e) {
+        payload = {
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32601, message: e.message },
+        }
+      }
+      response.setHeader('Content-Type', 'application/json')
+      response.end(JSON.stringify(payload))
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return { server, url: `http://127.0.0.1:${port}` }
+}
+
+describe('Signers', () => {
+  const wallet = ethers.Wallet.createRandom()
+  const otherWallet = ethers.Wallet.createRandom()
+
+  let server: Server
+  let url: string
+
+  before(async () => {
+    ;({ server, url } = await startSignerStub([
+      new ethers.Wallet(wallet.privateKey),
+    ]))
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  for (const api of ['eth', 'clef'] as Array<RemoteSignerApi>) {
+    describe(`RemoteSigner (${api})`, () => {
+      it("uses the remote signer's only account", async () => {
+        const signer = await makeRemoteSigner(url, api)
+
+        expect(await signer.getAddress()).to.equal(wallet.address)
+      })
+
+      it('signs a Merkle root', async () => {
+        const signer = new RemoteSigner(url, api, wallet.address)
+
+        const signature = await signMerkleRoot(merkleRoot, signer)
+
+        expect(recoverMerkleRootSigner(merkleRoot, signature)).to.equal(
+          wallet.address
+        )
+      })
+
+      it('signs a transaction', async () => {
+        const provider = {
+          getNetwork: async () => new ethers.Network('ethereum', BigInt(1)),
+        } as unknown as ethers.Provider
+        const signer = new RemoteSigner(url, api, wallet.address, provider)
+
+        const raw = await signer.signTransaction({
+          to: otherWallet.address,
+          value: BigInt(1),
+          data: '0x1234',
+          nonce: 3,
+          gasLimit: BigInt(21_000),
+          chainId: BigInt(1),
+          type: 2,
+          maxFeePerGas: BigInt(2),
+          maxPriorityFeePerGas: BigInt(1),
+        })
+
+        const transaction = ethers.Transaction.from(raw)
+        expect(transaction.from).to.equal(wallet.address)
+        expect(transaction.to).to.equal(otherWallet.address)
+        expect(transaction.nonce).to.equal(3)
+        expect(transaction.data).to.equal('0x1234')
+        expect(transaction.maxFeePerGas).to.equal(BigInt(2))
+      })
+    })
+  }
+
+  it('throws an error if the remote signer has more than one account', async () => {
+    const stub = await startSignerStub([
+      new ethers.Wallet(wallet.privateKey),
+      new ethers.Wallet(otherWallet.privateKey),
+    ])
+    try {
+      await makeRemoteSigner(stub.url, 'eth')
+      expect.fail('Expected an error to be thrown.')
+    } catch (e) {
+      expect(e.message).to.include(
+        `Expected the remote signer at ${stub.url} to have one account, but it has 2.`
+      )
+    } finally {
+      stub.server.close()
+    }
+  })
+
+  it('throws an error returned by the remote signer', async () => {
+    const signer = new RemoteSigner(url, 'eth', otherWallet.address)
+
+    try {
+      await signer.signMessage('hello')
+      expect.fail('Expected an error to be thrown.')
+    } catch (e) {
+      expect(e.message).to.equal(
+        `The remote signer at ${url} returned an error for eth_sign: Method not found: eth_sign`
+      )
+    }
+  })
+
+  it('decrypts a keystore file', async () => {
+    const password = 'password'
+    const keystorePath = join(
+      mkdtempSync(join(tmpdir(), 'sphinx-keystore-')),
+      'keystore.json'
+    )
+    // We use a low scrypt cost so that the test runs quickly.
+    writeFileSync(
+      keystorePath,
+      ethers.encryptKeystoreJsonSync(
+        { address: wallet.address, privateKey: wallet.privateKey },
+        password,
+        {
+          scrypt: { N: 1024 },
+        }
+      )
+    )
+
+    const signer = await makeSigner({
+      type: 'keystore',
+      path: keystorePath,
+      password,
+    })
+
+    expect(await signer.getAddress()).to.equal(wallet.address)
+  })
+})
@@ -0,0 +1,88 @@
+import { expect } from 'chai'
+import {
+  Operation,
+  SphinxLeafType,
+  makeSphinxMerkleTree,
+} from '@sphinx-labs/contracts'
+
+import { NetworkConfig } from '../src/config/types'
+import { makeDeploymentData } from '../src/tasks'
+
+const makeNetworkConfig = (
+  chainId: string,
+  gas: Array<string>,
+  arbitraryChain: boolean
+): NetworkConfig =>
+  ({
+    chainId,
+    nonce: '0',
+    executorAddress: '0x' + '11'.repeat(20),
+    safeAddress: '0x' + '22'.repeat(20),
+    moduleAddress: '0x' + '33'.repeat(20),
+    arbitraryChain,
+    actionInputs: gas.map((actionGas, i) => ({
+      to: '0x' + '44'.repeat(20),
+      value: '0',
+      gas: actionGas,
+      txData: '0x' + i.toString(16).padStart(2, '0'),
+      operation: Operation.Call,
+      requireSuccess: true,
+    })),
+  } as unknown as NetworkConfig)
+
+describe('makeDeploymentData', () => {
+  it('creates an entry for each network', () => {
+    const deploymentData = makeDeploymentData([
+      makeNetworkConfig('1', ['100', '200'], false),
+      makeNetworkConfig('10', ['100'], false),
+      makeNetworkConfig('137', [], false),
+    ])
+
+    expect(Object.keys(deploymentData)).to.deep.equal(['1', '10'])
+  })
+
+  it('creates a single entry if the deployment can be executed on any chain', () => {
+    const deploymentData = makeDeploymentData([
+      makeNetworkConfig('1', ['100', '300'], true),
+      makeNetworkConfig('10', ['200', '100'], true),
+    ])
+
+    expect(Object.keys(deploymentData)).to.deep.equal(['1'])
+    const networkData = deploymentData['1']
+    if (networkData.type !== 'deployment') {
+      expect.fail('Expected deployment data.')
+    }
+    expect(networkData.arbitraryChain).to.be.true
+    // The gas of each action is the highest value across the networks.
+    expect(networkData.txs.map(({ gas }) => gas)).to.deep.equal(['200', '300'])
+
+    // Every leaf in the Merkle tree has a chain ID of 0.
+    const { leavesWithProofs } = makeSphinxMerkleTree(deploymentData)
+    expect(leavesWithProofs).to.have.length(3)
+    expect(leavesWithProofs[0].leaf.leafType).to.equal(SphinxLeafType.APPROVE)
+    expect(leavesWithProofs.every(({ leaf }) => leaf.chainId === BigInt(0))).to
+      .be.true
+  })
+
+  it('throws an error if the deployment is different on each chain', () => {
+    const optimism = makeNetworkConfig('10', ['100'], true)
+    optimism.nonce = '1'
+
+    expect(() =>
+      makeDeploymentData([makeNetworkConfig('1', ['100'], true), optimism])
+    ).to.throw(
+      `The deployment on chain ID 10 is different from the deployment on chain ID 1.`
+    )
+  })
+
+  it('throws an error if only some networks can be executed on any chain', () => {
+    expect(() =>
+      makeDeploymentData([
+        makeNetworkConfig('1', ['100'], true),
+        makeNetworkConfig('10', ['100'], false),
+      ])
+    ).to.throw(
+      `Detected networks where 'arbitraryChain' is true and networks where it's false.`
+    )
+  })
+})
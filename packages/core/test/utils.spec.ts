@@ -9,6 +9,10 @@ import {
   decodeCall,
   equal,
   formatSolcLongVersion,
+  getMerkleRootTypedData,
+  getMerkleRootTypedDataHash,
+  recoverMerkleRootSigner,
+  signMerkleRoot,
 } from '../src/utils'
 import { ABI } from './common'
 import { callWithTimeout, getBytesLength, getMaxGasLimit } from '../dist'
@@ -518,4 +522,87 @@ describe('Utils', () => {
       })
     })
   })
+
+  describe('recoverMerkleRootSigner', () => {
+    const merkleRoot = '0x' + 'ab'.repeat(32)
+
+    it('returns the signer of a Merkle root', async () => {
+      const wallet = ethers.Wallet.createRandom()
+      const signature = await signMerkleRoot(merkleRoot, wallet)
+
+      expect(recoverMerkleRootSigner(merkleRoot, signature)).to.equal(
+        wallet.address
+      )
+    })
+
+    it('returns a different address for a different Merkle root', async () => {
+      const wallet = ethers.Wallet.createRandom()
+      const signature = await signMerkleRoot(merkleRoot, wallet)
+
+      expect(
+        recoverMerkleRootSigner('0x' + 'cd'.repeat(32), signature)
+      ).to.not.equal(wallet.address)
+    })
+  })
+
+  describe('getMerkleRootTypedData', () => {
+    const merkleRoot = '0x' + 'ab'.repeat(32)
+
+    it('returns the typed data that is signed by signMerkleRoot', async () => {
+      const wallet = ethers.Wallet.createRandom()
+      const signature = await signMerkleRoot(merkleRoot, wallet)
+
+      const typedData = getMerkleRootTypedData(merkleRoot)
+      expect(typedData).to.deep.equal({
+        types: {
+          EIP712Domain: [
+            { name: 'name', type: 'string' },
+            { name: 'version', type: 'string' },
+          ],
+          MerkleRoot: [{ name: 'root', type: 'bytes32' }],
+        },
+        domain: { name: 'Sphinx', version: '1.0.0' },
+        primaryType: 'MerkleRoot',
+        message: { root: merkleRoot },
+      })
+
+      // The signature is valid for the typed data.
+      expect(
+        ethers.verifyTypedData(
+          typedData.domain,
+          { MerkleRoot: typedData.types.MerkleRoot },
+          typedData.message,
+          signature
+        )
+      ).to.equal(wallet.address)
+    })
+
+    it('returns the hash that is checked by the SphinxModule', () => {
+      const coder = ethers.AbiCoder.defaultAbiCoder()
+      // Matches the `DOMAIN_SEPARATOR` and `TYPE_HASH` constants in `SphinxModule.sol`.
+      const domainSeparator = ethers.keccak256(
+        coder.encode(
+          ['bytes32', 'bytes32', 'bytes32'],
+          [
+            ethers.id('EIP712Domain(string name,string version)'),
+            ethers.id('Sphinx'),
+            ethers.id('1.0.0'),
+          ]
+        )
+      )
+      const structHash = ethers.keccak256(
+        coder.encode(
+          ['bytes32', 'bytes32'],
+          [ethers.id('MerkleRoot(bytes32 root)'), merkleRoot]
+        )
+      )
+
+      expect(getMerkleRootTypedDataHash(merkleRoot)).to.equal(
+        ethers.solidityPackedKeccak256(
+          ['bytes2', 'bytes32', 'bytes32'],
+          ['0x1901', domainSeparator, structHash]
+        )
+      )
+    })
+  })
 })
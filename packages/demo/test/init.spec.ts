@@ -69,7 +69,7 @@ describe('Init CLI command', () => {
     // test case will also fail.
     await execAsync(`forge test`)
     await execAsync(
-      `npx sphinx deploy script/HelloSphinx.s.sol --network anvil --confirm`
+      `npx sphinx deploy script/HelloSphinx.s.sol --networks anvil --confirm`
     )
 
     // We need to load the contract artifact programmatically because it's not created until we run
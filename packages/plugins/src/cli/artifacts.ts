@@ -1,11 +1,30 @@
+import { existsSync, readFileSync, unlinkSync } from 'fs'
+
 import {
+  DeploymentArtifacts,
   ExecutionMode,
+  MerkleRootStatus,
+  SphinxJsonRpcProvider,
+  convertEthersTransactionReceipt,
   fetchDeploymentArtifacts,
+  fetchMerkleRootState,
+  fetchNameForNetwork,
+  fetchReceiptsFromExecutionJournal,
+  makeDeploymentArtifacts,
+  readDeploymentArtifactsForNetwork,
+  readExecutionJournal,
   writeDeploymentArtifacts,
 } from '@sphinx-labs/core'
 import ora from 'ora'
 
-import { FetchArtifactsArgs } from './types'
+import { FetchArtifactsArgs, RecoverArtifactsArgs } from './types'
+import { getFoundryToml } from '../foundry/options'
+import { getRpcUrls } from '../foundry/utils'
+import {
+  PendingDeployment,
+  getExecutionJournalPath,
+  getPendingDeploymentPath,
+} from './deploy'
 
 export const fetchRemoteArtifacts = async (args: FetchArtifactsArgs) => {
   const { apiKey, orgId, projectName, silent } = args
@@ -29,3 +48,139 @@ export const fetchRemoteArtifacts = async (args: FetchArtifactsArgs) => {
 
   spinner.succeed(`Wrote artifacts.`)
 }
+
+/**
+ * @notice Writes the deployment artifacts of a deployment that was executed by the `deploy` command
+ * but whose artifacts weren't written, e.g. because the process was killed. The receipts are
+ * rebuilt from the execution journal in the Foundry cache. The deployment must be completed on
+ * every network whose artifacts weren't written yet. Otherwise, it should be finished with
+ * `sphinx deploy --resume`, which also writes the artifacts.
+ */
+export const recoverArtifacts = async (
+  args: RecoverArtifactsArgs
+): Promise<{ deploymentArtifacts: DeploymentArtifacts }> => {
+  const { networks, silent } = args
+
+  const spinner = ora({ isSilent: silent })
+  spinner.start(`Reading execution journal...`)
+
+  const { cachePath, rpcEndpoints } = await getFoundryToml()
+  const pendingDeploymentPath = getPendingDeploymentPath(cachePath)
+  const executionJournalPath = getExecutionJournalPath(cachePath)
+  if (!existsSync(pendingDeploymentPath) || !existsSync(executionJournalPath)) {
+    throw new Error(
+      `Could not find a deployment to recover the artifacts of. The artifacts of the most recent\n` +
+        `deployment were either written already or the deployment was never executed.`
+    )
+  }
+
+  const {
+    deploymentConfig,
+    executionMode,
+    writtenChainIds = [],
+  }: PendingDeployment = JSON.parse(
+    readFileSync(pendingDeploymentPath, 'utf-8')
+  )
+  const journal = readExecutionJournal(executionJournalPath)
+  const merkleRoot = deploymentConfig.merkleTree.root
+  if (journal.merkleRoot !== merkleRoot) {
+    throw new Error(
+      `The execution journal is for a different deployment than the most recent deployment.\n` +
+        `Journal Merkle root: ${journal.merkleRoot}\n` +
+        `Deployment Merkle root: ${merkleRoot}`
+    )
+  }
+
+  spinner.succeed(`Read execution journal.`)
+  spinner.start(`Fetching transaction receipts...`)
+
+  const providers = getRpcUrls(networks, rpcEndpoints).map(
+    (rpcUrl) => new SphinxJsonRpcProvider(rpcUrl)
+  )
+  const chainIds = await Promise.all(
+    providers.map(async (provider) =>
+      (await provider.getNetwork()).chainId.toString()
+    )
+  )
+  const missing = deploymentConfig.networkConfigs.filter(
+    ({ chainId }) => !chainIds.includes(chainId)
+  )
+  if (missing.length > 0) {
+    throw new Error(
+      `The deployment includes networks that you didn't specify. Please specify the same networks\n` +
+        `that you used in the deployment. Missing chain IDs:\n` +
+        missing.map(({ chainId }) => chainId).join(', ')
+    )
+  }
+
+  const deployments: Parameters<typeof makeDeploymentArtifacts>[0] = {}
+  const incomplete: Array<string> = []
+  for (const { chainId, moduleAddress } of deploymentConfig.networkConfigs) {
+    // The artifacts on these networks were written when the deployment was interrupted.
+    if (writtenChainIds.includes(chainId)) {
+      continue
+    }
+
+    const provider = providers[chainIds.indexOf(chainId)]
+    const state = await fetchMerkleRootState(
+      moduleAddress,
+      merkleRoot,
+      provider
+    )
+    if (state?.merkleRootState.status !== MerkleRootStatus.COMPLETED) {
+      incomplete.push(fetchNameForNetwork(BigInt(chainId)))
+      continue
+    }
+
+    const receipts = await fetchReceiptsFromExecutionJournal(
+      journal,
+      chainId,
+      moduleAddress,
+      provider
+    )
+    deployments[chainId] = {
+      provider,
+      deploymentConfig,
+      receipts: receipts.map(convertEthersTransactionReceipt),
+    }
+  }
+
+  if (incomplete.length > 0) {
+    throw new Error(
+      `The deployment isn't completed on: ${incomplete.join(', ')}\n` +
+        `Run 'sphinx deploy' with '--resume' to finish it, which also writes the artifacts.`
+    )
+  }
+
+  spinner.succeed(`Fetched transaction receipts.`)
+  spinner.start(`Writing deployment artifacts...`)
+
+  const { projectName } = deploymentConfig.networkConfigs[0].newConfig
+  const deploymentArtifacts: DeploymentArtifacts = {
+    networks: {},
+    compilerInputs: {},
+  }
+  for (const { chainId } of deploymentConfig.networkConfigs) {
+    deploymentArtifacts.networks[chainId] = readDeploymentArtifactsForNetwork(
+      projectName,
+      BigInt(chainId),
+      executionMode
+    )
+  }
+
+  await makeDeploymentArtifacts(
+    deployments,
+    merkleRoot,
+    deploymentConfig.configArtifacts,
+    deploymentArtifacts
+  )
+  writeDeploymentArtifacts(projectName, executionMode, deploymentArtifacts)
+
+  // The artifacts have been written, so the deployment no longer needs to be resumed or recovered.
+  unlinkSync(pendingDeploymentPath)
+  unlinkSync(executionJournalPath)
+
+  spinner.succeed(`Wrote deployment artifacts.`)
+
+  return { deploymentArtifacts }
+}
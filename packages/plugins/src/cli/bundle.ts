@@ -0,0 +1,116 @@
+import { readFileSync, writeFileSync } from 'fs'
+
+import {
+  DeploymentConfig,
+  SphinxPreview,
+  SphinxPreviewJson,
+  getPreviewJson,
+  makeDeploymentData,
+  toSphinxLeafWithProofArray,
+} from '@sphinx-labs/core'
+import { SphinxMerkleTree, makeSphinxMerkleTree } from '@sphinx-labs/contracts'
+
+import { SPHINX_PLUGINS_VERSION } from './version'
+
+/**
+ * @notice The version of the deployment bundle format. This should be incremented whenever the
+ * `DeploymentBundle` type changes in a way that isn't backwards compatible.
+ */
+export const DEPLOYMENT_BUNDLE_FORMAT = 'sphinx-bundle-1'
+
+/**
+ * @notice A self-contained file that contains everything that's necessary to review, sign, and
+ * execute a deployment without collecting the transactions in the user's script again.
+ *
+ * @field pluginVersion    The version of the Sphinx plugin that created the bundle.
+ * @field gitCommit        The git commit of the user's repository when the bundle was created, or
+ * null if the repository had uncommitted changes or isn't a git repository.
+ * @field createdAt        The timestamp of the bundle in milliseconds.
+ * @field merkleTree       The Merkle tree of the deployment. This is the same as
+ * `deploymentConfig.merkleTree`.
+ * @field preview          The preview that was displayed when the bundle was created.
+ * @field deploymentConfig The deployment config, which contains the network configs and the
+ * compiler inputs of the deployed contracts.
+ */
+export type DeploymentBundle = {
+  format: typeof DEPLOYMENT_BUNDLE_FORMAT
+  pluginVersion: string
+  gitCommit: string | null
+  createdAt: number
+  merkleTree: SphinxMerkleTree
+  preview: SphinxPreviewJson
+  deploymentConfig: DeploymentConfig
+}
+
+export const makeDeploymentBundle = (
+  deploymentConfig: DeploymentConfig,
+  preview: SphinxPreview
+): DeploymentBundle => {
+  return {
+    format: DEPLOYMENT_BUNDLE_FORMAT,
+    pluginVersion: SPHINX_PLUGINS_VERSION,
+    gitCommit: deploymentConfig.networkConfigs[0].gitCommit,
+    createdAt: Date.now(),
+    merkleTree: deploymentConfig.merkleTree,
+    preview: getPreviewJson(preview),
+    deploymentConfig,
+  }
+}
+
+export const writeDeploymentBundle = (
+  filePath: string,
+  bundle: DeploymentBundle
+): void => {
+  writeFileSync(filePath, JSON.stringify(bundle, null, 2))
+}
+
+/**
+ * Reads a deployment bundle and checks that it hasn't been modified by recomputing its Merkle root
+ * from the network configs. This ensures that the deployment that's signed or executed is the same
+ * deployment that was reviewed. The Merkle root doesn't commit to the decoded actions in the network
+ * configs, so callers that display a preview should also display the decoded leaves of the Merkle
+ * tree.
+ */
+export const readDeploymentBundle = (filePath: string): DeploymentBundle => {
+  const bundle = JSON.parse(readFileSync(filePath, 'utf-8'))
+
+  if (bundle.format !== DEPLOYMENT_BUNDLE_FORMAT) {
+    throw new Error(
+      `File is not a valid deployment bundle: ${filePath}\n` +
+        `Expected format '${DEPLOYMENT_BUNDLE_FORMAT}', but got '${bundle.format}'.`
+    )
+  }
+
+  const { deploymentConfig, merkleTree, preview } = bundle as DeploymentBundle
+  if (deploymentConfig.networkConfigs.length === 0) {
+    throw new Error(
+      `Deployment bundle doesn't contain any networks: ${filePath}`
+    )
+  }
+
+  const expectedRoot = makeSphinxMerkleTree(
+    makeDeploymentData(deploymentConfig.networkConfigs)
+  ).root
+  if (
+    merkleTree.root !== expectedRoot ||
+    deploymentConfig.merkleTree.root !== expectedRoot ||
+    preview.merkleRoot !== expectedRoot
+  ) {
+    throw new Error(
+      `The Merkle root in the deployment bundle doesn't match its network configs. The bundle may\n` +
+        `have been modified after it was created: ${filePath}\n` +
+        `Expected: ${expectedRoot}\n` +
+        `Actual: ${merkleTree.root}`
+    )
+  }
+
+  // The leaves' chain IDs and indexes are strings after the bundle is parsed from JSON.
+  merkleTree.leavesWithProofs = toSphinxLeafWithProofArray(
+    merkleTree.leavesWithProofs
+  )
+  deploymentConfig.merkleTree.leavesWithProofs = toSphinxLeafWithProofArray(
+    deploymentConfig.merkleTree.leavesWithProofs
+  )
+
+  return bundle
+}
@@ -0,0 +1,460 @@
+import { relative } from 'path'
+
+import {
+  ExecutionMode,
+  ProposalRequest,
+  ProjectDeployment,
+  SphinxJsonRpcProvider,
+  SphinxPreview,
+  WEBSITE_URL,
+  addSphinxWalletsToGnosisSafeOwners,
+  fetchNameForNetwork,
+  findLeafWithProof,
+  fundAccountMaxBalance,
+  getCancellationPreviewString,
+  getGasPriceOverrides,
+  getNetworkTag,
+  getSphinxWalletPrivateKey,
+  getSphinxWalletsSortedByAddress,
+  isFile,
+  makeCancellationData,
+  makeDeploymentConfig,
+  readSphinxLock,
+  removeSphinxWalletsFromGnosisSafeOwners,
+  signMerkleRoot,
+  syncSphinxLock,
+} from '@sphinx-labs/core'
+import ora from 'ora'
+import { blue } from 'chalk'
+import { ethers } from 'ethers'
+import {
+  GnosisSafeArtifact,
+  SphinxLeafType,
+  SphinxMerkleTree,
+  SphinxModuleABI,
+  getPermissionlessRelayAddress,
+  makeSphinxMerkleTree,
+} from '@sphinx-labs/contracts'
+
+import { getFoundryToml } from '../foundry/options'
+import {
+  assertValidVersions,
+  compile,
+  getRpcUrls,
+  getSphinxConfigFromScript,
+  readInterface,
+  resolveNetworks,
+  validateProposalNetworks,
+} from '../foundry/utils'
+import { SphinxContext } from './context'
+import { SPHINX_PLUGINS_VERSION } from './version'
+
+/**
+ * @param merkleRoot The active Merkle root to cancel.
+ * @param scriptPath The path to the Forge script that contains the `sphinxConfig` of the Gnosis Safe
+ * that approved the Merkle root.
+ * @param propose If true, the cancellation will be submitted to Sphinx's backend so that the Gnosis
+ * Safe owners can approve it via the website. Otherwise, the cancellation will be signed and
+ * executed by the account specified by the `PRIVATE_KEY` environment variable, or by an
+ * auto-generated account on local networks.
+ */
+export interface CancelArgs {
+  merkleRoot: string
+  networks: Array<string>
+  scriptPath: string
+  confirm: boolean
+  propose: boolean
+  silent: boolean
+  sphinxContext: SphinxContext
+  targetContract?: string
+}
+
+type CancellationNetwork = {
+  chainId: bigint
+  provider: SphinxJsonRpcProvider
+  executionMode: ExecutionMode
+  nonce: bigint
+  signer?: ethers.Wallet
+}
+
+export const cancel = async (
+  args: CancelArgs
+): Promise<{
+  merkleTree?: SphinxMerkleTree
+  receipts?: Array<ethers.TransactionReceipt>
+  proposalRequest?: ProposalRequest
+}> => {
+  const { networks, confirm, propose, silent, sphinxContext, targetContract } =
+    args
+  const merkleRootToCancel = args.merkleRoot.toLowerCase()
+
+  const projectRoot = process.cwd()
+
+  // Normalize the script path to be in the format "path/to/file.sol". This isn't strictly
+  // necessary, but we're less likely to introduce a bug if it's always in the same format.
+  const scriptPath = relative(projectRoot, args.scriptPath)
+
+  if (!isFile(scriptPath)) {
+    throw new Error(
+      `File does not exist at: ${scriptPath}\n` +
+        `Please make sure this is a valid file path.`
+    )
+  }
+
+  const apiKey = process.env.SPHINX_API_KEY
+  if (propose && !apiKey) {
+    console.error("You must specify a 'SPHINX_API_KEY' environment variable.")
+    process.exit(1)
+  }
+
+  // Run the compiler. It's necessary to do this before we read any contract interfaces. We don't
+  // need the build info because we don't collect any transactions from the script.
+  compile(
+    silent,
+    false, // Do not force recompile
+    false // Do not generate build info
+  )
+
+  const spinner = ora({ isSilent: silent })
+  spinner.start(`Validating networks...`)
+
+  await assertValidVersions(scriptPath, targetContract)
+
+  const foundryToml = await getFoundryToml()
+
+  // We must load any ABIs after compiling the contracts to prevent a situation where the user
+  // clears their artifacts then calls this task, in which case the artifact won't exist yet.
+  const sphinxPluginTypesInterface = readInterface(
+    foundryToml.artifactFolder,
+    'SphinxPluginTypes'
+  )
+
+  const { safeAddress, moduleAddress, testnets, mainnets, projectName } =
+    await getSphinxConfigFromScript(
+      scriptPath,
+      sphinxPluginTypesInterface,
+      targetContract,
+      spinner
+    )
+
+  let rpcUrls: Array<string>
+  let isTestnet: boolean | undefined
+  if (propose) {
+    ;({ rpcUrls, isTestnet } = await validateProposalNetworks(
+      networks,
+      testnets,
+      mainnets,
+      foundryToml.rpcEndpoints
+    ))
+  } else {
+    rpcUrls = getRpcUrls(
+      resolveNetworks(networks, testnets, mainnets),
+      foundryToml.rpcEndpoints
+    )
+  }
+
+  spinner.succeed(`Validated networks.`)
+  spinner.start(`Building cancellation...`)
+
+  const cancellationNetworks: Array<CancellationNetwork> = []
+  const notActive: Array<string> = []
+  for (const rpcUrl of rpcUrls) {
+    const provider = new SphinxJsonRpcProvider(rpcUrl)
+    const [isLiveNetwork, { chainId }] = await Promise.all([
+      sphinxContext.isLiveNetwork(provider),
+      provider.getNetwork(),
+    ])
+    const executionMode = propose
+      ? ExecutionMode.Platform
+      : isLiveNetwork
+      ? ExecutionMode.LiveNetworkCLI
+      : ExecutionMode.LocalNetworkCLI
+    const networkTag = getNetworkTag(
+      fetchNameForNetwork(chainId),
+      executionMode,
+      chainId
+    )
+
+    if ((await provider.getCode(moduleAddress)) === '0x') {
+      notActive.push(networkTag)
+      continue
+    }
+
+    const sphinxModuleReadOnly = new ethers.Contract(
+      moduleAddress,
+      SphinxModuleABI,
+      provider
+    )
+    const [activeMerkleRoot, nonce] = await Promise.all([
+      sphinxModuleReadOnly.activeMerkleRoot(),
+      sphinxModuleReadOnly.merkleRootNonce(),
+    ])
+    if (activeMerkleRoot !== merkleRootToCancel) {
+      notActive.push(networkTag)
+      continue
+    }
+
+    let signer: ethers.Wallet | undefined
+    if (executionMode === ExecutionMode.LiveNetworkCLI) {
+      const privateKey = process.env.PRIVATE_KEY
+      if (!privateKey) {
+        throw new Error(`Could not find 'PRIVATE_KEY' environment variable.`)
+      }
+      signer = new ethers.Wallet(privateKey, provider)
+    } else if (executionMode === ExecutionMode.LocalNetworkCLI) {
+      signer = new ethers.Wallet(getSphinxWalletPrivateKey(0), provider)
+    }
+
+    cancellationNetworks.push({
+      chainId,
+      provider,
+      executionMode,
+      nonce,
+      signer,
+    })
+  }
+
+  if (notActive.length > 0) {
+    spinner.stop()
+    throw new Error(
+      `The Merkle root ${merkleRootToCancel} is not active in the Gnosis Safe's SphinxModuleProxy\n` +
+        `on the following networks:\n` +
+        notActive.map((networkTag) => `- ${networkTag}`).join('\n')
+    )
+  }
+
+  const cancellationData = makeCancellationData(
+    cancellationNetworks.map(({ chainId, nonce, signer }) => {
+      return {
+        chainId: chainId.toString(),
+        nonce: nonce.toString(),
+        // The executor is the account that submits the cancellation. When proposing, this is the
+        // same relayer that executes deployments on the DevOps Platform.
+        executor: signer ? signer.address : getPermissionlessRelayAddress(),
+        safeAddress,
+        moduleAddress,
+      }
+    }),
+    merkleRootToCancel
+  )
+  const merkleTree = makeSphinxMerkleTree(cancellationData)
+
+  spinner.succeed(`Built cancellation.`)
+
+  const networkTags = cancellationNetworks.map(({ chainId, executionMode }) =>
+    getNetworkTag(fetchNameForNetwork(chainId), executionMode, chainId)
+  )
+  if (confirm) {
+    if (!silent) {
+      console.log(
+        getCancellationPreviewString(
+          merkleRootToCancel,
+          networkTags,
+          safeAddress,
+          merkleTree.root,
+          false
+        )
+      )
+    }
+  } else {
+    await sphinxContext.prompt(
+      getCancellationPreviewString(
+        merkleRootToCancel,
+        networkTags,
+        safeAddress,
+        merkleTree.root,
+        true
+      )
+    )
+  }
+
+  if (propose) {
+    // Narrow the TypeScript types.
+    if (!apiKey || isTestnet === undefined) {
+      throw new Error(
+        `API key or network type not defined. Should never happen.`
+      )
+    }
+
+    spinner.start(`Proposing...`)
+
+    // We must synchronize the sphinx.lock file because it contains the organization ID.
+    await syncSphinxLock(undefined, apiKey)
+    const { orgId } = await readSphinxLock()
+
+    const chainIds = cancellationNetworks.map(({ chainId }) => Number(chainId))
+    const projectDeployments: Array<ProjectDeployment> = chainIds.map(
+      (chainId) => {
+        return {
+          chainId,
+          deploymentId: merkleTree.root,
+          name: projectName,
+          isExecuting: true,
+        }
+      }
+    )
+    const diff: SphinxPreview = {
+      merkleRoot: merkleTree.root,
+      arbitraryChain: false,
+      networks: chainIds.map((chainId, i) => {
+        return {
+          networkTags: [networkTags[i]],
+          executing: [],
+          skipping: [],
+          chainId: chainId.toString(),
+          safeAddress,
+        }
+      }),
+      unlabeledAddresses: new Set(),
+    }
+
+    const proposalRequest: ProposalRequest = {
+      apiKey,
+      orgId,
+      isTestnet,
+      chainIds,
+      projectName,
+      safeAddress,
+      moduleAddress,
+      projectDeployments,
+      diff,
+      compilerConfigId: undefined,
+      deploymentConfigId: undefined,
+      sphinxPluginVersion: SPHINX_PLUGINS_VERSION,
+      tree: {
+        root: merkleTree.root,
+        chainStatus: chainIds.map((chainId) => {
+          return { chainId, numLeaves: 1 }
+        }),
+      },
+    }
+
+    // The cancellation doesn't have any network configs or contracts, so the stored deployment
+    // config only contains the Merkle tree.
+    const deploymentConfig = makeDeploymentConfig([], {}, {}, merkleTree)
+    const deploymentConfigId = await sphinxContext.storeDeploymentConfig(
+      apiKey,
+      orgId,
+      JSON.stringify(deploymentConfig, null, 2)
+    )
+    proposalRequest.deploymentConfigId = deploymentConfigId
+    proposalRequest.compilerConfigId = deploymentConfigId
+
+    await sphinxContext.relayProposal(proposalRequest)
+    spinner.succeed(
+      `Proposal succeeded! Go to ${blue.underline(
+        WEBSITE_URL
+      )} to approve the cancellation.`
+    )
+
+    return { merkleTree, proposalRequest }
+  }
+
+  const receipts: Array<ethers.TransactionReceipt> = []
+  for (const {
+    chainId,
+    provider,
+    executionMode,
+    signer,
+  } of cancellationNetworks) {
+    // Narrow the TypeScript type.
+    if (!signer) {
+      throw new Error(`Signer not defined. Should never happen.`)
+    }
+
+    const networkName = fetchNameForNetwork(chainId)
+    spinner.start(`Canceling on ${networkName}...`)
+
+    const safe = new ethers.Contract(
+      safeAddress,
+      GnosisSafeArtifact.abi,
+      provider
+    )
+
+    let signers: Array<ethers.Wallet>
+    if (executionMode === ExecutionMode.LocalNetworkCLI) {
+      await fundAccountMaxBalance(signer.address, provider)
+
+      // Add a set of auto-generated wallets as owners of the Gnosis Safe so that we can sign the
+      // cancellation without knowing the private keys of the actual Gnosis Safe owners.
+      await addSphinxWalletsToGnosisSafeOwners(
+        safeAddress,
+        moduleAddress,
+        executionMode,
+        provider
+      )
+      signers = getSphinxWalletsSortedByAddress(
+        await safe.getThreshold(),
+        provider
+      )
+    } else {
+      const [threshold, isOwner] = await Promise.all([
+        safe.getThreshold(),
+        safe.isOwner(signer.address),
+      ])
+      if (!isOwner || threshold !== BigInt(1)) {
+        spinner.stop()
+        throw new Error(
+          `The account ${signer.address} can't cancel the Merkle root on ${networkName} by itself\n` +
+            `because it isn't an owner of the Gnosis Safe or the Gnosis Safe's threshold is greater\n` +
+            `than one. Use the '--propose' flag to collect the owner signatures on the Sphinx UI.`
+        )
+      }
+      signers = [signer]
+    }
+
+    const signatures = await Promise.all(
+      signers.map((owner) => signMerkleRoot(merkleTree.root, owner))
+    )
+    const packedSignatures = ethers.solidityPacked(
+      new Array(signatures.length).fill('bytes'),
+      signatures
+    )
+    const cancelLeafWithProof = findLeafWithProof(
+      merkleTree,
+      SphinxLeafType.CANCEL,
+      chainId
+    )
+
+    const sphinxModuleReadOnly = new ethers.Contract(
+      moduleAddress,
+      SphinxModuleABI
+    )
+    const cancelData = sphinxModuleReadOnly.interface.encodeFunctionData(
+      'cancel',
+      [merkleTree.root, cancelLeafWithProof, packedSignatures]
+    )
+
+    const receipt = await (
+      await signer.sendTransaction(
+        await getGasPriceOverrides(provider, signer, executionMode, {
+          to: moduleAddress,
+          data: cancelData,
+          chainId,
+        })
+      )
+    ).wait()
+    if (receipt === null) {
+      throw new Error(
+        'No transaction receipt returned by ethers. This is a bug, please report it to the developers.'
+      )
+    }
+    receipts.push(receipt)
+
+    if (executionMode === ExecutionMode.LocalNetworkCLI) {
+      // Remove the auto-generated wallets so that the Gnosis Safe owners and threshold match the
+      // production environment.
+      await removeSphinxWalletsFromGnosisSafeOwners(
+        signers,
+        safeAddress,
+        moduleAddress,
+        executionMode,
+        provider
+      )
+    }
+
+    spinner.succeed(`Canceled on ${networkName}.`)
+  }
+
+  return { merkleTree, receipts }
+}
@@ -1,10 +1,12 @@
 import {
   DeploymentConfig,
+  DeploymentArtifacts,
   ConfigArtifacts,
   GetConfigArtifacts,
   NetworkConfig,
   ProposalRequest,
   RelayProposal,
+  SafeTxBuilderBatch,
   SphinxJsonRpcProvider,
   SphinxTransactionReceipt,
   StoreDeploymentConfig,
@@ -13,9 +15,11 @@ import {
   relayProposal,
   storeDeploymentConfig,
   userConfirmation,
+  userPassword,
 } from '@sphinx-labs/core'
 import { HardhatEthersProvider } from '@nomicfoundation/hardhat-ethers/internal/hardhat-ethers-provider'
 import { SphinxMerkleTree } from '@sphinx-labs/contracts'
+import { ethers } from 'ethers'
 
 import {
   assertNoLinkedLibraries,
@@ -23,12 +27,22 @@ import {
 } from '../foundry/utils'
 import { ProposeArgs, buildNetworkConfigArray, propose } from './propose'
 import { DeployArgs, deploy } from './deploy'
+import { CancelArgs, cancel } from './cancel'
+import { NetworkMerkleRootStatus, StatusArgs, status } from './status'
+import { ContractVerificationResult, VerifyArgs, verify } from './verify'
+import { PreviewArgs, preview } from './preview'
+import { ExportArgs, exportDeployment } from './export'
+import { SignArgs, SignatureFile, sign } from './sign'
+import { ExecuteArgs, execute } from './execute'
+import { InspectTreeArgs, TreeInspection, inspectTree } from './tree'
 import {
   AssertNoLinkedLibraries,
   BuildNetworkConfigArray,
   FetchRemoteArtifacts,
+  RecoverArtifacts,
 } from './types'
-import { fetchRemoteArtifacts } from './artifacts'
+import { fetchRemoteArtifacts, recoverArtifacts } from './artifacts'
+import { DeploymentBundle } from './bundle'
 
 export type SphinxContext = {
   makeGetConfigArtifacts: (
@@ -38,6 +52,7 @@ export type SphinxContext = {
     cachePath: string
   ) => GetConfigArtifacts
   prompt: (question: string) => Promise<void>
+  promptPassword: (question: string) => Promise<string>
   isLiveNetwork: (
     provider: SphinxJsonRpcProvider | HardhatEthersProvider
   ) => Promise<boolean>
@@ -55,10 +70,42 @@ export type SphinxContext = {
     receipts?: Array<SphinxTransactionReceipt>
     configArtifacts?: ConfigArtifacts
   }>
+  cancel: (args: CancelArgs) => Promise<{
+    merkleTree?: SphinxMerkleTree
+    receipts?: Array<ethers.TransactionReceipt>
+    proposalRequest?: ProposalRequest
+  }>
+  status: (args: StatusArgs) => Promise<{
+    merkleRoot: string
+    moduleAddress: string
+    networks: Array<NetworkMerkleRootStatus>
+  }>
+  verify: (args: VerifyArgs) => Promise<{
+    merkleRoot: string
+    chainId: string
+    contracts: Array<ContractVerificationResult>
+  }>
+  preview: (args: PreviewArgs) => Promise<{
+    preview?: ReturnType<typeof getPreview>
+    merkleRoot?: string
+    networkConfigArray?: Array<NetworkConfig>
+  }>
+  exportDeployment: (args: ExportArgs) => Promise<{
+    batches?: Array<SafeTxBuilderBatch>
+    bundle?: DeploymentBundle
+    filePaths?: Array<string>
+  }>
+  sign: (args: SignArgs) => Promise<SignatureFile>
+  execute: (args: ExecuteArgs) => Promise<{
+    receipts: Array<SphinxTransactionReceipt>
+    deploymentArtifacts: DeploymentArtifacts
+  }>
+  inspectTree: (args: InspectTreeArgs) => Promise<TreeInspection>
   buildNetworkConfigArray: BuildNetworkConfigArray
   storeDeploymentConfig: StoreDeploymentConfig
   relayProposal: RelayProposal
   fetchRemoteArtifacts: FetchRemoteArtifacts
+  recoverArtifacts: RecoverArtifacts
   assertNoLinkedLibraries: AssertNoLinkedLibraries
 }
 
@@ -66,13 +113,23 @@ export const makeSphinxContext = (): SphinxContext => {
   return {
     makeGetConfigArtifacts,
     prompt: userConfirmation,
+    promptPassword: userPassword,
     isLiveNetwork,
     propose,
     deploy,
+    cancel,
+    status,
+    verify,
+    preview,
+    exportDeployment,
+    sign,
+    execute,
+    inspectTree,
     buildNetworkConfigArray,
     storeDeploymentConfig,
     relayProposal,
     fetchRemoteArtifacts,
+    recoverArtifacts,
     assertNoLinkedLibraries,
   }
 }
@@ -1,5 +1,5 @@
 import { join, relative } from 'path'
-import { existsSync, readFileSync, unlinkSync } from 'fs'
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs'
 
 import {
   displayDeploymentTable,
@@ -8,13 +8,14 @@ import {
   isFile,
   readDeploymentArtifactsForNetwork,
   signMerkleRoot,
-  spawnAsync,
+  sleep,
 } from '@sphinx-labs/core/dist/utils'
 import { SphinxJsonRpcProvider } from '@sphinx-labs/core/dist/provider'
 import {
   getPreview,
-  getPreviewString,
+  getFormattedPreviewString,
   SphinxPreview,
+  PreviewFormat,
   makeDeploymentData,
   makeDeploymentArtifacts,
   DeploymentConfig,
@@ -23,10 +24,7 @@ import {
   SphinxTransactionReceipt,
   ExecutionMode,
   ConfigArtifacts,
-  checkSystemDeployed,
   writeDeploymentArtifacts,
-  isLegacyTransactionsRequiredForNetwork,
-  MAX_UINT64,
   attemptDeployment,
   Deployment,
   fetchNameForNetwork,
@@ -39,36 +37,141 @@ import {
   removeRoles,
   NetworkConfig,
   DeploymentArtifacts,
+  elementsEqual,
+  arraysEqual,
+  fetchExecutionTransactionReceipts,
+  convertEthersTransactionReceipt,
+  readGasPriceConfig,
+  MerkleRootStatus,
+  NetworkCostEstimate,
+  estimateNetworkCost,
+  assertDeploymentCostWithinBudget,
+  attemptDeploymentsInParallel,
+  getMultichainDeploymentSummary,
+  makeNetworkSpinner,
+  makeProgressEventEmitter,
+  getProgressConsole,
+  ProgressFormat,
+  startExecutionJournal,
+  makeExecutionJournalListener,
+  readExecutionJournal,
+  fetchReceiptsFromExecutionJournal,
+  SphinxNonceManager,
 } from '@sphinx-labs/core'
 import { red } from 'chalk'
 import ora from 'ora'
 import { ethers } from 'ethers'
-import { SphinxMerkleTree, makeSphinxMerkleTree } from '@sphinx-labs/contracts'
+import {
+  SphinxMerkleTree,
+  makeSphinxMerkleTree,
+  remove0x,
+} from '@sphinx-labs/contracts'
 
 import {
   assertValidVersions,
   compile,
-  getInitCodeWithArgsArray,
+  getRpcUrls,
+  getSphinxConfigFromScript,
   parseScriptFunctionCalldata,
   readInterface,
-  assertContractSizeLimitNotExceeded,
-  writeSystemContracts,
+  resolveNetworks,
 } from '../foundry/utils'
 import { getFoundryToml } from '../foundry/options'
-import { decodeDeploymentInfo, makeNetworkConfig } from '../foundry/decode'
 import { SphinxContext } from './context'
-
+import { makeDeploymentBundle, writeDeploymentBundle } from './bundle'
+import { SignerOptions, getSigner } from './signer'
+import { getActionRevertedErrorMessage } from './utils'
+import { getScriptCalls } from './propose'
+import { AdditionalScript } from './types'
+
+/**
+ * @param networks The names of the networks to deploy on. Can also be `['testnets']` or
+ * `['mainnets']`, in which case the networks are read from the user's Sphinx config.
+ * @param resume If true, finishes the most recent deployment that was interrupted instead of
+ * collecting the transactions in the script again. Defaults to false.
+ * @param retries The number of times to retry the deployment on a network if it's interrupted, e.g.
+ * due to a dropped RPC connection. Defaults to zero.
+ * @param previewFormat The format of the preview. Defaults to 'text'. If `skipPreview` is true and
+ * the format isn't 'text', the preview is displayed without asking for confirmation so that it can
+ * be captured in CI logs.
+ * @param outFilePath The path to write a deployment bundle to before the deployment is executed. The
+ * bundle isn't written if this is undefined.
+ * @param gasPriceConfigPath The path to a JSON file that contains the user's gas price strategy for
+ * each network, which overrides the network's default strategy.
+ * @param confirmationTimeout The number of seconds to wait for a transaction to be confirmed before
+ * replacing it with a transaction that has higher fees, up to the `maxFeeCap` in the gas price
+ * config. Transactions are never replaced if this is undefined.
+ * @param maxCost The maximum estimated cost of the deployment on each network, in the network's
+ * native currency, e.g. '0.5' for 0.5 ETH. Only used on live networks.
+ * @param concurrency The maximum number of networks to execute the deployment on at the same time.
+ * Defaults to one, which executes the deployment on each network in order.
+ * @param signerOptions The account that signs the Merkle root and executes the deployment on live
+ * networks. Defaults to the account specified by the `PRIVATE_KEY` environment variable.
+ * @param progressFormat The format of the execution's progress. Defaults to 'text'. If this is
+ * 'json', each progress event is also written to stdout as a line of JSON, and the rest of the
+ * output is written to stderr.
+ * @param additionalScripts Forge scripts that run after the script at `scriptPath`, in order. Their
+ * transactions are included in the same Merkle tree. Each script must use the same Sphinx config as
+ * the script at `scriptPath`.
+ */
 export interface DeployArgs {
   scriptPath: string
-  network: string
+  networks: Array<string>
   skipPreview: boolean
   silent: boolean
   sphinxContext: SphinxContext
   verify: boolean
   targetContract?: string
   sig?: Array<string>
+  resume?: boolean
+  retries?: number
+  previewFormat?: PreviewFormat
+  outFilePath?: string
+  gasPriceConfigPath?: string
+  confirmationTimeout?: number
+  maxCost?: string
+  concurrency?: number
+  progressFormat?: ProgressFormat
+  signerOptions?: SignerOptions
+  additionalScripts?: Array<AdditionalScript>
+}
+
+/**
+ * A deployment that's written to the file system before it's executed so that it can be resumed if
+ * it's interrupted. We need to store the deployment because collecting the transactions in the
+ * script again would result in a different Merkle root after some of the actions have been
+ * executed. The `additionalScriptPaths` field may be undefined for pending deployments that were
+ * written by previous versions of Sphinx.
+ *
+ * The `writtenChainIds` field contains the chain IDs of the networks whose deployment artifacts
+ * were already written because the deployment finished on them while it was interrupted on other
+ * networks. We don't execute the deployment or write the artifacts on these networks again when
+ * it's resumed or recovered, since that would add a duplicate entry to the `history` of each
+ * contract's artifact.
+ */
+export type PendingDeployment = {
+  scriptPath: string
+  additionalScriptPaths?: Array<string>
+  executionMode: ExecutionMode
+  deploymentConfig: DeploymentConfig
+  writtenChainIds?: Array<string>
 }
 
+/**
+ * The number of milliseconds to wait before retrying an interrupted deployment.
+ */
+const RETRY_DELAY_MS = 5_000
+
+export const getPendingDeploymentPath = (cachePath: string): string =>
+  join(cachePath, 'sphinx-pending-deployment.json')
+
+/**
+ * The path to the journal that records the transactions of the pending deployment. The journal is
+ * used to recover the deployment artifacts if the process is killed before they're written.
+ */
+export const getExecutionJournalPath = (cachePath: string): string =>
+  join(cachePath, 'sphinx-execution-journal.jsonl')
+
 export const deploy = async (
   args: DeployArgs
 ): Promise<{
@@ -80,14 +183,24 @@ export const deploy = async (
   deploymentArtifacts?: DeploymentArtifacts
 }> => {
   const {
-    network,
     skipPreview,
     silent,
     sphinxContext,
     verify,
     targetContract,
+    outFilePath,
+    gasPriceConfigPath,
+    confirmationTimeout,
+    maxCost,
   } = args
+  const previewFormat = args.previewFormat ?? 'text'
   const sig = args.sig === undefined ? ['run()'] : args.sig
+  const resume = args.resume ?? false
+  const retries = args.retries ?? 0
+  const concurrency = args.concurrency ?? 1
+  const progressFormat = args.progressFormat ?? 'text'
+  const output = getProgressConsole(progressFormat)
+  const additionalScripts = args.additionalScripts ?? []
 
   const projectRoot = process.cwd()
 
@@ -119,49 +232,21 @@ export const deploy = async (
   const scriptFunctionCalldata = await parseScriptFunctionCalldata(sig)
 
   const spinner = ora({ isSilent: silent })
-  spinner.start(`Collecting transactions...`)
+  spinner.start(`Validating networks...`)
 
   const foundryToml = await getFoundryToml()
-  const {
-    artifactFolder,
-    buildInfoFolder,
-    cachePath,
-    rpcEndpoints,
-    etherscan,
-  } = foundryToml
+  const { artifactFolder, buildInfoFolder, cachePath, etherscan } = foundryToml
 
   await assertValidVersions(scriptPath, targetContract)
 
-  const forkUrl = rpcEndpoints[network]
-  if (!forkUrl) {
-    console.error(
-      red(
-        `No RPC endpoint specified in your foundry.toml for the network: ${network}.`
-      )
-    )
-    process.exit(1)
-  }
-
-  // If the verification flag is specified, then make sure there is an etherscan configuration for the target network
-  if (verify) {
-    if (!etherscan || !etherscan[network]) {
-      console.error(
-        red(
-          `No etherscan configuration detected for ${network}. Please configure it in your foundry.toml file:\n` +
-            `[etherscan]\n` +
-            `${network} = { key = "<your api key>" }`
-        )
-      )
-      process.exit(1)
-    }
-  }
-
-  const provider = new SphinxJsonRpcProvider(forkUrl)
-
-  const [isLiveNetwork, { chainId }] = await Promise.all([
-    sphinxContext.isLiveNetwork(provider),
-    provider.getNetwork(),
-  ])
+  const scriptCalls = await getScriptCalls(
+    projectRoot,
+    { scriptPath, scriptFunctionCalldata, targetContract },
+    additionalScripts
+  )
+  const additionalScriptPaths = scriptCalls
+    .slice(1)
+    .map((scriptCall) => scriptCall.scriptPath)
 
   // We must load any ABIs after compiling the contracts to prevent a situation where the user
   // clears their artifacts then calls this task, in which case the artifact won't exist yet.
@@ -170,308 +255,682 @@ export const deploy = async (
     'SphinxPluginTypes'
   )
 
-  const getConfigArtifacts = sphinxContext.makeGetConfigArtifacts(
-    artifactFolder,
-    buildInfoFolder,
-    projectRoot,
-    cachePath
+  const { safeAddress, testnets, mainnets } = await getSphinxConfigFromScript(
+    scriptPath,
+    sphinxPluginTypesInterface,
+    targetContract,
+    spinner
   )
 
-  const deploymentInfoPath = join(cachePath, 'sphinx-deployment-info.txt')
+  const networks = resolveNetworks(args.networks, testnets, mainnets)
+  const rpcUrls = getRpcUrls(networks, foundryToml.rpcEndpoints)
+  const gasPriceConfig = gasPriceConfigPath
+    ? readGasPriceConfig(gasPriceConfigPath)
+    : {}
 
-  // Remove the existing DeploymentInfo file if it exists. This ensures that we don't accidentally
-  // use a file from a previous deployment.
-  if (existsSync(deploymentInfoPath)) {
-    unlinkSync(deploymentInfoPath)
+  // If the verification flag is specified, then make sure there is an etherscan configuration for
+  // each target network
+  if (verify) {
+    for (const network of networks) {
+      if (!etherscan || !etherscan[network]) {
+        console.error(
+          red(
+            `No etherscan configuration detected for ${network}. Please configure it in your foundry.toml file:\n` +
+              `[etherscan]\n` +
+              `${network} = { key = "<your api key>" }`
+          )
+        )
+        process.exit(1)
+      }
+    }
   }
 
-  const systemContractsFilePath = writeSystemContracts(
-    sphinxPluginTypesInterface,
-    foundryToml.cachePath
+  const providers = rpcUrls.map((rpcUrl) => new SphinxJsonRpcProvider(rpcUrl))
+  const isLiveNetworkArray = await Promise.all(
+    providers.map((provider) => sphinxContext.isLiveNetwork(provider))
   )
 
-  // We fetch the block number ahead of time and store it in the deploymentInfo, so that we can use the
-  // exact same block number during the simulation phase. We have to do this using a call to the provider
-  // instead of using `block.number` within forge b/c some networks have odd changes to what `block.number`
-  // means. For example, on Arbitrum` `block.number` returns the block number on ETH instead of Arbitrum.
-  // This could cause the simulation to use an invalid block number and fail.
-  const blockNumber = await provider.getBlockNumber()
-
-  const executionMode = isLiveNetwork
-    ? ExecutionMode.LiveNetworkCLI
-    : ExecutionMode.LocalNetworkCLI
-  const forgeScriptCollectArgs = [
-    'script',
-    scriptPath,
-    '--sig',
-    'sphinxCollectDeployment(bytes,uint8,string,string)',
-    scriptFunctionCalldata,
-    executionMode.toString(),
-    deploymentInfoPath,
-    systemContractsFilePath,
-    '--rpc-url',
-    forkUrl,
-    '--always-use-create-2-factory',
-  ]
-  if (
-    isLegacyTransactionsRequiredForNetwork(
-      (await provider.getNetwork()).chainId
+  // We use a single execution mode for the entire deployment because the Merkle tree is signed once
+  // by a single signer, which is either the user's signer on live networks or an auto-generated
+  // wallet on local networks.
+  if (!elementsEqual(isLiveNetworkArray)) {
+    const liveNetworks = networks.filter((_, i) => isLiveNetworkArray[i])
+    const localNetworks = networks.filter((_, i) => !isLiveNetworkArray[i])
+    throw new Error(
+      `Cannot deploy on live networks and local networks at the same time.\n` +
+        `Live networks: ${liveNetworks.join(', ')}\n` +
+        `Local networks: ${localNetworks.join(', ')}`
     )
-  ) {
-    forgeScriptCollectArgs.push('--legacy')
   }
-  if (targetContract) {
-    forgeScriptCollectArgs.push('--target-contract', targetContract)
-  }
-
-  // Collect the transactions.
-  const spawnOutput = await spawnAsync('forge', forgeScriptCollectArgs, {
-    // Set the block gas limit to the max amount allowed by Foundry. This overrides lower block
-    // gas limits specified in the user's `foundry.toml`, which can cause the script to run out of
-    // gas. We use the `FOUNDRY_BLOCK_GAS_LIMIT` environment variable because it has a higher
-    // priority than `DAPP_BLOCK_GAS_LIMIT`.
-    FOUNDRY_BLOCK_GAS_LIMIT: MAX_UINT64.toString(),
-    // We specify build info to be false so that calling the script does not cause the users entire
-    // project to be rebuilt if they have `build_info=true` defined in their foundry.toml file.
-    // We do need the build info, but that is generated when we compile at the beginning of the script.
-    FOUNDRY_BUILD_INFO: 'false',
-  })
+  const executionMode = isLiveNetworkArray[0]
+    ? ExecutionMode.LiveNetworkCLI
+    : ExecutionMode.LocalNetworkCLI
 
-  if (spawnOutput.code !== 0) {
-    spinner.stop()
-    // The `stdout` contains the trace of the error.
-    console.log(spawnOutput.stdout)
-    // The `stderr` contains the error message.
-    console.log(spawnOutput.stderr)
-    process.exit(1)
+  let deployer: ethers.Signer
+  if (executionMode === ExecutionMode.LiveNetworkCLI) {
+    deployer = await getSigner(args.signerOptions ?? {}, sphinxContext)
+    // The Forge script uses this address as the deployer when it collects the transactions. It falls
+    // back to the `PRIVATE_KEY` environment variable if this isn't set, which isn't defined if the
+    // user has a remote signer or a keystore.
+    process.env.SPHINX_INTERNAL__DEPLOYER_ADDRESS = await deployer.getAddress()
+  } else {
+    deployer = new ethers.Wallet(getSphinxWalletPrivateKey(0))
   }
 
-  const serializedDeploymentInfo = readFileSync(deploymentInfoPath, 'utf-8')
-  const deploymentInfo = decodeDeploymentInfo(
-    serializedDeploymentInfo,
-    sphinxPluginTypesInterface,
-    blockNumber
-  )
+  spinner.succeed(`Validated networks.`)
 
-  spinner.succeed(`Collected transactions.`)
-  spinner.start(`Building deployment...`)
+  const pendingDeploymentPath = getPendingDeploymentPath(cachePath)
 
-  let signer: ethers.Wallet
-  let inject: InjectRoles
-  let remove: RemoveRoles
-  if (executionMode === ExecutionMode.LiveNetworkCLI) {
-    const privateKey = process.env.PRIVATE_KEY
-    // Check if the private key exists. It should always exist because we checked that it's defined
-    // when we collected the transactions in the user's Forge script.
-    if (!privateKey) {
-      throw new Error(`Could not find 'PRIVATE_KEY' environment variable.`)
-    }
-    signer = new ethers.Wallet(privateKey, provider)
+  let nonEmpty: Array<{ networkConfig: NetworkConfig; rpcUrl: string }>
+  let deploymentConfig: DeploymentConfig
+  let writtenChainIds: Array<string> = []
+  if (resume) {
+    spinner.start(`Loading interrupted deployment...`)
 
-    // We use no role injection when deploying on the live network since that obviously would not work
-    inject = async () => {
-      return
+    if (!existsSync(pendingDeploymentPath)) {
+      throw new Error(
+        `Could not find an interrupted deployment to resume. Please run the command without '--resume'.`
+      )
+    }
+    const pending: PendingDeployment = JSON.parse(
+      readFileSync(pendingDeploymentPath, 'utf-8')
+    )
+    if (pending.scriptPath !== scriptPath) {
+      throw new Error(
+        `The interrupted deployment was collected from a different script: ${pending.scriptPath}`
+      )
     }
-    remove = async () => {
-      return
+    const pendingAdditionalScriptPaths = pending.additionalScriptPaths ?? []
+    if (!arraysEqual(pendingAdditionalScriptPaths, additionalScriptPaths)) {
+      throw new Error(
+        `The interrupted deployment was collected from different additional scripts: ${
+          pendingAdditionalScriptPaths.length > 0
+            ? pendingAdditionalScriptPaths.join(', ')
+            : 'none'
+        }`
+      )
     }
-  } else if (executionMode === ExecutionMode.LocalNetworkCLI) {
-    signer = new ethers.Wallet(getSphinxWalletPrivateKey(0), provider)
-    await fundAccountMaxBalance(signer.address, provider)
-
-    // We use the same role injection as the simulation for local network deployments so that they
-    // work even without the need for keys for all Safe signers
-    inject = injectRoles
-    // We need to remove the injected owners after successfully deploying on a local node
-    remove = removeRoles
+    if (pending.executionMode !== executionMode) {
+      throw new Error(
+        `The interrupted deployment was executed on ${
+          pending.executionMode === ExecutionMode.LiveNetworkCLI
+            ? 'live'
+            : 'local'
+        } networks, but you specified ${
+          executionMode === ExecutionMode.LiveNetworkCLI ? 'live' : 'local'
+        } networks.`
+      )
+    }
+
+    deploymentConfig = pending.deploymentConfig
+    writtenChainIds = pending.writtenChainIds ?? []
+
+    const chainIds = await Promise.all(
+      providers.map(async (provider) =>
+        (await provider.getNetwork()).chainId.toString()
+      )
+    )
+    const missing = deploymentConfig.networkConfigs.filter(
+      ({ chainId }) => !chainIds.includes(chainId)
+    )
+    if (missing.length > 0) {
+      throw new Error(
+        `The interrupted deployment includes networks that you didn't specify. Please specify the\n` +
+          `same networks that you used in the original deployment. Missing chain IDs:\n` +
+          missing.map(({ chainId }) => chainId).join(', ')
+      )
+    }
+
+    nonEmpty = deploymentConfig.networkConfigs.map((networkConfig) => ({
+      networkConfig,
+      rpcUrl: rpcUrls[chainIds.indexOf(networkConfig.chainId)],
+    }))
+
+    spinner.succeed(`Loaded interrupted deployment.`)
   } else {
-    throw new Error(`Unknown execution mode.`)
-  }
+    spinner.start(`Collecting transactions...`)
 
-  const initCodeWithArgsArray = getInitCodeWithArgsArray(
-    deploymentInfo.accountAccesses
-  )
-  const { configArtifacts, buildInfos } = await getConfigArtifacts(
-    initCodeWithArgsArray
-  )
+    const getConfigArtifacts = sphinxContext.makeGetConfigArtifacts(
+      artifactFolder,
+      buildInfoFolder,
+      projectRoot,
+      cachePath
+    )
 
-  assertContractSizeLimitNotExceeded(
-    deploymentInfo.accountAccesses,
-    configArtifacts
-  )
+    const { networkConfigArrayWithRpcUrls, configArtifacts, buildInfos } =
+      await sphinxContext.buildNetworkConfigArray(
+        scriptCalls,
+        safeAddress,
+        rpcUrls,
+        sphinxPluginTypesInterface,
+        foundryToml,
+        projectRoot,
+        getConfigArtifacts,
+        sphinxContext,
+        executionMode,
+        spinner
+      )
 
-  await sphinxContext.assertNoLinkedLibraries(
-    scriptPath,
-    foundryToml.cachePath,
-    foundryToml.artifactFolder,
-    projectRoot,
-    targetContract
-  )
+    if (!networkConfigArrayWithRpcUrls || !configArtifacts || !buildInfos) {
+      spinner.info(`Nothing to deploy. Exiting early.`)
+      return {}
+    }
 
-  const isSystemDeployed = await checkSystemDeployed(provider)
-  const networkConfig = makeNetworkConfig(
-    deploymentInfo,
-    isSystemDeployed,
-    configArtifacts,
-    [] // We don't currently support linked libraries.
-  )
+    // Skip the networks that don't have any actions to execute.
+    nonEmpty = networkConfigArrayWithRpcUrls.filter(
+      ({ networkConfig }) => networkConfig.actionInputs.length > 0
+    )
+    for (const { rpcUrl } of networkConfigArrayWithRpcUrls) {
+      if (!nonEmpty.some((e) => e.rpcUrl === rpcUrl)) {
+        spinner.info(
+          `Nothing to deploy on ${networks[rpcUrls.indexOf(rpcUrl)]}. Skipping.`
+        )
+      }
+    }
+
+    const deploymentData = makeDeploymentData(
+      nonEmpty.map(({ networkConfig }) => networkConfig)
+    )
+
+    deploymentConfig = makeDeploymentConfig(
+      nonEmpty.map(({ networkConfig }) => networkConfig),
+      configArtifacts,
+      buildInfos,
+      makeSphinxMerkleTree(deploymentData)
+    )
 
-  if (networkConfig.actionInputs.length === 0) {
-    spinner.info(`Nothing to deploy. Exiting early.`)
-    return {}
+    spinner.succeed(`Built deployment.`)
   }
 
-  const deploymentData = makeDeploymentData([networkConfig])
+  const networkConfigArray = nonEmpty.map(({ networkConfig }) => networkConfig)
+  const { merkleTree } = deploymentConfig
 
-  const merkleTree = makeSphinxMerkleTree(deploymentData)
+  // Starting a new deployment overwrites the pending deployment and its execution journal, which are
+  // the only records of an interrupted deployment. We refuse to start if there's an interrupted
+  // deployment with a different Merkle root so that it isn't lost.
+  if (!resume && existsSync(pendingDeploymentPath)) {
+    const pending: PendingDeployment = JSON.parse(
+      readFileSync(pendingDeploymentPath, 'utf-8')
+    )
+    const pendingMerkleRoot = pending.deploymentConfig.merkleTree.root
+    if (pendingMerkleRoot !== merkleTree.root) {
+      spinner.stop()
+      throw new Error(
+        `Detected an interrupted deployment with a different Merkle root: ${pendingMerkleRoot}\n` +
+          `Please finish it by running the same command with '--resume'. If you want to abandon it\n` +
+          `instead, delete the following file and run this command again:\n` +
+          pendingDeploymentPath
+      )
+    }
+  }
 
-  const deploymentConfig = makeDeploymentConfig(
-    [networkConfig],
-    configArtifacts,
-    buildInfos,
-    merkleTree
-  )
+  // We check that the deployer can afford the deployment on every network before executing it so
+  // that the deployment doesn't run out of funds midway. This isn't necessary on local networks
+  // because the deployer is funded automatically.
+  let costEstimates: Array<NetworkCostEstimate> | undefined
+  if (executionMode === ExecutionMode.LiveNetworkCLI) {
+    spinner.start(`Estimating deployment cost...`)
+    const executorAddress = await deployer.getAddress()
+    costEstimates = await Promise.all(
+      nonEmpty.map(({ networkConfig, rpcUrl }) =>
+        estimateNetworkCost(
+          networkConfig,
+          merkleTree,
+          new SphinxJsonRpcProvider(rpcUrl),
+          executorAddress,
+          gasPriceConfig[networks[rpcUrls.indexOf(rpcUrl)]]
+        )
+      )
+    )
+    assertDeploymentCostWithinBudget(
+      costEstimates,
+      maxCost !== undefined ? ethers.parseEther(maxCost) : undefined
+    )
+    spinner.succeed(`Estimated deployment cost.`)
+  }
 
-  spinner.succeed(`Built deployment.`)
+  const makePreview = (): SphinxPreview => ({
+    ...getPreview(networkConfigArray, merkleTree.root),
+    costEstimates,
+  })
 
   let preview: SphinxPreview | undefined
   if (skipPreview) {
-    spinner.info(`Skipping preview.`)
+    if (previewFormat !== 'text' && !silent) {
+      preview = makePreview()
+      spinner.stop()
+      output.log(getFormattedPreviewString(preview, previewFormat, false))
+    } else {
+      spinner.info(`Skipping preview.`)
+    }
+  } else if (progressFormat === 'json') {
+    // The prompt is always written to stdout, so we display the preview separately and only prompt
+    // with the question.
+    preview = makePreview()
+    spinner.stop()
+    output.log(getFormattedPreviewString(preview, previewFormat, false))
+    await sphinxContext.prompt(`Confirm? [y/n]`)
   } else {
-    preview = getPreview([networkConfig], merkleTree.root)
+    preview = makePreview()
     spinner.stop()
-    const previewString = getPreviewString(preview, true)
+    const previewString = getFormattedPreviewString(
+      preview,
+      previewFormat,
+      true
+    )
     await sphinxContext.prompt(previewString)
   }
 
+  if (outFilePath) {
+    writeDeploymentBundle(
+      outFilePath,
+      makeDeploymentBundle(deploymentConfig, preview ?? makePreview())
+    )
+    spinner.succeed(`Wrote deployment bundle: ${outFilePath}`)
+  }
+
+  // The Merkle root is signed once and the same signature is used on every chain.
   const treeSigner = {
-    signer: signer.address,
-    signature: await signMerkleRoot(merkleTree.root, signer),
+    signer: await deployer.getAddress(),
+    signature: await signMerkleRoot(merkleTree.root, deployer),
   }
-  const deployment: Deployment = {
-    id: 'only required on website',
-    multichainDeploymentId: 'only required on website',
-    projectId: 'only required on website',
-    chainId: networkConfig.chainId,
-    status: 'approved',
-    moduleAddress: networkConfig.moduleAddress,
-    safeAddress: networkConfig.safeAddress,
+
+  // Store the deployment before executing it so that it can be resumed if it's interrupted.
+  const pendingDeployment: PendingDeployment = {
+    scriptPath,
+    additionalScriptPaths,
+    executionMode,
     deploymentConfig,
-    networkName: fetchNameForNetwork(BigInt(networkConfig.chainId)),
-    treeSigners: [treeSigner],
+    writtenChainIds,
   }
-  const deploymentContext: DeploymentContext = {
-    throwError: (message: string) => {
-      throw new Error(message)
-    },
-    handleError: (e) => {
-      throw e
-    },
-    handleAlreadyExecutedDeployment: () => {
-      throw new Error(
-        'Deployment has already been executed. This is a bug. Please report it to the developers.'
-      )
-    },
-    handleExecutionFailure: (
-      _deploymentContext: DeploymentContext,
-      _networkConfig: NetworkConfig,
-      failureReason: HumanReadableAction
-    ) => {
-      throw new Error(
-        `The following action reverted during the execution:\n${failureReason.reason}`
-      )
-    },
-    handleSuccess: async () => {
-      return
-    },
-    executeTransaction: executeTransactionViaSigner,
-    injectRoles: inject,
-    removeRoles: remove,
-    deployment,
-    wallet: signer,
-    provider,
-    spinner,
-  }
-  const result = await attemptDeployment(deploymentContext)
+  writeFileSync(
+    pendingDeploymentPath,
+    JSON.stringify(pendingDeployment, null, 2)
+  )
+  // Record the transactions of the deployment so that its artifacts can be recovered if the process
+  // is killed before they're written. If we're resuming the deployment, we keep the entries from the
+  // previous attempts.
+  const executionJournalPath = getExecutionJournalPath(cachePath)
+  startExecutionJournal(executionJournalPath, merkleTree.root)
+
+  const isConcurrent = concurrency > 1 && nonEmpty.length > 1
+  const events = makeProgressEventEmitter(progressFormat)
+  events.onAny(makeExecutionJournalListener(executionJournalPath))
+  const deploymentContexts: Array<DeploymentContext> = []
+  const networkProviders: Array<SphinxJsonRpcProvider> = []
+  // Whether the deployment on each network may have been partially or fully executed before the
+  // current attempt. This is true if we're resuming an interrupted deployment or retrying it.
+  const isRetry: Array<boolean> = []
+  const isExecutionFailure: Array<boolean> = []
+  const failureActions: Array<HumanReadableAction | undefined> = []
+  for (const { networkConfig, rpcUrl } of nonEmpty) {
+    // The deployment is already finished on the networks whose artifacts were written when it was
+    // interrupted, so we don't execute it on them again.
+    if (writtenChainIds.includes(networkConfig.chainId)) {
+      continue
+    }
 
-  if (!result) {
-    throw new Error(
-      'Simulation failed for an unexpected reason. This is a bug. Please report it to the developers.'
+    const provider = new SphinxJsonRpcProvider(rpcUrl)
+    const signer = new SphinxNonceManager(deployer.connect(provider))
+
+    let inject: InjectRoles
+    let remove: RemoveRoles
+    if (executionMode === ExecutionMode.LiveNetworkCLI) {
+      // We use no role injection when deploying on the live network since that obviously would not work
+      inject = async () => {
+        return
+      }
+      remove = async () => {
+        return
+      }
+    } else {
+      await fundAccountMaxBalance(treeSigner.signer, provider)
+
+      // We use the same role injection as the simulation for local network deployments so that they
+      // work even without the need for keys for all Safe signers
+      inject = injectRoles
+      // We need to remove the injected owners after successfully deploying on a local node
+      remove = removeRoles
+    }
+
+    const index = deploymentContexts.length
+    networkProviders.push(provider)
+    const networkName = fetchNameForNetwork(BigInt(networkConfig.chainId))
+    const networkSpinner = makeNetworkSpinner(
+      spinner,
+      networkName,
+      isConcurrent,
+      silent
     )
+    const deployment: Deployment = {
+      id: 'only required on website',
+      multichainDeploymentId: 'only required on website',
+      projectId: 'only required on website',
+      chainId: networkConfig.chainId,
+      status: 'approved',
+      moduleAddress: networkConfig.moduleAddress,
+      safeAddress: networkConfig.safeAddress,
+      deploymentConfig,
+      networkName,
+      treeSigners: [treeSigner],
+    }
+    isRetry.push(resume)
+    isExecutionFailure.push(false)
+    deploymentContexts.push({
+      throwError: (message: string) => {
+        throw new Error(message)
+      },
+      handleError: (e) => {
+        throw e
+      },
+      handleAlreadyExecutedDeployment: async () => {
+        if (!isRetry[index]) {
+          throw new Error(
+            'Deployment has already been executed. This is a bug. Please report it to the developers.'
+          )
+        }
+        networkSpinner.succeed(
+          `Deployment on ${deployment.networkName} was already executed.`
+        )
+      },
+      handleExecutionFailure: (
+        _deploymentContext: DeploymentContext,
+        _networkConfig: NetworkConfig,
+        failureReason: HumanReadableAction
+      ) => {
+        isExecutionFailure[index] = true
+        failureActions[index] = failureReason
+        throw new Error(
+          getActionRevertedErrorMessage(deployment.networkName, failureReason)
+        )
+      },
+      handleSuccess: async () => {
+        return
+      },
+      executeTransaction: executeTransactionViaSigner,
+      injectRoles: inject,
+      removeRoles: remove,
+      deployment,
+      wallet: signer,
+      provider,
+      spinner: networkSpinner,
+      events,
+      gasPriceStrategy: gasPriceConfig[networks[rpcUrls.indexOf(rpcUrl)]],
+      confirmationTimeout:
+        confirmationTimeout !== undefined
+          ? confirmationTimeout * 1000
+          : undefined,
+    })
   }
 
-  const { receipts } = result
+  const results = await attemptDeploymentsInParallel(
+    deploymentContexts,
+    concurrency,
+    async (deploymentContext, index) => {
+      const { deployment, provider } = deploymentContext
+      const networkSpinner = deploymentContext.spinner
+
+      let receipts: Array<SphinxTransactionReceipt> = []
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await attemptDeployment(deploymentContext)
+          if (!result && !isRetry[index]) {
+            throw new Error(
+              'Simulation failed for an unexpected reason. This is a bug. Please report it to the developers.'
+            )
+          }
+          receipts = result ? result.receipts : []
+          break
+        } catch (e: any) {
+          // We don't retry deployments that failed because an action reverted on-chain, since
+          // retrying them would fail in the same way.
+          if (isExecutionFailure[index] || attempt >= retries) {
+            networkSpinner?.fail(
+              `Deployment on ${deployment.networkName} was interrupted.`
+            )
+            throw e
+          }
+
+          networkSpinner?.warn(
+            `Deployment on ${deployment.networkName} was interrupted: ${
+              e.message
+            }\nRetrying (${attempt + 1}/${retries})...`
+          )
+          isRetry[index] = true
+          await sleep(RETRY_DELAY_MS)
+        }
+      }
+
+      // If the deployment was partially executed in a previous attempt, the receipts from that
+      // attempt aren't returned by `attemptDeployment`, so we fetch them from the execution journal
+      // and the Sphinx Module's events. We only query the module's events in the most recent
+      // blocks, so the journal is necessary if the previous attempt was a while ago.
+      if (isRetry[index]) {
+        const hashes = receipts.map((r) => r.hash)
+        const fetched = [
+          ...(await fetchReceiptsFromExecutionJournal(
+            readExecutionJournal(executionJournalPath),
+            deployment.chainId,
+            deployment.moduleAddress,
+            provider
+          )),
+          ...(await fetchExecutionTransactionReceipts(
+            [],
+            deployment.moduleAddress,
+            merkleTree.root,
+            provider
+          )),
+        ]
+        for (const receipt of fetched) {
+          if (!hashes.includes(receipt.hash)) {
+            hashes.push(receipt.hash)
+            receipts.push(convertEthersTransactionReceipt(receipt))
+          }
+        }
+      }
+
+      return receipts
+    }
+  )
 
-  spinner.start(`Building deployment artifacts...`)
+  if (isConcurrent || results.some(({ error }) => error)) {
+    spinner.stop()
+    output.log(getMultichainDeploymentSummary(results))
+  }
 
-  const { projectName } = networkConfig.newConfig
+  const { projectName } = networkConfigArray[0].newConfig
+
+  // Builds the deployment artifacts for the given deployments and writes them to the file system
+  // along with the existing artifacts on the networks with the given chain IDs.
+  const writeArtifacts = async (
+    networkDeployments: Parameters<typeof makeDeploymentArtifacts>[0],
+    chainIds: Array<string>
+  ): Promise<DeploymentArtifacts> => {
+    spinner.start(`Building deployment artifacts...`)
+
+    // Get the existing contract deployment artifacts and execution artifacts for each network. This
+    // object will potentially be modified when we make the new deployment artifacts. Specifically,
+    // the `history` field of the contract deployment artifacts could be modified. Even though we
+    // don't currently modify the execution artifacts, we include them anyways in case we add logic
+    // in the future that modifies them. We don't include the compiler input artifacts mainly as a
+    // performance optimization and because we don't expect to modify them in the future.
+    const artifacts: DeploymentArtifacts = {
+      networks: {},
+      compilerInputs: {},
+    }
+    for (const chainId of chainIds) {
+      artifacts.networks[chainId] = readDeploymentArtifactsForNetwork(
+        projectName,
+        BigInt(chainId),
+        executionMode
+      )
+    }
 
-  // Get the existing contract deployment artifacts and execution artifacts for the current network.
-  // This object will potentially be modified when we make the new deployment artifacts.
-  // Specifically, the `history` field of the contract deployment artifacts could be modified. Even
-  // though we don't currently modify the execution artifacts, we include them anyways in case we
-  // add logic in the future that modifies them. We don't include the compiler input artifacts
-  // mainly as a performance optimization and because we don't expect to modify them in the future.
-  const networkArtifacts = readDeploymentArtifactsForNetwork(
-    projectName,
-    chainId,
-    executionMode
-  )
-  const deploymentArtifacts = {
-    networks: {
-      [chainId.toString()]: networkArtifacts,
-    },
-    compilerInputs: {},
+    await makeDeploymentArtifacts(
+      networkDeployments,
+      merkleTree.root,
+      deploymentConfig.configArtifacts,
+      artifacts
+    )
+
+    spinner.succeed(`Built deployment artifacts.`)
+    spinner.start(`Writing deployment artifacts...`)
+
+    writeDeploymentArtifacts(projectName, executionMode, artifacts)
+
+    // Note that we don't display the artifact paths for the deployment artifacts because we may not
+    // modify all of the artifacts that we read from the file system earlier.
+    spinner.succeed(`Wrote deployment artifacts.`)
+
+    return artifacts
   }
 
-  await makeDeploymentArtifacts(
-    {
-      [chainId.toString()]: {
-        provider,
-        deploymentConfig,
-        receipts,
-      },
-    },
-    merkleTree.root,
-    configArtifacts,
-    deploymentArtifacts
-  )
+  const failed = results.filter(({ error }) => error)
+  if (failed.length > 0) {
+    // Write the artifacts for the networks where the deployment is finished, i.e. it was completed,
+    // an action reverted on-chain, or it was canceled. This records the contracts that were
+    // deployed on the completed networks, and the failed action and its revert reason in the
+    // execution artifact of the failed networks. These networks don't need to be resumed, so
+    // their artifacts won't be written later.
+    const isFinished = results.map(
+      ({ error, status }, i) =>
+        !error ||
+        isExecutionFailure[i] ||
+        status === MerkleRootStatus.FAILED ||
+        status === MerkleRootStatus.CANCELED
+    )
 
-  spinner.succeed(`Built deployment artifacts.`)
-  spinner.start(`Writing deployment artifacts...`)
+    // We don't let an error here hide the error that caused the deployment to fail.
+    try {
+      const finishedDeployments: Parameters<typeof makeDeploymentArtifacts>[0] =
+        {}
+      for (let i = 0; i < results.length; i++) {
+        const { deploymentContext, error, result } = results[i]
+        const { deployment, provider } = deploymentContext
+        if (!isFinished[i]) {
+          continue
+        }
+        const receipts = error
+          ? (
+              await fetchExecutionTransactionReceipts(
+                [],
+                deployment.moduleAddress,
+                merkleTree.root,
+                provider
+              )
+            ).map(convertEthersTransactionReceipt)
+          : result ?? []
+        finishedDeployments[deployment.chainId] = {
+          provider: networkProviders[i],
+          deploymentConfig,
+          receipts,
+          failureAction: failureActions[i],
+        }
+      }
+      const finishedChainIds = Object.keys(finishedDeployments)
+      if (finishedChainIds.length > 0) {
+        await writeArtifacts(finishedDeployments, finishedChainIds)
+        writtenChainIds.push(...finishedChainIds)
+        writeFileSync(
+          pendingDeploymentPath,
+          JSON.stringify(pendingDeployment, null, 2)
+        )
+      }
+    } catch (e) {
+      spinner.fail(`Failed to write the deployment artifacts: ${e.message}`)
+    }
 
-  writeDeploymentArtifacts(
-    projectName,
-    networkConfig.executionMode,
-    deploymentArtifacts
+    const resumable = results
+      .filter((_, i) => !isFinished[i])
+      .map(({ deploymentContext }) => deploymentContext.deployment.networkName)
+    if (resumable.length > 0) {
+      console.error(
+        red(
+          `Deployment was interrupted on: ${resumable.join(', ')}\n` +
+            `To finish it, run the same command with '--resume'.`
+        )
+      )
+    } else if (
+      results.every(({ deploymentContext }) =>
+        writtenChainIds.includes(deploymentContext.deployment.chainId)
+      )
+    ) {
+      // The deployment can't be resumed on any network and its artifacts have been written, so we
+      // remove it. Otherwise, it'd prevent the user from starting a new deployment.
+      unlinkSync(pendingDeploymentPath)
+      unlinkSync(executionJournalPath)
+    }
+
+    // Throw the original error if there's only one network that failed so that its stack trace is
+    // preserved.
+    if (failed.length === 1) {
+      throw failed[0].error
+    }
+    throw new Error(
+      `Deployment failed on: ${failed
+        .map(
+          ({ deploymentContext }) => deploymentContext.deployment.networkName
+        )
+        .join(', ')}`
+    )
+  }
+
+  const deployments: Parameters<typeof makeDeploymentArtifacts>[0] = {}
+  for (let i = 0; i < results.length; i++) {
+    const { deploymentContext, result } = results[i]
+    deployments[deploymentContext.deployment.chainId] = {
+      provider: networkProviders[i],
+      deploymentConfig,
+      receipts: result ?? [],
+    }
+  }
+
+  const deploymentArtifacts = await writeArtifacts(
+    deployments,
+    networkConfigArray.map(({ chainId }) => chainId)
   )
 
-  // Note that we don't display the artifact paths for the deployment artifacts because we may not
-  // modify all of the artifacts that we read from the file system earlier.
-  spinner.succeed(`Wrote deployment artifacts.`)
+  // The deployment has been executed on every network and its artifacts have been written, so it no
+  // longer needs to be resumed or recovered.
+  unlinkSync(pendingDeploymentPath)
+  unlinkSync(executionJournalPath)
 
   if (!silent) {
-    displayDeploymentTable(networkConfig)
+    for (const networkConfig of networkConfigArray) {
+      displayDeploymentTable(networkConfig, output)
+    }
   }
 
-  if (networkConfig.executionMode === ExecutionMode.LiveNetworkCLI && verify) {
+  if (executionMode === ExecutionMode.LiveNetworkCLI && verify) {
     spinner.info(`Verifying contracts on Etherscan.`)
 
-    const etherscanApiKey = etherscan[network].key
+    for (const { rpcUrl } of nonEmpty) {
+      const network = networks[rpcUrls.indexOf(rpcUrl)]
+      const etherscanApiKey = etherscan[network].key
 
-    await verifyDeploymentWithRetries(
-      deploymentConfig,
-      provider,
-      etherscanApiKey
-    )
+      await verifyDeploymentWithRetries(
+        deploymentConfig,
+        new SphinxJsonRpcProvider(rpcUrl),
+        etherscanApiKey,
+        output
+      )
+    }
   }
 
   return {
     deploymentConfig,
     merkleTree,
     preview,
-    receipts,
-    configArtifacts,
+    // The deployment isn't executed on the networks whose artifacts were written before it was
+    // resumed, so we read their receipts from their execution artifacts.
+    receipts: networkConfigArray.flatMap(({ chainId }) =>
+      deployments[chainId]
+        ? deployments[chainId].receipts
+        : deploymentArtifacts.networks[chainId]?.executionArtifacts[
+            `${remove0x(merkleTree.root)}.json`
+          ]?.transactions.map(({ receipt }) => receipt) ?? []
+    ),
+    configArtifacts: deploymentConfig.configArtifacts,
     deploymentArtifacts,
   }
 }
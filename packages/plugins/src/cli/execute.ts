@@ -0,0 +1,500 @@
+import {
+  Deployment,
+  DeploymentArtifacts,
+  DeploymentContext,
+  ExecutionMode,
+  HumanReadableAction,
+  MerkleRootStatus,
+  NetworkConfig,
+  NetworkCostEstimate,
+  SphinxJsonRpcProvider,
+  SphinxNonceManager,
+  SphinxTransactionReceipt,
+  TreeSigner,
+  assertDeploymentCostWithinBudget,
+  attemptDeployment,
+  attemptDeploymentsInParallel,
+  displayDeploymentTable,
+  estimateNetworkCost,
+  executeTransactionViaSigner,
+  fetchMerkleRootState,
+  fetchNameForNetwork,
+  getMultichainDeploymentSummary,
+  getPreview,
+  getPreviewString,
+  makeNetworkSpinner,
+  makeDeploymentArtifacts,
+  makeProgressEventEmitter,
+  getProgressConsole,
+  ProgressFormat,
+  readDeploymentArtifactsForNetwork,
+  readGasPriceConfig,
+  sortSigners,
+  writeDeploymentArtifacts,
+} from '@sphinx-labs/core'
+import { GnosisSafeArtifact, remove0x } from '@sphinx-labs/contracts'
+import ora from 'ora'
+import { ethers } from 'ethers'
+
+import { getFoundryToml } from '../foundry/options'
+import { getRpcUrls } from '../foundry/utils'
+import { SphinxContext } from './context'
+import { readDeploymentBundle } from './bundle'
+import { readSignatureFile } from './sign'
+import { getBundleTreeString } from './tree'
+import { SignerOptions, getSigner } from './signer'
+import { getActionRevertedErrorMessage } from './utils'
+
+/**
+ * @param bundlePath The path to the deployment bundle to execute.
+ * @param signaturePaths The paths to the signature files written by `sphinx sign`.
+ * @param confirm If true, the deployment will be executed without asking for confirmation.
+ * @param gasPriceConfigPath The path to a JSON file that contains the user's gas price strategy for
+ * each network, which overrides the network's default strategy.
+ * @param confirmationTimeout The number of seconds to wait for a transaction to be confirmed before
+ * replacing it with a transaction that has higher fees, up to the `maxFeeCap` in the gas price
+ * config. Transactions are never replaced if this is undefined.
+ * @param maxCost The maximum estimated cost of the deployment on each network, in the network's
+ * native currency, e.g. '0.5' for 0.5 ETH.
+ * @param concurrency The maximum number of networks to execute the deployment on at the same time.
+ * Defaults to one.
+ * @param signerOptions The account that sends the transactions. Defaults to the account specified by
+ * the `PRIVATE_KEY` environment variable.
+ * @param progressFormat The format of the execution's progress. Defaults to 'text'. If this is
+ * 'json', each progress event is also written to stdout as a line of JSON, and the rest of the
+ * output is written to stderr.
+ */
+export interface ExecuteArgs {
+  bundlePath: string
+  signaturePaths: Array<string>
+  confirm: boolean
+  silent: boolean
+  sphinxContext: SphinxContext
+  gasPriceConfigPath?: string
+  confirmationTimeout?: number
+  maxCost?: string
+  concurrency?: number
+  progressFormat?: ProgressFormat
+  signerOptions?: SignerOptions
+}
+
+/**
+ * Executes a deployment bundle on every network in the bundle using the signatures collected with
+ * `sphinx sign`. The transactions are sent by the account specified by the signer options, which
+ * doesn't need to be an owner of the Gnosis Safe.
+ */
+export const execute = async (
+  args: ExecuteArgs
+): Promise<{
+  receipts: Array<SphinxTransactionReceipt>
+  deploymentArtifacts: DeploymentArtifacts
+}> => {
+  const {
+    bundlePath,
+    signaturePaths,
+    confirm,
+    silent,
+    sphinxContext,
+    gasPriceConfigPath,
+    confirmationTimeout,
+    maxCost,
+  } = args
+  const concurrency = args.concurrency ?? 1
+  const progressFormat = args.progressFormat ?? 'text'
+  const output = getProgressConsole(progressFormat)
+
+  const executor = await getSigner(args.signerOptions ?? {}, sphinxContext)
+
+  const { deploymentConfig, merkleTree } = readDeploymentBundle(bundlePath)
+  // Skip the networks that don't have any actions to execute.
+  const bundleNetworkConfigs = deploymentConfig.networkConfigs.filter(
+    ({ actionInputs }) => actionInputs.length > 0
+  )
+  const { projectName } = bundleNetworkConfigs[0].newConfig
+
+  // Remove duplicate signatures, which could otherwise cause the Gnosis Safe to reject the
+  // signatures even if there are enough of them.
+  const treeSigners: Array<TreeSigner> = []
+  for (const signaturePath of signaturePaths) {
+    const { signer, signature } = readSignatureFile(
+      signaturePath,
+      merkleTree.root
+    )
+    if (
+      !treeSigners.some((s) => s.signer.toLowerCase() === signer.toLowerCase())
+    ) {
+      treeSigners.push({ signer, signature })
+    }
+  }
+  // The Gnosis Safe requires that the signatures are sorted by the signer's address.
+  sortSigners(treeSigners)
+
+  const spinner = ora({ isSilent: silent })
+  spinner.start(`Validating networks...`)
+
+  const foundryToml = await getFoundryToml()
+  const bundleNetworkNames = bundleNetworkConfigs.map(({ chainId }) =>
+    fetchNameForNetwork(BigInt(chainId))
+  )
+  const rpcUrls = getRpcUrls(bundleNetworkNames, foundryToml.rpcEndpoints)
+  const gasPriceConfig = gasPriceConfigPath
+    ? readGasPriceConfig(gasPriceConfigPath)
+    : {}
+
+  const bundleProviders = rpcUrls.map(
+    (rpcUrl) => new SphinxJsonRpcProvider(rpcUrl)
+  )
+  const isCompleted: Array<boolean> = []
+  for (let i = 0; i < bundleNetworkConfigs.length; i++) {
+    const { chainId } = await bundleProviders[i].getNetwork()
+    if (chainId.toString() !== bundleNetworkConfigs[i].chainId) {
+      throw new Error(
+        `The RPC URL for ${bundleNetworkNames[i]} has chain ID ${chainId}, but the deployment bundle\n` +
+          `expects chain ID ${bundleNetworkConfigs[i].chainId}.`
+      )
+    }
+
+    const state = await fetchMerkleRootState(
+      bundleNetworkConfigs[i].moduleAddress,
+      merkleTree.root,
+      bundleProviders[i]
+    )
+    isCompleted.push(
+      state?.merkleRootState.status === MerkleRootStatus.COMPLETED
+    )
+  }
+
+  // Skip the networks where the bundle was already executed. This happens if the command is run
+  // again after it failed on some of the networks. The artifacts on these networks were written by
+  // the previous run.
+  const isPending = (_: unknown, i: number) => !isCompleted[i]
+  const networkConfigs = bundleNetworkConfigs.filter(isPending)
+  const networkNames = bundleNetworkNames.filter(isPending)
+  const providers = bundleProviders.filter(isPending)
+
+  const ownerTreeSigners: Array<Array<TreeSigner>> = []
+  for (let i = 0; i < networkConfigs.length; i++) {
+    ownerTreeSigners.push(
+      await getOwnerTreeSigners(networkConfigs[i], treeSigners, providers[i])
+    )
+  }
+
+  spinner.succeed(`Validated networks.`)
+
+  // Reads the receipts on a network where the bundle was already executed from its execution
+  // artifact.
+  const readCompletedReceipts = (
+    chainId: string
+  ): Array<SphinxTransactionReceipt> =>
+    readDeploymentArtifactsForNetwork(
+      projectName,
+      BigInt(chainId),
+      ExecutionMode.LiveNetworkCLI
+    ).executionArtifacts[`${remove0x(merkleTree.root)}.json`]?.transactions.map(
+      ({ receipt }) => receipt
+    ) ?? []
+
+  for (let i = 0; i < bundleNetworkConfigs.length; i++) {
+    if (isCompleted[i]) {
+      spinner.info(
+        `The deployment bundle was already executed on ${bundleNetworkNames[i]}.`
+      )
+    }
+  }
+  if (networkConfigs.length === 0) {
+    const artifacts: DeploymentArtifacts = {
+      networks: {},
+      compilerInputs: {},
+    }
+    for (const { chainId } of bundleNetworkConfigs) {
+      artifacts.networks[chainId] = readDeploymentArtifactsForNetwork(
+        projectName,
+        BigInt(chainId),
+        ExecutionMode.LiveNetworkCLI
+      )
+    }
+    return {
+      receipts: bundleNetworkConfigs.flatMap(({ chainId }) =>
+        readCompletedReceipts(chainId)
+      ),
+      deploymentArtifacts: artifacts,
+    }
+  }
+
+  // Check that the executor can afford the deployment on every network so that it doesn't run out
+  // of funds midway.
+  spinner.start(`Estimating deployment cost...`)
+  const executorAddress = await executor.getAddress()
+  const costEstimates: Array<NetworkCostEstimate> = await Promise.all(
+    networkConfigs.map((networkConfig, i) =>
+      estimateNetworkCost(
+        networkConfig,
+        merkleTree,
+        providers[i],
+        executorAddress,
+        gasPriceConfig[networkNames[i]]
+      )
+    )
+  )
+  assertDeploymentCostWithinBudget(
+    costEstimates,
+    maxCost !== undefined ? ethers.parseEther(maxCost) : undefined
+  )
+  spinner.succeed(`Estimated deployment cost.`)
+
+  const preview = {
+    ...getPreview(networkConfigs, merkleTree.root),
+    costEstimates,
+  }
+  const previewString =
+    getPreviewString(preview, false) +
+    getBundleTreeString(merkleTree, deploymentConfig.configArtifacts)
+  if (confirm) {
+    if (!silent) {
+      output.log(previewString)
+    }
+  } else if (progressFormat === 'json') {
+    // The prompt is always written to stdout, so we display the preview separately and only prompt
+    // with the question.
+    output.log(previewString)
+    await sphinxContext.prompt(`Confirm? [y/n]`)
+  } else {
+    await sphinxContext.prompt(`${previewString}Confirm? [y/n]`)
+  }
+
+  const isConcurrent = concurrency > 1 && networkConfigs.length > 1
+  const events = makeProgressEventEmitter(progressFormat)
+  const deploymentContexts: Array<DeploymentContext> = []
+  for (let i = 0; i < networkConfigs.length; i++) {
+    const networkConfig = networkConfigs[i]
+    const provider = providers[i]
+    const signer = new SphinxNonceManager(executor.connect(provider))
+
+    const deployment: Deployment = {
+      id: 'only required on website',
+      multichainDeploymentId: 'only required on website',
+      projectId: 'only required on website',
+      chainId: networkConfig.chainId,
+      status: 'approved',
+      moduleAddress: networkConfig.moduleAddress,
+      safeAddress: networkConfig.safeAddress,
+      deploymentConfig,
+      networkName: networkNames[i],
+      treeSigners: ownerTreeSigners[i],
+    }
+    deploymentContexts.push({
+      throwError: (message: string) => {
+        throw new Error(message)
+      },
+      handleError: (e) => {
+        throw e
+      },
+      handleAlreadyExecutedDeployment: async () => {
+        throw new Error(
+          `The deployment bundle has already been executed on ${deployment.networkName}.`
+        )
+      },
+      handleExecutionFailure: (
+        _deploymentContext: DeploymentContext,
+        _networkConfig: NetworkConfig,
+        failureReason: HumanReadableAction
+      ) => {
+        throw new Error(
+          getActionRevertedErrorMessage(deployment.networkName, failureReason)
+        )
+      },
+      handleSuccess: async () => {
+        return
+      },
+      // The bundle's Merkle tree was collected in the same manner as a proposal, so its transactions
+      // are relayed through the `PermissionlessRelay`. We send them from the user's account using
+      // the same gas settings as any other deployment on a live network.
+      executeTransaction: (context, transaction) =>
+        executeTransactionViaSigner(
+          context,
+          transaction,
+          ExecutionMode.LiveNetworkCLI
+        ),
+      // We can't inject roles on a live network. The owner signatures are used instead.
+      injectRoles: async () => {
+        return
+      },
+      removeRoles: async () => {
+        return
+      },
+      deployment,
+      wallet: signer,
+      provider,
+      spinner: makeNetworkSpinner(
+        spinner,
+        networkNames[i],
+        isConcurrent,
+        silent
+      ),
+      events,
+      gasPriceStrategy: gasPriceConfig[networkNames[i]],
+      confirmationTimeout:
+        confirmationTimeout !== undefined
+          ? confirmationTimeout * 1000
+          : undefined,
+    })
+  }
+
+  const results = await attemptDeploymentsInParallel(
+    deploymentContexts,
+    concurrency,
+    async (deploymentContext) => {
+      const result = await attemptDeployment(deploymentContext)
+      if (!result) {
+        throw new Error(
+          'Simulation failed for an unexpected reason. This is a bug. Please report it to the developers.'
+        )
+      }
+      return result.receipts
+    }
+  )
+
+  if (isConcurrent || results.some(({ error }) => error)) {
+    spinner.stop()
+    output.log(getMultichainDeploymentSummary(results))
+  }
+
+  // Builds the deployment artifacts for the given deployments and writes them to the file system
+  // along with the existing artifacts on the same networks.
+  const writeArtifacts = async (
+    networkDeployments: Parameters<typeof makeDeploymentArtifacts>[0]
+  ): Promise<DeploymentArtifacts> => {
+    spinner.start(`Building deployment artifacts...`)
+
+    const artifacts: DeploymentArtifacts = {
+      networks: {},
+      compilerInputs: {},
+    }
+    for (const chainId of Object.keys(networkDeployments)) {
+      artifacts.networks[chainId] = readDeploymentArtifactsForNetwork(
+        projectName,
+        BigInt(chainId),
+        ExecutionMode.LiveNetworkCLI
+      )
+    }
+
+    await makeDeploymentArtifacts(
+      networkDeployments,
+      merkleTree.root,
+      deploymentConfig.configArtifacts,
+      artifacts
+    )
+
+    spinner.succeed(`Built deployment artifacts.`)
+    spinner.start(`Writing deployment artifacts...`)
+
+    writeDeploymentArtifacts(
+      projectName,
+      ExecutionMode.LiveNetworkCLI,
+      artifacts
+    )
+
+    spinner.succeed(`Wrote deployment artifacts.`)
+
+    return artifacts
+  }
+
+  const deployments: Parameters<typeof makeDeploymentArtifacts>[0] = {}
+  for (let i = 0; i < results.length; i++) {
+    if (results[i].error) {
+      continue
+    }
+    deployments[networkConfigs[i].chainId] = {
+      provider: providers[i],
+      deploymentConfig,
+      receipts: results[i].result ?? [],
+    }
+  }
+
+  const failed = results.filter(({ error }) => error)
+  if (failed.length > 0) {
+    // Write the artifacts for the networks where the bundle was executed so that they aren't lost.
+    // We don't let an error here hide the error that caused the execution to fail.
+    if (Object.keys(deployments).length > 0) {
+      try {
+        await writeArtifacts(deployments)
+      } catch (e) {
+        spinner.fail(`Failed to write the deployment artifacts: ${e.message}`)
+      }
+    }
+
+    if (failed.length === 1) {
+      throw failed[0].error
+    }
+    throw new Error(
+      `Execution failed on: ${failed
+        .map(
+          ({ deploymentContext }) => deploymentContext.deployment.networkName
+        )
+        .join(', ')}`
+    )
+  }
+
+  const deploymentArtifacts = await writeArtifacts(deployments)
+
+  if (!silent) {
+    for (const networkConfig of networkConfigs) {
+      displayDeploymentTable(networkConfig, output)
+    }
+  }
+
+  return {
+    receipts: bundleNetworkConfigs.flatMap(({ chainId }) =>
+      deployments[chainId]
+        ? deployments[chainId].receipts
+        : readCompletedReceipts(chainId)
+    ),
+    deploymentArtifacts,
+  }
+}
+
+/**
+ * Returns the signatures from the Gnosis Safe's owners, since the Safe rejects the approval if it
+ * includes a signature from any other account. Throws an error if there are fewer owner signatures
+ * than the Safe's threshold. We use the Safe's current owners and threshold if it's already
+ * deployed. Otherwise, we use the owners and threshold that it'll be deployed with.
+ */
+const getOwnerTreeSigners = async (
+  networkConfig: NetworkConfig,
+  treeSigners: Array<TreeSigner>,
+  provider: SphinxJsonRpcProvider
+): Promise<Array<TreeSigner>> => {
+  const { safeAddress, newConfig, chainId } = networkConfig
+
+  let threshold: bigint
+  let ownerSigners: Array<TreeSigner>
+  if ((await provider.getCode(safeAddress)) !== '0x') {
+    const safe = new ethers.Contract(
+      safeAddress,
+      GnosisSafeArtifact.abi,
+      provider
+    )
+    threshold = await safe.getThreshold()
+    const isOwner: Array<boolean> = await Promise.all(
+      treeSigners.map(({ signer }) => safe.isOwner(signer))
+    )
+    ownerSigners = treeSigners.filter((_, i) => isOwner[i])
+  } else {
+    threshold = BigInt(newConfig.threshold)
+    const owners = newConfig.owners.map((owner) => owner.toLowerCase())
+    ownerSigners = treeSigners.filter(({ signer }) =>
+      owners.includes(signer.toLowerCase())
+    )
+  }
+
+  if (BigInt(ownerSigners.length) < threshold) {
+    throw new Error(
+      `The Gnosis Safe on ${fetchNameForNetwork(
+        BigInt(chainId)
+      )} requires ${threshold} signature(s), but only\n` +
+        `${ownerSigners.length} of the signatures are from Safe owners.`
+    )
+  }
+
+  return ownerSigners
+}
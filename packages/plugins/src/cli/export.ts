@@ -0,0 +1,225 @@
+import { join, relative } from 'path'
+import { existsSync, mkdirSync, writeFileSync } from 'fs'
+
+import {
+  ExecutionMode,
+  SafeTxBuilderBatch,
+  fetchNameForNetwork,
+  getPreview,
+  getPreviewString,
+  isFile,
+  makeDeploymentConfig,
+  makeDeploymentData,
+  makeSafeTxBuilderBatch,
+} from '@sphinx-labs/core'
+import { makeSphinxMerkleTree } from '@sphinx-labs/contracts'
+import ora from 'ora'
+
+import { getFoundryToml } from '../foundry/options'
+import {
+  assertValidVersions,
+  compile,
+  getRpcUrls,
+  getSphinxConfigFromScript,
+  parseScriptFunctionCalldata,
+  readInterface,
+  resolveNetworks,
+} from '../foundry/utils'
+import { SphinxContext } from './context'
+import {
+  DeploymentBundle,
+  makeDeploymentBundle,
+  writeDeploymentBundle,
+} from './bundle'
+
+/**
+ * @notice The formats that a deployment can be exported to.
+ *
+ * @field safe-tx-builder A Safe{Wallet} Transaction Builder batch file for each network.
+ * @field bundle          A single deployment bundle that can be signed with `sphinx sign` and
+ * executed with `sphinx execute`.
+ */
+export type ExportFormat = 'safe-tx-builder' | 'bundle'
+
+export const EXPORT_FORMATS: Array<ExportFormat> = ['safe-tx-builder', 'bundle']
+
+/**
+ * @param networks The names of the networks to export. Can also be `['testnets']` or
+ * `['mainnets']`, in which case the networks are read from the user's Sphinx config.
+ * @param outDir The directory to write the exported files to.
+ */
+export interface ExportArgs {
+  scriptPath: string
+  networks: Array<string>
+  format: ExportFormat
+  outDir: string
+  silent: boolean
+  sphinxContext: SphinxContext
+  targetContract?: string
+  sig?: Array<string>
+}
+
+/**
+ * Collects the transactions in a script and writes them to files that can be executed outside of
+ * the DevOps Platform. The `safe-tx-builder` format is a fallback for Safes that can't enable the
+ * Sphinx Module, since the transactions are executed by the Safe's owners in the Transaction
+ * Builder instead of by Sphinx. The `bundle` format allows the Safe's owners to sign the Merkle
+ * root asynchronously without the DevOps Platform.
+ */
+export const exportDeployment = async (
+  args: ExportArgs
+): Promise<{
+  batches?: Array<SafeTxBuilderBatch>
+  bundle?: DeploymentBundle
+  filePaths?: Array<string>
+}> => {
+  const { silent, sphinxContext, targetContract, outDir, format } = args
+  const sig = args.sig === undefined ? ['run()'] : args.sig
+
+  const projectRoot = process.cwd()
+
+  // Normalize the script path to be in the format "path/to/file.sol". This isn't strictly
+  // necessary, but we're less likely to introduce a bug if it's always in the same format.
+  const scriptPath = relative(projectRoot, args.scriptPath)
+
+  if (!isFile(scriptPath)) {
+    throw new Error(
+      `File does not exist at: ${scriptPath}\n` +
+        `Please make sure this is a valid file path.`
+    )
+  }
+
+  compile(
+    silent,
+    false, // Do not force recompile
+    true // Generate build info
+  )
+
+  const scriptFunctionCalldata = await parseScriptFunctionCalldata(sig)
+
+  const spinner = ora({ isSilent: silent })
+  spinner.start(`Validating networks...`)
+
+  await assertValidVersions(scriptPath, targetContract)
+
+  const foundryToml = await getFoundryToml()
+
+  // We must load any ABIs after compiling the contracts to prevent a situation where the user
+  // clears their artifacts then calls this task, in which case the artifact won't exist yet.
+  const sphinxPluginTypesInterface = readInterface(
+    foundryToml.artifactFolder,
+    'SphinxPluginTypes'
+  )
+
+  const { safeAddress, testnets, mainnets } = await getSphinxConfigFromScript(
+    scriptPath,
+    sphinxPluginTypesInterface,
+    targetContract,
+    spinner
+  )
+
+  const networks = resolveNetworks(args.networks, testnets, mainnets)
+  const rpcUrls = getRpcUrls(networks, foundryToml.rpcEndpoints)
+
+  spinner.succeed(`Validated networks.`)
+  spinner.start(`Collecting transactions...`)
+
+  const getConfigArtifacts = sphinxContext.makeGetConfigArtifacts(
+    foundryToml.artifactFolder,
+    foundryToml.buildInfoFolder,
+    projectRoot,
+    foundryToml.cachePath
+  )
+
+  // We collect the transactions in the same manner as a proposal. This means that the Sphinx system
+  // contracts don't need to exist on the network when the Safe executes a Transaction Builder batch
+  // directly. It also means that the executor in a bundle's Merkle tree is the
+  // `PermissionlessRelay`, so any account can execute the bundle after the Safe owners sign it.
+  const {
+    networkConfigArrayWithRpcUrls,
+    configArtifacts,
+    buildInfos,
+    isEmpty,
+  } = await sphinxContext.buildNetworkConfigArray(
+    [{ scriptPath, scriptFunctionCalldata, targetContract }],
+    safeAddress,
+    rpcUrls,
+    sphinxPluginTypesInterface,
+    foundryToml,
+    projectRoot,
+    getConfigArtifacts,
+    sphinxContext,
+    ExecutionMode.Platform,
+    spinner
+  )
+
+  if (
+    isEmpty ||
+    !networkConfigArrayWithRpcUrls ||
+    !configArtifacts ||
+    !buildInfos
+  ) {
+    spinner.info(`Nothing to export. Exiting early.`)
+    return {}
+  }
+
+  // Skip the networks that don't have any actions to execute.
+  const networkConfigArray = networkConfigArrayWithRpcUrls
+    .map(({ networkConfig }) => networkConfig)
+    .filter(({ actionInputs }) => actionInputs.length > 0)
+  const merkleTree = makeSphinxMerkleTree(
+    makeDeploymentData(networkConfigArray)
+  )
+
+  spinner.succeed(`Collected transactions.`)
+
+  const preview = getPreview(networkConfigArray, merkleTree.root)
+  if (!silent) {
+    console.log(getPreviewString(preview, false))
+  }
+
+  if (!existsSync(outDir)) {
+    mkdirSync(outDir, { recursive: true })
+  }
+
+  if (format === 'bundle') {
+    const deploymentConfig = makeDeploymentConfig(
+      networkConfigArray,
+      configArtifacts,
+      buildInfos,
+      merkleTree
+    )
+    const bundle = makeDeploymentBundle(deploymentConfig, preview)
+    const filePath = join(outDir, 'bundle.json')
+    writeDeploymentBundle(filePath, bundle)
+
+    spinner.succeed(`Wrote deployment bundle: ${filePath}`)
+
+    return { bundle, filePaths: [filePath] }
+  }
+
+  const createdAt = Date.now()
+  const batches = networkConfigArray.map((networkConfig) =>
+    makeSafeTxBuilderBatch(
+      networkConfig,
+      configArtifacts,
+      merkleTree.root,
+      createdAt
+    )
+  )
+
+  const filePaths = batches.map((batch) => {
+    const filePath = join(
+      outDir,
+      `${fetchNameForNetwork(BigInt(batch.chainId))}.json`
+    )
+    writeFileSync(filePath, JSON.stringify(batch, null, 2))
+    return filePath
+  })
+
+  spinner.succeed(
+    `Wrote Safe Transaction Builder batch files:\n` + filePaths.join('\n')
+  )
+
+  return { batches, filePaths }
+}
@@ -0,0 +1,192 @@
+import { relative } from 'path'
+import { writeFileSync } from 'fs'
+
+import {
+  ExecutionMode,
+  NetworkConfig,
+  PreviewFormat,
+  SphinxJsonRpcProvider,
+  SphinxPreview,
+  elementsEqual,
+  getFormattedPreviewString,
+  getPreview,
+  isFile,
+  makeDeploymentData,
+} from '@sphinx-labs/core'
+import { makeSphinxMerkleTree } from '@sphinx-labs/contracts'
+import ora from 'ora'
+
+import { getFoundryToml } from '../foundry/options'
+import {
+  assertValidVersions,
+  compile,
+  getRpcUrls,
+  getSphinxConfigFromScript,
+  parseScriptFunctionCalldata,
+  readInterface,
+  resolveNetworks,
+} from '../foundry/utils'
+import { SphinxContext } from './context'
+
+/**
+ * @param networks The names of the networks to simulate on. Can also be `['testnets']` or
+ * `['mainnets']`, in which case the networks are read from the user's Sphinx config.
+ * @param previewFormat The format of the preview. Defaults to 'text'.
+ * @param outFilePath The path to write the preview to. If this is undefined, the preview is
+ * logged to stdout.
+ */
+export interface PreviewArgs {
+  scriptPath: string
+  networks: Array<string>
+  silent: boolean
+  sphinxContext: SphinxContext
+  targetContract?: string
+  sig?: Array<string>
+  previewFormat?: PreviewFormat
+  outFilePath?: string
+}
+
+/**
+ * Simulates a script and displays the preview and Merkle root that `sphinx propose` would produce,
+ * without making any calls to Sphinx's backend. The networks can be local nodes (e.g. Anvil),
+ * including nodes that fork a live network, so this command works without an API key or an
+ * internet connection.
+ */
+export const preview = async (
+  args: PreviewArgs
+): Promise<{
+  preview?: SphinxPreview
+  merkleRoot?: string
+  networkConfigArray?: Array<NetworkConfig>
+}> => {
+  const { silent, sphinxContext, targetContract, outFilePath } = args
+  const sig = args.sig === undefined ? ['run()'] : args.sig
+  const previewFormat = args.previewFormat ?? 'text'
+
+  const projectRoot = process.cwd()
+
+  // Normalize the script path to be in the format "path/to/file.sol". This isn't strictly
+  // necessary, but we're less likely to introduce a bug if it's always in the same format.
+  const scriptPath = relative(projectRoot, args.scriptPath)
+
+  if (!isFile(scriptPath)) {
+    throw new Error(
+      `File does not exist at: ${scriptPath}\n` +
+        `Please make sure this is a valid file path.`
+    )
+  }
+
+  compile(
+    silent,
+    false, // Do not force recompile
+    true // Generate build info
+  )
+
+  const scriptFunctionCalldata = await parseScriptFunctionCalldata(sig)
+
+  const spinner = ora({ isSilent: silent })
+  spinner.start(`Validating networks...`)
+
+  await assertValidVersions(scriptPath, targetContract)
+
+  const foundryToml = await getFoundryToml()
+
+  // We must load any ABIs after compiling the contracts to prevent a situation where the user
+  // clears their artifacts then calls this task, in which case the artifact won't exist yet.
+  const sphinxPluginTypesInterface = readInterface(
+    foundryToml.artifactFolder,
+    'SphinxPluginTypes'
+  )
+
+  // Unlike `sphinx propose`, we don't synchronize the `sphinx.lock` file because it requires an API
+  // key. The user's script reads the committed `sphinx.lock` file instead.
+  const { safeAddress, testnets, mainnets } = await getSphinxConfigFromScript(
+    scriptPath,
+    sphinxPluginTypesInterface,
+    targetContract,
+    spinner
+  )
+
+  // We don't use `validateProposalNetworks` because it rejects local networks.
+  const networks = resolveNetworks(args.networks, testnets, mainnets)
+  const rpcUrls = getRpcUrls(networks, foundryToml.rpcEndpoints)
+
+  // We collect the transactions in the same execution mode that they'd be collected in if they were
+  // executed, which determines whether the Sphinx system contracts are assumed to be deployed. On
+  // live networks, this is the mode of `sphinx propose`. On local networks, including forks of live
+  // networks, this is the mode of `sphinx deploy`.
+  const isLiveNetworkArray = await Promise.all(
+    rpcUrls.map((rpcUrl) =>
+      sphinxContext.isLiveNetwork(new SphinxJsonRpcProvider(rpcUrl))
+    )
+  )
+  if (!elementsEqual(isLiveNetworkArray)) {
+    const liveNetworks = networks.filter((_, i) => isLiveNetworkArray[i])
+    const localNetworks = networks.filter((_, i) => !isLiveNetworkArray[i])
+    throw new Error(
+      `Cannot preview on live networks and local networks at the same time.\n` +
+        `Live networks: ${liveNetworks.join(', ')}\n` +
+        `Local networks: ${localNetworks.join(', ')}`
+    )
+  }
+  const executionMode = isLiveNetworkArray[0]
+    ? ExecutionMode.Platform
+    : ExecutionMode.LocalNetworkCLI
+
+  spinner.succeed(`Validated networks.`)
+  spinner.start(`Collecting transactions...`)
+
+  const getConfigArtifacts = sphinxContext.makeGetConfigArtifacts(
+    foundryToml.artifactFolder,
+    foundryToml.buildInfoFolder,
+    projectRoot,
+    foundryToml.cachePath
+  )
+
+  const { networkConfigArrayWithRpcUrls, isEmpty } =
+    await sphinxContext.buildNetworkConfigArray(
+      [{ scriptPath, scriptFunctionCalldata, targetContract }],
+      safeAddress,
+      rpcUrls,
+      sphinxPluginTypesInterface,
+      foundryToml,
+      projectRoot,
+      getConfigArtifacts,
+      sphinxContext,
+      executionMode,
+      spinner
+    )
+
+  if (isEmpty || !networkConfigArrayWithRpcUrls) {
+    spinner.info(`Nothing to execute on any chain.`)
+    return {}
+  }
+
+  const networkConfigArray = networkConfigArrayWithRpcUrls.map(
+    ({ networkConfig }) => networkConfig
+  )
+  const merkleTree = makeSphinxMerkleTree(
+    makeDeploymentData(networkConfigArray)
+  )
+
+  spinner.succeed(`Built preview.`)
+
+  const sphinxPreview = getPreview(networkConfigArray, merkleTree.root)
+  const previewString = getFormattedPreviewString(
+    sphinxPreview,
+    previewFormat,
+    false
+  )
+  if (outFilePath) {
+    writeFileSync(outFilePath, previewString)
+    spinner.succeed(`Wrote preview to: ${outFilePath}`)
+  } else if (!silent) {
+    console.log(previewString)
+  }
+
+  return {
+    preview: sphinxPreview,
+    merkleRoot: merkleTree.root,
+    networkConfigArray,
+  }
+}
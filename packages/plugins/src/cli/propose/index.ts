@@ -7,7 +7,7 @@ import {
   WEBSITE_URL,
   elementsEqual,
   getPreview,
-  getPreviewString,
+  getFormattedPreviewString,
   makeDeploymentData,
   spawnAsync,
   isLegacyTransactionsRequiredForNetwork,
@@ -17,6 +17,10 @@ import {
   makeDeploymentConfig,
   DEFAULT_CALL_DEPTH,
   syncSphinxLock,
+  ExecutionMode,
+  checkSystemDeployed,
+  PreviewFormat,
+  getMerkleLeafChainId,
 } from '@sphinx-labs/core'
 import ora from 'ora'
 import { blue } from 'chalk'
@@ -34,7 +38,12 @@ import {
   makeSphinxMerkleTree,
 } from '@sphinx-labs/contracts'
 
-import { makeNetworkConfig, decodeDeploymentInfo } from '../../foundry/decode'
+import {
+  makeNetworkConfig,
+  decodeDeploymentInfo,
+  combineNetworkConfigs,
+  assertNoCrossScriptDependencies,
+} from '../../foundry/decode'
 import { getFoundryToml } from '../../foundry/options'
 import {
   getSphinxConfigFromScript,
@@ -45,16 +54,24 @@ import {
   validateProposalNetworks,
   parseScriptFunctionCalldata,
   assertContractSizeLimitNotExceeded,
+  writeSystemContracts,
 } from '../../foundry/utils'
 import { SphinxContext } from '../context'
 import { FoundryToml } from '../../foundry/types'
-import { BuildNetworkConfigArray } from '../types'
+import { AdditionalScript, BuildNetworkConfigArray, ScriptCall } from '../types'
 import { SPHINX_PLUGINS_VERSION } from '../version'
+import { makeDeploymentBundle, writeDeploymentBundle } from '../bundle'
 
 /**
  * @param isDryRun If true, the proposal will not be relayed to the back-end.
  * @param targetContract The name of the contract within the script file. Necessary when there are
  * multiple contracts in the specified script.
+ * @param previewFormat The format of the preview. Defaults to 'text'.
+ * @param outFilePath The path to write a deployment bundle to, which freezes the proposal so that it
+ * can be audited or executed later. The bundle isn't written if this is undefined.
+ * @param additionalScripts Forge scripts that run after the script at `scriptPath`, in order. Their
+ * transactions are included in the same Merkle tree. Each script must use the same Sphinx config as
+ * the script at `scriptPath`.
  */
 export interface ProposeArgs {
   confirm: boolean
@@ -65,11 +82,48 @@ export interface ProposeArgs {
   sphinxContext: SphinxContext
   targetContract?: string
   sig?: Array<string>
+  previewFormat?: PreviewFormat
+  outFilePath?: string
+  additionalScripts?: Array<AdditionalScript>
+}
+
+/**
+ * Returns the scripts of a deployment in the order that their transactions are collected, starting
+ * with the main script. Validates each additional script and parses the calldata of the function to
+ * call in it. This must be called after the contracts are compiled.
+ */
+export const getScriptCalls = async (
+  projectRoot: string,
+  mainScript: ScriptCall,
+  additionalScripts: Array<AdditionalScript>
+): Promise<Array<ScriptCall>> => {
+  const scriptCalls = [mainScript]
+  for (const additionalScript of additionalScripts) {
+    const { targetContract } = additionalScript
+    const scriptPath = relative(projectRoot, additionalScript.scriptPath)
+
+    if (!isFile(scriptPath)) {
+      throw new Error(
+        `File does not exist at: ${scriptPath}\n` +
+          `Please make sure this is a valid file path.`
+      )
+    }
+
+    await assertValidVersions(scriptPath, targetContract)
+
+    scriptCalls.push({
+      scriptPath,
+      scriptFunctionCalldata: await parseScriptFunctionCalldata(
+        additionalScript.sig ?? ['run()']
+      ),
+      targetContract,
+    })
+  }
+  return scriptCalls
 }
 
 export const buildNetworkConfigArray: BuildNetworkConfigArray = async (
-  scriptPath: string,
-  scriptFunctionCalldata: string,
+  scripts: Array<ScriptCall>,
   safeAddress: string,
   rpcUrls: Array<string>,
   sphinxPluginTypesInterface: ethers.Interface,
@@ -77,7 +131,7 @@ export const buildNetworkConfigArray: BuildNetworkConfigArray = async (
   projectRoot: string,
   getConfigArtifacts: GetConfigArtifacts,
   sphinxContext: SphinxContext,
-  targetContract?: string,
+  executionMode: ExecutionMode,
   spinner?: ora.Ora
 ): Promise<{
   networkConfigArrayWithRpcUrls?: Array<{
@@ -92,117 +146,185 @@ export const buildNetworkConfigArray: BuildNetworkConfigArray = async (
     foundryToml.cachePath,
     'sphinx-deployment-info.txt'
   )
+  // The system contracts file is only used when collecting transactions for a deployment that's
+  // executed from the CLI. Proposals assume that the system contracts are already deployed.
+  const systemContractsFilePath =
+    executionMode === ExecutionMode.Platform
+      ? undefined
+      : writeSystemContracts(sphinxPluginTypesInterface, foundryToml.cachePath)
+
   const collected: Array<{
-    deploymentInfo: DeploymentInfo
+    // The `DeploymentInfo` of each script, in the same order as the scripts.
+    deploymentInfos: Array<{
+      scriptPath: string
+      deploymentInfo: DeploymentInfo
+    }>
     libraries: Array<string>
     rpcUrl: string
+    isSystemDeployed: boolean
   }> = []
   for (const rpcUrl of rpcUrls) {
-    // Remove the existing DeploymentInfo file if it exists. This ensures that we don't accidentally
-    // use a file from a previous deployment.
-    if (existsSync(deploymentInfoPath)) {
-      unlinkSync(deploymentInfoPath)
-    }
-
     const provider = new SphinxJsonRpcProvider(rpcUrl)
+    // We fetch the block number ahead of time and store it in the deploymentInfo, so that we can
+    // use the exact same block number during the simulation phase. We use the same block number for
+    // every script on the network.
     const blockNumber = await provider.getBlockNumber()
+    const isLegacy = isLegacyTransactionsRequiredForNetwork(
+      (await provider.getNetwork()).chainId
+    )
 
-    const forgeScriptCollectArgs = [
-      'script',
+    const deploymentInfos: Array<{
+      scriptPath: string
+      deploymentInfo: DeploymentInfo
+    }> = []
+    for (const {
       scriptPath,
-      '--rpc-url',
-      rpcUrl,
-      '--sig',
-      'sphinxCollectProposal(bytes,string,uint64)',
       scriptFunctionCalldata,
-      deploymentInfoPath,
-      '--always-use-create-2-factory',
-      DEFAULT_CALL_DEPTH,
-    ]
-
-    if (
-      isLegacyTransactionsRequiredForNetwork(
-        (await provider.getNetwork()).chainId
-      )
-    ) {
-      forgeScriptCollectArgs.push('--legacy')
-    }
-    if (targetContract) {
-      forgeScriptCollectArgs.push('--target-contract', targetContract)
-    }
+      targetContract,
+    } of scripts) {
+      // Remove the existing DeploymentInfo file if it exists. This ensures that we don't
+      // accidentally use a file from a previous deployment.
+      if (existsSync(deploymentInfoPath)) {
+        unlinkSync(deploymentInfoPath)
+      }
 
-    // Collect the transactions for the current network.
-    const spawnOutput = await spawnAsync('forge', forgeScriptCollectArgs, {
-      // Set the block gas limit to the max amount allowed by Foundry. This overrides lower block
-      // gas limits specified in the user's `foundry.toml`, which can cause the script to run out of
-      // gas. We use the `FOUNDRY_BLOCK_GAS_LIMIT` environment variable because it has a higher
-      // priority than `DAPP_BLOCK_GAS_LIMIT`.
-      FOUNDRY_BLOCK_GAS_LIMIT: MAX_UINT64.toString(),
-      // We specify build info to be false so that calling the script does not cause the users entire
-      // project to be rebuilt if they have `build_info=true` defined in their foundry.toml file.
-      // We do need the build info, but that is generated when we compile at the beginning of the script.
-      FOUNDRY_BUILD_INFO: 'false',
-    })
+      const forgeScriptCollectArgs = systemContractsFilePath
+        ? [
+            'script',
+            scriptPath,
+            '--rpc-url',
+            rpcUrl,
+            '--sig',
+            'sphinxCollectDeployment(bytes,uint8,string,string)',
+            scriptFunctionCalldata,
+            executionMode.toString(),
+            deploymentInfoPath,
+            systemContractsFilePath,
+            '--always-use-create-2-factory',
+          ]
+        : [
+            'script',
+            scriptPath,
+            '--rpc-url',
+            rpcUrl,
+            '--sig',
+            'sphinxCollectProposal(bytes,string,uint64)',
+            scriptFunctionCalldata,
+            deploymentInfoPath,
+            '--always-use-create-2-factory',
+            DEFAULT_CALL_DEPTH,
+          ]
+
+      if (isLegacy) {
+        forgeScriptCollectArgs.push('--legacy')
+      }
+      if (targetContract) {
+        forgeScriptCollectArgs.push('--target-contract', targetContract)
+      }
 
-    if (spawnOutput.code !== 0) {
-      spinner?.stop()
-      // The `stdout` contains the trace of the error.
-      console.log(spawnOutput.stdout)
-      // The `stderr` contains the error message.
-      console.log(spawnOutput.stderr)
-      process.exit(1)
+      // Collect the transactions for the current network.
+      const spawnOutput = await spawnAsync('forge', forgeScriptCollectArgs, {
+        // Set the block gas limit to the max amount allowed by Foundry. This overrides lower block
+        // gas limits specified in the user's `foundry.toml`, which can cause the script to run out
+        // of gas. We use the `FOUNDRY_BLOCK_GAS_LIMIT` environment variable because it has a higher
+        // priority than `DAPP_BLOCK_GAS_LIMIT`.
+        FOUNDRY_BLOCK_GAS_LIMIT: MAX_UINT64.toString(),
+        // We specify build info to be false so that calling the script does not cause the users entire
+        // project to be rebuilt if they have `build_info=true` defined in their foundry.toml file.
+        // We do need the build info, but that is generated when we compile at the beginning of the script.
+        FOUNDRY_BUILD_INFO: 'false',
+      })
+
+      if (spawnOutput.code !== 0) {
+        spinner?.stop()
+        // The `stdout` contains the trace of the error.
+        console.log(spawnOutput.stdout)
+        // The `stderr` contains the error message.
+        console.log(spawnOutput.stderr)
+        process.exit(1)
+      }
+
+      const serializedDeploymentInfo = readFileSync(deploymentInfoPath, 'utf-8')
+      const deploymentInfo = decodeDeploymentInfo(
+        serializedDeploymentInfo,
+        sphinxPluginTypesInterface,
+        blockNumber
+      )
+      deploymentInfos.push({ scriptPath, deploymentInfo })
     }
 
-    const serializedDeploymentInfo = readFileSync(deploymentInfoPath, 'utf-8')
-    const deploymentInfo = decodeDeploymentInfo(
-      serializedDeploymentInfo,
-      sphinxPluginTypesInterface,
-      blockNumber
-    )
+    // Proposals are executed by the DevOps Platform, which only supports networks where the system
+    // contracts are already deployed.
+    const isSystemDeployed =
+      executionMode === ExecutionMode.Platform
+        ? true
+        : await checkSystemDeployed(provider)
 
     collected.push({
-      deploymentInfo,
+      deploymentInfos,
       libraries: [], // We don't currently support linked libraries.
       rpcUrl,
+      isSystemDeployed,
     })
   }
 
   spinner?.succeed(`Collected transactions.`)
 
-  spinner?.start(`Building proposal...`)
+  executionMode === ExecutionMode.Platform
+    ? spinner?.start(`Building proposal...`)
+    : spinner?.start(`Building deployment...`)
 
   const initCodeWithArgsArray = getInitCodeWithArgsArray(
-    collected.flatMap(({ deploymentInfo }) => deploymentInfo.accountAccesses)
+    collected.flatMap(({ deploymentInfos }) =>
+      deploymentInfos.flatMap(
+        ({ deploymentInfo }) => deploymentInfo.accountAccesses
+      )
+    )
   )
 
   const { configArtifacts, buildInfos } = await getConfigArtifacts(
     initCodeWithArgsArray
   )
 
-  collected.forEach(({ deploymentInfo }) =>
-    assertContractSizeLimitNotExceeded(
-      deploymentInfo.accountAccesses,
-      configArtifacts
+  collected.forEach(({ deploymentInfos }) =>
+    deploymentInfos.forEach(({ deploymentInfo }) =>
+      assertContractSizeLimitNotExceeded(
+        deploymentInfo.accountAccesses,
+        configArtifacts
+      )
     )
   )
 
-  await sphinxContext.assertNoLinkedLibraries(
-    scriptPath,
-    foundryToml.cachePath,
-    foundryToml.artifactFolder,
-    projectRoot,
-    targetContract
+  collected.forEach(({ deploymentInfos }) =>
+    assertNoCrossScriptDependencies(deploymentInfos)
   )
 
+  for (const { scriptPath, targetContract } of scripts) {
+    await sphinxContext.assertNoLinkedLibraries(
+      scriptPath,
+      foundryToml.cachePath,
+      foundryToml.artifactFolder,
+      projectRoot,
+      targetContract
+    )
+  }
+
   const networkConfigArrayWithRpcUrls = collected.map(
-    ({ deploymentInfo, libraries, rpcUrl }) => {
+    ({ deploymentInfos, libraries, rpcUrl, isSystemDeployed }) => {
       return {
         rpcUrl,
-        networkConfig: makeNetworkConfig(
-          deploymentInfo,
-          true, // System contracts are deployed.
-          configArtifacts,
-          libraries
+        // If the deployment combines multiple scripts, their actions are combined into one network
+        // config so that they're executed in the same Merkle tree.
+        networkConfig: combineNetworkConfigs(
+          deploymentInfos.map(({ scriptPath, deploymentInfo }) => ({
+            scriptPath,
+            networkConfig: makeNetworkConfig(
+              deploymentInfo,
+              isSystemDeployed,
+              configArtifacts,
+              libraries
+            ),
+          }))
         ),
       }
     }
@@ -236,9 +358,18 @@ export const propose = async (
   networkConfigArray?: Array<NetworkConfig>
   merkleTree?: SphinxMerkleTree
 }> => {
-  const { confirm, networks, isDryRun, silent, sphinxContext, targetContract } =
-    args
+  const {
+    confirm,
+    networks,
+    isDryRun,
+    silent,
+    sphinxContext,
+    targetContract,
+    outFilePath,
+  } = args
   const sig = args.sig === undefined ? ['run()'] : args.sig
+  const previewFormat = args.previewFormat ?? 'text'
+  const additionalScripts = args.additionalScripts ?? []
 
   const projectRoot = process.cwd()
 
@@ -283,6 +414,12 @@ export const propose = async (
   // mismatch could cause these calls to fail unexpectedly.
   await assertValidVersions(scriptPath, targetContract)
 
+  const scriptCalls = await getScriptCalls(
+    projectRoot,
+    { scriptPath, scriptFunctionCalldata, targetContract },
+    additionalScripts
+  )
+
   const foundryToml = await getFoundryToml()
 
   // We must load any ABIs after compiling the contracts to prevent a situation where the user
@@ -327,8 +464,7 @@ export const propose = async (
     isEmpty,
     buildInfos,
   } = await sphinxContext.buildNetworkConfigArray(
-    scriptPath,
-    scriptFunctionCalldata,
+    scriptCalls,
     safeAddress,
     rpcUrls,
     sphinxPluginTypesInterface,
@@ -336,7 +472,7 @@ export const propose = async (
     projectRoot,
     getConfigArtifacts,
     sphinxContext,
-    targetContract,
+    ExecutionMode.Platform,
     spinner
   )
 
@@ -374,14 +510,30 @@ export const propose = async (
   const preview = getPreview(networkConfigArray, merkleTree.root)
   if (confirm || isDryRun) {
     if (!silent) {
-      const previewString = getPreviewString(preview, false)
+      const previewString = getFormattedPreviewString(
+        preview,
+        previewFormat,
+        false
+      )
       console.log(previewString)
     }
   } else {
-    const previewString = getPreviewString(preview, true)
+    const previewString = getFormattedPreviewString(
+      preview,
+      previewFormat,
+      true
+    )
     await sphinxContext.prompt(previewString)
   }
 
+  if (outFilePath) {
+    writeDeploymentBundle(
+      outFilePath,
+      makeDeploymentBundle(deploymentConfig, preview)
+    )
+    spinner.succeed(`Wrote deployment bundle: ${outFilePath}`)
+  }
+
   isDryRun
     ? spinner.start('Finishing dry run...')
     : spinner.start(`Proposing...`)
@@ -491,7 +643,7 @@ const getProjectDeploymentForChain = (
   const approvalLeaves = merkleTree.leavesWithProofs.filter(
     (l) =>
       l.leaf.leafType === SphinxLeafType.APPROVE &&
-      l.leaf.chainId === BigInt(chainId)
+      l.leaf.chainId === getMerkleLeafChainId(networkConfig)
   )
 
   if (approvalLeaves.length === 0) {
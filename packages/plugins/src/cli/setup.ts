@@ -1,28 +1,97 @@
 import yargs from 'yargs'
 import { hideBin } from 'yargs/helpers'
 import ora from 'ora'
-import { getDuplicateElements, syncSphinxLock } from '@sphinx-labs/core'
+import {
+  PREVIEW_FORMATS,
+  PROGRESS_FORMATS,
+  REMOTE_SIGNER_APIS,
+  getDuplicateElements,
+  syncSphinxLock,
+} from '@sphinx-labs/core'
+import { ethers } from 'ethers'
 
 import { init } from '../sample-project'
 import { SphinxContext, makeSphinxContext } from './context'
 import {
   ArtifactsCommandArgs,
+  CancelCommandArgs,
   DeployCommandArgs,
+  ExecuteCommandArgs,
+  ExportCommandArgs,
+  PreviewCommandArgs,
   ProposeCommandArgs,
+  RecoverArtifactsArgs,
+  SignCommandArgs,
+  SignerCommandArgs,
+  StatusCommandArgs,
+  TreeInspectCommandArgs,
+  VerifyCommandArgs,
 } from './types'
 import {
   BothNetworksSpecifiedError,
   ConfirmAndDryRunError,
+  InvalidMerkleRootError,
+  InvalidRetriesError,
+  InvalidConfirmationTimeoutError,
+  InvalidMaxCostError,
+  InvalidConcurrencyError,
+  DeprecatedNetworkOptionWarning,
+  NetworkAndNetworksError,
+  NetworkGroupsNotSupportedError,
   NoNetworkArgsError,
+  RemoteSignerAndKeystoreError,
+  StatusArtifactConflictError,
+  StatusMissingArgsError,
   getDuplicatedNetworkErrorMessage,
+  parseAppendScriptArg,
 } from './utils'
 import { handleInstall } from './install'
+import { EXPORT_FORMATS } from './export'
+import { SignerOptions } from './signer'
 
 const networkOption = 'network'
 const confirmOption = 'confirm'
 const dryRunOption = 'dry-run'
 const targetContractOption = 'target-contract'
 const verifyOption = 'verify'
+const proposeOption = 'propose'
+const previewFormatOption = 'preview-format'
+const gasPriceConfigOption = 'gas-price-config'
+const confirmationTimeoutOption = 'confirmation-timeout'
+const maxCostOption = 'max-cost'
+const concurrencyOption = 'concurrency'
+const progressFormatOption = 'progress-format'
+const remoteSignerOption = 'remote-signer'
+const remoteSignerApiOption = 'remote-signer-api'
+const remoteSignerAddressOption = 'remote-signer-address'
+const keystoreOption = 'keystore'
+const appendScriptOption = 'append-script'
+
+// The options that select the account that signs the Merkle root and sends the transactions. We
+// use the `PRIVATE_KEY` environment variable if neither a remote signer nor a keystore is specified.
+const signerOptions = {
+  [remoteSignerOption]: {
+    describe:
+      'The URL of an external JSON-RPC signer, e.g. Clef or Web3Signer, to use instead of the PRIVATE_KEY environment variable.',
+    type: 'string',
+  },
+  [remoteSignerApiOption]: {
+    describe:
+      'The JSON-RPC methods that the remote signer supports. Use eth for Web3Signer and clef for Clef.',
+    choices: REMOTE_SIGNER_APIS,
+    default: 'eth',
+  },
+  [remoteSignerAddressOption]: {
+    describe:
+      'The address of the account to use in the remote signer. Only necessary if it has more than one account.',
+    type: 'string',
+  },
+  [keystoreOption]: {
+    describe:
+      'Path to an encrypted JSON keystore file to use instead of the PRIVATE_KEY environment variable. The password is read from the SPHINX_KEYSTORE_PASSWORD environment variable, or prompted for if it is not set.',
+    type: 'string',
+  },
+} as const
 
 export const makeCLI = (
   args: Array<string> = hideBin(process.argv),
@@ -59,6 +128,12 @@ export const makeCLI = (
             string: true,
             alias: 's',
           })
+          .option(appendScriptOption, {
+            describe:
+              'A Forge script to run after the script above, optionally followed by the signature of the function to call in it. Its transactions are included in the same Merkle root. Can be specified multiple times.',
+            array: true,
+            string: true,
+          })
           .option(confirmOption, {
             describe: 'Confirm the proposal without previewing it.',
             boolean: true,
@@ -79,37 +154,20 @@ export const makeCLI = (
             boolean: true,
             default: false,
           })
+          .option(previewFormatOption, {
+            describe: 'The format of the preview.',
+            choices: PREVIEW_FORMATS,
+            default: 'text' as const,
+          })
+          .option('out', {
+            describe:
+              'Path to write a deployment bundle to, which can be signed and executed later.',
+            type: 'string',
+          })
           .check((argv) => {
-            const { networks } = argv
-
-            if (networks.length === 0) {
-              throw new Error(NoNetworkArgsError)
-            }
-
-            if (
-              networks.includes('testnets') &&
-              networks.includes('mainnets')
-            ) {
-              throw new Error(BothNetworksSpecifiedError)
-            }
-
-            const duplicatedNetworks = getDuplicateElements(networks)
-            if (duplicatedNetworks.length > 0) {
-              throw new Error(
-                getDuplicatedNetworkErrorMessage(duplicatedNetworks)
-              )
-            }
-
-            if (
-              networks.length > 1 &&
-              (networks.includes('testnets') || networks.includes('mainnets'))
-            ) {
-              throw new Error(
-                `If you specify 'mainnets' or testnets', you cannot specify any other networks.`
-              )
-            }
-
-            return true
+            // Throws an error if the option is invalid.
+            parseAppendScriptArg(argv[appendScriptOption] ?? [])
+            return validateNetworksArg(argv.networks)
           })
           .hide('version'),
       async (argv) => proposeCommandHandler(argv, sphinxContext)
@@ -119,26 +177,67 @@ export const makeCLI = (
       `Retrieves deployment artifacts from the DevOps Platform and writes them to the file system.`,
       (y) =>
         y
-          .usage(
-            `Usage: sphinx artifacts --org-id <ORG_ID> --project-name <PROJECT_NAME> [options]`
+          // We use a default subcommand so that the options of 'sphinx artifacts' aren't required
+          // by 'sphinx artifacts recover'.
+          .command(
+            '$0',
+            `Retrieves deployment artifacts from the DevOps Platform and writes them to the file system.`,
+            (fetchYargs) =>
+              fetchYargs
+                .usage(
+                  `Usage: sphinx artifacts --org-id <ORG_ID> --project-name <PROJECT_NAME> [options]`
+                )
+                .option('org-id', {
+                  describe: 'Your Sphinx organization ID.',
+                  type: 'string',
+                  demandOption: true,
+                })
+                .option('project-name', {
+                  describe: 'The name of your project.',
+                  type: 'string',
+                  demandOption: true,
+                })
+                .option('silent', {
+                  describe: 'Silence the output except for error messages.',
+                  boolean: true,
+                  default: false,
+                })
+                .hide('version'),
+            async (argv) => artifactsCommandHandler(argv, sphinxContext)
           )
-          .option('org-id', {
-            describe: 'Your Sphinx organization ID.',
-            type: 'string',
-            demandOption: true,
-          })
-          .option('project-name', {
-            describe: 'The name of your project.',
-            type: 'string',
-            demandOption: true,
-          })
-          .option('silent', {
-            describe: 'Silence the output except for error messages.',
-            boolean: true,
-            default: false,
-          })
-          .hide('version'),
-      async (argv) => artifactsCommandHandler(argv, sphinxContext)
+          .command(
+            'recover',
+            `Writes the deployment artifacts of the most recent deployment using its execution journal, e.g. if the 'deploy' command was killed before it wrote them.`,
+            (recoverYargs) =>
+              recoverYargs
+                .usage(
+                  `Usage: sphinx artifacts recover --networks <NETWORK_NAMES...> [options]`
+                )
+                .option('networks', {
+                  describe: 'The networks that the deployment was executed on.',
+                  type: 'array',
+                  coerce: (networks: Array<string | number>) =>
+                    networks.map(String),
+                  demandOption: true,
+                })
+                .option('silent', {
+                  describe: 'Silence the output except for error messages.',
+                  boolean: true,
+                  default: false,
+                })
+                .check((argv) => {
+                  if (
+                    argv.networks.includes('testnets') ||
+                    argv.networks.includes('mainnets')
+                  ) {
+                    throw new Error(NetworkGroupsNotSupportedError)
+                  }
+                  return validateNetworksArg(argv.networks)
+                })
+                .hide('version'),
+            async (argv) => artifactsRecoverCommandHandler(argv, sphinxContext)
+          )
+          .hide('version')
     )
     .command(
       'init',
@@ -224,11 +323,11 @@ export const makeCLI = (
     )
     .command(
       'deploy <scriptPath>',
-      `Executes a deployment on a network. Displays a preview before the deployment, and writes artifacts after.`,
+      `Executes a deployment on one or more networks. Displays a preview before the deployment, and writes artifacts after.`,
       (y) =>
         y
           .usage(
-            `Usage: sphinx deploy <SCRIPT_PATH> --network <NETWORK_NAME> [options]`
+            `Usage: sphinx deploy <SCRIPT_PATH> --networks <NETWORK_NAMES...|testnets|mainnets> [options]`
           )
           .positional('scriptPath', {
             describe: 'Path to the Forge script file.',
@@ -245,11 +344,24 @@ export const makeCLI = (
             string: true,
             alias: 's',
           })
+          .option(appendScriptOption, {
+            describe:
+              'A Forge script to run after the script above, optionally followed by the signature of the function to call in it. Its transactions are included in the same Merkle root. Can be specified multiple times.',
+            array: true,
+            string: true,
+          })
+          .option('networks', {
+            describe: 'The networks to deploy on.',
+            type: 'array',
+            coerce: (networks: Array<string | number>) => networks.map(String),
+            demandOption: true,
+          })
           .option(networkOption, {
             describe: 'Name of the network to deploy on.',
             type: 'string',
-            demandOption: true,
+            deprecated: 'Use --networks instead.',
           })
+          .middleware(replaceDeprecatedNetworkOption, true)
           .option(confirmOption, {
             describe: 'Confirm the deployment without displaying a preview.',
             boolean: true,
@@ -272,9 +384,530 @@ export const makeCLI = (
             boolean: true,
             default: false,
           })
+          .option('resume', {
+            describe:
+              'Finish the most recent deployment that was interrupted instead of starting a new one.',
+            boolean: true,
+            default: false,
+          })
+          .option('retries', {
+            describe:
+              'The number of times to retry the deployment on a network if it is interrupted.',
+            type: 'number',
+            default: 0,
+          })
+          .option(previewFormatOption, {
+            describe:
+              'The format of the preview. If you specify --confirm with a format other than text, the preview is displayed without a prompt.',
+            choices: PREVIEW_FORMATS,
+            default: 'text' as const,
+          })
+          .option('out', {
+            describe:
+              'Path to write a deployment bundle to before the deployment is executed.',
+            type: 'string',
+          })
+          .option(gasPriceConfigOption, {
+            describe:
+              'Path to a JSON file that contains a gas price strategy for each network, e.g. a max fee cap.',
+            type: 'string',
+          })
+          .option(confirmationTimeoutOption, {
+            describe:
+              'The number of seconds to wait for a transaction to be confirmed before replacing it with higher fees, up to the max fee cap in the gas price config.',
+            type: 'number',
+          })
+          .option(maxCostOption, {
+            describe: `The maximum estimated cost of the deployment on each live network, in the network's native currency, e.g. 0.5 for 0.5 ETH.`,
+            type: 'string',
+          })
+          .option(concurrencyOption, {
+            describe:
+              'The maximum number of networks to execute the deployment on at the same time.',
+            type: 'number',
+            default: 1,
+          })
+          .option(progressFormatOption, {
+            describe:
+              'The format of the execution progress. The json format writes each progress event to stdout as a line of JSON.',
+            choices: PROGRESS_FORMATS,
+            default: 'text' as const,
+          })
+          .options(signerOptions)
+          .check((argv) => {
+            if (!Number.isInteger(argv.retries) || argv.retries < 0) {
+              throw new Error(InvalidRetriesError)
+            }
+            if (
+              argv[confirmationTimeoutOption] !== undefined &&
+              !(argv[confirmationTimeoutOption] > 0)
+            ) {
+              throw new Error(InvalidConfirmationTimeoutError)
+            }
+            if (
+              argv[maxCostOption] !== undefined &&
+              !isValidMaxCost(argv[maxCostOption])
+            ) {
+              throw new Error(InvalidMaxCostError)
+            }
+            if (
+              !Number.isInteger(argv[concurrencyOption]) ||
+              argv[concurrencyOption] < 1
+            ) {
+              throw new Error(InvalidConcurrencyError)
+            }
+            if (
+              argv[remoteSignerOption] !== undefined &&
+              argv[keystoreOption] !== undefined
+            ) {
+              throw new Error(RemoteSignerAndKeystoreError)
+            }
+            if (argv[networkOption] !== undefined) {
+              throw new Error(NetworkAndNetworksError)
+            }
+            // Throws an error if the option is invalid.
+            parseAppendScriptArg(argv[appendScriptOption] ?? [])
+            return validateNetworksArg(argv.networks)
+          })
           .hide('version'),
       async (argv) => deployCommandHandler(argv, sphinxContext)
     )
+    .command(
+      'cancel <merkleRoot>',
+      `Cancels an active Merkle root that has been approved but not executed.`,
+      (y) =>
+        y
+          .usage(
+            `Usage: sphinx cancel <MERKLE_ROOT> --script <SCRIPT_PATH> --networks <NETWORK_NAMES...|testnets|mainnets> [options]`
+          )
+          .positional('merkleRoot', {
+            describe: 'The Merkle root to cancel.',
+            type: 'string',
+            demandOption: true,
+          })
+          .option('script', {
+            describe:
+              'Path to the Forge script file that contains the Gnosis Safe config.',
+            type: 'string',
+            demandOption: true,
+          })
+          .option('networks', {
+            describe: 'The networks to cancel the Merkle root on.',
+            type: 'array',
+            coerce: (networks: Array<string | number>) => networks.map(String),
+            demandOption: true,
+          })
+          .option(proposeOption, {
+            describe: `Submit the cancellation to Sphinx's backend so that the Gnosis Safe owners can approve it.`,
+            boolean: true,
+            default: false,
+          })
+          .option(confirmOption, {
+            describe: 'Confirm the cancellation without previewing it.',
+            boolean: true,
+            default: false,
+          })
+          .option(targetContractOption, {
+            describe:
+              'The name of the contract within the script file. Necessary when there are multiple contracts in the specified script.',
+            type: 'string',
+            alias: 'tc',
+          })
+          .option('silent', {
+            describe:
+              'Silence the output except for error messages. You must also confirm the cancellation via the --confirm flag if you specify this option.',
+            boolean: true,
+            default: false,
+          })
+          .check((argv) => {
+            if (!ethers.isHexString(argv.merkleRoot, 32)) {
+              throw new Error(InvalidMerkleRootError)
+            }
+
+            return validateNetworksArg(argv.networks)
+          })
+          .hide('version'),
+      async (argv) => cancelCommandHandler(argv, sphinxContext)
+    )
+    .command(
+      'status [merkleRoot]',
+      `Displays the on-chain status of a Merkle root on a set of networks.`,
+      (y) =>
+        y
+          .usage(
+            `Usage: sphinx status <MERKLE_ROOT> --module-address <ADDRESS> --networks <NETWORK_NAMES...> [options]\n` +
+              `       sphinx status --artifact <EXECUTION_ARTIFACT_PATH> --networks <NETWORK_NAMES...> [options]`
+          )
+          .positional('merkleRoot', {
+            describe: 'The Merkle root to query.',
+            type: 'string',
+          })
+          .option('networks', {
+            describe: 'The networks to query.',
+            type: 'array',
+            coerce: (networks: Array<string | number>) => networks.map(String),
+            demandOption: true,
+          })
+          .option('module-address', {
+            describe: 'The address of the SphinxModuleProxy.',
+            type: 'string',
+          })
+          .option('artifact', {
+            describe:
+              'Path to an execution artifact. The Merkle root and SphinxModuleProxy address are read from this file.',
+            type: 'string',
+          })
+          .option('json', {
+            describe: 'Display the status as JSON.',
+            boolean: true,
+            default: false,
+          })
+          .check((argv) => {
+            const { merkleRoot, moduleAddress, artifact, networks } = argv
+
+            if (artifact) {
+              if (merkleRoot !== undefined || moduleAddress !== undefined) {
+                throw new Error(StatusArtifactConflictError)
+              }
+            } else {
+              if (merkleRoot === undefined || moduleAddress === undefined) {
+                throw new Error(StatusMissingArgsError)
+              }
+              if (!ethers.isHexString(merkleRoot, 32)) {
+                throw new Error(InvalidMerkleRootError)
+              }
+              if (!ethers.isAddress(moduleAddress)) {
+                throw new Error(`Invalid SphinxModuleProxy address.`)
+              }
+            }
+
+            if (
+              networks.includes('testnets') ||
+              networks.includes('mainnets')
+            ) {
+              throw new Error(NetworkGroupsNotSupportedError)
+            }
+
+            return validateNetworksArg(networks)
+          })
+          .hide('version'),
+      async (argv) => statusCommandHandler(argv, sphinxContext)
+    )
+    .command(
+      'verify',
+      `Verifies the contracts in a deployment on Etherscan using the deployment artifacts in the 'deployments/' folder.`,
+      (y) =>
+        y
+          .usage(
+            `Usage: sphinx verify --networks <NETWORK_NAMES...> [--merkle-root <MERKLE_ROOT>]`
+          )
+          .option('networks', {
+            describe: 'The networks to verify the deployment on.',
+            type: 'array',
+            coerce: (networks: Array<string | number>) => networks.map(String),
+            demandOption: true,
+          })
+          .option(networkOption, {
+            describe: 'Name of the network to verify the deployment on.',
+            type: 'string',
+            deprecated: 'Use --networks instead.',
+          })
+          .middleware(replaceDeprecatedNetworkOption, true)
+          .option('merkle-root', {
+            describe:
+              'The Merkle root of the deployment to verify. Defaults to the most recent deployment on each network.',
+            type: 'string',
+          })
+          .check((argv) => {
+            if (argv[networkOption] !== undefined) {
+              throw new Error(NetworkAndNetworksError)
+            }
+            if (
+              argv.merkleRoot !== undefined &&
+              !ethers.isHexString(argv.merkleRoot, 32)
+            ) {
+              throw new Error(InvalidMerkleRootError)
+            }
+            if (
+              argv.networks.includes('testnets') ||
+              argv.networks.includes('mainnets')
+            ) {
+              throw new Error(NetworkGroupsNotSupportedError)
+            }
+            return validateNetworksArg(argv.networks)
+          })
+          .hide('version'),
+      async (argv) => verifyCommandHandler(argv, sphinxContext)
+    )
+    .command(
+      'preview <scriptPath>',
+      `Simulates a script and displays the preview and Merkle root without proposing or deploying it.`,
+      (y) =>
+        y
+          .usage(
+            `Usage: sphinx preview <SCRIPT_PATH> --networks <NETWORK_NAMES...|testnets|mainnets> [options]`
+          )
+          .positional('scriptPath', {
+            describe: 'Path to the Forge script file.',
+            type: 'string',
+            demandOption: true,
+          })
+          .option('networks', {
+            describe:
+              'The networks to simulate on. Can include local networks, e.g. Anvil or a fork.',
+            type: 'array',
+            coerce: (networks: Array<string | number>) => networks.map(String),
+            demandOption: true,
+          })
+          .option('sig', {
+            describe:
+              'The signature of the function to call in the script, or raw calldata',
+            array: true,
+            // Set all array elements to be strings. Necessary to avoid precision loss for large
+            // numbers, which will otherwise occur because Yargs' default behavior is to convert CLI
+            // arguments to numbers when possible.
+            string: true,
+            alias: 's',
+          })
+          .option(targetContractOption, {
+            describe: 'The name of the contract to run in the script.',
+            type: 'string',
+            alias: 'tc',
+          })
+          .option(previewFormatOption, {
+            describe: 'The format of the preview.',
+            choices: PREVIEW_FORMATS,
+            default: 'text' as const,
+          })
+          .option('out', {
+            describe:
+              'Path to write the preview to. Defaults to displaying it in the terminal.',
+            type: 'string',
+          })
+          .option('silent', {
+            describe: 'Silence the output except for error messages.',
+            boolean: true,
+            default: false,
+          })
+          .check((argv) => validateNetworksArg(argv.networks))
+          .hide('version'),
+      async (argv) => previewCommandHandler(argv, sphinxContext)
+    )
+    .command(
+      'export <scriptPath>',
+      `Writes the transactions in a script to a file that can be executed without the Sphinx Module.`,
+      (y) =>
+        y
+          .usage(
+            `Usage: sphinx export <SCRIPT_PATH> --networks <NETWORK_NAMES...|testnets|mainnets> --format safe-tx-builder [options]`
+          )
+          .positional('scriptPath', {
+            describe: 'Path to the Forge script file.',
+            type: 'string',
+            demandOption: true,
+          })
+          .option('networks', {
+            describe: 'The networks to export.',
+            type: 'array',
+            coerce: (networks: Array<string | number>) => networks.map(String),
+            demandOption: true,
+          })
+          .option('format', {
+            describe:
+              'The format of the exported files. Use safe-tx-builder for the Safe{Wallet} Transaction Builder.',
+            choices: EXPORT_FORMATS,
+            demandOption: true,
+          })
+          .option('out-dir', {
+            describe: 'The directory to write a file to for each network.',
+            type: 'string',
+            default: 'sphinx-export',
+          })
+          .option('sig', {
+            describe:
+              'The signature of the function to call in the script, or raw calldata',
+            array: true,
+            // Set all array elements to be strings. Necessary to avoid precision loss for large
+            // numbers, which will otherwise occur because Yargs' default behavior is to convert CLI
+            // arguments to numbers when possible.
+            string: true,
+            alias: 's',
+          })
+          .option(targetContractOption, {
+            describe: 'The name of the contract to run in the script.',
+            type: 'string',
+            alias: 'tc',
+          })
+          .option('silent', {
+            describe: 'Silence the output except for error messages.',
+            boolean: true,
+            default: false,
+          })
+          .check((argv) => validateNetworksArg(argv.networks))
+          .hide('version'),
+      async (argv) => exportCommandHandler(argv, sphinxContext)
+    )
+    .command(
+      'sign <bundle>',
+      `Signs the Merkle root of a deployment bundle with the account specified by the 'PRIVATE_KEY' environment variable, a remote signer, or a keystore.`,
+      (y) =>
+        y
+          .usage(`Usage: sphinx sign <BUNDLE_PATH> [options]`)
+          .positional('bundle', {
+            describe: `Path to a deployment bundle written by 'sphinx export --format bundle' or the '--out' option of 'sphinx propose'.`,
+            type: 'string',
+            demandOption: true,
+          })
+          .option('out', {
+            describe:
+              'Path to write the signature to. Defaults to signature-<SIGNER_ADDRESS>.json.',
+            type: 'string',
+          })
+          .option(confirmOption, {
+            describe:
+              'Confirm the signature without previewing the deployment.',
+            boolean: true,
+            default: false,
+          })
+          .option('silent', {
+            describe: 'Silence the output except for error messages.',
+            boolean: true,
+            default: false,
+          })
+          .option('show-typed-data', {
+            describe:
+              'Display the EIP-712 typed data that is signed and a summary of the deployment.',
+            boolean: true,
+            default: false,
+          })
+          .options(signerOptions)
+          .check((argv) => {
+            if (
+              argv[remoteSignerOption] !== undefined &&
+              argv[keystoreOption] !== undefined
+            ) {
+              throw new Error(RemoteSignerAndKeystoreError)
+            }
+            return true
+          })
+          .hide('version'),
+      async (argv) => signCommandHandler(argv, sphinxContext)
+    )
+    .command(
+      'execute <bundle>',
+      `Executes a deployment bundle using the signatures written by 'sphinx sign'.`,
+      (y) =>
+        y
+          .usage(
+            `Usage: sphinx execute <BUNDLE_PATH> --signatures <SIGNATURE_PATHS...> [options]`
+          )
+          .positional('bundle', {
+            describe: `Path to a deployment bundle written by 'sphinx export --format bundle' or the '--out' option of 'sphinx propose'.`,
+            type: 'string',
+            demandOption: true,
+          })
+          .option('signatures', {
+            describe: `Paths to the signature files written by 'sphinx sign'.`,
+            type: 'array',
+            string: true,
+            demandOption: true,
+          })
+          .option(gasPriceConfigOption, {
+            describe:
+              'Path to a JSON file that contains a gas price strategy for each network, e.g. a max fee cap.',
+            type: 'string',
+          })
+          .option(confirmationTimeoutOption, {
+            describe:
+              'The number of seconds to wait for a transaction to be confirmed before replacing it with higher fees, up to the max fee cap in the gas price config.',
+            type: 'number',
+          })
+          .option(maxCostOption, {
+            describe: `The maximum estimated cost of the deployment on each live network, in the network's native currency, e.g. 0.5 for 0.5 ETH.`,
+            type: 'string',
+          })
+          .option(concurrencyOption, {
+            describe:
+              'The maximum number of networks to execute the deployment on at the same time.',
+            type: 'number',
+            default: 1,
+          })
+          .option(progressFormatOption, {
+            describe:
+              'The format of the execution progress. The json format writes each progress event to stdout as a line of JSON.',
+            choices: PROGRESS_FORMATS,
+            default: 'text' as const,
+          })
+          .options(signerOptions)
+          .option(confirmOption, {
+            describe: 'Confirm the deployment without previewing it.',
+            boolean: true,
+            default: false,
+          })
+          .option('silent', {
+            describe: 'Silence the output except for error messages.',
+            boolean: true,
+            default: false,
+          })
+          .check((argv) => {
+            if (
+              argv[confirmationTimeoutOption] !== undefined &&
+              !(argv[confirmationTimeoutOption] > 0)
+            ) {
+              throw new Error(InvalidConfirmationTimeoutError)
+            }
+            if (
+              argv[maxCostOption] !== undefined &&
+              !isValidMaxCost(argv[maxCostOption])
+            ) {
+              throw new Error(InvalidMaxCostError)
+            }
+            if (
+              !Number.isInteger(argv[concurrencyOption]) ||
+              argv[concurrencyOption] < 1
+            ) {
+              throw new Error(InvalidConcurrencyError)
+            }
+            if (
+              argv[remoteSignerOption] !== undefined &&
+              argv[keystoreOption] !== undefined
+            ) {
+              throw new Error(RemoteSignerAndKeystoreError)
+            }
+            return true
+          })
+          .hide('version'),
+      async (argv) => executeCommandHandler(argv, sphinxContext)
+    )
+    .command('tree', 'Inspects Sphinx Merkle trees.', (y) =>
+      y
+        .command(
+          'inspect <file>',
+          `Decodes every leaf in a Merkle tree, a deployment config, or a deployment bundle, independent of the preview.`,
+          (inspectYargs) =>
+            inspectYargs
+              .usage(`Usage: sphinx tree inspect <FILE_PATH> [options]`)
+              .positional('file', {
+                describe: `Path to a Merkle tree, a deployment config, or a deployment bundle written by 'sphinx export --format bundle'.`,
+                type: 'string',
+                demandOption: true,
+              })
+              .option('config-artifacts', {
+                describe:
+                  'Path to the config artifacts to decode the leaves with. Overrides the config artifacts in a deployment config or a deployment bundle.',
+                type: 'string',
+              })
+              .option('json', {
+                describe: 'Display the leaves as JSON.',
+                boolean: true,
+                default: false,
+              })
+              .hide('version'),
+          async (argv) => treeInspectCommandHandler(argv, sphinxContext)
+        )
+        .demandCommand(1, `Specify a subcommand, e.g. 'sphinx tree inspect'.`)
+        .hide('version')
+    )
     // The following command displays the help menu when `npx sphinx` is called with an incorrect
     // argument, e.g. `npx sphinx asdf`.
     .command('*', '', ({ argv }) => {
@@ -292,12 +925,82 @@ export const makeCLI = (
     .parse()
 }
 
+/**
+ * Replaces the deprecated `--network` option with the `--networks` option. This runs before the
+ * arguments are validated so that `--networks` remains a required option. If both options are
+ * specified, `--network` is left in place so that the command's check can throw an error.
+ */
+const replaceDeprecatedNetworkOption = (argv: {
+  network?: string
+  networks?: Array<string>
+}): void => {
+  if (argv.network === undefined || argv.networks !== undefined) {
+    return
+  }
+
+  console.warn(DeprecatedNetworkOptionWarning)
+  argv.networks = [String(argv.network)]
+  delete argv.network
+}
+
+/**
+ * Validates the network names passed into the `--networks` option. Returns `true` so that it can be
+ * used directly in a Yargs `check` function.
+ */
+const validateNetworksArg = (networks: Array<string>): true => {
+  if (networks.length === 0) {
+    throw new Error(NoNetworkArgsError)
+  }
+
+  if (networks.includes('testnets') && networks.includes('mainnets')) {
+    throw new Error(BothNetworksSpecifiedError)
+  }
+
+  const duplicatedNetworks = getDuplicateElements(networks)
+  if (duplicatedNetworks.length > 0) {
+    throw new Error(getDuplicatedNetworkErrorMessage(duplicatedNetworks))
+  }
+
+  if (
+    networks.length > 1 &&
+    (networks.includes('testnets') || networks.includes('mainnets'))
+  ) {
+    throw new Error(
+      `If you specify 'mainnets' or testnets', you cannot specify any other networks.`
+    )
+  }
+
+  return true
+}
+
+/**
+ * Returns true if the value passed into the `--max-cost` option is a non-negative decimal amount
+ * of a native currency, e.g. '0.5'.
+ */
+const isValidMaxCost = (maxCost: string): boolean => {
+  try {
+    return ethers.parseEther(maxCost) >= BigInt(0)
+  } catch (e) {
+    return false
+  }
+}
+
 const proposeCommandHandler = async (
   argv: ProposeCommandArgs,
   sphinxContext: SphinxContext
 ): Promise<void> => {
-  const { networks, scriptPath, targetContract, silent, dryRun, confirm, sig } =
-    argv
+  const {
+    networks,
+    scriptPath,
+    targetContract,
+    silent,
+    dryRun,
+    confirm,
+    sig,
+    previewFormat,
+    out,
+    appendScript,
+  } = argv
 
   if (dryRun && confirm) {
     // Throw an error because these flags are redundant, which signals user error or a
@@ -324,15 +1027,42 @@ const proposeCommandHandler = async (
     sphinxContext,
     targetContract,
     sig,
+    previewFormat,
+    outFilePath: out,
+    additionalScripts: parseAppendScriptArg(appendScript ?? []),
   })
 }
 
+const getSignerOptions = (argv: SignerCommandArgs): SignerOptions => ({
+  remoteSignerUrl: argv.remoteSigner,
+  remoteSignerApi: argv.remoteSignerApi,
+  remoteSignerAddress: argv.remoteSignerAddress,
+  keystorePath: argv.keystore,
+})
+
 const deployCommandHandler = async (
   argv: DeployCommandArgs,
   sphinxContext: SphinxContext
 ): Promise<void> => {
-  const { network, scriptPath, targetContract, verify, silent, confirm, sig } =
-    argv
+  const {
+    networks,
+    scriptPath,
+    targetContract,
+    verify,
+    silent,
+    confirm,
+    sig,
+    resume,
+    retries,
+    previewFormat,
+    out,
+    gasPriceConfig,
+    confirmationTimeout,
+    maxCost,
+    concurrency,
+    progressFormat,
+    appendScript,
+  } = argv
 
   if (silent && !confirm) {
     // Since the '--silent' option silences the preview, the user must confirm the deployment
@@ -345,13 +1075,204 @@ const deployCommandHandler = async (
 
   await sphinxContext.deploy({
     scriptPath,
-    network,
+    networks,
     skipPreview: confirm,
     silent,
     sphinxContext,
     verify,
     targetContract,
     sig,
+    resume,
+    retries,
+    previewFormat,
+    outFilePath: out,
+    gasPriceConfigPath: gasPriceConfig,
+    confirmationTimeout,
+    maxCost,
+    concurrency,
+    progressFormat,
+    signerOptions: getSignerOptions(argv),
+    additionalScripts: parseAppendScriptArg(appendScript ?? []),
+  })
+}
+
+const cancelCommandHandler = async (
+  argv: CancelCommandArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const {
+    merkleRoot,
+    networks,
+    script,
+    propose,
+    confirm,
+    silent,
+    targetContract,
+  } = argv
+
+  if (silent && !confirm) {
+    // Since the '--silent' option silences the preview, the user must confirm the cancellation
+    // via the CLI flag.
+    console.error(
+      `If you specify '--silent', you must also specify '--${confirmOption}' to confirm the cancellation.`
+    )
+    process.exit(1)
+  }
+
+  await sphinxContext.cancel({
+    merkleRoot,
+    networks,
+    scriptPath: script,
+    confirm,
+    propose,
+    silent,
+    sphinxContext,
+    targetContract,
+  })
+}
+
+const statusCommandHandler = async (
+  argv: StatusCommandArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const { networks, json, merkleRoot, moduleAddress, artifact } = argv
+
+  await sphinxContext.status({
+    networks,
+    json,
+    merkleRoot,
+    moduleAddress,
+    artifactPath: artifact,
+  })
+}
+
+const verifyCommandHandler = async (
+  argv: VerifyCommandArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const { networks, merkleRoot } = argv
+
+  let failed = false
+  for (const network of networks) {
+    const { contracts } = await sphinxContext.verify({ network, merkleRoot })
+    if (contracts.some(({ status }) => status === 'failed')) {
+      failed = true
+    }
+  }
+
+  if (failed) {
+    process.exit(1)
+  }
+}
+
+const previewCommandHandler = async (
+  argv: PreviewCommandArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const {
+    scriptPath,
+    networks,
+    silent,
+    previewFormat,
+    out,
+    targetContract,
+    sig,
+  } = argv
+
+  await sphinxContext.preview({
+    scriptPath,
+    networks,
+    silent,
+    sphinxContext,
+    targetContract,
+    sig,
+    previewFormat,
+    outFilePath: out,
+  })
+}
+
+const exportCommandHandler = async (
+  argv: ExportCommandArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const { scriptPath, networks, format, outDir, silent, targetContract, sig } =
+    argv
+
+  await sphinxContext.exportDeployment({
+    scriptPath,
+    networks,
+    format,
+    outDir,
+    silent,
+    sphinxContext,
+    targetContract,
+    sig,
+  })
+}
+
+const signCommandHandler = async (
+  argv: SignCommandArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const { bundle, out, confirm, silent, showTypedData } = argv
+
+  if (silent && !confirm) {
+    // Since the '--silent' option silences the preview, the user must confirm the signature via
+    // the CLI flag.
+    console.error(
+      `If you specify '--silent', you must also specify '--${confirmOption}' to confirm the signature.`
+    )
+    process.exit(1)
+  }
+
+  await sphinxContext.sign({
+    bundlePath: bundle,
+    outFilePath: out,
+    confirm,
+    silent,
+    sphinxContext,
+    signerOptions: getSignerOptions(argv),
+    showTypedData,
+  })
+}
+
+const executeCommandHandler = async (
+  argv: ExecuteCommandArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const {
+    bundle,
+    signatures,
+    confirm,
+    silent,
+    gasPriceConfig,
+    confirmationTimeout,
+    maxCost,
+    concurrency,
+    progressFormat,
+  } = argv
+
+  if (silent && !confirm) {
+    // Since the '--silent' option silences the preview, the user must confirm the deployment via
+    // the CLI flag.
+    console.error(
+      `If you specify '--silent', you must also specify '--${confirmOption}' to confirm the deployment.`
+    )
+    process.exit(1)
+  }
+
+  await sphinxContext.execute({
+    bundlePath: bundle,
+    signaturePaths: signatures,
+    confirm,
+    silent,
+    sphinxContext,
+    gasPriceConfigPath: gasPriceConfig,
+    confirmationTimeout,
+    maxCost,
+    concurrency,
+    progressFormat,
+    signerOptions: getSignerOptions(argv),
   })
 }
 
@@ -369,3 +1290,25 @@ const artifactsCommandHandler = async (
 
   sphinxContext.fetchRemoteArtifacts({ apiKey, orgId, projectName, silent })
 }
+
+const artifactsRecoverCommandHandler = async (
+  argv: RecoverArtifactsArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const { networks, silent } = argv
+
+  await sphinxContext.recoverArtifacts({ networks, silent })
+}
+
+const treeInspectCommandHandler = async (
+  argv: TreeInspectCommandArgs,
+  sphinxContext: SphinxContext
+): Promise<void> => {
+  const { file, json, configArtifacts } = argv
+
+  await sphinxContext.inspectTree({
+    filePath: file,
+    json,
+    configArtifactsFilePath: configArtifacts,
+  })
+}
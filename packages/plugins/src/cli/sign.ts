@@ -0,0 +1,183 @@
+import { readFileSync, writeFileSync } from 'fs'
+
+import {
+  NetworkConfig,
+  fetchNameForNetwork,
+  getMerkleRootTypedData,
+  getMerkleRootTypedDataHash,
+  getPreview,
+  getPreviewString,
+  recoverMerkleRootSigner,
+  signMerkleRoot,
+} from '@sphinx-labs/core'
+import { bold } from 'chalk'
+import ora from 'ora'
+
+import { SphinxContext } from './context'
+import { readDeploymentBundle } from './bundle'
+import { getBundleTreeString } from './tree'
+import { SignerOptions, getSigner } from './signer'
+
+/**
+ * @param bundlePath The path to the deployment bundle to sign.
+ * @param outFilePath The path to write the signature to. Defaults to
+ * `signature-<SIGNER_ADDRESS>.json`.
+ * @param confirm If true, the Merkle root will be signed without asking for confirmation.
+ * @param signerOptions The account that signs the Merkle root. Defaults to the account specified by
+ * the `PRIVATE_KEY` environment variable.
+ * @param showTypedData If true, the EIP-712 typed data of the Merkle root and a summary of the
+ * deployment are displayed after the preview.
+ */
+export interface SignArgs {
+  bundlePath: string
+  confirm: boolean
+  silent: boolean
+  sphinxContext: SphinxContext
+  outFilePath?: string
+  signerOptions?: SignerOptions
+  showTypedData?: boolean
+}
+
+/**
+ * @notice A Gnosis Safe owner's signature on the Merkle root of a deployment bundle. This is the
+ * format of the files written by `sphinx sign` and read by `sphinx execute`.
+ */
+export type SignatureFile = {
+  merkleRoot: string
+  signer: string
+  signature: string
+}
+
+/**
+ * Displays the preview for a deployment bundle, then signs its Merkle root with the account
+ * specified by the signer options. This allows the Gnosis Safe owners to sign a
+ * deployment asynchronously without the DevOps Platform.
+ */
+export const sign = async (args: SignArgs): Promise<SignatureFile> => {
+  const { bundlePath, confirm, silent, sphinxContext } = args
+
+  const signer = await getSigner(args.signerOptions ?? {}, sphinxContext)
+  const signerAddress = await signer.getAddress()
+
+  const { deploymentConfig, merkleTree } = readDeploymentBundle(bundlePath)
+  const { networkConfigs } = deploymentConfig
+
+  const { owners } = networkConfigs[0].newConfig
+  if (
+    !owners.some((owner) => owner.toLowerCase() === signerAddress.toLowerCase())
+  ) {
+    throw new Error(
+      `The account ${signerAddress} isn't an owner of the Gnosis Safe in this deployment.\n` +
+        `Owners:\n` +
+        owners.join('\n')
+    )
+  }
+
+  const preview = getPreview(networkConfigs, merkleTree.root)
+  let previewString = getPreviewString(preview, false)
+  previewString += getBundleTreeString(
+    merkleTree,
+    deploymentConfig.configArtifacts
+  )
+  if (args.showTypedData) {
+    previewString += `${getTypedDataString(
+      merkleTree.root,
+      networkConfigs
+    )}\n\n`
+  }
+
+  if (confirm) {
+    if (!silent) {
+      console.log(previewString)
+    }
+  } else {
+    await sphinxContext.prompt(`${previewString}Confirm? [y/n]`)
+  }
+
+  const spinner = ora({ isSilent: silent })
+  spinner.start(`Signing Merkle root...`)
+
+  const signatureFile: SignatureFile = {
+    merkleRoot: merkleTree.root,
+    signer: signerAddress,
+    signature: await signMerkleRoot(merkleTree.root, signer),
+  }
+
+  const outFilePath =
+    args.outFilePath ?? `signature-${signatureFile.signer}.json`
+  writeFileSync(outFilePath, JSON.stringify(signatureFile, null, 2))
+
+  spinner.succeed(`Wrote signature to: ${outFilePath}`)
+
+  return signatureFile
+}
+
+/**
+ * Returns the EIP-712 typed data that's signed for a Merkle root, followed by a summary of the
+ * deployment that the Merkle root approves. Signers can compare the typed data and its hash to what
+ * their wallet displays, and the summary to the preview.
+ */
+export const getTypedDataString = (
+  merkleRoot: string,
+  networkConfigs: Array<NetworkConfig>
+): string => {
+  const lines = [
+    bold.underline(`EIP-712 Typed Data:`),
+    JSON.stringify(getMerkleRootTypedData(merkleRoot), null, 2),
+    `${bold(`EIP-712 Hash:`)} ${getMerkleRootTypedDataHash(merkleRoot)}`,
+    '',
+    bold.underline(`Summary:`),
+    `Merkle Root: ${merkleRoot}`,
+    `Gnosis Safe: ${networkConfigs[0].safeAddress}`,
+  ]
+
+  if (networkConfigs.some(({ arbitraryChain }) => arbitraryChain)) {
+    lines.push(`Chains (can also be executed on any other chain):`)
+  } else {
+    lines.push(`Chains:`)
+  }
+  for (const { chainId, actionInputs } of networkConfigs) {
+    // Networks without any actions don't have leaves in the Merkle tree.
+    if (actionInputs.length > 0) {
+      const numActions =
+        actionInputs.length === 1
+          ? `1 action`
+          : `${actionInputs.length} actions`
+      lines.push(
+        `- ${fetchNameForNetwork(BigInt(chainId))} (${chainId}): ${numActions}`
+      )
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Reads a signature file written by `sphinx sign` and checks that its signature is valid for the
+ * given Merkle root.
+ */
+export const readSignatureFile = (
+  filePath: string,
+  merkleRoot: string
+): SignatureFile => {
+  const signatureFile: SignatureFile = JSON.parse(
+    readFileSync(filePath, 'utf-8')
+  )
+
+  if (signatureFile.merkleRoot !== merkleRoot) {
+    throw new Error(
+      `The signature in ${filePath} is for a different Merkle root.\n` +
+        `Expected: ${merkleRoot}\n` +
+        `Actual: ${signatureFile.merkleRoot}`
+    )
+  }
+
+  const recovered = recoverMerkleRootSigner(merkleRoot, signatureFile.signature)
+  if (recovered.toLowerCase() !== signatureFile.signer.toLowerCase()) {
+    throw new Error(
+      `The signature in ${filePath} wasn't signed by ${signatureFile.signer}.`
+    )
+  }
+
+  return signatureFile
+}
@@ -0,0 +1,68 @@
+import { RemoteSignerApi, SignerConfig, makeSigner } from '@sphinx-labs/core'
+import { ethers } from 'ethers'
+
+import { SphinxContext } from './context'
+
+/**
+ * @notice The CLI options that select the account that signs the Merkle root and sends the
+ * transactions. If neither a remote signer nor a keystore is specified, we use the `PRIVATE_KEY`
+ * environment variable.
+ *
+ * @field remoteSignerUrl     The URL of an external JSON-RPC signer, e.g. Clef or Web3Signer.
+ * @field remoteSignerApi     The JSON-RPC methods that the remote signer supports. Defaults to 'eth'.
+ * @field remoteSignerAddress The address of the account in the remote signer. Only necessary if the
+ * remote signer has more than one account.
+ * @field keystorePath        The path to an encrypted JSON keystore file. The password is read from
+ * the `SPHINX_KEYSTORE_PASSWORD` environment variable if it's defined. Otherwise, the user is
+ * prompted for it.
+ */
+export type SignerOptions = {
+  remoteSignerUrl?: string
+  remoteSignerApi?: RemoteSignerApi
+  remoteSignerAddress?: string
+  keystorePath?: string
+}
+
+export const getSignerConfig = async (
+  signerOptions: SignerOptions,
+  sphinxContext: SphinxContext
+): Promise<SignerConfig> => {
+  const { remoteSignerUrl, remoteSignerAddress, keystorePath } = signerOptions
+
+  if (remoteSignerUrl !== undefined && keystorePath !== undefined) {
+    throw new Error(`You cannot specify both a remote signer and a keystore.`)
+  }
+
+  if (remoteSignerUrl !== undefined) {
+    return {
+      type: 'remote',
+      url: remoteSignerUrl,
+      api: signerOptions.remoteSignerApi ?? 'eth',
+      address: remoteSignerAddress,
+    }
+  }
+
+  if (keystorePath !== undefined) {
+    const password =
+      process.env.SPHINX_KEYSTORE_PASSWORD ??
+      (await sphinxContext.promptPassword(
+        `Enter the password for ${keystorePath}: `
+      ))
+    return { type: 'keystore', path: keystorePath, password }
+  }
+
+  const privateKey = process.env.PRIVATE_KEY
+  if (!privateKey) {
+    throw new Error(`Could not find 'PRIVATE_KEY' environment variable.`)
+  }
+  return { type: 'privateKey', privateKey }
+}
+
+/**
+ * @notice Returns the signer selected by the CLI options. The signer isn't connected to a provider.
+ */
+export const getSigner = async (
+  signerOptions: SignerOptions,
+  sphinxContext: SphinxContext
+): Promise<ethers.Signer> =>
+  makeSigner(await getSignerConfig(signerOptions, sphinxContext))
@@ -0,0 +1,137 @@
+import { readFileSync } from 'fs'
+
+import {
+  SphinxJsonRpcProvider,
+  fetchMerkleRootState,
+  isExecutionArtifact,
+  stringifyMerkleRootStatus,
+} from '@sphinx-labs/core'
+
+import { getFoundryToml } from '../foundry/options'
+import { getRpcUrls } from '../foundry/utils'
+
+/**
+ * @param merkleRoot The Merkle root to query. Must be undefined if `artifactPath` is defined.
+ * @param moduleAddress The address of the `SphinxModuleProxy`. Must be undefined if `artifactPath`
+ * is defined.
+ * @param artifactPath The path to an execution artifact. If this is defined, the Merkle root and
+ * `SphinxModuleProxy` address are read from the artifact.
+ * @param json If true, the status will be logged as JSON instead of a table.
+ */
+export interface StatusArgs {
+  networks: Array<string>
+  json: boolean
+  merkleRoot?: string
+  moduleAddress?: string
+  artifactPath?: string
+}
+
+/**
+ * @notice The state of a Merkle root on a single network. All of the fields are strings so that
+ * this object can be serialized to JSON.
+ *
+ * @field isModuleDeployed Whether the `SphinxModuleProxy` has been deployed on the network. If
+ * it hasn't, the Merkle root's status is `EMPTY`.
+ * @field isActive         Whether the Merkle root is the active Merkle root in the
+ * `SphinxModuleProxy`, i.e. whether it's been approved but not completed, canceled, or failed.
+ */
+export type NetworkMerkleRootStatus = {
+  network: string
+  chainId: string
+  status: string
+  leavesExecuted: string
+  numLeaves: string
+  executor: string
+  uri: string
+  isModuleDeployed: boolean
+  isActive: boolean
+}
+
+export const status = async (
+  args: StatusArgs
+): Promise<{
+  merkleRoot: string
+  moduleAddress: string
+  networks: Array<NetworkMerkleRootStatus>
+}> => {
+  const { networks, json, artifactPath } = args
+
+  let merkleRoot: string
+  let moduleAddress: string
+  if (artifactPath) {
+    const artifact = JSON.parse(readFileSync(artifactPath, 'utf-8'))
+    if (!isExecutionArtifact(artifact)) {
+      throw new Error(`File is not a valid execution artifact: ${artifactPath}`)
+    }
+    ;({ merkleRoot, moduleAddress } = artifact)
+  } else if (args.merkleRoot && args.moduleAddress) {
+    merkleRoot = args.merkleRoot
+    moduleAddress = args.moduleAddress
+  } else {
+    throw new Error(
+      `Must specify either an execution artifact or a Merkle root and SphinxModuleProxy address.`
+    )
+  }
+
+  const foundryToml = await getFoundryToml()
+  const rpcUrls = getRpcUrls(networks, foundryToml.rpcEndpoints)
+
+  const statuses = await Promise.all(
+    networks.map(async (network, i) => {
+      const provider = new SphinxJsonRpcProvider(rpcUrls[i])
+      const [{ chainId }, fetched] = await Promise.all([
+        provider.getNetwork(),
+        fetchMerkleRootState(moduleAddress, merkleRoot, provider),
+      ])
+
+      const networkStatus: NetworkMerkleRootStatus = fetched
+        ? {
+            network,
+            chainId: chainId.toString(),
+            status: stringifyMerkleRootStatus(fetched.merkleRootState.status),
+            leavesExecuted: fetched.merkleRootState.leavesExecuted.toString(),
+            numLeaves: fetched.merkleRootState.numLeaves.toString(),
+            executor: fetched.merkleRootState.executor,
+            uri: fetched.merkleRootState.uri,
+            isModuleDeployed: true,
+            isActive:
+              fetched.activeMerkleRoot.toLowerCase() ===
+              merkleRoot.toLowerCase(),
+          }
+        : {
+            network,
+            chainId: chainId.toString(),
+            status: 'EMPTY',
+            leavesExecuted: '0',
+            numLeaves: '0',
+            executor: '',
+            uri: '',
+            isModuleDeployed: false,
+            isActive: false,
+          }
+      return networkStatus
+    })
+  )
+
+  if (json) {
+    console.log(
+      JSON.stringify({ merkleRoot, moduleAddress, networks: statuses }, null, 2)
+    )
+  } else {
+    console.log(`Merkle Root: ${merkleRoot}`)
+    console.log(`SphinxModuleProxy: ${moduleAddress}`)
+    const table = {}
+    for (const networkStatus of statuses) {
+      table[networkStatus.network] = {
+        Status: networkStatus.status,
+        'Leaves Executed': `${networkStatus.leavesExecuted}/${networkStatus.numLeaves}`,
+        Executor: networkStatus.executor,
+        URI: networkStatus.uri,
+        Active: networkStatus.isActive,
+      }
+    }
+    console.table(table)
+  }
+
+  return { merkleRoot, moduleAddress, networks: statuses }
+}
@@ -0,0 +1,569 @@
+import { readFileSync } from 'fs'
+
+import {
+  ConfigArtifacts,
+  ParsedVariable,
+  decodeCall,
+  fetchNameForNetwork,
+  prettyFunctionCall,
+  toSphinxLeafWithProofArray,
+} from '@sphinx-labs/core'
+import {
+  CreateCallArtifact,
+  DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
+  GnosisSafeArtifact,
+  MultiSendArtifact,
+  Operation,
+  SphinxLeaf,
+  SphinxLeafType,
+  SphinxMerkleTree,
+  SphinxModuleArtifact,
+  decodeApproveLeafData,
+  decodeCancelLeafData,
+  decodeExecuteLeafData,
+  getCreateCallAddress,
+  getGnosisSafeProxyFactoryAddress,
+  getMultiSendAddress,
+  getSphinxModuleProxyFactoryAddress,
+  verifySphinxMerkleTree,
+} from '@sphinx-labs/contracts'
+import { bold, green, red, yellow } from 'chalk'
+import { ethers } from 'ethers'
+
+import { DEPLOYMENT_BUNDLE_FORMAT, readDeploymentBundle } from './bundle'
+import { findFullyQualifiedNameForInitCode } from '../foundry/utils'
+
+/**
+ * @param filePath                A Merkle tree, a deployment config, or a deployment bundle.
+ * @param configArtifactsFilePath The config artifacts to decode the leaves with. Overrides the config
+ * artifacts in a deployment config or a deployment bundle.
+ * @param json                    If true, the inspection is logged as JSON instead of text.
+ */
+export interface InspectTreeArgs {
+  filePath: string
+  json: boolean
+  configArtifactsFilePath?: string
+}
+
+export type InspectedApproveLeaf = {
+  leafType: 'APPROVE'
+  index: string
+  safeProxy: string
+  moduleProxy: string
+  merkleRootNonce: string
+  numLeaves: string
+  executor: string
+  uri: string
+  arbitraryChain: boolean
+}
+
+export type InspectedCancelLeaf = {
+  leafType: 'CANCEL'
+  index: string
+  safeProxy: string
+  moduleProxy: string
+  merkleRootNonce: string
+  merkleRootToCancel: string
+  executor: string
+  uri: string
+}
+
+/**
+ * @notice A decoded `EXECUTE` leaf. All of the fields are decoded from the leaf itself. The config
+ * artifacts are only used to label the leaf.
+ *
+ * @field contractName The name of the contract at the `to` address, or null if it's unknown. This is
+ * known if the contract is a Sphinx or Gnosis Safe contract, or if it was deployed by a previous
+ * leaf on the same chain.
+ * @field call         The decoded function call, or null if the calldata couldn't be decoded using
+ * the ABIs in the config artifacts.
+ * @field deployment   The contract that's deployed by the leaf, or null if the leaf doesn't deploy a
+ * contract. The `fullyQualifiedName` is null if the init code isn't in the config artifacts. The
+ * `address` is null for `CREATE` deployments because it depends on the Gnosis Safe's nonce.
+ */
+export type InspectedExecuteLeaf = {
+  leafType: 'EXECUTE'
+  index: string
+  to: string
+  contractName: string | null
+  value: string
+  gas: string
+  operation: 'Call' | 'DelegateCall'
+  requireSuccess: boolean
+  data: string
+  call: { functionName: string; variables: ParsedVariable } | null
+  deployment: {
+    kind: 'CREATE' | 'CREATE2'
+    fullyQualifiedName: string | null
+    address: string | null
+  } | null
+}
+
+/**
+ * @notice A leaf that couldn't be decoded, e.g. because its leaf type is unknown or its data is
+ * malformed. We still include it in the inspection so that the rest of the tree can be displayed.
+ *
+ * @field rawLeafType The leaf type as a decimal string.
+ * @field data        The leaf's raw data.
+ * @field error       The error that was thrown while decoding the leaf.
+ */
+export type InspectedUndecodableLeaf = {
+  leafType: 'UNDECODABLE'
+  index: string
+  rawLeafType: string
+  data: string
+  error: string
+}
+
+export type InspectedLeaf =
+  | InspectedApproveLeaf
+  | InspectedCancelLeaf
+  | InspectedExecuteLeaf
+  | InspectedUndecodableLeaf
+
+/**
+ * @field network The name of the network, or null if Sphinx doesn't support it. This is also null
+ * if the chain ID is 0, which is used by `APPROVE` leaves where `arbitraryChain` is true.
+ */
+export type InspectedChain = {
+  chainId: string
+  network: string | null
+  leaves: Array<InspectedLeaf>
+}
+
+/**
+ * @notice A human-readable representation of every leaf in a Sphinx Merkle tree. All of the fields
+ * are strings, booleans, or null so that this object can be serialized to JSON.
+ *
+ * @field verificationError The error thrown by `verifySphinxMerkleTree`, or null if the tree is
+ * valid.
+ */
+export type TreeInspection = {
+  merkleRoot: string
+  verificationError: string | null
+  chains: Array<InspectedChain>
+}
+
+type ContractLabel = {
+  contractName: string
+  abi?: ethers.InterfaceAbi
+}
+
+/**
+ * @notice Reads a Merkle tree and the config artifacts used to decode it. The file can be a
+ * deployment bundle, a deployment config, or a Merkle tree.
+ */
+export const readTreeFile = (
+  filePath: string,
+  configArtifactsFilePath?: string
+): { merkleTree: SphinxMerkleTree; configArtifacts: ConfigArtifacts } => {
+  const parsed = JSON.parse(readFileSync(filePath, 'utf-8'))
+
+  let merkleTree: SphinxMerkleTree
+  let configArtifacts: ConfigArtifacts = {}
+  if (parsed.format === DEPLOYMENT_BUNDLE_FORMAT) {
+    const bundle = readDeploymentBundle(filePath)
+    merkleTree = bundle.merkleTree
+    configArtifacts = bundle.deploymentConfig.configArtifacts
+  } else if (parsed.merkleTree && parsed.configArtifacts) {
+    merkleTree = parsed.merkleTree
+    configArtifacts = parsed.configArtifacts
+  } else if (parsed.root && Array.isArray(parsed.leavesWithProofs)) {
+    merkleTree = parsed
+  } else {
+    throw new Error(
+      `File is not a Merkle tree, deployment config, or deployment bundle: ${filePath}`
+    )
+  }
+
+  if (configArtifactsFilePath) {
+    configArtifacts = JSON.parse(readFileSync(configArtifactsFilePath, 'utf-8'))
+  }
+
+  return {
+    merkleTree: {
+      root: merkleTree.root,
+      // The leaves' chain IDs and indexes are strings after the tree is parsed from JSON.
+      leavesWithProofs: toSphinxLeafWithProofArray(merkleTree.leavesWithProofs),
+    },
+    configArtifacts,
+  }
+}
+
+/**
+ * @notice Decodes every leaf in a Merkle tree. This doesn't use the network configs or the preview,
+ * so it shows exactly what the Merkle root commits to. The leaves are grouped by chain and sorted
+ * by their index.
+ */
+export const inspectSphinxMerkleTree = (
+  merkleTree: SphinxMerkleTree,
+  configArtifacts: ConfigArtifacts
+): TreeInspection => {
+  let verificationError: string | null = null
+  try {
+    verifySphinxMerkleTree(merkleTree)
+  } catch (e) {
+    verificationError = e.message
+  }
+
+  const leavesByChain: Record<string, Array<SphinxLeaf>> = {}
+  for (const { leaf } of merkleTree.leavesWithProofs) {
+    const chainId = leaf.chainId.toString()
+    leavesByChain[chainId] = [...(leavesByChain[chainId] ?? []), leaf]
+  }
+
+  const chains = Object.entries(leavesByChain)
+    .sort(([a], [b]) => (BigInt(a) < BigInt(b) ? -1 : 1))
+    .map(([chainId, leaves]): InspectedChain => {
+      const labels = getSystemContractLabels()
+      const inspected = [...leaves]
+        .sort((a, b) => (a.index < b.index ? -1 : a.index > b.index ? 1 : 0))
+        .map((leaf) => inspectLeaf(leaf, labels, configArtifacts))
+
+      return {
+        chainId,
+        network: getNetworkName(BigInt(chainId)),
+        leaves: inspected,
+      }
+    })
+
+  return { merkleRoot: merkleTree.root, verificationError, chains }
+}
+
+export const getTreeInspectionString = (inspection: TreeInspection): string => {
+  const lines: Array<string> = []
+
+  lines.push(`${bold('Merkle Root:')} ${inspection.merkleRoot}`)
+  if (inspection.verificationError === null) {
+    lines.push(`${bold('Verification:')} ${green('Valid')}`)
+  } else {
+    lines.push(`${bold('Verification:')} ${red(inspection.verificationError)}`)
+  }
+
+  for (const { chainId, network, leaves } of inspection.chains) {
+    lines.push('')
+    lines.push(
+      bold.underline(
+        network ? `Chain ID ${chainId} (${network})` : `Chain ID ${chainId}`
+      )
+    )
+
+    for (const leaf of leaves) {
+      if (leaf.leafType === 'APPROVE') {
+        lines.push(`${leaf.index}. ${bold('APPROVE')}`)
+        lines.push(`   Gnosis Safe: ${leaf.safeProxy}`)
+        lines.push(`   Sphinx Module: ${leaf.moduleProxy}`)
+        lines.push(`   Merkle Root Nonce: ${leaf.merkleRootNonce}`)
+        lines.push(`   Number of Leaves: ${leaf.numLeaves}`)
+        lines.push(`   Executor: ${leaf.executor}`)
+        lines.push(`   URI: ${leaf.uri}`)
+        lines.push(
+          leaf.arbitraryChain
+            ? red.bold(
+                `   Arbitrary Chain: true. This deployment can be executed on any chain.`
+              )
+            : `   Arbitrary Chain: false`
+        )
+      } else if (leaf.leafType === 'UNDECODABLE') {
+        lines.push(
+          `${leaf.index}. ${red.bold('UNDECODABLE')} (leaf type ${
+            leaf.rawLeafType
+          })`
+        )
+        lines.push(red(`   Error: ${leaf.error}`))
+        lines.push(`   Data: ${leaf.data}`)
+      } else if (leaf.leafType === 'CANCEL') {
+        lines.push(`${leaf.index}. ${bold('CANCEL')}`)
+        lines.push(`   Gnosis Safe: ${leaf.safeProxy}`)
+        lines.push(`   Sphinx Module: ${leaf.moduleProxy}`)
+        lines.push(`   Merkle Root Nonce: ${leaf.merkleRootNonce}`)
+        lines.push(`   Merkle Root to Cancel: ${leaf.merkleRootToCancel}`)
+        lines.push(`   Executor: ${leaf.executor}`)
+        lines.push(`   URI: ${leaf.uri}`)
+      } else {
+        const operation =
+          leaf.operation === 'DelegateCall'
+            ? yellow.bold('DelegateCall')
+            : leaf.operation
+        lines.push(`${leaf.index}. ${bold('EXECUTE')} (${operation})`)
+        lines.push(`   Action: ${getExecuteLeafActionString(leaf, chainId)}`)
+        lines.push(
+          leaf.contractName
+            ? `   To: ${leaf.to} (${leaf.contractName})`
+            : `   To: ${leaf.to}`
+        )
+        lines.push(`   Value: ${ethers.formatEther(leaf.value)} ether`)
+        lines.push(`   Gas: ${leaf.gas}`)
+        lines.push(`   Require Success: ${leaf.requireSuccess}`)
+        if (leaf.operation === 'DelegateCall') {
+          lines.push(
+            yellow(
+              `   Warning: This leaf is executed via DELEGATECALL, so the target runs in the context of the Gnosis Safe.`
+            )
+          )
+        }
+      }
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * @notice Returns the decoded leaves of a deployment bundle's Merkle tree, which are displayed after
+ * the bundle's preview. The labels in the preview are read from the bundle's network configs, which
+ * the Merkle root doesn't commit to, so a modified bundle could display a misleading preview. The
+ * decoded leaves are derived from the Merkle tree, so they show exactly what the Merkle root approves.
+ */
+export const getBundleTreeString = (
+  merkleTree: SphinxMerkleTree,
+  configArtifacts: ConfigArtifacts
+): string =>
+  `${bold.underline('Merkle Tree Leaves:')}\n` +
+  `${getTreeInspectionString(
+    inspectSphinxMerkleTree(merkleTree, configArtifacts)
+  )}\n\n`
+
+/**
+ * @notice Decodes every leaf in a Merkle tree, a deployment config, or a deployment bundle and logs
+ * them.
+ */
+export const inspectTree = async (
+  args: InspectTreeArgs
+): Promise<TreeInspection> => {
+  const { filePath, json, configArtifactsFilePath } = args
+
+  const { merkleTree, configArtifacts } = readTreeFile(
+    filePath,
+    configArtifactsFilePath
+  )
+  const inspection = inspectSphinxMerkleTree(merkleTree, configArtifacts)
+
+  if (json) {
+    console.log(JSON.stringify(inspection, null, 2))
+  } else {
+    console.log(getTreeInspectionString(inspection))
+  }
+
+  return inspection
+}
+
+const getExecuteLeafActionString = (
+  leaf: InspectedExecuteLeaf,
+  chainId: string
+): string => {
+  const { deployment, call, contractName, to, value, data } = leaf
+  if (deployment) {
+    const name = deployment.fullyQualifiedName ?? 'unknown contract'
+    const address = deployment.address ? ` at ${deployment.address}` : ''
+    return `Deploy ${name}${address} using ${deployment.kind}`
+  } else if (call) {
+    return prettyFunctionCall(
+      contractName ?? to,
+      to,
+      call.functionName,
+      call.variables,
+      chainId,
+      value,
+      5,
+      3
+    )
+  } else if (ethers.dataLength(data) === 0) {
+    return `Transfer ${ethers.formatEther(value)} ether`
+  }
+  return `Unknown function call`
+}
+
+const getNetworkName = (chainId: bigint): string | null => {
+  try {
+    return fetchNameForNetwork(chainId)
+  } catch (e) {
+    return null
+  }
+}
+
+const getSystemContractLabels = (): Record<string, ContractLabel> => ({
+  [DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS.toLowerCase()]: {
+    contractName: 'DeterministicDeploymentProxy',
+  },
+  [getCreateCallAddress().toLowerCase()]: {
+    contractName: 'CreateCall',
+    abi: CreateCallArtifact.abi,
+  },
+  [getMultiSendAddress().toLowerCase()]: {
+    contractName: 'MultiSend',
+    abi: MultiSendArtifact.abi,
+  },
+  [getGnosisSafeProxyFactoryAddress().toLowerCase()]: {
+    contractName: 'GnosisSafeProxyFactory',
+  },
+  [getSphinxModuleProxyFactoryAddress().toLowerCase()]: {
+    contractName: 'SphinxModuleProxyFactory',
+  },
+})
+
+/**
+ * @notice Decodes a leaf. The `labels` are updated with the Gnosis Safe and Sphinx Module in an
+ * `APPROVE` or `CANCEL` leaf, and with the contracts that are deployed by an `EXECUTE` leaf, so the
+ * leaves on a chain must be inspected in order. If the leaf can't be decoded, it's returned as an
+ * `UNDECODABLE` leaf that contains its raw data.
+ */
+const inspectLeaf = (
+  leaf: SphinxLeaf,
+  labels: Record<string, ContractLabel>,
+  configArtifacts: ConfigArtifacts
+): InspectedLeaf => {
+  try {
+    return decodeLeaf(leaf, labels, configArtifacts)
+  } catch (e) {
+    return {
+      leafType: 'UNDECODABLE',
+      index: String(leaf.index),
+      rawLeafType: String(leaf.leafType),
+      data: leaf.data,
+      error: e instanceof Error ? e.message : String(e),
+    }
+  }
+}
+
+const decodeLeaf = (
+  leaf: SphinxLeaf,
+  labels: Record<string, ContractLabel>,
+  configArtifacts: ConfigArtifacts
+): InspectedLeaf => {
+  const index = leaf.index.toString()
+
+  if (leaf.leafType === SphinxLeafType.APPROVE) {
+    const decoded = decodeApproveLeafData(leaf)
+    labelSafeAndModule(labels, decoded.safeProxy, decoded.moduleProxy)
+    return {
+      leafType: 'APPROVE',
+      index,
+      safeProxy: decoded.safeProxy,
+      moduleProxy: decoded.moduleProxy,
+      merkleRootNonce: decoded.merkleRootNonce.toString(),
+      numLeaves: decoded.numLeaves.toString(),
+      executor: decoded.executor,
+      uri: decoded.uri,
+      arbitraryChain: decoded.arbitraryChain,
+    }
+  } else if (leaf.leafType === SphinxLeafType.CANCEL) {
+    const decoded = decodeCancelLeafData(leaf)
+    labelSafeAndModule(labels, decoded.safeProxy, decoded.moduleProxy)
+    return {
+      leafType: 'CANCEL',
+      index,
+      safeProxy: decoded.safeProxy,
+      moduleProxy: decoded.moduleProxy,
+      merkleRootNonce: decoded.merkleRootNonce.toString(),
+      merkleRootToCancel: decoded.merkleRootToCancel,
+      executor: decoded.executor,
+      uri: decoded.uri,
+    }
+  } else if (leaf.leafType !== SphinxLeafType.EXECUTE) {
+    throw new Error(`Unknown leaf type: ${leaf.leafType}`)
+  }
+
+  const { to, value, gas, txData, operation, requireSuccess } =
+    decodeExecuteLeafData(leaf)
+  const label = labels[to.toLowerCase()]
+  const deployment = decodeDeployment(to, txData, labels, configArtifacts)
+
+  let call: InspectedExecuteLeaf['call'] = null
+  if (!deployment) {
+    const abis = label?.abi
+      ? [label.abi]
+      : Object.values(configArtifacts).map(({ artifact }) => artifact.abi)
+    for (const abi of abis) {
+      const decoded = decodeCall(new ethers.Interface(abi), txData)
+      if (decoded) {
+        call = {
+          functionName: decoded.functionName,
+          variables: decoded.variables,
+        }
+        break
+      }
+    }
+  }
+
+  return {
+    leafType: 'EXECUTE',
+    index,
+    to,
+    contractName: label?.contractName ?? null,
+    value: value.toString(),
+    gas: gas.toString(),
+    operation:
+      Number(operation) === Operation.DelegateCall ? 'DelegateCall' : 'Call',
+    requireSuccess,
+    data: txData,
+    call,
+    deployment,
+  }
+}
+
+const labelSafeAndModule = (
+  labels: Record<string, ContractLabel>,
+  safeProxy: string,
+  moduleProxy: string
+): void => {
+  labels[safeProxy.toLowerCase()] = {
+    contractName: 'GnosisSafe',
+    abi: GnosisSafeArtifact.abi,
+  }
+  labels[moduleProxy.toLowerCase()] = {
+    contractName: 'SphinxModuleProxy',
+    abi: SphinxModuleArtifact.abi,
+  }
+}
+
+/**
+ * @notice Decodes a contract deployment, which is either a `CREATE2` deployment via the
+ * Deterministic Deployment Proxy, or a `CREATE` deployment via Gnosis Safe's `CreateCall` contract.
+ * Returns null if the leaf doesn't deploy a contract. The deployed contract is added to the
+ * `labels`.
+ */
+const decodeDeployment = (
+  to: string,
+  txData: string,
+  labels: Record<string, ContractLabel>,
+  configArtifacts: ConfigArtifacts
+): InspectedExecuteLeaf['deployment'] => {
+  let initCodeWithArgs: string
+  let address: string | null = null
+  let kind: 'CREATE' | 'CREATE2'
+  if (
+    to.toLowerCase() === DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS.toLowerCase() &&
+    ethers.dataLength(txData) > 32
+  ) {
+    const salt = ethers.dataSlice(txData, 0, 32)
+    initCodeWithArgs = ethers.dataSlice(txData, 32)
+    address = ethers.getCreate2Address(
+      DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
+      salt,
+      ethers.keccak256(initCodeWithArgs)
+    )
+    kind = 'CREATE2'
+  } else if (to.toLowerCase() === getCreateCallAddress().toLowerCase()) {
+    const iface = new ethers.Interface(CreateCallArtifact.abi)
+    const parsed = iface.parseTransaction({ data: txData })
+    if (parsed?.name !== 'performCreate') {
+      return null
+    }
+    initCodeWithArgs = parsed.args.deploymentData
+    kind = 'CREATE'
+  } else {
+    return null
+  }
+
+  const fullyQualifiedName =
+    findFullyQualifiedNameForInitCode(initCodeWithArgs, configArtifacts) ?? null
+  if (address && fullyQualifiedName) {
+    labels[address.toLowerCase()] = {
+      contractName: fullyQualifiedName.split(':')[1],
+      abi: configArtifacts[fullyQualifiedName].artifact.abi,
+    }
+  }
+
+  return { kind, fullyQualifiedName, address }
+}
@@ -2,13 +2,19 @@ import ora from 'ora'
 import { ethers } from 'ethers'
 import {
   ConfigArtifacts,
+  DeploymentArtifacts,
   GetConfigArtifacts,
   NetworkConfig,
   BuildInfos,
+  ExecutionMode,
+  PreviewFormat,
+  ProgressFormat,
+  RemoteSignerApi,
 } from '@sphinx-labs/core'
 
 import { FoundryToml } from '../foundry/types'
 import { SphinxContext } from './context'
+import { ExportFormat } from './export'
 
 export interface ProposeCommandArgs {
   scriptPath: string
@@ -16,20 +22,115 @@ export interface ProposeCommandArgs {
   confirm: boolean
   dryRun: boolean
   silent: boolean
+  previewFormat: PreviewFormat
+  out?: string
   targetContract?: string
   sig?: Array<string>
+  appendScript?: Array<string>
 }
 
-export interface DeployCommandArgs {
-  network: string
+/**
+ * @notice The options that select the account that signs the Merkle root and sends the
+ * transactions. See `SignerOptions` for more details.
+ */
+export interface SignerCommandArgs {
+  remoteSigner?: string
+  remoteSignerApi: RemoteSignerApi
+  remoteSignerAddress?: string
+  keystore?: string
+}
+
+export interface DeployCommandArgs extends SignerCommandArgs {
+  networks: Array<string>
+  network?: string
   confirm: boolean
   silent: boolean
   scriptPath: string
   verify: boolean
+  resume: boolean
+  retries: number
+  previewFormat: PreviewFormat
+  out?: string
+  gasPriceConfig?: string
+  confirmationTimeout?: number
+  maxCost?: string
+  concurrency: number
+  progressFormat: ProgressFormat
+  targetContract?: string
+  sig?: Array<string>
+  appendScript?: Array<string>
+}
+
+export interface CancelCommandArgs {
+  merkleRoot: string
+  networks: Array<string>
+  script: string
+  confirm: boolean
+  propose: boolean
+  silent: boolean
+  targetContract?: string
+}
+
+export interface StatusCommandArgs {
+  networks: Array<string>
+  json: boolean
+  merkleRoot?: string
+  moduleAddress?: string
+  artifact?: string
+}
+
+export interface VerifyCommandArgs {
+  networks: Array<string>
+  merkleRoot?: string
+  network?: string
+}
+
+export interface PreviewCommandArgs {
+  scriptPath: string
+  networks: Array<string>
+  silent: boolean
+  previewFormat: PreviewFormat
+  out?: string
+  targetContract?: string
+  sig?: Array<string>
+}
+
+export interface ExportCommandArgs {
+  scriptPath: string
+  networks: Array<string>
+  format: ExportFormat
+  outDir: string
+  silent: boolean
   targetContract?: string
   sig?: Array<string>
 }
 
+export interface SignCommandArgs extends SignerCommandArgs {
+  bundle: string
+  confirm: boolean
+  silent: boolean
+  showTypedData: boolean
+  out?: string
+}
+
+export interface ExecuteCommandArgs extends SignerCommandArgs {
+  bundle: string
+  signatures: Array<string>
+  confirm: boolean
+  silent: boolean
+  gasPriceConfig?: string
+  confirmationTimeout?: number
+  maxCost?: string
+  concurrency: number
+  progressFormat: ProgressFormat
+}
+
+export interface TreeInspectCommandArgs {
+  file: string
+  json: boolean
+  configArtifacts?: string
+}
+
 export interface FetchArtifactsArgs {
   apiKey: string
   orgId: string
@@ -43,9 +144,43 @@ export interface ArtifactsCommandArgs {
   silent: boolean
 }
 
+/**
+ * @param networks The networks that the deployment was executed on. These must be the same networks
+ * that were passed to the `deploy` command.
+ */
+export interface RecoverArtifactsArgs {
+  networks: Array<string>
+  silent: boolean
+}
+
+/**
+ * @notice A Forge script that runs after the main script of a deployment. Its transactions are
+ * included in the same Merkle tree as the main script's transactions.
+ *
+ * @param scriptPath Path to the Forge script file.
+ * @param sig The signature of the function to call in the script, or raw calldata. Defaults to
+ * `run()`.
+ * @param targetContract The name of the contract within the script file. Necessary when there are
+ * multiple contracts in the script file.
+ */
+export interface AdditionalScript {
+  scriptPath: string
+  sig?: Array<string>
+  targetContract?: string
+}
+
+/**
+ * @notice A Forge script and the calldata of the function to call in it. A deployment collects the
+ * transactions of each script in order.
+ */
+export interface ScriptCall {
+  scriptPath: string
+  scriptFunctionCalldata: string
+  targetContract?: string
+}
+
 export type BuildNetworkConfigArray = (
-  scriptPath: string,
-  scriptFunctionCalldata: string,
+  scripts: Array<ScriptCall>,
   safeAddress: string,
   networks: Array<string>,
   sphinxPluginTypesInterface: ethers.Interface,
@@ -53,7 +188,7 @@ export type BuildNetworkConfigArray = (
   projectRoot: string,
   getConfigArtifacts: GetConfigArtifacts,
   sphinxContext: SphinxContext,
-  targetContract?: string,
+  executionMode: ExecutionMode,
   spinner?: ora.Ora
 ) => Promise<{
   networkConfigArrayWithRpcUrls?: Array<{
@@ -67,6 +202,10 @@ export type BuildNetworkConfigArray = (
 
 export type FetchRemoteArtifacts = (args: FetchArtifactsArgs) => void
 
+export type RecoverArtifacts = (
+  args: RecoverArtifactsArgs
+) => Promise<{ deploymentArtifacts: DeploymentArtifacts }>
+
 export type AssertNoLinkedLibraries = (
   scriptPath: string,
   cachePath: string,
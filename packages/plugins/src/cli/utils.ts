@@ -1,4 +1,7 @@
 import semver from 'semver'
+import { HumanReadableAction } from '@sphinx-labs/core'
+
+import { AdditionalScript } from './types'
 
 export const NoNetworkArgsError = `Expected at least one network, but none were supplied.`
 
@@ -7,10 +10,41 @@ export const BothNetworksSpecifiedError = `You must specify either 'testnets' or
 export const ConfirmAndDryRunError =
   '--confirm and --dry-run cannot be used together'
 
+export const InvalidMerkleRootError = `The Merkle root must be a 32-byte hex string.`
+
+export const InvalidRetriesError = `The number of retries must be a non-negative integer.`
+
+export const InvalidConfirmationTimeoutError = `The confirmation timeout must be a positive number of seconds.`
+
+export const InvalidMaxCostError = `The max cost must be a non-negative amount of the network's native currency, e.g. '0.5'.`
+
+export const InvalidConcurrencyError = `The concurrency must be a positive integer.`
+
+export const NetworkAndNetworksError = `You cannot specify both '--network' and '--networks'.`
+
+export const DeprecatedNetworkOptionWarning = `The '--network' option is deprecated. Please use '--networks' instead.`
+
+export const RemoteSignerAndKeystoreError = `You cannot specify both '--remote-signer' and '--keystore'.`
+
+export const NetworkGroupsNotSupportedError = `'testnets' and 'mainnets' are not supported by this command. Please specify the network names.`
+
+export const StatusMissingArgsError = `You must specify either a Merkle root and '--module-address', or '--artifact'.`
+
+export const StatusArtifactConflictError = `You cannot specify a Merkle root or '--module-address' if you specify '--artifact'.`
+
+export const InvalidAppendScriptError = `The '--append-script' option must start with the path to a Forge script file, e.g. 'script/Periphery.s.sol'.`
+
 export const getDuplicatedNetworkErrorMessage = (duplicated: Array<string>) =>
   `User entered the following networks more than once:\n` +
   duplicated.map((n) => `- ${n}`).join(`\n`)
 
+export const getActionRevertedErrorMessage = (
+  networkName: string,
+  failureAction: HumanReadableAction
+) =>
+  `The following action reverted during the execution on ${networkName}:\n${failureAction.reason}\n` +
+  `Reason: ${failureAction.revertReason ?? 'Could not be determined'}`
+
 export const assertValidNodeVersion = () => {
   const requiredVersion = '16.16.0'
   const currentVersion = process.version
@@ -22,3 +56,27 @@ export const assertValidNodeVersion = () => {
     )
   }
 }
+
+/**
+ * Parses the values of the `--append-script` option. Yargs flattens a repeated array option into a
+ * single array, so each value that ends in `.sol` starts a new script, and the values after it are
+ * the script's `--sig` arguments. A script's target contract can be specified using Forge's
+ * `<SCRIPT_PATH>:<CONTRACT_NAME>` syntax.
+ */
+export const parseAppendScriptArg = (
+  values: Array<string>
+): Array<AdditionalScript> => {
+  const scripts: Array<AdditionalScript> = []
+  for (const value of values) {
+    const match = value.match(/^(.+\.sol)(?::(\w+))?$/)
+    if (match) {
+      scripts.push({ scriptPath: match[1], targetContract: match[2] })
+    } else if (scripts.length === 0) {
+      throw new Error(InvalidAppendScriptError)
+    } else {
+      const script = scripts[scripts.length - 1]
+      script.sig = [...(script.sig ?? []), value]
+    }
+  }
+  return scripts
+}
@@ -0,0 +1,261 @@
+import { join } from 'path'
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs'
+
+import {
+  CompilerInput,
+  ContractDeploymentArtifact,
+  ExecutionArtifact,
+  ExecutionMode,
+  SphinxJsonRpcProvider,
+  attemptVerification,
+  getCompilerInputDirName,
+  getMinimumCompilerInput,
+  getNetworkNameDirectory,
+  isVerificationSupportedForNetwork,
+  readDeploymentArtifactsForNetwork,
+} from '@sphinx-labs/core'
+import { red } from 'chalk'
+import { ethers } from 'ethers'
+
+import { getFoundryToml } from '../foundry/options'
+import { getRpcUrls } from '../foundry/utils'
+
+/**
+ * @param network The name of the network in the user's `foundry.toml`.
+ * @param merkleRoot The Merkle root of the deployment to verify. If this is undefined, the most
+ * recent deployment on the network is verified.
+ */
+export interface VerifyArgs {
+  network: string
+  merkleRoot?: string
+}
+
+/**
+ * @notice The result of verifying a single contract.
+ *
+ * @field message The error message. Only defined if the verification failed.
+ */
+export type ContractVerificationResult = {
+  contractName: string
+  address: string
+  status: 'verified' | 'already verified' | 'not deployed' | 'failed'
+  message?: string
+}
+
+const deploymentsDirPath = 'deployments'
+
+/**
+ * Verifies the contracts in a deployment on Etherscan using the deployment artifacts in the
+ * `deployments/` directory. Unlike `sphinx deploy --verify`, this works for deployments that were
+ * executed via the DevOps Platform, and it can be used to retry a verification that failed.
+ */
+export const verify = async (
+  args: VerifyArgs
+): Promise<{
+  merkleRoot: string
+  chainId: string
+  contracts: Array<ContractVerificationResult>
+}> => {
+  const { network } = args
+
+  const foundryToml = await getFoundryToml()
+  const { etherscan } = foundryToml
+  const [rpcUrl] = getRpcUrls([network], foundryToml.rpcEndpoints)
+
+  if (!etherscan || !etherscan[network]) {
+    console.error(
+      red(
+        `No etherscan configuration detected for ${network}. Please configure it in your foundry.toml file:\n` +
+          `[etherscan]\n` +
+          `${network} = { key = "<your api key>" }`
+      )
+    )
+    process.exit(1)
+  }
+  const etherscanApiKey = etherscan[network].key
+
+  const provider = new SphinxJsonRpcProvider(rpcUrl)
+  const { chainId } = await provider.getNetwork()
+
+  if (!isVerificationSupportedForNetwork(chainId)) {
+    throw new Error(`Etherscan verification is not supported for: ${network}`)
+  }
+
+  const { projectName, executionArtifact } = findExecutionArtifact(
+    chainId,
+    args.merkleRoot
+  )
+  const { merkleRoot, solcInputHashes } = executionArtifact
+
+  // Get the contract deployment artifacts for the Merkle root. A contract may have been deployed
+  // again in a later deployment, in which case its artifact for this Merkle root is in the
+  // `history` array of the latest artifact.
+  const { contractDeploymentArtifacts } = readDeploymentArtifactsForNetwork(
+    projectName,
+    chainId,
+    ExecutionMode.LiveNetworkCLI
+  )
+  const contractArtifacts: Array<Omit<ContractDeploymentArtifact, 'history'>> =
+    Object.values(contractDeploymentArtifacts)
+      .flatMap(({ history, ...latest }) => [latest, ...history])
+      .filter((artifact) => artifact.merkleRoot === merkleRoot)
+
+  const compilerInputDirPath = join(
+    deploymentsDirPath,
+    getCompilerInputDirName(executionArtifact.executionMode)
+  )
+
+  const results: Array<ContractVerificationResult> = []
+  for (const {
+    contractName,
+    address,
+    sourceName,
+    solcInputHash,
+    metadata,
+    abi,
+    args: constructorArgs,
+  } of contractArtifacts) {
+    const compilerInputPath = join(
+      compilerInputDirPath,
+      `${solcInputHash}.json`
+    )
+    if (
+      !solcInputHashes.includes(solcInputHash) ||
+      !existsSync(compilerInputPath)
+    ) {
+      results.push({
+        contractName,
+        address,
+        status: 'failed',
+        message: `Could not find compiler input: ${compilerInputPath}`,
+      })
+      continue
+    }
+
+    if ((await provider.getCode(address)) === '0x') {
+      results.push({ contractName, address, status: 'not deployed' })
+      continue
+    }
+
+    const compilerInput: CompilerInput = JSON.parse(
+      readFileSync(compilerInputPath, 'utf-8')
+    )
+    const minimumCompilerInput = getMinimumCompilerInput(
+      compilerInput.input,
+      JSON.parse(metadata)
+    )
+    const encodedConstructorArgs = new ethers.Interface(abi).encodeDeploy(
+      constructorArgs
+    )
+
+    try {
+      const { success, message, alreadyVerified } = await attemptVerification(
+        address,
+        encodedConstructorArgs,
+        `${sourceName}:${contractName}`,
+        compilerInput.solcLongVersion,
+        minimumCompilerInput,
+        provider,
+        chainId.toString(),
+        etherscanApiKey
+      )
+
+      if (!success) {
+        results.push({ contractName, address, status: 'failed', message })
+      } else if (alreadyVerified) {
+        results.push({ contractName, address, status: 'already verified' })
+      } else {
+        results.push({ contractName, address, status: 'verified' })
+      }
+    } catch (e: any) {
+      results.push({
+        contractName,
+        address,
+        status: 'failed',
+        message: e.message,
+      })
+    }
+  }
+
+  console.log(`Merkle Root: ${merkleRoot}`)
+  console.table(
+    results.map(({ contractName, address, status }) => ({
+      Contract: contractName,
+      Address: address,
+      Status: status,
+    }))
+  )
+  for (const { contractName, address, message } of results) {
+    if (message) {
+      console.error(red(`${contractName} at ${address}: ${message}`))
+    }
+  }
+
+  return { merkleRoot, chainId: chainId.toString(), contracts: results }
+}
+
+/**
+ * Finds the execution artifact for a Merkle root on a network. If the Merkle root is undefined,
+ * returns the most recent execution artifact on the network. Searches every project in the
+ * `deployments/` directory.
+ */
+const findExecutionArtifact = (
+  chainId: bigint,
+  merkleRoot?: string
+): { projectName: string; executionArtifact: ExecutionArtifact } => {
+  const networkDirName = getNetworkNameDirectory(
+    chainId.toString(),
+    ExecutionMode.LiveNetworkCLI
+  )
+
+  const projectNames = existsSync(deploymentsDirPath)
+    ? readdirSync(deploymentsDirPath).filter(
+        (name) =>
+          statSync(join(deploymentsDirPath, name)).isDirectory() &&
+          existsSync(join(deploymentsDirPath, name, networkDirName))
+      )
+    : []
+
+  const candidates = projectNames.flatMap((projectName) =>
+    Object.values(
+      readDeploymentArtifactsForNetwork(
+        projectName,
+        chainId,
+        ExecutionMode.LiveNetworkCLI
+      ).executionArtifacts
+    ).map((executionArtifact) => ({ projectName, executionArtifact }))
+  )
+
+  if (merkleRoot) {
+    const found = candidates.find(
+      ({ executionArtifact }) =>
+        executionArtifact.merkleRoot.toLowerCase() === merkleRoot.toLowerCase()
+    )
+    if (!found) {
+      throw new Error(
+        `Could not find an execution artifact for the Merkle root ${merkleRoot} on ${networkDirName}.`
+      )
+    }
+    return found
+  }
+
+  if (candidates.length === 0) {
+    throw new Error(
+      `Could not find any execution artifacts for ${networkDirName} in the '${deploymentsDirPath}' folder.`
+    )
+  }
+
+  // The transactions in an execution artifact are sorted chronologically, so the last transaction
+  // is the most recent one.
+  const getLatestBlockNumber = ({ transactions }: ExecutionArtifact): number =>
+    transactions.length > 0
+      ? transactions[transactions.length - 1].receipt.blockNumber
+      : 0
+
+  return candidates.reduce((latest, candidate) =>
+    getLatestBlockNumber(candidate.executionArtifact) >
+    getLatestBlockNumber(latest.executionArtifact)
+      ? candidate
+      : latest
+  )
+}
@@ -17,6 +17,7 @@ import {
   getMaxGasLimit,
   prettyFunctionCall,
   calculateMerkleLeafGas,
+  equal,
 } from '@sphinx-labs/core'
 import { AbiCoder, ConstructorFragment, ethers } from 'ethers'
 import {
@@ -348,6 +349,174 @@ export const makeNetworkConfig = (
   return networkConfig
 }
 
+/**
+ * Combines the network configs of several Forge scripts on a single network into one network
+ * config. The actions are concatenated in the order of the scripts, and their indices are shifted
+ * so that the indices of the `EXECUTE` Merkle leaves are continuous. Each action is labeled with the
+ * script that it was collected from so that the preview can display it.
+ *
+ * Each script is collected against the state of the network before the deployment, so a script
+ * can't depend on state changes made by an earlier script. This is checked separately by
+ * `assertNoCrossScriptDependencies`. We throw an error if the scripts can't be combined into a
+ * valid deployment.
+ */
+export const combineNetworkConfigs = (
+  scripts: Array<{ scriptPath: string; networkConfig: NetworkConfig }>
+): NetworkConfig => {
+  const [first] = scripts
+  if (scripts.length === 1) {
+    return first.networkConfig
+  }
+
+  const networkName = fetchNameForNetwork(BigInt(first.networkConfig.chainId))
+  const getSharedFields = (networkConfig: NetworkConfig) => ({
+    safeAddress: networkConfig.safeAddress,
+    moduleAddress: networkConfig.moduleAddress,
+    executorAddress: networkConfig.executorAddress,
+    safeInitData: networkConfig.safeInitData,
+    nonce: networkConfig.nonce,
+    chainId: networkConfig.chainId,
+    newConfig: networkConfig.newConfig,
+    executionMode: networkConfig.executionMode,
+    initialState: networkConfig.initialState,
+    isSystemDeployed: networkConfig.isSystemDeployed,
+    arbitraryChain: networkConfig.arbitraryChain,
+  })
+
+  const actionInputs: Array<ActionInput> = []
+  const unlabeledContracts: NetworkConfig['unlabeledContracts'] = []
+  // The first script that deploys a contract using `CREATE`, if one exists.
+  let createScriptPath: string | undefined
+  for (let i = 0; i < scripts.length; i++) {
+    const { scriptPath, networkConfig } = scripts[i]
+
+    if (
+      !equal(
+        getSharedFields(networkConfig),
+        getSharedFields(first.networkConfig)
+      )
+    ) {
+      throw new Error(
+        `The scripts ${first.scriptPath} and ${scriptPath} have a different Gnosis Safe, SphinxModule,\n` +
+          `or Sphinx config on ${networkName}. Scripts that are combined into one deployment must use\n` +
+          `the same Sphinx config.`
+      )
+    }
+
+    // The Safe funding check is always the first action in the deployment, so only the first script
+    // can request funds for the Safe.
+    if (
+      i > 0 &&
+      networkConfig.safeFundingRequest &&
+      BigInt(networkConfig.safeFundingRequest.fundsRequested) > BigInt(0)
+    ) {
+      throw new Error(
+        `Only the first script can request funds for the Gnosis Safe, but ${scriptPath} requests\n` +
+          `funds on ${networkName}.`
+      )
+    }
+
+    // The address of a contract deployed using `CREATE` depends on the nonce of the Safe. Since
+    // each script is collected separately, the addresses in a script would be incorrect if an
+    // earlier script also deploys a contract using `CREATE`.
+    const hasCreate = networkConfig.actionInputs.some(
+      (action) => action.actionType === ActionInputType.CREATE
+    )
+    if (hasCreate && createScriptPath !== undefined) {
+      throw new Error(
+        `The scripts ${createScriptPath} and ${scriptPath} both deploy contracts using CREATE on\n` +
+          `${networkName}. Sphinx collects each script separately, so the addresses of the contracts\n` +
+          `deployed by ${scriptPath} would be incorrect. Please use CREATE2 in one of these scripts.`
+      )
+    } else if (hasCreate) {
+      createScriptPath = scriptPath
+    }
+
+    const offset = actionInputs.length
+    for (const action of networkConfig.actionInputs) {
+      actionInputs.push({
+        ...action,
+        index: (offset + Number(action.index)).toString(),
+        scriptPath,
+      })
+    }
+    unlabeledContracts.push(...networkConfig.unlabeledContracts)
+  }
+
+  return {
+    ...first.networkConfig,
+    actionInputs,
+    unlabeledContracts,
+  }
+}
+
+/**
+ * Throws an error if a script that's combined into a deployment depends on state changes made by
+ * an earlier script on the same network. Each script is collected separately against the state of
+ * the network before the deployment, so a script that accesses an account that an earlier script
+ * deploys or modifies would be simulated against the wrong state. We ignore the Gnosis Safe, since
+ * each script executes its transactions through it.
+ */
+export const assertNoCrossScriptDependencies = (
+  scripts: Array<{ scriptPath: string; deploymentInfo: DeploymentInfo }>
+): void => {
+  const getAccountAccesses = (deploymentInfo: DeploymentInfo) =>
+    deploymentInfo.accountAccesses.flatMap(({ root, nested }) => [
+      root,
+      ...nested,
+    ])
+
+  // The accounts modified by each earlier script, mapped to the path of the script.
+  const modified: Map<string, string> = new Map()
+  for (const { scriptPath, deploymentInfo } of scripts) {
+    const safeAddress = deploymentInfo.safeAddress.toLowerCase()
+    const accesses = getAccountAccesses(deploymentInfo)
+
+    for (const access of accesses) {
+      const accounts = [
+        access.account,
+        ...access.storageAccesses.map((storage) => storage.account),
+      ]
+      for (const account of accounts) {
+        const earlierScriptPath = modified.get(account.toLowerCase())
+        if (
+          account.toLowerCase() !== safeAddress &&
+          earlierScriptPath !== undefined &&
+          earlierScriptPath !== scriptPath
+        ) {
+          const networkName = fetchNameForNetwork(
+            BigInt(deploymentInfo.chainId)
+          )
+          throw new Error(
+            `The script ${scriptPath} depends on state changes made by the earlier script ${earlierScriptPath}\n` +
+              `on ${networkName}. It accesses ${account}, which ${earlierScriptPath} deploys or modifies.\n` +
+              `Sphinx collects each script separately against the state of the network before the\n` +
+              `deployment, so ${scriptPath} would be simulated against the wrong state. Please combine\n` +
+              `these scripts into one script or deploy them separately.`
+          )
+        }
+      }
+    }
+
+    for (const access of accesses) {
+      if (access.reverted) {
+        continue
+      }
+      if (
+        access.kind === AccountAccessKind.Create ||
+        BigInt(access.value) > BigInt(0)
+      ) {
+        modified.set(access.account.toLowerCase(), scriptPath)
+      }
+      for (const storage of access.storageAccesses) {
+        if (storage.isWrite && !storage.reverted) {
+          modified.set(storage.account.toLowerCase(), scriptPath)
+        }
+      }
+    }
+  }
+}
+
 export const makeContractDecodedAction = (
   contractAddress: string,
   initCodeWithArgs: string,
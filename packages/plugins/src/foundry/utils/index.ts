@@ -1491,17 +1491,20 @@ export const parseScriptFunctionCalldata = async (
   throw new Error(InvalidFirstSigArgumentErrorMessage)
 }
 
-export const validateProposalNetworks = async (
+/**
+ * Resolves the network names passed into the CLI into the network names that they represent. If the
+ * user specified 'testnets' or 'mainnets', we return the corresponding array in their
+ * `sphinxConfig`. Otherwise, we return the network names unmodified.
+ */
+export const resolveNetworks = (
   cliNetworks: Array<string>,
   configTestnets: Array<string>,
-  configMainnets: Array<string>,
-  rpcEndpoints: FoundryToml['rpcEndpoints']
-): Promise<{ rpcUrls: Array<string>; isTestnet: boolean }> => {
+  configMainnets: Array<string>
+): Array<string> => {
   if (cliNetworks.length === 0) {
     throw new Error(`Expected at least one network, but none were supplied.`)
   }
 
-  let resolvedNetworks: Array<string>
   if (cliNetworks.length === 1 && cliNetworks[0] === 'mainnets') {
     if (configMainnets.length === 0) {
       throw new Error(
@@ -1510,7 +1513,7 @@ export const validateProposalNetworks = async (
       )
     }
 
-    resolvedNetworks = configMainnets
+    return configMainnets
   } else if (cliNetworks.length === 1 && cliNetworks[0] === 'testnets') {
     if (configTestnets.length === 0) {
       throw new Error(
@@ -1518,11 +1521,50 @@ export const validateProposalNetworks = async (
           `you use the '--testnets' flag.`
       )
     }
-    resolvedNetworks = configTestnets
+    return configTestnets
   } else {
-    resolvedNetworks = cliNetworks
+    return cliNetworks
+  }
+}
+
+/**
+ * Returns the RPC URL in the user's `foundry.toml` for each of the given network names. Throws an
+ * error if any of the networks are missing an RPC endpoint.
+ */
+export const getRpcUrls = (
+  networks: Array<string>,
+  rpcEndpoints: FoundryToml['rpcEndpoints']
+): Array<string> => {
+  const rpcUrls: Array<string> = []
+  const missingEndpoint: Array<string> = []
+  for (const network of networks) {
+    const rpcUrl = rpcEndpoints[network]
+    if (rpcUrl) {
+      rpcUrls.push(rpcUrl)
+    } else {
+      missingEndpoint.push(network)
+    }
+  }
+
+  if (missingEndpoint.length > 0) {
+    throw new Error(getMissingEndpointErrorMessage(missingEndpoint))
   }
 
+  return rpcUrls
+}
+
+export const validateProposalNetworks = async (
+  cliNetworks: Array<string>,
+  configTestnets: Array<string>,
+  configMainnets: Array<string>,
+  rpcEndpoints: FoundryToml['rpcEndpoints']
+): Promise<{ rpcUrls: Array<string>; isTestnet: boolean }> => {
+  const resolvedNetworks = resolveNetworks(
+    cliNetworks,
+    configTestnets,
+    configMainnets
+  )
+
   const networkPromises = resolvedNetworks.map(async (network) => {
     const rpcUrl = rpcEndpoints[network]
     if (!rpcUrl) {
@@ -0,0 +1,80 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { expect } from 'chai'
+import { getPreview, makeDeploymentData } from '@sphinx-labs/core'
+import { makeSphinxMerkleTree } from '@sphinx-labs/contracts'
+
+import {
+  DEPLOYMENT_BUNDLE_FORMAT,
+  makeDeploymentBundle,
+  readDeploymentBundle,
+  writeDeploymentBundle,
+} from '../../../src/cli/bundle'
+import { SPHINX_PLUGINS_VERSION } from '../../../src/cli/version'
+import { getDummyDeploymentConfig } from '../dummy'
+
+describe('Deployment Bundle', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sphinx-bundle-'))
+    filePath = join(dir, 'bundle.json')
+
+    const deploymentConfig = getDummyDeploymentConfig()
+    deploymentConfig.merkleTree = makeSphinxMerkleTree(
+      makeDeploymentData(deploymentConfig.networkConfigs)
+    )
+    const preview = getPreview(
+      deploymentConfig.networkConfigs,
+      deploymentConfig.merkleTree.root
+    )
+
+    writeDeploymentBundle(
+      filePath,
+      makeDeploymentBundle(deploymentConfig, preview)
+    )
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reads a bundle that was written by writeDeploymentBundle', () => {
+    const bundle = readDeploymentBundle(filePath)
+
+    expect(bundle.format).to.equal(DEPLOYMENT_BUNDLE_FORMAT)
+    expect(bundle.pluginVersion).to.equal(SPHINX_PLUGINS_VERSION)
+    expect(bundle.gitCommit).to.be.null
+    expect(bundle.preview.merkleRoot).to.equal(bundle.merkleTree.root)
+    expect(bundle.deploymentConfig.merkleTree.root).to.equal(
+      bundle.merkleTree.root
+    )
+    // The leaves are converted back to their original types.
+    expect(bundle.merkleTree.leavesWithProofs[0].leaf.chainId).to.equal(
+      BigInt(1)
+    )
+  })
+
+  it('throws an error if the format is invalid', () => {
+    const bundle = JSON.parse(readFileSync(filePath, 'utf-8'))
+    bundle.format = 'sphinx-bundle-0'
+    writeFileSync(filePath, JSON.stringify(bundle))
+
+    expect(() => readDeploymentBundle(filePath)).to.throw(
+      `Expected format '${DEPLOYMENT_BUNDLE_FORMAT}', but got 'sphinx-bundle-0'.`
+    )
+  })
+
+  it('throws an error if a network config was modified', () => {
+    const bundle = JSON.parse(readFileSync(filePath, 'utf-8'))
+    bundle.deploymentConfig.networkConfigs[0].actionInputs[0].txData = '0x1234'
+    writeFileSync(filePath, JSON.stringify(bundle))
+
+    expect(() => readDeploymentBundle(filePath)).to.throw(
+      `The Merkle root in the deployment bundle doesn't match its network configs.`
+    )
+  })
+})
@@ -6,7 +6,19 @@ import { makeCLI } from '../../../src/cli/setup'
 import {
   BothNetworksSpecifiedError,
   ConfirmAndDryRunError,
+  DeprecatedNetworkOptionWarning,
+  InvalidAppendScriptError,
+  InvalidConcurrencyError,
+  InvalidConfirmationTimeoutError,
+  InvalidMaxCostError,
+  InvalidMerkleRootError,
+  InvalidRetriesError,
+  NetworkAndNetworksError,
+  NetworkGroupsNotSupportedError,
   NoNetworkArgsError,
+  RemoteSignerAndKeystoreError,
+  StatusArtifactConflictError,
+  StatusMissingArgsError,
   getDuplicatedNetworkErrorMessage,
 } from '../../../src/cli/utils'
 
@@ -246,6 +258,50 @@ describe('CLI Commands', () => {
 
       expect(proposeSpy.calledWithMatch(expectedParams)).to.be.true
     })
+
+    it('fails if --preview-format is invalid', () => {
+      const args = [
+        'propose',
+        scriptPath,
+        '--networks',
+        'mainnets',
+        '--preview-format',
+        'yaml',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(proposeSpy.called).to.be.false
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include('Invalid values:')
+    })
+
+    it('--networks mainnets --dry-run --preview-format json', () => {
+      const args = [
+        'propose',
+        scriptPath,
+        '--networks',
+        'mainnets',
+        '--dry-run',
+        '--preview-format',
+        'json',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      const expectedParams = {
+        confirm: false,
+        networks: ['mainnets'],
+        isDryRun: true,
+        silent: false,
+        scriptPath,
+        sphinxContext: sinon.match.any,
+        targetContract: undefined,
+        previewFormat: 'json',
+      }
+
+      expect(proposeSpy.calledWithMatch(expectedParams)).to.be.true
+    })
   })
 
   describe('deploy', () => {
@@ -256,7 +312,7 @@ describe('CLI Commands', () => {
     })
 
     it('fails if no script path is included', async () => {
-      const args = ['deploy', '--network', 'ethereum']
+      const args = ['deploy', '--networks', 'ethereum']
 
       makeCLI(args, sphinxContext)
 
@@ -267,7 +323,7 @@ describe('CLI Commands', () => {
       )
     })
 
-    it('fails if no --network is provided', () => {
+    it('fails if no --networks is provided', () => {
       const args = ['deploy', scriptPath]
 
       makeCLI(args, sphinxContext)
@@ -275,13 +331,115 @@ describe('CLI Commands', () => {
       expect(deploySpy.called).to.be.false
       expect(consoleErrorSpy.called).to.be.true
       expect(consoleErrorSpy.firstCall.args[0]).to.include(
-        'Missing required argument: network'
+        'Missing required argument: networks'
+      )
+    })
+
+    it('fails if a network name is duplicated', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        'optimism',
+        'ethereum',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        getDuplicatedNetworkErrorMessage(['ethereum'])
+      )
+    })
+
+    it('--networks ethereum', () => {
+      const args = ['deploy', scriptPath, '--networks', 'ethereum']
+
+      makeCLI(args, sphinxContext)
+
+      expect(deploySpy.called).to.be.true
+
+      const expectedParams = {
+        scriptPath,
+        networks: ['ethereum'],
+        skipPreview: false,
+        silent: false,
+        sphinxContext: sinon.match.any,
+        verify: false,
+        targetContract: undefined,
+        resume: false,
+        retries: 0,
+        previewFormat: 'text',
+      }
+
+      expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
+    })
+
+    it('--networks ethereum optimism arbitrum', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        'optimism',
+        'arbitrum',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(deploySpy.called).to.be.true
+
+      const expectedParams = {
+        scriptPath,
+        networks: ['ethereum', 'optimism', 'arbitrum'],
+        skipPreview: false,
+        silent: false,
+        sphinxContext: sinon.match.any,
+        verify: false,
+        targetContract: undefined,
+      }
+
+      expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
+    })
+
+    it('--network ethereum (deprecated)', () => {
+      const consoleWarnSpy = sinon.stub(console, 'warn')
+      const args = ['deploy', scriptPath, '--network', 'ethereum']
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        deploySpy.calledWithMatch({
+          scriptPath,
+          networks: ['ethereum'],
+        })
+      ).to.be.true
+      expect(consoleWarnSpy.calledWith(DeprecatedNetworkOptionWarning)).to.be
+        .true
+    })
+
+    it('fails if --network and --networks are both specified', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--network',
+        'ethereum',
+        '--networks',
+        'optimism',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        NetworkAndNetworksError
       )
     })
 
-    it('--network ethereum', () => {
-      const network = 'ethereum'
-      const args = ['deploy', scriptPath, '--network', network]
+    it('--networks testnets', () => {
+      const args = ['deploy', scriptPath, '--networks', 'testnets']
 
       makeCLI(args, sphinxContext)
 
@@ -289,7 +447,7 @@ describe('CLI Commands', () => {
 
       const expectedParams = {
         scriptPath,
-        network,
+        networks: ['testnets'],
         skipPreview: false,
         silent: false,
         sphinxContext: sinon.match.any,
@@ -300,8 +458,8 @@ describe('CLI Commands', () => {
       expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
     })
 
-    it('--network ethereum --confirm', () => {
-      const args = ['deploy', scriptPath, '--network', 'ethereum', '--confirm']
+    it('--networks ethereum --confirm', () => {
+      const args = ['deploy', scriptPath, '--networks', 'ethereum', '--confirm']
 
       makeCLI(args, sphinxContext)
 
@@ -309,7 +467,7 @@ describe('CLI Commands', () => {
 
       const expectedParams = {
         scriptPath,
-        network: 'ethereum',
+        networks: ['ethereum'],
         skipPreview: true,
         silent: false,
         sphinxContext: sinon.match.any,
@@ -320,11 +478,11 @@ describe('CLI Commands', () => {
       expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
     })
 
-    it('--network ethereum --target-contract MyContract', () => {
+    it('--networks ethereum --target-contract MyContract', () => {
       const args = [
         'deploy',
         scriptPath,
-        '--network',
+        '--networks',
         'ethereum',
         '--target-contract',
         'MyContract',
@@ -336,7 +494,7 @@ describe('CLI Commands', () => {
 
       const expectedParams = {
         scriptPath,
-        network: 'ethereum',
+        networks: ['ethereum'],
         skipPreview: false,
         silent: false,
         sphinxContext: sinon.match.any,
@@ -347,8 +505,8 @@ describe('CLI Commands', () => {
       expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
     })
 
-    it('--network ethereum --verify', () => {
-      const args = ['deploy', scriptPath, '--network', 'ethereum', '--verify']
+    it('--networks ethereum --verify', () => {
+      const args = ['deploy', scriptPath, '--networks', 'ethereum', '--verify']
 
       makeCLI(args, sphinxContext)
 
@@ -356,7 +514,7 @@ describe('CLI Commands', () => {
 
       const expectedParams = {
         scriptPath,
-        network: 'ethereum',
+        networks: ['ethereum'],
         skipPreview: false,
         silent: false,
         sphinxContext: sinon.match.any,
@@ -367,8 +525,8 @@ describe('CLI Commands', () => {
       expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
     })
 
-    it('--network ethereum --silent', () => {
-      const args = ['deploy', scriptPath, '--network', 'ethereum', '--silent']
+    it('--networks ethereum --silent', () => {
+      const args = ['deploy', scriptPath, '--networks', 'ethereum', '--silent']
 
       makeCLI(args, sphinxContext)
 
@@ -376,7 +534,7 @@ describe('CLI Commands', () => {
 
       const expectedParams = {
         scriptPath,
-        network: 'ethereum',
+        networks: ['ethereum'],
         skipPreview: false,
         silent: true,
         sphinxContext: sinon.match.any,
@@ -386,98 +544,431 @@ describe('CLI Commands', () => {
 
       expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
     })
-  })
 
-  // Tests CLI parameters shared by the Deploy and Propose commands to reduce the amount of
-  // duplication in this test suite.
-  describe('deploy and propose', () => {
-    const deployBaseCommand = ['deploy', scriptPath, '--network', 'ethereum']
-    const proposeBaseCommand = ['propose', scriptPath, '--networks', 'testnets']
-    for (const command of [deployBaseCommand, proposeBaseCommand]) {
-      const commandName = command[0]
-
-      let spy: sinon.SinonStub
+    it('fails if --retries is negative', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--retries',
+        '-1',
+      ]
 
-      beforeEach(() => {
-        spy = sinon.stub(sphinxContext, commandName as keyof SphinxContext)
-      })
+      makeCLI(args, sphinxContext)
 
-      it(`${commandName}: --sig 'deploy(uint256,uint256)' 123 321`, () => {
-        const sig = ["'deploy(uint256,uint256)'", '123', '321']
-        const args = [...command, '--sig', ...sig]
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(InvalidRetriesError)
+    })
 
-        makeCLI(args, sphinxContext)
+    it('--networks ethereum --resume --retries 3', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--resume',
+        '--retries',
+        '3',
+      ]
 
-        expect(spy.called).to.be.true
+      makeCLI(args, sphinxContext)
 
-        const expectedParams = {
-          sig,
-        }
+      expect(deploySpy.called).to.be.true
 
-        expect(spy.calledWithMatch(expectedParams)).to.be.true
-      })
+      const expectedParams = {
+        scriptPath,
+        networks: ['ethereum'],
+        skipPreview: false,
+        silent: false,
+        sphinxContext: sinon.match.any,
+        verify: false,
+        targetContract: undefined,
+        resume: true,
+        retries: 3,
+      }
 
-      it(`${commandName}: -s 'myScriptFunction()'`, () => {
-        const sig = ["'myScriptFunction()'"]
-        const args = [...command, '-s', ...sig]
+      expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
+    })
 
-        makeCLI(args, sphinxContext)
+    it('--networks ethereum --confirm --preview-format markdown', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--confirm',
+        '--preview-format',
+        'markdown',
+      ]
 
-        expect(spy.called).to.be.true
+      makeCLI(args, sphinxContext)
 
-        const expectedParams = {
-          sig,
-        }
+      expect(deploySpy.called).to.be.true
 
-        expect(spy.calledWithMatch(expectedParams)).to.be.true
-      })
+      const expectedParams = {
+        scriptPath,
+        networks: ['ethereum'],
+        skipPreview: true,
+        silent: false,
+        sphinxContext: sinon.match.any,
+        verify: false,
+        targetContract: undefined,
+        previewFormat: 'markdown',
+      }
 
-      // Checks that Yargs always uses strings as parameters to `--sig`, which ensures that the
-      // arguments aren't prone to JavaScript's precision loss issues for large numbers.
-      it(`${commandName}: --sig uses string arguments`, () => {
-        const bigNumber = BigInt(2 ^ 255)
-        const sig = ["'myScriptFunction(uint256)'", bigNumber.toString()]
-        const args = [...command, scriptPath, '-s', ...sig]
+      expect(deploySpy.calledWithMatch(expectedParams)).to.be.true
+    })
 
-        makeCLI(args, sphinxContext)
+    it('--networks ethereum --gas-price-config gas.json', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--gas-price-config',
+        'gas.json',
+      ]
 
-        expect(spy.called).to.be.true
+      makeCLI(args, sphinxContext)
 
-        const expectedParams = {
-          sig,
-        }
+      expect(deploySpy.calledWithMatch({ gasPriceConfigPath: 'gas.json' })).to
+        .be.true
+    })
 
-        expect(spy.calledWithMatch(expectedParams)).to.be.true
-      })
-    }
-  })
+    it('--networks ethereum --confirmation-timeout 120', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--confirmation-timeout',
+        '120',
+      ]
 
-  describe('artifacts', () => {
-    let fetchArtifactsSpy: sinon.SinonStub
+      makeCLI(args, sphinxContext)
 
-    beforeEach(() => {
-      fetchArtifactsSpy = sinon.stub(sphinxContext, 'fetchRemoteArtifacts')
+      expect(deploySpy.calledWithMatch({ confirmationTimeout: 120 })).to.be.true
     })
 
-    it('fails if no org-id defined', async () => {
-      const args = ['artifacts', '--project-name', 'test_project']
+    it('fails if --confirmation-timeout is not positive', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--confirmation-timeout',
+        '0',
+      ]
 
       makeCLI(args, sphinxContext)
 
       expect(exitSpy.calledWith(1)).to.be.true
       expect(consoleErrorSpy.called).to.be.true
       expect(consoleErrorSpy.firstCall.args[0]).to.include(
-        'Missing required argument: org-id'
+        InvalidConfirmationTimeoutError
       )
     })
 
-    it('fails if no project-name defined', async () => {
-      const args = ['artifacts', '--org-id', 'test_id']
-
-      makeCLI(args, sphinxContext)
-
-      expect(exitSpy.calledWith(1)).to.be.true
-      expect(consoleErrorSpy.called).to.be.true
+    it('--networks ethereum --max-cost 0.5', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--max-cost',
+        '0.5',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(deploySpy.calledWithMatch({ maxCost: '0.5' })).to.be.true
+    })
+
+    it('fails if --max-cost is not an amount', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--max-cost',
+        'lots',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(InvalidMaxCostError)
+    })
+
+    it('--networks ethereum optimism --concurrency 2', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        'optimism',
+        '--concurrency',
+        '2',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(deploySpy.calledWithMatch({ concurrency: 2 })).to.be.true
+    })
+
+    it('defaults to a concurrency of one', () => {
+      const args = ['deploy', scriptPath, '--networks', 'ethereum']
+
+      makeCLI(args, sphinxContext)
+
+      expect(deploySpy.calledWithMatch({ concurrency: 1 })).to.be.true
+    })
+
+    it('--networks ethereum --progress-format json', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--progress-format',
+        'json',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(deploySpy.calledWithMatch({ progressFormat: 'json' })).to.be.true
+    })
+
+    it('--networks ethereum --remote-signer http://localhost:8550 --remote-signer-api clef', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--remote-signer',
+        'http://localhost:8550',
+        '--remote-signer-api',
+        'clef',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        deploySpy.calledWithMatch({
+          signerOptions: {
+            remoteSignerUrl: 'http://localhost:8550',
+            remoteSignerApi: 'clef',
+          },
+        })
+      ).to.be.true
+    })
+
+    it('--networks ethereum --keystore keystore.json', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--keystore',
+        'keystore.json',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        deploySpy.calledWithMatch({
+          signerOptions: { keystorePath: 'keystore.json' },
+        })
+      ).to.be.true
+    })
+
+    it('fails if --remote-signer and --keystore are both specified', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--remote-signer',
+        'http://localhost:8550',
+        '--keystore',
+        'keystore.json',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        RemoteSignerAndKeystoreError
+      )
+    })
+
+    it('fails if --concurrency is not a positive integer', () => {
+      const args = [
+        'deploy',
+        scriptPath,
+        '--networks',
+        'ethereum',
+        '--concurrency',
+        '0',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        InvalidConcurrencyError
+      )
+    })
+  })
+
+  // Tests CLI parameters shared by the Deploy and Propose commands to reduce the amount of
+  // duplication in this test suite.
+  describe('deploy and propose', () => {
+    const deployBaseCommand = ['deploy', scriptPath, '--networks', 'ethereum']
+    const proposeBaseCommand = ['propose', scriptPath, '--networks', 'testnets']
+    for (const command of [deployBaseCommand, proposeBaseCommand]) {
+      const commandName = command[0]
+
+      let spy: sinon.SinonStub
+
+      beforeEach(() => {
+        spy = sinon.stub(sphinxContext, commandName as keyof SphinxContext)
+      })
+
+      it(`${commandName}: --sig 'deploy(uint256,uint256)' 123 321`, () => {
+        const sig = ["'deploy(uint256,uint256)'", '123', '321']
+        const args = [...command, '--sig', ...sig]
+
+        makeCLI(args, sphinxContext)
+
+        expect(spy.called).to.be.true
+
+        const expectedParams = {
+          sig,
+        }
+
+        expect(spy.calledWithMatch(expectedParams)).to.be.true
+      })
+
+      it(`${commandName}: -s 'myScriptFunction()'`, () => {
+        const sig = ["'myScriptFunction()'"]
+        const args = [...command, '-s', ...sig]
+
+        makeCLI(args, sphinxContext)
+
+        expect(spy.called).to.be.true
+
+        const expectedParams = {
+          sig,
+        }
+
+        expect(spy.calledWithMatch(expectedParams)).to.be.true
+      })
+
+      // Checks that Yargs always uses strings as parameters to `--sig`, which ensures that the
+      // arguments aren't prone to JavaScript's precision loss issues for large numbers.
+      it(`${commandName}: --sig uses string arguments`, () => {
+        const bigNumber = BigInt(2 ^ 255)
+        const sig = ["'myScriptFunction(uint256)'", bigNumber.toString()]
+        const args = [...command, scriptPath, '-s', ...sig]
+
+        makeCLI(args, sphinxContext)
+
+        expect(spy.called).to.be.true
+
+        const expectedParams = {
+          sig,
+        }
+
+        expect(spy.calledWithMatch(expectedParams)).to.be.true
+      })
+
+      it(`${commandName}: --out bundle.json`, () => {
+        const args = [...command, '--out', 'bundle.json']
+
+        makeCLI(args, sphinxContext)
+
+        expect(spy.calledWithMatch({ outFilePath: 'bundle.json' })).to.be.true
+      })
+
+      it(`${commandName}: --append-script script/Periphery.s.sol 'deploy(uint256)' 123 --append-script script/Other.s.sol:Other`, () => {
+        const args = [
+          ...command,
+          '--append-script',
+          'script/Periphery.s.sol',
+          'deploy(uint256)',
+          '123',
+          '--append-script',
+          'script/Other.s.sol:Other',
+        ]
+
+        makeCLI(args, sphinxContext)
+
+        expect(
+          spy.calledWithMatch({
+            scriptPath,
+            additionalScripts: [
+              {
+                scriptPath: 'script/Periphery.s.sol',
+                targetContract: undefined,
+                sig: ['deploy(uint256)', '123'],
+              },
+              { scriptPath: 'script/Other.s.sol', targetContract: 'Other' },
+            ],
+          })
+        ).to.be.true
+      })
+
+      it(`${commandName}: no additional scripts by default`, () => {
+        makeCLI(command, sphinxContext)
+
+        expect(spy.calledWithMatch({ additionalScripts: [] })).to.be.true
+      })
+
+      it(`${commandName}: fails if --append-script doesn't start with a script path`, () => {
+        const args = [...command, '--append-script', 'deploy(uint256)', '123']
+
+        makeCLI(args, sphinxContext)
+
+        expect(spy.called).to.be.false
+        expect(consoleErrorSpy.firstCall.args[0]).to.include(
+          InvalidAppendScriptError
+        )
+      })
+    }
+  })
+
+  describe('artifacts', () => {
+    let fetchArtifactsSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      fetchArtifactsSpy = sinon.stub(sphinxContext, 'fetchRemoteArtifacts')
+    })
+
+    it('fails if no org-id defined', async () => {
+      const args = ['artifacts', '--project-name', 'test_project']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Missing required argument: org-id'
+      )
+    })
+
+    it('fails if no project-name defined', async () => {
+      const args = ['artifacts', '--org-id', 'test_id']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
       expect(consoleErrorSpy.firstCall.args[0]).to.include(
         'Missing required argument: project-name'
       )
@@ -521,4 +1012,771 @@ describe('CLI Commands', () => {
       ).to.be.true
     })
   })
+
+  describe('artifacts recover', () => {
+    let recoverArtifactsSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      recoverArtifactsSpy = sinon.stub(sphinxContext, 'recoverArtifacts')
+    })
+
+    it('fails if no networks are defined', async () => {
+      makeCLI(['artifacts', 'recover'], sphinxContext)
+
+      expect(recoverArtifactsSpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Missing required argument: networks'
+      )
+    })
+
+    it('fails if testnets is specified', async () => {
+      makeCLI(['artifacts', 'recover', '--networks', 'testnets'], sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        NetworkGroupsNotSupportedError
+      )
+    })
+
+    it('does not require the options of the artifacts command', async () => {
+      makeCLI(
+        ['artifacts', 'recover', '--networks', 'sepolia', 'optimism'],
+        sphinxContext
+      )
+
+      expect(consoleErrorSpy.called).to.be.false
+      expect(
+        recoverArtifactsSpy.calledWithMatch({
+          networks: ['sepolia', 'optimism'],
+          silent: false,
+        })
+      ).to.be.true
+    })
+  })
+
+  describe('cancel', () => {
+    const merkleRoot = '0x' + 'ab'.repeat(32)
+
+    let cancelSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      cancelSpy = sinon.stub(sphinxContext, 'cancel')
+    })
+
+    it('fails if no Merkle root is included', () => {
+      const args = ['cancel', '--script', scriptPath, '--networks', 'sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Not enough non-option arguments: got 0, need at least 1'
+      )
+    })
+
+    it('fails if the Merkle root is invalid', () => {
+      const args = [
+        'cancel',
+        '0x1234',
+        '--script',
+        scriptPath,
+        '--networks',
+        'sepolia',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        InvalidMerkleRootError
+      )
+    })
+
+    it('fails if no --script is provided', () => {
+      const args = ['cancel', merkleRoot, '--networks', 'sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      expect(cancelSpy.called).to.be.false
+      expect(consoleErrorSpy.called).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Missing required argument: script'
+      )
+    })
+
+    it('fails if a network name is duplicated', () => {
+      const args = [
+        'cancel',
+        merkleRoot,
+        '--script',
+        scriptPath,
+        '--networks',
+        'sepolia',
+        'sepolia',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        getDuplicatedNetworkErrorMessage(['sepolia'])
+      )
+    })
+
+    it('fails if --silent is specified without --confirm', () => {
+      const args = [
+        'cancel',
+        merkleRoot,
+        '--script',
+        scriptPath,
+        '--networks',
+        'sepolia',
+        '--silent',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        `If you specify '--silent', you must also specify '--confirm' to confirm the cancellation.`
+      )
+    })
+
+    it('--networks sepolia optimism_sepolia', () => {
+      const args = [
+        'cancel',
+        merkleRoot,
+        '--script',
+        scriptPath,
+        '--networks',
+        'sepolia',
+        'optimism_sepolia',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(cancelSpy.called).to.be.true
+
+      const expectedParams = {
+        merkleRoot,
+        networks: ['sepolia', 'optimism_sepolia'],
+        scriptPath,
+        confirm: false,
+        propose: false,
+        silent: false,
+        sphinxContext: sinon.match.any,
+        targetContract: undefined,
+      }
+
+      expect(cancelSpy.calledWithMatch(expectedParams)).to.be.true
+    })
+
+    it('--networks testnets --propose --confirm', () => {
+      const args = [
+        'cancel',
+        merkleRoot,
+        '--script',
+        scriptPath,
+        '--networks',
+        'testnets',
+        '--propose',
+        '--confirm',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      const expectedParams = {
+        merkleRoot,
+        networks: ['testnets'],
+        scriptPath,
+        confirm: true,
+        propose: true,
+        silent: false,
+        sphinxContext: sinon.match.any,
+        targetContract: undefined,
+      }
+
+      expect(cancelSpy.calledWithMatch(expectedParams)).to.be.true
+    })
+  })
+
+  describe('status', () => {
+    const merkleRoot = '0x' + 'ab'.repeat(32)
+    const moduleAddress = '0x' + '11'.repeat(20)
+    const artifact = 'deployments/project/sepolia/execution/0x1234.json'
+
+    let statusSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      statusSpy = sinon.stub(sphinxContext, 'status')
+    })
+
+    it('fails if neither a Merkle root nor --artifact is provided', () => {
+      const args = ['status', '--networks', 'sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        StatusMissingArgsError
+      )
+    })
+
+    it('fails if a Merkle root is provided without --module-address', () => {
+      const args = ['status', merkleRoot, '--networks', 'sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        StatusMissingArgsError
+      )
+    })
+
+    it('fails if both a Merkle root and --artifact are provided', () => {
+      const args = [
+        'status',
+        merkleRoot,
+        '--artifact',
+        artifact,
+        '--networks',
+        'sepolia',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        StatusArtifactConflictError
+      )
+    })
+
+    it('fails if --networks testnets is provided', () => {
+      const args = ['status', '--artifact', artifact, '--networks', 'testnets']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        `'testnets' and 'mainnets' are not supported by this command.`
+      )
+    })
+
+    it('<merkleRoot> --module-address <address> --networks sepolia optimism_sepolia', () => {
+      const args = [
+        'status',
+        merkleRoot,
+        '--module-address',
+        moduleAddress,
+        '--networks',
+        'sepolia',
+        'optimism_sepolia',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        statusSpy.calledWithMatch({
+          networks: ['sepolia', 'optimism_sepolia'],
+          json: false,
+          merkleRoot,
+          moduleAddress,
+          artifactPath: undefined,
+        })
+      ).to.be.true
+    })
+
+    it('--artifact <path> --networks sepolia --json', () => {
+      const args = [
+        'status',
+        '--artifact',
+        artifact,
+        '--networks',
+        'sepolia',
+        '--json',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        statusSpy.calledWithMatch({
+          networks: ['sepolia'],
+          json: true,
+          merkleRoot: undefined,
+          moduleAddress: undefined,
+          artifactPath: artifact,
+        })
+      ).to.be.true
+    })
+  })
+
+  describe('verify', () => {
+    const merkleRoot = '0x' + 'ab'.repeat(32)
+
+    let verifySpy: sinon.SinonStub
+
+    beforeEach(() => {
+      verifySpy = sinon.stub(sphinxContext, 'verify').returns(
+        Promise.resolve({
+          merkleRoot,
+          chainId: '11155111',
+          contracts: [],
+        })
+      )
+    })
+
+    it('fails if no --networks is provided', () => {
+      const args = ['verify']
+
+      makeCLI(args, sphinxContext)
+
+      expect(verifySpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Missing required argument: networks'
+      )
+    })
+
+    it('fails if the Merkle root is invalid', () => {
+      const args = [
+        'verify',
+        '--networks',
+        'sepolia',
+        '--merkle-root',
+        '0x1234',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        InvalidMerkleRootError
+      )
+    })
+
+    it('fails if testnets is specified', () => {
+      const args = ['verify', '--networks', 'testnets']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        NetworkGroupsNotSupportedError
+      )
+    })
+
+    it('--networks sepolia', () => {
+      const args = ['verify', '--networks', 'sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        verifySpy.calledWithMatch({
+          network: 'sepolia',
+          merkleRoot: undefined,
+        })
+      ).to.be.true
+    })
+
+    it('--networks sepolia optimism_sepolia', async () => {
+      const args = ['verify', '--networks', 'sepolia', 'optimism_sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      // Wait for the command handler to finish.
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(verifySpy.calledTwice).to.be.true
+      expect(verifySpy.firstCall.calledWithMatch({ network: 'sepolia' })).to.be
+        .true
+      expect(
+        verifySpy.secondCall.calledWithMatch({ network: 'optimism_sepolia' })
+      ).to.be.true
+    })
+
+    it('--network sepolia (deprecated)', () => {
+      const consoleWarnSpy = sinon.stub(console, 'warn')
+      const args = ['verify', '--network', 'sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      expect(verifySpy.calledWithMatch({ network: 'sepolia' })).to.be.true
+      expect(consoleWarnSpy.calledWith(DeprecatedNetworkOptionWarning)).to.be
+        .true
+    })
+
+    it('--networks sepolia --merkle-root <root>', () => {
+      const args = [
+        'verify',
+        '--networks',
+        'sepolia',
+        '--merkle-root',
+        merkleRoot,
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        verifySpy.calledWithMatch({
+          network: 'sepolia',
+          merkleRoot,
+        })
+      ).to.be.true
+    })
+
+    it('exits with a nonzero code if a contract fails to verify', async () => {
+      verifySpy.returns(
+        Promise.resolve({
+          merkleRoot,
+          chainId: '11155111',
+          contracts: [
+            {
+              contractName: 'MyContract',
+              address: '0x' + '11'.repeat(20),
+              status: 'failed',
+              message: 'Fail - Unable to verify',
+            },
+          ],
+        })
+      )
+      const args = ['verify', '--networks', 'sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      // Wait for the command handler to finish.
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(exitSpy.calledWith(1)).to.be.true
+    })
+  })
+
+  describe('preview', () => {
+    let previewSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      previewSpy = sinon.stub(sphinxContext, 'preview')
+    })
+
+    it('fails if no script path is included', () => {
+      const args = ['preview', '--networks', 'anvil']
+
+      makeCLI(args, sphinxContext)
+
+      expect(previewSpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Not enough non-option arguments: got 0, need at least 1'
+      )
+    })
+
+    it('fails if no --networks is provided', () => {
+      const args = ['preview', scriptPath]
+
+      makeCLI(args, sphinxContext)
+
+      expect(previewSpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Missing required argument: networks'
+      )
+    })
+
+    it('fails if a network name is duplicated', () => {
+      const args = ['preview', scriptPath, '--networks', 'anvil', 'anvil']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        getDuplicatedNetworkErrorMessage(['anvil'])
+      )
+    })
+
+    it('--networks anvil', () => {
+      const args = ['preview', scriptPath, '--networks', 'anvil']
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        previewSpy.calledWithMatch({
+          scriptPath,
+          networks: ['anvil'],
+          silent: false,
+          sphinxContext: sinon.match.any,
+          targetContract: undefined,
+          previewFormat: 'text',
+          outFilePath: undefined,
+        })
+      ).to.be.true
+    })
+
+    it('--networks testnets --preview-format markdown --out preview.md', () => {
+      const args = [
+        'preview',
+        scriptPath,
+        '--networks',
+        'testnets',
+        '--preview-format',
+        'markdown',
+        '--out',
+        'preview.md',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        previewSpy.calledWithMatch({
+          scriptPath,
+          networks: ['testnets'],
+          previewFormat: 'markdown',
+          outFilePath: 'preview.md',
+        })
+      ).to.be.true
+    })
+  })
+
+  describe('export', () => {
+    let exportSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      exportSpy = sinon.stub(sphinxContext, 'exportDeployment')
+    })
+
+    it('fails if no --format is provided', () => {
+      const args = ['export', scriptPath, '--networks', 'sepolia']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exportSpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Missing required argument: format'
+      )
+    })
+
+    it('fails if --format is invalid', () => {
+      const args = [
+        'export',
+        scriptPath,
+        '--networks',
+        'sepolia',
+        '--format',
+        'csv',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(exportSpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include('Invalid values:')
+    })
+
+    it('--networks sepolia optimism_sepolia --format safe-tx-builder', () => {
+      const args = [
+        'export',
+        scriptPath,
+        '--networks',
+        'sepolia',
+        'optimism_sepolia',
+        '--format',
+        'safe-tx-builder',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        exportSpy.calledWithMatch({
+          scriptPath,
+          networks: ['sepolia', 'optimism_sepolia'],
+          format: 'safe-tx-builder',
+          outDir: 'sphinx-export',
+          silent: false,
+          sphinxContext: sinon.match.any,
+          targetContract: undefined,
+        })
+      ).to.be.true
+    })
+
+    it('--networks testnets --format safe-tx-builder --out-dir batches', () => {
+      const args = [
+        'export',
+        scriptPath,
+        '--networks',
+        'testnets',
+        '--format',
+        'safe-tx-builder',
+        '--out-dir',
+        'batches',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        exportSpy.calledWithMatch({
+          networks: ['testnets'],
+          format: 'safe-tx-builder',
+          outDir: 'batches',
+        })
+      ).to.be.true
+    })
+  })
+
+  describe('sign', () => {
+    const bundlePath = 'sphinx-export/bundle.json'
+
+    let signSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      signSpy = sinon.stub(sphinxContext, 'sign')
+    })
+
+    it('fails if no bundle path is included', () => {
+      const args = ['sign']
+
+      makeCLI(args, sphinxContext)
+
+      expect(signSpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Not enough non-option arguments: got 0, need at least 1'
+      )
+    })
+
+    it('fails if --silent is specified without --confirm', () => {
+      const args = ['sign', bundlePath, '--silent']
+
+      makeCLI(args, sphinxContext)
+
+      expect(exitSpy.calledWith(1)).to.be.true
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        `If you specify '--silent', you must also specify '--confirm'`
+      )
+    })
+
+    it('sign <bundle> --out my-signature.json', () => {
+      const args = ['sign', bundlePath, '--out', 'my-signature.json']
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        signSpy.calledWithMatch({
+          bundlePath,
+          outFilePath: 'my-signature.json',
+          confirm: false,
+          silent: false,
+          sphinxContext: sinon.match.any,
+          showTypedData: false,
+        })
+      ).to.be.true
+    })
+
+    it('sign <bundle> --show-typed-data', () => {
+      const args = ['sign', bundlePath, '--show-typed-data']
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        signSpy.calledWithMatch({
+          bundlePath,
+          confirm: false,
+          silent: false,
+          showTypedData: true,
+        })
+      ).to.be.true
+    })
+  })
+
+  describe('execute', () => {
+    const bundlePath = 'sphinx-export/bundle.json'
+
+    let executeSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      executeSpy = sinon.stub(sphinxContext, 'execute')
+    })
+
+    it('fails if no --signatures is provided', () => {
+      const args = ['execute', bundlePath]
+
+      makeCLI(args, sphinxContext)
+
+      expect(executeSpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Missing required argument: signatures'
+      )
+    })
+
+    it('execute <bundle> --signatures sig1.json sig2.json --confirm', () => {
+      const args = [
+        'execute',
+        bundlePath,
+        '--signatures',
+        'sig1.json',
+        'sig2.json',
+        '--confirm',
+      ]
+
+      makeCLI(args, sphinxContext)
+
+      expect(
+        executeSpy.calledWithMatch({
+          bundlePath,
+          signaturePaths: ['sig1.json', 'sig2.json'],
+          confirm: true,
+          silent: false,
+          sphinxContext: sinon.match.any,
+        })
+      ).to.be.true
+    })
+  })
+
+  describe('tree inspect', () => {
+    const filePath = 'sphinx-export/bundle.json'
+
+    let inspectTreeSpy: sinon.SinonStub
+
+    beforeEach(() => {
+      inspectTreeSpy = sinon.stub(sphinxContext, 'inspectTree')
+    })
+
+    it('fails if no file is provided', () => {
+      makeCLI(['tree', 'inspect'], sphinxContext)
+
+      expect(inspectTreeSpy.called).to.be.false
+      expect(consoleErrorSpy.firstCall.args[0]).to.include(
+        'Not enough non-option arguments'
+      )
+    })
+
+    it('tree inspect <file>', () => {
+      makeCLI(['tree', 'inspect', filePath], sphinxContext)
+
+      expect(consoleErrorSpy.called).to.be.false
+      expect(
+        inspectTreeSpy.calledWithMatch({
+          filePath,
+          json: false,
+          configArtifactsFilePath: undefined,
+        })
+      ).to.be.true
+    })
+
+    it('tree inspect <file> --config-artifacts <path> --json', () => {
+      makeCLI(
+        [
+          'tree',
+          'inspect',
+          filePath,
+          '--config-artifacts',
+          'configArtifacts.json',
+          '--json',
+        ],
+        sphinxContext
+      )
+
+      expect(
+        inspectTreeSpy.calledWithMatch({
+          filePath,
+          json: true,
+          configArtifactsFilePath: 'configArtifacts.json',
+        })
+      ).to.be.true
+    })
+  })
 })
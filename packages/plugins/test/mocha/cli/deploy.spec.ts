@@ -1,4 +1,4 @@
-import { existsSync } from 'fs'
+import { existsSync, writeFileSync } from 'fs'
 import { rm } from 'fs/promises'
 
 import chai from 'chai'
@@ -30,13 +30,19 @@ import {
   SphinxMerkleTree,
   getGnosisSafeProxyAddress,
   parseFoundryContractArtifact,
+  remove0x,
 } from '@sphinx-labs/contracts'
 
 import * as MyContract2Artifact from '../../../out/artifacts/MyContracts.sol/MyContract2.json'
 import * as FallbackArtifact from '../../../out/artifacts/Fallback.sol/Fallback.json'
 import * as ConstructorDeploysContractParentArtifact from '../../../out/artifacts/ConstructorDeploysContract.sol/ConstructorDeploysContract.json'
 import * as ConstructorDeploysContractChildArtifact from '../../../out/artifacts/ConstructorDeploysContract.sol/DeployedInConstructor.json'
-import { deploy } from '../../../src/cli/deploy'
+import {
+  PendingDeployment,
+  deploy,
+  getPendingDeploymentPath,
+} from '../../../src/cli/deploy'
+import { getFoundryToml } from '../../../src/foundry/options'
 import {
   checkArtifacts,
   killAnvilNodes,
@@ -199,7 +205,7 @@ describe('Deploy CLI command', () => {
       const targetContract = 'Simple3'
       const firstDeployment = await deploy({
         scriptPath: forgeScriptPath,
-        network: 'sepolia',
+        networks: ['sepolia'],
         skipPreview: false,
         silent: true,
         sphinxContext: context,
@@ -253,7 +259,7 @@ describe('Deploy CLI command', () => {
 
       const secondDeployment = await deploy({
         scriptPath: forgeScriptPath,
-        network: 'sepolia',
+        networks: ['sepolia'],
         skipPreview: false,
         silent: true,
         sphinxContext: context,
@@ -348,7 +354,7 @@ describe('Deploy CLI command', () => {
       const targetContract = 'Simple1'
       const deployment = await deploy({
         scriptPath: forgeScriptPath,
-        network: 'optimism_mainnet',
+        networks: ['optimism_mainnet'],
         skipPreview: false,
         silent: true,
         sphinxContext: context,
@@ -389,7 +395,7 @@ describe('Deploy CLI command', () => {
 
       const { preview } = await deploy({
         scriptPath: emptyScriptPath,
-        network: 'sepolia',
+        networks: ['sepolia'],
         skipPreview: false,
         silent: true,
         sphinxContext: context,
@@ -402,6 +408,59 @@ describe('Deploy CLI command', () => {
       expect(existsSync(deploymentArtifactDirPath)).to.be.false
     })
   })
+
+  it('Resumes a deployment whose artifacts were written on some networks', async () => {
+    const { context } = makeMockSphinxContextForIntegrationTests([
+      'contracts/test/MyContracts.sol:MyContract2',
+    ])
+    // Use the standard `isLiveNetwork` function so that it returns false.
+    context.isLiveNetwork = isLiveNetwork
+
+    const args = {
+      scriptPath: forgeScriptPath,
+      networks: ['sepolia', 'optimism_mainnet'],
+      skipPreview: false,
+      silent: true,
+      sphinxContext: context,
+      verify: false,
+      targetContract: 'Simple3',
+    }
+    const firstDeployment = await deploy(args)
+    if (
+      !firstDeployment.deploymentConfig ||
+      !firstDeployment.deploymentArtifacts ||
+      !firstDeployment.merkleTree
+    ) {
+      throw new Error(`Object(s) undefined.`)
+    }
+
+    // Emulate a deployment that was interrupted on Optimism after its artifacts were written on
+    // Sepolia.
+    const sepoliaChainId = fetchChainIdForNetwork('sepolia').toString()
+    const { cachePath } = await getFoundryToml()
+    const pendingDeploymentPath = getPendingDeploymentPath(cachePath)
+    const pending: PendingDeployment = {
+      scriptPath: forgeScriptPath,
+      executionMode: ExecutionMode.LocalNetworkCLI,
+      deploymentConfig: firstDeployment.deploymentConfig,
+      writtenChainIds: [sepoliaChainId],
+    }
+    writeFileSync(pendingDeploymentPath, JSON.stringify(pending, null, 2))
+
+    const resumed = await deploy({ ...args, resume: true })
+
+    // The receipts on Sepolia are read from its execution artifact.
+    const sepoliaHashes = firstDeployment.deploymentArtifacts.networks[
+      sepoliaChainId
+    ].executionArtifacts[
+      `${remove0x(firstDeployment.merkleTree.root)}.json`
+    ].transactions.map(({ receipt }) => receipt.hash)
+    expect(sepoliaHashes).to.not.be.empty
+    expect(resumed.receipts?.map(({ hash }) => hash)).to.include.members(
+      sepoliaHashes
+    )
+    expect(existsSync(pendingDeploymentPath)).to.be.false
+  })
 })
 
 describe('Deployment Cases', () => {
@@ -467,7 +526,7 @@ describe('Deployment Cases', () => {
     ;({ deploymentConfig, preview, receipts, merkleTree, configArtifacts } =
       await deploy({
         scriptPath: deploymentCasesScriptPath,
-        network: 'sepolia',
+        networks: ['sepolia'],
         skipPreview: false,
         silent: true,
         sphinxContext: makeMockSphinxContextForIntegrationTests([
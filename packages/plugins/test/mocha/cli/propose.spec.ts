@@ -433,7 +433,7 @@ describe('Propose CLI command', () => {
     ])
     const { deploymentConfig } = await deploy({
       scriptPath,
-      network: 'sepolia',
+      networks: ['sepolia'],
       skipPreview: true,
       silent: true,
       sphinxContext: context,
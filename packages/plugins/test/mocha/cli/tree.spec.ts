@@ -0,0 +1,253 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { expect } from 'chai'
+import { ConfigArtifacts } from '@sphinx-labs/core'
+import {
+  CreateCallArtifact,
+  DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
+  Operation,
+  SphinxLeafType,
+  SphinxMerkleTree,
+  getCreateCallAddress,
+  makeSphinxMerkleTree,
+} from '@sphinx-labs/contracts'
+import { ethers } from 'ethers'
+
+import {
+  InspectedApproveLeaf,
+  InspectedExecuteLeaf,
+  InspectedUndecodableLeaf,
+  getBundleTreeString,
+  getTreeInspectionString,
+  inspectSphinxMerkleTree,
+  readTreeFile,
+} from '../../../src/cli/tree'
+
+const fullyQualifiedName = 'contracts/MyContract.sol:MyContract'
+const abi = [
+  'constructor(uint256 initialValue)',
+  'function setValue(uint256 newValue)',
+]
+const bytecode = '0x6080604052348015600f57600080fd5b50'
+const initCodeWithArgs = ethers.concat([
+  bytecode,
+  ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [1]),
+])
+const salt = ethers.ZeroHash
+const contractAddress = ethers.getCreate2Address(
+  DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
+  salt,
+  ethers.keccak256(initCodeWithArgs)
+)
+
+const configArtifacts = {
+  [fullyQualifiedName]: {
+    buildInfoId: 'dummyBuildInfoId',
+    artifact: {
+      abi,
+      bytecode,
+      linkReferences: {},
+    },
+  },
+} as unknown as ConfigArtifacts
+
+const makeTree = (): SphinxMerkleTree =>
+  makeSphinxMerkleTree({
+    '11155111': {
+      type: 'deployment',
+      nonce: '0',
+      executor: '0x' + '11'.repeat(20),
+      safeProxy: '0x' + '22'.repeat(20),
+      moduleProxy: '0x' + '33'.repeat(20),
+      uri: '',
+      arbitraryChain: false,
+      txs: [
+        {
+          to: DETERMINISTIC_DEPLOYMENT_PROXY_ADDRESS,
+          value: '0',
+          txData: ethers.concat([salt, initCodeWithArgs]),
+          gas: '1000000',
+          operation: Operation.Call,
+          requireSuccess: true,
+        },
+        {
+          to: contractAddress,
+          value: '0',
+          txData: new ethers.Interface(abi).encodeFunctionData('setValue', [5]),
+          gas: '100000',
+          operation: Operation.Call,
+          requireSuccess: true,
+        },
+        {
+          to: getCreateCallAddress(),
+          value: '0',
+          txData: new ethers.Interface(
+            CreateCallArtifact.abi
+          ).encodeFunctionData('performCreate', [0, initCodeWithArgs]),
+          gas: '1000000',
+          operation: Operation.DelegateCall,
+          requireSuccess: true,
+        },
+      ],
+    },
+  })
+
+describe('Tree Inspection', () => {
+  it('decodes every leaf in a Merkle tree', () => {
+    const merkleTree = makeTree()
+
+    const inspection = inspectSphinxMerkleTree(merkleTree, configArtifacts)
+
+    expect(inspection.merkleRoot).to.equal(merkleTree.root)
+    expect(inspection.verificationError).to.be.null
+    expect(inspection.chains).to.have.length(1)
+
+    const [chain] = inspection.chains
+    expect(chain.chainId).to.equal('11155111')
+    expect(chain.network).to.equal('sepolia')
+
+    const [approve, deploy, call, create] = chain.leaves as [
+      InspectedApproveLeaf,
+      InspectedExecuteLeaf,
+      InspectedExecuteLeaf,
+      InspectedExecuteLeaf
+    ]
+    expect(approve.leafType).to.equal('APPROVE')
+    expect(approve.numLeaves).to.equal('4')
+    expect(approve.arbitraryChain).to.be.false
+
+    expect(deploy.contractName).to.equal('DeterministicDeploymentProxy')
+    expect(deploy.call).to.be.null
+    expect(deploy.deployment).to.deep.equal({
+      kind: 'CREATE2',
+      fullyQualifiedName,
+      address: contractAddress,
+    })
+
+    // The contract deployed by the previous leaf is labeled.
+    expect(call.contractName).to.equal('MyContract')
+    expect(call.operation).to.equal('Call')
+    expect(call.call).to.deep.equal({
+      functionName: 'setValue',
+      variables: { newValue: '5' },
+    })
+
+    expect(create.contractName).to.equal('CreateCall')
+    expect(create.operation).to.equal('DelegateCall')
+    expect(create.deployment).to.deep.equal({
+      kind: 'CREATE',
+      fullyQualifiedName,
+      address: null,
+    })
+
+    const inspectionString = getTreeInspectionString(inspection)
+    expect(inspectionString).to.include(
+      `Deploy ${fullyQualifiedName} at ${contractAddress} using CREATE2`
+    )
+    expect(inspectionString).to.include('DelegateCall')
+  })
+
+  it('records a verification error if a leaf was modified', () => {
+    const merkleTree = makeTree()
+    merkleTree.leavesWithProofs[2].leaf.data = ethers.concat([
+      merkleTree.leavesWithProofs[2].leaf.data,
+      '0x00',
+    ])
+
+    const inspection = inspectSphinxMerkleTree(merkleTree, configArtifacts)
+
+    expect(inspection.verificationError).to.include(
+      'Invalid Sphinx Merkle tree'
+    )
+    // The leaves are still decoded.
+    expect(inspection.chains[0].leaves).to.have.length(4)
+  })
+
+  it('displays the leaves that cannot be decoded with their raw data', () => {
+    const merkleTree = makeTree()
+    const malformed = merkleTree.leavesWithProofs[2].leaf
+    malformed.data = '0x1234'
+    const unknown = merkleTree.leavesWithProofs[3].leaf
+    unknown.leafType = 7 as SphinxLeafType
+
+    const inspection = inspectSphinxMerkleTree(merkleTree, configArtifacts)
+
+    const [approve, deploy, call, create] = inspection.chains[0].leaves
+    expect(approve.leafType).to.equal('APPROVE')
+    expect(deploy.leafType).to.equal('EXECUTE')
+    expect(call).to.deep.include({
+      leafType: 'UNDECODABLE',
+      index: '2',
+      rawLeafType: '1',
+      data: '0x1234',
+    })
+    expect(create).to.deep.equal({
+      leafType: 'UNDECODABLE',
+      index: '3',
+      rawLeafType: '7',
+      data: unknown.data,
+      error: 'Unknown leaf type: 7',
+    })
+    expect((call as InspectedUndecodableLeaf).error).to.not.be.empty
+
+    const inspectionString = getTreeInspectionString(inspection)
+    expect(inspectionString).to.include('UNDECODABLE')
+    expect(inspectionString).to.include('Error: Unknown leaf type: 7')
+    expect(inspectionString).to.include(`Data: ${unknown.data}`)
+  })
+
+  it('decodes the leaves that are displayed after a bundle preview', () => {
+    const merkleTree = makeTree()
+
+    const bundleTreeString = getBundleTreeString(merkleTree, configArtifacts)
+
+    expect(bundleTreeString).to.include('Merkle Tree Leaves:')
+    expect(bundleTreeString).to.include(merkleTree.root)
+    // The labels are derived from the leaves and the config artifacts, not the network configs.
+    expect(bundleTreeString).to.include(
+      `Deploy ${fullyQualifiedName} at ${contractAddress} using CREATE2`
+    )
+  })
+
+  describe('readTreeFile', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'sphinx-tree-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('reads a Merkle tree and separate config artifacts', () => {
+      const treePath = join(dir, 'tree.json')
+      const configArtifactsPath = join(dir, 'configArtifacts.json')
+      writeFileSync(treePath, JSON.stringify(makeTree()))
+      writeFileSync(configArtifactsPath, JSON.stringify(configArtifacts))
+
+      const { merkleTree, configArtifacts: read } = readTreeFile(
+        treePath,
+        configArtifactsPath
+      )
+
+      expect(merkleTree.root).to.equal(makeTree().root)
+      // The leaves are converted back to their original types.
+      expect(merkleTree.leavesWithProofs[0].leaf.chainId).to.equal(
+        BigInt(11155111)
+      )
+      expect(read).to.deep.equal(configArtifacts)
+    })
+
+    it('throws an error if the file is not a Merkle tree', () => {
+      const filePath = join(dir, 'other.json')
+      writeFileSync(filePath, JSON.stringify({ foo: 'bar' }))
+
+      expect(() => readTreeFile(filePath)).to.throw(
+        `File is not a Merkle tree, deployment config, or deployment bundle: ${filePath}`
+      )
+    })
+  })
+})
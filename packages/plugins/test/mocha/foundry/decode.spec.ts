@@ -1,15 +1,25 @@
 import { expect } from 'chai'
 import { ConstructorFragment, ethers, parseUnits } from 'ethers'
-import { ConfigArtifacts } from '@sphinx-labs/core'
 import {
+  ActionInputType,
+  ConfigArtifacts,
+  DeploymentInfo,
+  NetworkConfig,
+} from '@sphinx-labs/core'
+import {
+  AccountAccess,
+  AccountAccessKind,
   CREATE3_PROXY_INITCODE,
   parseFoundryContractArtifact,
 } from '@sphinx-labs/contracts'
 
 import { makeAddress } from '../common'
+import { getDummyAccountAccess, getDummyNetworkConfig } from '../dummy'
 import * as MyContract1FoundryArtifact from '../../../out/artifacts/MyContracts.sol/MyContract1.json'
 import * as MyContract2FoundryArtifact from '../../../out/artifacts/MyContracts.sol/MyContract2.json'
 import {
+  assertNoCrossScriptDependencies,
+  combineNetworkConfigs,
   makeContractDecodedAction,
   makeFunctionCallDecodedAction,
 } from '../../../src/foundry/decode'
@@ -195,3 +205,237 @@ describe('Decoded Actions', () => {
     })
   })
 })
+
+describe('combineNetworkConfigs', () => {
+  const makeNetworkConfig = (numActions: number): NetworkConfig => {
+    const networkConfig = getDummyNetworkConfig()
+    const [action] = networkConfig.actionInputs
+    networkConfig.actionInputs = Array.from({ length: numActions }, (_, i) => ({
+      ...action,
+      // The index of `EXECUTE` Merkle leaves starts at 1.
+      index: (i + 1).toString(),
+      txData: ethers.toBeHex(i),
+    }))
+    return networkConfig
+  }
+
+  it('returns the network config if there is a single script', () => {
+    const networkConfig = makeNetworkConfig(2)
+
+    const combined = combineNetworkConfigs([
+      { scriptPath: 'script/Core.s.sol', networkConfig },
+    ])
+
+    expect(combined).to.equal(networkConfig)
+    expect(combined.actionInputs[0].scriptPath).to.be.undefined
+  })
+
+  it('concatenates the actions of each script with continuous indices', () => {
+    const core = makeNetworkConfig(2)
+    const periphery = makeNetworkConfig(3)
+
+    const combined = combineNetworkConfigs([
+      { scriptPath: 'script/Core.s.sol', networkConfig: core },
+      { scriptPath: 'script/Periphery.s.sol', networkConfig: periphery },
+    ])
+
+    expect(
+      combined.actionInputs.map(({ index, txData, scriptPath }) => ({
+        index,
+        txData,
+        scriptPath,
+      }))
+    ).to.deep.equal([
+      { index: '1', txData: '0x00', scriptPath: 'script/Core.s.sol' },
+      { index: '2', txData: '0x01', scriptPath: 'script/Core.s.sol' },
+      { index: '3', txData: '0x00', scriptPath: 'script/Periphery.s.sol' },
+      { index: '4', txData: '0x01', scriptPath: 'script/Periphery.s.sol' },
+      { index: '5', txData: '0x02', scriptPath: 'script/Periphery.s.sol' },
+    ])
+    expect(combined.unlabeledContracts).to.have.length(2)
+    // The original network configs aren't modified.
+    expect(periphery.actionInputs[0].index).to.equal('1')
+  })
+
+  it('throws an error if the scripts use a different Sphinx config', () => {
+    const periphery = makeNetworkConfig(1)
+    periphery.safeAddress = makeAddress(1)
+
+    expect(() =>
+      combineNetworkConfigs([
+        {
+          scriptPath: 'script/Core.s.sol',
+          networkConfig: makeNetworkConfig(1),
+        },
+        { scriptPath: 'script/Periphery.s.sol', networkConfig: periphery },
+      ])
+    ).to.throw(
+      `The scripts script/Core.s.sol and script/Periphery.s.sol have a different Gnosis Safe`
+    )
+  })
+
+  it('throws an error if a script after the first requests funds for the Safe', () => {
+    const periphery = makeNetworkConfig(1)
+    periphery.safeFundingRequest = {
+      fundsRequested: '1',
+      startingBalance: '0',
+    }
+
+    expect(() =>
+      combineNetworkConfigs([
+        {
+          scriptPath: 'script/Core.s.sol',
+          networkConfig: makeNetworkConfig(1),
+        },
+        { scriptPath: 'script/Periphery.s.sol', networkConfig: periphery },
+      ])
+    ).to.throw(
+      `Only the first script can request funds for the Gnosis Safe, but script/Periphery.s.sol requests`
+    )
+  })
+
+  it('throws an error if multiple scripts deploy contracts using CREATE', () => {
+    const core = makeNetworkConfig(1)
+    const periphery = makeNetworkConfig(1)
+    for (const networkConfig of [core, periphery]) {
+      networkConfig.actionInputs[0] = {
+        ...networkConfig.actionInputs[0],
+        actionType: ActionInputType.CREATE,
+        contractAddress: makeAddress(2),
+        initCodeWithArgs: '0x00',
+      }
+    }
+
+    expect(() =>
+      combineNetworkConfigs([
+        { scriptPath: 'script/Core.s.sol', networkConfig: core },
+        { scriptPath: 'script/Periphery.s.sol', networkConfig: periphery },
+      ])
+    ).to.throw(
+      `The scripts script/Core.s.sol and script/Periphery.s.sol both deploy contracts using CREATE`
+    )
+  })
+})
+
+describe('assertNoCrossScriptDependencies', () => {
+  const safeAddress = makeAddress(1)
+  const contractAddress = makeAddress(2)
+
+  const makeAccess = (
+    kind: AccountAccessKind,
+    account: string,
+    isWrite: boolean = false
+  ): AccountAccess => ({
+    ...getDummyAccountAccess(),
+    kind,
+    account,
+    accessor: safeAddress,
+    value: '0',
+    storageAccesses: [
+      {
+        account,
+        slot: ethers.ZeroHash,
+        isWrite,
+        previousValue: ethers.ZeroHash,
+        newValue: ethers.ZeroHash,
+        reverted: false,
+      },
+    ],
+  })
+
+  const makeScript = (
+    scriptPath: string,
+    accesses: Array<AccountAccess>
+  ): { scriptPath: string; deploymentInfo: DeploymentInfo } => ({
+    scriptPath,
+    deploymentInfo: {
+      safeAddress,
+      chainId: '1',
+      accountAccesses: accesses.map((root) => ({ root, nested: [] })),
+    } as unknown as DeploymentInfo,
+  })
+
+  it('succeeds if the scripts access independent accounts', () => {
+    expect(() =>
+      assertNoCrossScriptDependencies([
+        makeScript('script/Core.s.sol', [
+          makeAccess(AccountAccessKind.Create, contractAddress, true),
+        ]),
+        makeScript('script/Periphery.s.sol', [
+          makeAccess(AccountAccessKind.Call, makeAddress(3), true),
+        ]),
+      ])
+    ).to.not.throw()
+  })
+
+  it('succeeds if the scripts only read the same account', () => {
+    expect(() =>
+      assertNoCrossScriptDependencies([
+        makeScript('script/Core.s.sol', [
+          makeAccess(AccountAccessKind.StaticCall, contractAddress),
+        ]),
+        makeScript('script/Periphery.s.sol', [
+          makeAccess(AccountAccessKind.StaticCall, contractAddress),
+        ]),
+      ])
+    ).to.not.throw()
+  })
+
+  it('succeeds if the scripts modify the Gnosis Safe', () => {
+    expect(() =>
+      assertNoCrossScriptDependencies([
+        makeScript('script/Core.s.sol', [
+          makeAccess(AccountAccessKind.Call, safeAddress, true),
+        ]),
+        makeScript('script/Periphery.s.sol', [
+          makeAccess(AccountAccessKind.Call, safeAddress, true),
+        ]),
+      ])
+    ).to.not.throw()
+  })
+
+  it('throws an error if a script calls a contract deployed by an earlier script', () => {
+    expect(() =>
+      assertNoCrossScriptDependencies([
+        makeScript('script/Core.s.sol', [
+          makeAccess(AccountAccessKind.Create, contractAddress, true),
+        ]),
+        makeScript('script/Periphery.s.sol', [
+          makeAccess(AccountAccessKind.Call, contractAddress),
+        ]),
+      ])
+    ).to.throw(
+      `The script script/Periphery.s.sol depends on state changes made by the earlier script script/Core.s.sol\n` +
+        `on ethereum. It accesses ${contractAddress}, which script/Core.s.sol deploys or modifies.`
+    )
+  })
+
+  it('throws an error if a script reads storage written by an earlier script', () => {
+    expect(() =>
+      assertNoCrossScriptDependencies([
+        makeScript('script/Core.s.sol', [
+          makeAccess(AccountAccessKind.Call, contractAddress, true),
+        ]),
+        makeScript('script/Periphery.s.sol', [
+          makeAccess(AccountAccessKind.StaticCall, contractAddress),
+        ]),
+      ])
+    ).to.throw(`It accesses ${contractAddress}`)
+  })
+
+  it('ignores state changes that were reverted', () => {
+    expect(() =>
+      assertNoCrossScriptDependencies([
+        makeScript('script/Core.s.sol', [
+          {
+            ...makeAccess(AccountAccessKind.Call, contractAddress, true),
+            reverted: true,
+          },
+        ]),
+        makeScript('script/Periphery.s.sol', [
+          makeAccess(AccountAccessKind.StaticCall, contractAddress),
+        ]),
+      ])
+    ).to.not.throw()
+  })
+})